@@ -17,6 +17,8 @@ import Returns from './pages/Returns';
 import TimeSheet from './pages/TimeSheet';
 import ClientStatus from './pages/ClientStatus';
 import Billing from './pages/Billing';
+import ClauseLibrary from './pages/ClauseLibrary';
+import KnowledgeBase from './pages/KnowledgeBase';
 import { AuthProvider } from './contexts/AuthContext';
 import { seedDatabase } from './db';
 
@@ -52,6 +54,8 @@ const App: React.FC = () => {
             <Route path="/admin" element={<AdminSettings />} />
             <Route path="/reports" element={<Reports />} />
             <Route path="/reconciliation" element={<Reconciliation />} />
+            <Route path="/clauses" element={<ClauseLibrary />} />
+            <Route path="/knowledge-base" element={<KnowledgeBase />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
         </Layout>
@@ -1,11 +1,15 @@
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useSyncExternalStore } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { LayoutDashboard, FileText, Users, FileSpreadsheet, Settings, LogOut, Activity, Scale, Calendar, BarChart3, Clock, ClipboardCheck, Receipt } from 'lucide-react';
+import { LayoutDashboard, FileText, Users, FileSpreadsheet, Settings, LogOut, Activity, Scale, Calendar, BarChart3, Clock, ClipboardCheck, Receipt, ScanText, BookOpen, Landmark } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { checkAndGenerateNotifications } from '../db';
 import NotificationCenter from './NotificationCenter';
+import ChangePassword from '../pages/ChangePassword';
 import { UserRole } from '../types';
+import { getOcrQueueState, queuePendingOcr, subscribeOcrQueue } from '../utils/ocr';
+import { startBackupScheduler } from '../utils/backupScheduler';
+import { startCalendarFeed } from '../utils/calendarFeed';
+import { startNotificationScheduler } from '../utils/notificationEngine';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -16,10 +20,28 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const navigate = useNavigate();
   const { user, logout, isLoading } = useAuth();
 
+
+  const ocrQueue = useSyncExternalStore(subscribeOcrQueue, getOcrQueueState);
+
+  useEffect(() => {
+    // Read any stored scans that have no extracted text yet
+    if (user) queuePendingOcr();
+  }, [user]);
+
+  useEffect(() => {
+    // Automatic backups and the overdue-backup alert
+    if (user) return startBackupScheduler(user.username);
+  }, [user?.username]);
+
+  useEffect(() => {
+    // Localhost calendar subscription feed (desktop app only)
+    if (user) return startCalendarFeed();
+  }, [user?.username]);
+
   useEffect(() => {
-    // Run notification check on mount
-    checkAndGenerateNotifications();
-  }, []);
+    // Notification rules, run now and every half hour
+    if (user) return startNotificationScheduler();
+  }, [user?.username]);
 
   if (isLoading) return <div className="flex h-screen items-center justify-center">Loading...</div>;
 
@@ -32,6 +54,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
      return null;
   }
 
+  if (user.mustChangePassword) return <ChangePassword />;
+
   const navItems = [
     { icon: LayoutDashboard, label: 'Dashboard', path: '/' },
     { icon: Calendar, label: 'Calendar', path: '/calendar' },
@@ -42,6 +66,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { icon: Receipt, label: 'Billing', path: '/billing' },
     { icon: Users, label: 'Taxpayers', path: '/taxpayers' },
     { icon: Scale, label: 'Reconciliation', path: '/reconciliation' },
+    { icon: BookOpen, label: 'Clause Library', path: '/clauses' },
+    { icon: Landmark, label: 'Knowledge Base', path: '/knowledge-base' },
     { icon: Activity, label: 'Audit Logs', path: '/audit-logs' },
     { icon: FileSpreadsheet, label: 'Reports', path: '/reports' },
   ];
@@ -113,6 +139,13 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               'GST Nexus')}
           </h1>
           <div className="flex items-center gap-6">
+             {ocrQueue.current && (
+                <div className="flex items-center gap-2 text-xs text-slate-500" title={ocrQueue.current.fileName}>
+                    <ScanText size={16} className="text-blue-500 animate-pulse"/>
+                    <span>OCR {ocrQueue.current.totalPages > 1 ? `page ${ocrQueue.current.page}/${ocrQueue.current.totalPages}` : ''} {Math.round(ocrQueue.current.progress * 100)}%</span>
+                    {ocrQueue.pending.length > 0 && <span className="bg-slate-100 px-1.5 py-0.5 rounded font-medium">+{ocrQueue.pending.length} queued</span>}
+                </div>
+             )}
              <NotificationCenter />
              
              <div className="h-6 w-px bg-gray-200"></div>
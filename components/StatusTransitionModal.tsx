@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ArrowRight, CheckCircle, Lock, X, Zap } from 'lucide-react';
+import { db } from '../db';
+import { Notice, WorkflowTransition } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { checkTransition, DEFAULT_WORKFLOWS, fieldLabel, getAvailableTransitions, getRequiredFields, prefillValues, WORKFLOW_ACTIONS, WORKFLOW_CONFIG_KEY, WORKFLOW_FIELDS, WorkflowValues } from '../utils/workflow';
+import { applyTransition } from '../utils/workflowTransitions';
+
+interface StatusTransitionModalProps {
+  notice: Notice;
+  initialStatus?: string; // Preselected target, e.g. from the contest tracker
+  onClose: () => void;
+  onDone?: (changes: Partial<Notice>) => void;
+}
+
+const StatusTransitionModal: React.FC<StatusTransitionModalProps> = ({ notice: given, initialStatus, onClose, onDone }) => {
+  const { user } = useAuth();
+  // The saved notice decides the workflow, not unsaved edits on the form
+  const stored = useLiveQuery(() => db.notices.get(given.id!), [given.id]);
+  const notice = stored || given;
+  const workflowConfig = useLiveQuery(() => db.appConfig.get({ key: WORKFLOW_CONFIG_KEY }));
+  const workflows = workflowConfig?.value || DEFAULT_WORKFLOWS;
+  const [target, setTarget] = useState(initialStatus || '');
+  const [values, setValues] = useState<WorkflowValues>(() => prefillValues(given));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const available = getAvailableTransitions(workflows, notice, user?.role);
+  const check = target ? checkTransition(workflows, notice, target, user?.role) : null;
+  const transition: WorkflowTransition | undefined = check?.transition;
+  const fields = transition ? getRequiredFields(transition) : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!user || !transition) return;
+      setIsSaving(true);
+      try {
+          const changes = await applyTransition(notice.id!, target, values, user);
+          if (changes) onDone?.(changes);
+          onClose();
+      } catch (err) {
+          alert(err instanceof Error ? err.message : String(err));
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm" onClick={e => e.stopPropagation()}>
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg p-6 animate-in zoom-in-95 max-h-[90vh] overflow-y-auto">
+              <div className="flex justify-between items-start mb-4">
+                  <div>
+                      <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><CheckCircle className="text-blue-600"/> Change Status</h3>
+                      <p className="text-xs text-slate-500 mt-1">{notice.noticeNumber} • {notice.caseType || 'No case track'} • currently <span className="font-semibold text-slate-700">{notice.status}</span></p>
+                  </div>
+                  <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+              </div>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                      {available.map(t => (
+                          <button type="button" key={t.to} onClick={() => setTarget(t.to)} className={`px-3 py-1.5 rounded-lg text-sm font-medium border flex items-center gap-1.5 transition-colors ${target === t.to ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-700 border-slate-300 hover:border-blue-400'}`}>
+                              <ArrowRight size={14}/> {t.to}
+                          </button>
+                      ))}
+                      {available.length === 0 && <p className="text-sm text-slate-500 italic">The workflow allows you no status change from "{notice.status}".</p>}
+                  </div>
+                  {check?.error && (
+                      <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 flex gap-2"><Lock size={16} className="shrink-0 mt-0.5"/> {check.error}</div>
+                  )}
+                  {transition && fields.map(field => {
+                      const def = WORKFLOW_FIELDS.find(f => f.key === field)!;
+                      const value = values[field] || '';
+                      const onChange = (v: string) => setValues(prev => ({ ...prev, [field]: v }));
+                      return (
+                          <div key={field}>
+                              <label className="block text-sm font-medium text-slate-700 mb-1">{fieldLabel(field)} <span className="text-red-500">*</span></label>
+                              {def.kind === 'textarea'
+                                  ? <textarea required rows={3} value={value} onChange={e => onChange(e.target.value)} className="w-full p-2.5 border border-slate-300 rounded-lg text-sm"/>
+                                  : <input required type={def.kind} value={value} onChange={e => onChange(e.target.value)} className="w-full p-2.5 border border-slate-300 rounded-lg text-sm"/>}
+                          </div>
+                      );
+                  })}
+                  {transition && transition.actions.length > 0 && (
+                      <div className="p-3 bg-blue-50 border border-blue-100 rounded-lg text-xs text-blue-800 space-y-1">
+                          {transition.actions.map(a => {
+                              const action = WORKFLOW_ACTIONS.find(x => x.key === a);
+                              return <p key={a} className="flex gap-1.5"><Zap size={12} className="shrink-0 mt-0.5"/> <span><strong>{action?.label}</strong>: {action?.description}</span></p>;
+                          })}
+                      </div>
+                  )}
+                  <div className="flex justify-end gap-3 pt-2">
+                      <button type="button" onClick={onClose} className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50">Cancel</button>
+                      <button type="submit" disabled={!transition || isSaving} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 shadow-sm disabled:opacity-50">
+                          {target ? `Move to ${target}` : 'Choose a status'}
+                      </button>
+                  </div>
+              </form>
+          </div>
+      </div>
+  );
+};
+
+export default StatusTransitionModal;
@@ -1,64 +1,225 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { User, PermissionType, DEFAULT_ROLE_PERMISSIONS } from '../types';
+import { User, PermissionType, DEFAULT_ROLE_PERMISSIONS, SecurityPolicy, AuditLog } from '../types';
+import { DEFAULT_SECURITY_POLICY, generateSessionToken, hashPassword, isHashedPassword, validateNewPassword, verifyPassword } from '../utils/security';
+import { isDatabaseUnlocked, isEncryptionEnabled, lockDatabase, unlockDatabase } from '../utils/encryption';
+
+export interface LoginResult {
+  success: boolean;
+  error?: string;
+}
 
 interface AuthContextType {
   user: User | null;
-  login: (username: string, passwordHash: string) => Promise<boolean>;
+  login: (username: string, password: string, passphrase?: string) => Promise<LoginResult>;
   logout: () => void;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<LoginResult>;
   isLoading: boolean;
+  sessionMessage: string; // Why the last session ended (shown on the login screen)
   checkPermission: (permission: PermissionType) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const SESSION_STORAGE_KEY = 'gst_nexus_session';
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'];
+const ACTIVITY_PERSIST_MS = 60 * 1000; // Throttle for writing lastActivityAt
+const SESSION_CHECK_MS = 30 * 1000;
+
+const getSecurityPolicy = async (): Promise<SecurityPolicy> => {
+  const config = await db.appConfig.get({ key: 'security_policy' });
+  return { ...DEFAULT_SECURITY_POLICY, ...(config?.value || {}) };
+};
+
+const logAuth = (entityId: number | string, action: AuditLog['action'], username: string, details: string) => {
+  return db.auditLogs.add({ entityType: 'Auth', entityId, action, timestamp: new Date().toISOString(), user: username, details });
+};
+
+// The hash never leaves the database
+const toSessionUser = (u: User): User => ({ ...u, passwordHash: '' });
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionMessage, setSessionMessage] = useState('');
+  const lastActivityRef = useRef(Date.now());
+  const lastPersistRef = useRef(0);
 
   // Load permission configurations dynamically
   const permissionConfigs = useLiveQuery(() => db.appConfig.where('key').startsWith('perm:').toArray());
 
-  useEffect(() => {
-    // Check local storage for session (simple persistence)
-    const storedUser = localStorage.getItem('gst_nexus_user');
-    if (storedUser) {
-      setUser(JSON.parse(storedUser));
-    }
-    setIsLoading(false);
+  const endSession = useCallback(async (reason?: string) => {
+    const token = localStorage.getItem(SESSION_STORAGE_KEY);
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    if (token) await db.sessions.where('token').equals(token).delete();
+    lockDatabase();
+    setUser(null);
+    setSessionMessage(reason || '');
   }, []);
 
-  const login = async (username: string, passwordHash: string) => {
-    // In a real app, hash the input password before comparing
+  useEffect(() => {
+    // Restore the session from its token; the user record is always re-read from the database
+    const restore = async () => {
+      try {
+        const token = localStorage.getItem(SESSION_STORAGE_KEY);
+        if (!token) return;
+        const session = await db.sessions.where('token').equals(token).first();
+        const policy = await getSecurityPolicy();
+        const now = Date.now();
+        const idleLimit = session ? new Date(session.lastActivityAt).getTime() + policy.idleTimeoutMinutes * 60000 : 0;
+        if (!session || now > new Date(session.expiresAt).getTime() || now > idleLimit) {
+          await endSession(session ? 'Your session has expired. Please sign in again.' : '');
+          return;
+        }
+        const stored = await db.users.get(session.userId);
+        if (!stored || !stored.isActive) {
+          await endSession();
+          return;
+        }
+        // Keys are never persisted, so a reload needs the passphrase again
+        if (!isDatabaseUnlocked()) {
+          await endSession('Enter the master passphrase to unlock the encrypted data.');
+          return;
+        }
+        lastActivityRef.current = now;
+        await db.sessions.update(session.id!, { lastActivityAt: new Date(now).toISOString() });
+        setUser(toSessionUser(stored));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    restore();
+    // Drop the user record persisted by older versions
+    localStorage.removeItem('gst_nexus_user');
+  }, [endSession]);
+
+  // Idle timeout and absolute expiry while the app stays open
+  useEffect(() => {
+    if (!user) return;
+    const onActivity = () => {
+      lastActivityRef.current = Date.now();
+      if (lastActivityRef.current - lastPersistRef.current > ACTIVITY_PERSIST_MS) {
+        lastPersistRef.current = lastActivityRef.current;
+        const token = localStorage.getItem(SESSION_STORAGE_KEY);
+        if (token) db.sessions.where('token').equals(token).modify({ lastActivityAt: new Date().toISOString() });
+      }
+    };
+    const check = async () => {
+      const token = localStorage.getItem(SESSION_STORAGE_KEY);
+      const session = token ? await db.sessions.where('token').equals(token).first() : undefined;
+      const policy = await getSecurityPolicy();
+      const now = Date.now();
+      const idle = now - lastActivityRef.current > policy.idleTimeoutMinutes * 60000;
+      const expired = !session || now > new Date(session.expiresAt).getTime();
+      if (idle || expired) {
+        await logAuth(user.id || 0, 'SessionExpired', user.username, idle ? `Signed out after ${policy.idleTimeoutMinutes} minutes of inactivity` : 'Session reached its maximum duration');
+        await endSession(idle ? 'You were signed out due to inactivity.' : 'Your session has expired. Please sign in again.');
+      }
+    };
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, onActivity, { passive: true }));
+    const timer = window.setInterval(check, SESSION_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, onActivity));
+      window.clearInterval(timer);
+    };
+  }, [user, endSession]);
+
+  const login = async (username: string, password: string, passphrase = ''): Promise<LoginResult> => {
     const foundUser = await db.users.where('username').equals(username).first();
-    
-    if (foundUser && foundUser.passwordHash === passwordHash && foundUser.isActive) {
-      setUser(foundUser);
-      localStorage.setItem('gst_nexus_user', JSON.stringify(foundUser));
-      
-      // Log login
-      await db.auditLogs.add({
-          entityType: 'Auth',
-          entityId: foundUser.id || 0,
-          action: 'Login',
-          timestamp: new Date().toISOString(),
-          user: foundUser.username,
-          details: 'User logged in'
-      });
-      return true;
+    const policy = await getSecurityPolicy();
+    const invalid: LoginResult = { success: false, error: 'Invalid username or password' };
+
+    if (!foundUser) {
+      await logAuth(0, 'LoginFailed', username, 'Unknown username');
+      return invalid;
     }
-    return false;
+
+    if (foundUser.lockedUntil && new Date(foundUser.lockedUntil).getTime() > Date.now()) {
+      await logAuth(foundUser.id || 0, 'LoginFailed', username, 'Login attempted while account is locked');
+      return { success: false, error: `Account locked after repeated failed attempts. Try again after ${new Date(foundUser.lockedUntil).toLocaleTimeString()}.` };
+    }
+
+    if (!(await verifyPassword(password, foundUser.passwordHash))) {
+      const attempts = (foundUser.failedLoginAttempts || 0) + 1;
+      if (attempts >= policy.maxFailedAttempts) {
+        const lockedUntil = new Date(Date.now() + policy.lockoutMinutes * 60000).toISOString();
+        await db.users.update(foundUser.id!, { failedLoginAttempts: 0, lockedUntil });
+        await logAuth(foundUser.id || 0, 'Lockout', username, `Account locked for ${policy.lockoutMinutes} minutes after ${attempts} failed attempts`);
+        return { success: false, error: `Too many failed attempts. Account locked for ${policy.lockoutMinutes} minutes.` };
+      }
+      await db.users.update(foundUser.id!, { failedLoginAttempts: attempts });
+      await logAuth(foundUser.id || 0, 'LoginFailed', username, `Wrong password (attempt ${attempts} of ${policy.maxFailedAttempts})`);
+      return invalid;
+    }
+
+    if (!foundUser.isActive) {
+      await logAuth(foundUser.id || 0, 'LoginFailed', username, 'Login attempted on a deactivated account');
+      return { success: false, error: 'This account has been deactivated.' };
+    }
+
+    if (isEncryptionEnabled() && !(await unlockDatabase(passphrase))) {
+      await logAuth(foundUser.id || 0, 'LoginFailed', username, 'Wrong master passphrase');
+      return { success: false, error: 'The master passphrase is incorrect.' };
+    }
+
+    const now = new Date();
+    await db.users.update(foundUser.id!, {
+      failedLoginAttempts: 0,
+      lockedUntil: undefined,
+      lastLoginAt: now.toISOString(),
+      // Rows created before hashing are upgraded on their first successful login
+      ...(isHashedPassword(foundUser.passwordHash) ? {} : { passwordHash: await hashPassword(password) })
+    });
+
+    const token = generateSessionToken();
+    await db.sessions.add({
+      token,
+      userId: foundUser.id!,
+      createdAt: now.toISOString(),
+      lastActivityAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + policy.absoluteTimeoutHours * 3600000).toISOString()
+    });
+    localStorage.setItem(SESSION_STORAGE_KEY, token);
+    lastActivityRef.current = now.getTime();
+    setSessionMessage('');
+    setUser(toSessionUser({ ...foundUser, lastLoginAt: now.toISOString() }));
+
+    // Log login
+    await logAuth(foundUser.id || 0, 'Login', foundUser.username, 'User logged in');
+    return { success: true };
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<LoginResult> => {
+    if (!user) return { success: false, error: 'Not signed in.' };
+    const stored = await db.users.get(user.id!);
+    if (!stored || !(await verifyPassword(currentPassword, stored.passwordHash))) {
+      return { success: false, error: 'Current password is incorrect.' };
+    }
+    const policyError = validateNewPassword(newPassword, stored.username);
+    if (policyError) return { success: false, error: policyError };
+    if (await verifyPassword(newPassword, stored.passwordHash)) {
+      return { success: false, error: 'New password must be different from the current one.' };
+    }
+
+    const changedAt = new Date().toISOString();
+    await db.users.update(stored.id!, { passwordHash: await hashPassword(newPassword), mustChangePassword: false, passwordChangedAt: changedAt });
+    // Other sessions of this user are signed out
+    const token = localStorage.getItem(SESSION_STORAGE_KEY);
+    await db.sessions.where('userId').equals(stored.id!).filter(s => s.token !== token).delete();
+    await logAuth(stored.id!, 'PasswordChange', stored.username, 'User changed own password');
+    setUser(toSessionUser({ ...stored, mustChangePassword: false, passwordChangedAt: changedAt }));
+    return { success: true };
   };
 
   const logout = () => {
-    setUser(null);
-    localStorage.removeItem('gst_nexus_user');
+    if (user) logAuth(user.id || 0, 'Logout', user.username, 'User logged out');
+    endSession();
   };
 
   const checkPermission = (permission: PermissionType): boolean => {
       if (!user) return false;
-      
+
       // Use dynamic DB permissions if available, otherwise fall back to defaults
       if (permissionConfigs && permissionConfigs.length > 0) {
           const roleConfig = permissionConfigs.find(c => c.key === `perm:${user.role}`);
@@ -73,7 +234,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading, checkPermission }}>
+    <AuthContext.Provider value={{ user, login, logout, changePassword, isLoading, sessionMessage, checkPermission }}>
       {children}
     </AuthContext.Provider>
   );
@@ -85,4 +246,4 @@ export const useAuth = () => {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
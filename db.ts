@@ -1,6 +1,14 @@
 
 import Dexie, { Table } from 'dexie';
-import { Taxpayer, Notice, PaymentLog, AuditLog, TeamTimeSheet, DocumentMeta, RiskLevel, NoticeStatus, User, Notification, AppConfig, UserRole, NoticeDefect, ReconciliationRecord, DEFAULT_ROLE_PERMISSIONS, Hearing, ReturnRecord, Invoice, InvoiceStatus, HearingStatus } from './types';
+import { Taxpayer, Notice, PaymentLog, AuditLog, TeamTimeSheet, DocumentMeta, RiskLevel, NoticeStatus, User, Notification, AppConfig, UserRole, NoticeDefect, ReconciliationRecord, DEFAULT_ROLE_PERMISSIONS, Hearing, ReturnRecord, AnnualReturnRecord, Invoice, InvoiceStatus, HearingStatus, AppealProceeding, Session, ReplyTemplate, ReplyDraft, ReplyClause, LegalAuthority, AuthorityCitation } from './types';
+import { DEFAULT_LIMITATION_CONFIG } from './utils/limitation';
+import { backfillExcessItc } from './utils/interest';
+import { DEFAULT_SECURITY_POLICY, hashPassword, isHashedPassword } from './utils/security';
+import { installEncryption } from './utils/encryption';
+import { DEFAULT_REPLY_TEMPLATES } from './utils/replyTemplates';
+import { DEFAULT_REPLY_CLAUSES } from './utils/clauseLibrary';
+import { DEFAULT_WORKFLOWS, WORKFLOW_CONFIG_KEY } from './utils/workflow';
+import { DEFAULT_NOTIFICATION_RULES, NOTIFICATION_RULES_KEY } from './utils/notificationRules';
 
 export class GSTDatabase extends Dexie {
   taxpayers!: Table<Taxpayer>;
@@ -16,12 +24,20 @@ export class GSTDatabase extends Dexie {
   reconciliations!: Table<ReconciliationRecord>;
   hearings!: Table<Hearing>;
   returns!: Table<ReturnRecord>;
+  annualReturns!: Table<AnnualReturnRecord>;
   invoices!: Table<Invoice>;
+  appeals!: Table<AppealProceeding>;
+  sessions!: Table<Session>;
+  replyTemplates!: Table<ReplyTemplate>;
+  replyDrafts!: Table<ReplyDraft>;
+  replyClauses!: Table<ReplyClause>;
+  authorities!: Table<LegalAuthority>;
+  authorityCitations!: Table<AuthorityCitation>;
 
   constructor() {
     super('GSTNexusDB');
     
-    (this as any).version(17).stores({
+    (this as any).version(19).stores({
       taxpayers: '++id, &gstin, tradeName, status',
       notices: '++id, gstin, noticeNumber, arn, noticeType, caseType, status, dueDate, riskLevel, assignedTo, hearingDate, lastCheckedDate, linkedCaseId, budgetedHours',
       payments: '++id, noticeId, defectId, challanNumber, paymentDate, majorHead',
@@ -35,27 +51,59 @@ export class GSTDatabase extends Dexie {
       reconciliations: '++id, gstin, noticeId, type, financialYear',
       hearings: '++id, noticeId, date, status',
       returns: '++id, gstin, returnType, period, financialYear',
-      invoices: '++id, invoiceNumber, gstin, date, status'
+      invoices: '++id, invoiceNumber, gstin, date, status',
+      appeals: '++id, noticeId, parentAppealId, forum, status',
+      sessions: '++id, &token, userId'
     });
+    (this as any).version(20).stores({
+      annualReturns: '++id, gstin, financialYear'
+    });
+    (this as any).version(21).stores({
+      replyTemplates: '++id, name, isActive',
+      replyDrafts: '++id, noticeId, templateId'
+    });
+    (this as any).version(22).stores({
+      replyClauses: '++id, title, *defectTypes, *sections'
+    });
+    (this as any).version(23).stores({
+      authorities: '++id, kind, citation, date, *sections, *defectTypes',
+      authorityCitations: '++id, authorityId, noticeId, defectId'
+    });
+    (this as any).version(24).stores({
+      notifications: '++id, userId, isRead, createdAt, link, dedupeKey'
+    });
+    // The Sec 50(3) rate used to follow the defect type's name; existing defects keep the rate they had
+    (this as any).version(25).stores({}).upgrade((tx: any) =>
+      tx.table('defects').toCollection().modify((d: NoticeDefect) => backfillExcessItc(d))
+    );
   }
 }
 
 export const db = new GSTDatabase();
-
-const ORDER_TYPES = ['DRC-07', 'DRC-08', 'ASMT-13', 'ASMT-15', 'Appeal Order', 'Rectification Order', 'Order Passed'];
-const CONTESTED_STATUSES = ['Appeal Filed', 'Rectification Filed', 'Closed', 'Paid'];
+installEncryption(db);
 
 export const seedDatabase = async () => {
   const userCount = await db.users.count();
   if (userCount === 0) {
     await db.users.add({
       username: 'admin',
-      passwordHash: 'admin123',
+      passwordHash: await hashPassword('admin123'),
       fullName: 'System Administrator',
       role: UserRole.ADMIN,
       email: 'admin@gstnexus.com',
-      isActive: true
+      isActive: true,
+      mustChangePassword: true
     });
+  } else {
+      // Migration: hash passwords stored in plain text; the untouched seeded admin must pick a new one
+      const legacyUsers = await db.users.filter(u => !isHashedPassword(u.passwordHash)).toArray();
+      for (const u of legacyUsers) {
+          const isSeededDefault = u.username === 'admin' && u.passwordHash === 'admin123';
+          await db.users.update(u.id!, {
+              passwordHash: await hashPassword(u.passwordHash),
+              ...(isSeededDefault ? { mustChangePassword: true } : {})
+          });
+      }
   }
 
   const configCount = await db.appConfig.count();
@@ -89,7 +137,10 @@ export const seedDatabase = async () => {
           value: ['Active', 'Dormant', 'Suspended', 'Litigation Only', 'Closed']
       });
       await db.appConfig.add({ key: 'user_roles', value: [UserRole.ADMIN, UserRole.SENIOR_ASSOCIATE, UserRole.ASSOCIATE] });
-      await db.appConfig.add({ key: 'notification_reminder_days', value: 3 });
+      await db.appConfig.add({ key: NOTIFICATION_RULES_KEY, value: DEFAULT_NOTIFICATION_RULES });
+      await db.appConfig.add({ key: 'limitation_config', value: DEFAULT_LIMITATION_CONFIG });
+      await db.appConfig.add({ key: 'security_policy', value: DEFAULT_SECURITY_POLICY });
+      await db.appConfig.add({ key: WORKFLOW_CONFIG_KEY, value: DEFAULT_WORKFLOWS });
   } else {
       // Migration: Ensure new key exists for existing DBs
       const statusConfig = await db.appConfig.get({key: 'taxpayer_statuses'});
@@ -99,6 +150,29 @@ export const seedDatabase = async () => {
               value: ['Active', 'Dormant', 'Suspended', 'Litigation Only', 'Closed']
           });
       }
+      const limitationConfig = await db.appConfig.get({key: 'limitation_config'});
+      if (!limitationConfig) {
+          await db.appConfig.add({ key: 'limitation_config', value: DEFAULT_LIMITATION_CONFIG });
+      }
+      const securityPolicy = await db.appConfig.get({key: 'security_policy'});
+      if (!securityPolicy) {
+          await db.appConfig.add({ key: 'security_policy', value: DEFAULT_SECURITY_POLICY });
+      }
+      const workflows = await db.appConfig.get({key: WORKFLOW_CONFIG_KEY});
+      if (!workflows) {
+          await db.appConfig.add({ key: WORKFLOW_CONFIG_KEY, value: DEFAULT_WORKFLOWS });
+      }
+      // The single reminder setting becomes the lead time of the 'Approaching Deadline' rule
+      const notificationRules = await db.appConfig.get({key: NOTIFICATION_RULES_KEY});
+      if (!notificationRules) {
+          const reminder = await db.appConfig.get({key: 'notification_reminder_days'});
+          const reminderDays = reminder && reminder.value ? Number(reminder.value) : 3;
+          await db.appConfig.add({
+              key: NOTIFICATION_RULES_KEY,
+              value: DEFAULT_NOTIFICATION_RULES.map(r => r.id === 'notice-due-soon' ? { ...r, offsetDays: reminderDays } : r)
+          });
+          if (reminder) await db.appConfig.delete(reminder.id!);
+      }
   }
 
   const permCount = await db.appConfig.where('key').startsWith('perm:').count();
@@ -107,79 +181,14 @@ export const seedDatabase = async () => {
           await db.appConfig.add({ key: `perm:${role}`, value: perms });
       }
   }
-};
-
-export const checkAndGenerateNotifications = async () => {
-    try {
-        const today = new Date();
-        const config = await db.appConfig.get({ key: 'notification_reminder_days' });
-        const reminderDays = config && config.value ? Number(config.value) : 3;
-
-        const statusConfig = await db.appConfig.get({ key: 'overdue_excluded_statuses' });
-        const resolvedStatuses = statusConfig ? statusConfig.value : [NoticeStatus.CLOSED, NoticeStatus.FILED, NoticeStatus.APPEAL, 'Order Passed'];
-
-        const targetDate = new Date();
-        targetDate.setDate(today.getDate() + reminderDays);
-
-        const activeNotices = await db.notices
-            .filter(n => !resolvedStatuses.includes(n.status as any))
-            .toArray();
-
-        for (const notice of activeNotices) {
-            let userId: number | undefined = undefined;
-            if (notice.assignedTo) {
-                const user = await db.users.where('username').equals(notice.assignedTo).first();
-                userId = user?.id;
-            }
-
-            // 1. Due Date Checks (Standard)
-            const dueDate = new Date(notice.dueDate);
-            if (dueDate < today) {
-                await addNotification(userId, 'Notice Overdue', `Overdue: Notice ${notice.noticeNumber} was due on ${notice.dueDate}`, 'critical', `/notices/${notice.id}`);
-            } else if (dueDate <= targetDate) {
-                await addNotification(userId, 'Approaching Deadline', `Due Soon: Notice ${notice.noticeNumber} is due in ${Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 3600 * 24))} days.`, 'warning', `/notices/${notice.id}`);
-            }
 
-            // 2. Order Contest Tracker (90 Days Logic)
-            if (ORDER_TYPES.includes(notice.noticeType) && !CONTESTED_STATUSES.includes(notice.status)) {
-                const issueDate = new Date(notice.dateOfIssue);
-                const contestDeadline = new Date(issueDate);
-                contestDeadline.setDate(issueDate.getDate() + 90);
-
-                const daysRemaining = Math.ceil((contestDeadline.getTime() - today.getTime()) / (1000 * 3600 * 24));
-
-                if (daysRemaining <= 0) {
-                    await addNotification(userId, 'Order Contest Expired!', `Contest period for Order ${notice.noticeNumber} ended on ${contestDeadline.toLocaleDateString()}.`, 'critical', `/notices/${notice.id}`);
-                } else if (daysRemaining <= 15) {
-                    await addNotification(userId, 'CRITICAL: Appeal Deadline', `Only ${daysRemaining} days left to contest Order ${notice.noticeNumber}.`, 'critical', `/notices/${notice.id}`);
-                } else if (daysRemaining <= 30) {
-                    await addNotification(userId, 'Order Contest Warning', `${daysRemaining} days remaining to file Appeal/Rectification for Order ${notice.noticeNumber}.`, 'warning', `/notices/${notice.id}`);
-                }
-            }
+  if (await db.replyTemplates.count() === 0) {
+      const updatedAt = new Date().toISOString();
+      await db.replyTemplates.bulkAdd(DEFAULT_REPLY_TEMPLATES.map(t => ({ ...t, updatedAt, updatedBy: 'system' })));
+  }
 
-            // 3. SLA Breach Check
-            if (notice.lastCheckedDate) {
-                const lastChecked = new Date(notice.lastCheckedDate);
-                const daysSinceCheck = Math.floor(Math.abs(today.getTime() - lastChecked.getTime()) / (1000 * 60 * 60 * 24));
-                if (daysSinceCheck > 7) {
-                    await addNotification(userId, 'SLA Breach: Review Overdue', `Notice ${notice.noticeNumber} hasn't been reviewed for ${daysSinceCheck} days.`, 'warning', `/notices/${notice.id}`);
-                }
-            }
-        }
-    } catch (error) {
-        console.error("Error generating notifications:", error);
-    }
+  if (await db.replyClauses.count() === 0) {
+      const updatedAt = new Date().toISOString();
+      await db.replyClauses.bulkAdd(DEFAULT_REPLY_CLAUSES.map(c => ({ ...c, updatedAt, updatedBy: 'system' })));
+  }
 };
-
-async function addNotification(userId: number | undefined, title: string, message: string, type: 'info' | 'warning' | 'critical', link: string) {
-    const existing = await db.notifications
-        .where('link').equals(link)
-        .and(n => n.title === title && !n.isRead)
-        .first();
-
-    if (!existing) {
-        await db.notifications.add({
-            userId, title, message, type, link, isRead: false, createdAt: new Date().toISOString()
-        });
-    }
-}
@@ -0,0 +1,330 @@
+// Local stand-in for a GSP (GST Suvidha Provider) API, answering the endpoints used by
+// utils/gstProvider.ts so portal fetches can be exercised offline. No dependencies:
+//
+//   npm run mock:gst                 (http://127.0.0.1:4010/v1)
+//
+// In Admin Settings > API Integration pick "Local mock server". Any client ID / secret and
+// portal username are accepted; the OTP is always 575757. Data is generated from the GSTIN, so
+// the same GSTIN always returns the same filings, 2B invoices and case folder.
+//
+// Environment:
+//   MOCK_GST_PORT          port (default 4010)
+//   MOCK_GST_RATE_LIMIT    requests per minute before answering 429 (default 120)
+//   MOCK_GST_FAILURE_RATE  share of requests answered with 503, 0-1 (default 0), to exercise retries
+//   MOCK_GST_DELAY_MS      artificial latency per request (default 200)
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.MOCK_GST_PORT || '4010', 10);
+const RATE_LIMIT = parseInt(process.env.MOCK_GST_RATE_LIMIT || '120', 10);
+const FAILURE_RATE = parseFloat(process.env.MOCK_GST_FAILURE_RATE || '0');
+const DELAY_MS = parseInt(process.env.MOCK_GST_DELAY_MS || '200', 10);
+const PREFIX = '/v1';
+const OTP = '575757';
+const SESSION_MINUTES = 360;
+
+const pendingOtps = new Map(); // gstin|username -> requested at
+const sessions = new Map(); // token -> { gstin, username, expires }
+let recentRequests = [];
+
+// --- Deterministic data ---
+
+const seeded = (key) => {
+  let seed = crypto.createHash('md5').update(key).digest().readUInt32LE(0);
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pad = (n) => String(n).padStart(2, '0');
+const ddmmyyyy = (d) => `${pad(d.getDate())}-${pad(d.getMonth() + 1)}-${d.getFullYear()}`;
+const round2 = (n) => Math.round(n * 100) / 100;
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const arnFor = (rand, stateCode, month, year) =>
+  `AA${stateCode}${pad(month)}${String(year).slice(2)}${Array.from({ length: 7 }, () => Math.floor(rand() * 10)).join('')}`;
+
+// Months of the financial year whose 3B due date has passed, oldest first
+const fyMonths = (fy) => {
+  const start = parseInt(fy.slice(0, 4), 10);
+  const today = new Date();
+  const months = [];
+  for (let i = 0; i < 12; i++) {
+    const month = ((i + 3) % 12) + 1;
+    const year = month >= 4 ? start : start + 1;
+    if (new Date(year, month, 20) <= today) months.push({ month, year });
+  }
+  return months;
+};
+
+const returnStatus = (gstin, fy) => {
+  const rand = seeded(`${gstin}|status|${fy}`);
+  const stateCode = gstin.slice(0, 2);
+  const list = [];
+  for (const { month, year } of fyMonths(fy)) {
+    const retPrd = `${pad(month)}${year}`;
+    for (const [rtntype, dueDay] of [['GSTR1', 11], ['GSTR3B', 20]]) {
+      // Mostly on time, occasionally a few days late
+      const filed = new Date(year, month, dueDay - Math.floor(rand() * 4) + (rand() < 0.2 ? Math.ceil(rand() * 12) : 0));
+      list.push({ valid: 'Y', mof: 'ONLINE', dof: ddmmyyyy(filed), rtntype, ret_prd: retPrd, arn: arnFor(rand, stateCode, month, year), status: 'Filed' });
+    }
+  }
+  const start = parseInt(fy.slice(0, 4), 10);
+  const annualDue = new Date(start + 1, 11, 31);
+  if (annualDue <= new Date()) {
+    list.push({ valid: 'Y', mof: 'ONLINE', dof: ddmmyyyy(new Date(start + 1, 11, 20 + Math.floor(rand() * 10))), rtntype: 'GSTR9', ret_prd: `03${start + 1}`, arn: arnFor(rand, stateCode, 3, start + 1), status: 'Filed' });
+  }
+  return { EFiledlist: list };
+};
+
+const supplierGstin = (rand, stateCode) =>
+  `${stateCode}AA${Array.from({ length: 3 }, () => LETTERS[Math.floor(rand() * 26)]).join('')}${1000 + Math.floor(rand() * 9000)}${LETTERS[Math.floor(rand() * 26)]}1Z${Math.floor(rand() * 10)}`;
+
+const SUPPLIER_NAMES = ['Shree Ganesh Traders', 'Metro Steel Suppliers', 'Apex Logistics LLP', 'Sunrise Packaging Pvt Ltd', 'Om Sai Electricals', 'Vertex Office Solutions'];
+
+const gstr2b = (gstin, rtnprd) => {
+  const rand = seeded(`${gstin}|2b|${rtnprd}`);
+  const stateCode = gstin.slice(0, 2);
+  const month = parseInt(rtnprd.slice(0, 2), 10);
+  const year = parseInt(rtnprd.slice(2), 10);
+  const b2b = [];
+  const suppliers = 2 + Math.floor(rand() * 3);
+  for (let s = 0; s < suppliers; s++) {
+    // One supplier in three is out of state, so the statement carries IGST too
+    const interState = rand() < 0.34;
+    const ctin = supplierGstin(rand, interState ? '29' : stateCode);
+    const inv = [];
+    const count = 1 + Math.floor(rand() * 3);
+    for (let i = 0; i < count; i++) {
+      const rate = [5, 12, 18, 18, 28][Math.floor(rand() * 5)];
+      const txval = round2(10000 + rand() * 240000);
+      const tax = round2(txval * rate / 100);
+      const igst = interState ? tax : 0;
+      const cgst = interState ? 0 : round2(tax / 2);
+      const sgst = interState ? 0 : round2(tax / 2);
+      const blocked = rand() < 0.08;
+      inv.push({
+        inum: `${ctin.slice(2, 5)}/${String(year).slice(2)}-${pad(month)}/${100 + s * 10 + i}`,
+        typ: 'R',
+        dt: ddmmyyyy(new Date(year, month - 1, 1 + Math.floor(rand() * 27))),
+        val: round2(txval + tax),
+        pos: stateCode,
+        rev: 'N',
+        itcavl: blocked ? 'N' : 'Y',
+        rsn: blocked ? 'P' : '',
+        diffprcnt: 1,
+        srctyp: 'e-Invoice',
+        txval, igst, cgst, sgst, cess: 0,
+        items: [{ num: 1, rt: rate, txval, igst, cgst, sgst, cess: 0 }]
+      });
+    }
+    b2b.push({ ctin, trdnm: SUPPLIER_NAMES[Math.floor(rand() * SUPPLIER_NAMES.length)], supfildt: ddmmyyyy(new Date(year, month, 11)), supprd: rtnprd, inv });
+  }
+  return {
+    chksum: crypto.createHash('sha256').update(`${gstin}${rtnprd}`).digest('hex'),
+    data: { gstin, rtnprd, version: '1.0', gendt: ddmmyyyy(new Date(year, month, 14)), docdata: { b2b } }
+  };
+};
+
+const caseDocuments = (gstin) => {
+  const rand = seeded(`${gstin}|cases`);
+  const today = new Date();
+  const fyStart = (today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1) - 2;
+  const fy = `${fyStart}-${String((fyStart + 1) % 100).padStart(2, '0')}`;
+  const issued = new Date(today.getFullYear(), today.getMonth(), Math.max(1, today.getDate() - 10));
+  const due = new Date(issued.getTime() + 30 * 86400000);
+  const demandIssued = new Date(today.getFullYear(), today.getMonth() - 2, 5);
+  const tax = Math.round(50000 + rand() * 400000);
+  const itc = Math.round(20000 + rand() * 150000);
+  return [
+    {
+      id: `${gstin}-ASMT10`, doc_type: 'NOTICE', form: 'ASMT-10', ref_no: `ZD${gstin.slice(0, 2)}${pad(issued.getMonth() + 1)}${issued.getFullYear()}${String(Math.floor(rand() * 1e6)).padStart(6, '0')}`,
+      din: `20${issued.getFullYear() % 100}${pad(issued.getMonth() + 1)}DGGSTIN${String(Math.floor(rand() * 1e4)).padStart(4, '0')}`,
+      case_id: `AD${gstin.slice(0, 2)}${String(Math.floor(rand() * 1e10)).padStart(10, '0')}`,
+      issue_dt: ddmmyyyy(issued), due_dt: ddmmyyyy(due), period: `FY ${fy}`, section: '61',
+      description: `Scrutiny of returns for FY ${fy}: GSTR-1 vs GSTR-3B short payment and GSTR-2B vs GSTR-3B excess ITC`,
+      amount: tax + itc,
+      heads: [['Short payment (GSTR-1 vs GSTR-3B)', tax], ['Excess ITC claimed (GSTR-2B vs GSTR-3B)', itc]]
+    },
+    {
+      id: `${gstin}-DRC01`, doc_type: 'NOTICE', form: 'DRC-01', ref_no: `ZD${gstin.slice(0, 2)}${pad(demandIssued.getMonth() + 1)}${demandIssued.getFullYear()}${String(Math.floor(rand() * 1e6)).padStart(6, '0')}`,
+      din: `20${demandIssued.getFullYear() % 100}${pad(demandIssued.getMonth() + 1)}DGGSTIN${String(Math.floor(rand() * 1e4)).padStart(4, '0')}`,
+      case_id: `AD${gstin.slice(0, 2)}${String(Math.floor(rand() * 1e10)).padStart(10, '0')}`,
+      issue_dt: ddmmyyyy(demandIssued), due_dt: ddmmyyyy(new Date(demandIssued.getTime() + 30 * 86400000)), period: `FY ${fyStart - 1}-${pad(fyStart % 100)}`, section: '73',
+      description: 'Show cause notice: ITC availed on invoices from suppliers whose registration was cancelled',
+      amount: Math.round(itc * 1.6),
+      heads: [['ITC from cancelled registrations', Math.round(itc * 1.6)]]
+    }
+  ];
+};
+
+// --- Minimal single-page PDF with the notice text, so the app's PDF intake can read it ---
+
+const pdfEscape = (s) => s.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+const buildPdf = (lines) => {
+  const content = ['BT', '/F1 10 Tf', '14 TL', '50 800 Td', ...lines.map(l => `(${pdfEscape(l)}) '`), 'ET'].join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(pdf));
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`;
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf);
+};
+
+const inr = (n) => n.toLocaleString('en-IN');
+
+// Demands are split CGST / SGST, as on an intra-state notice
+const noticePdf = (gstin, doc) => {
+  const lines = [
+    'GOVERNMENT OF INDIA / STATE GOVERNMENT',
+    'GOODS AND SERVICES TAX DEPARTMENT',
+    `FORM GST ${doc.form}`,
+    `Reference No: ${doc.ref_no}`,
+    `DIN: ${doc.din}`,
+    `Date of issue: ${doc.issue_dt.replace(/-/g, '/')}`,
+    `GSTIN: ${gstin}`,
+    `Tax Period: ${doc.period.replace('FY ', '')}`,
+    '',
+    doc.form === 'ASMT-10'
+      ? 'Notice for intimating discrepancies in the return after scrutiny under section 61'
+      : 'Summary of show cause notice under section 73',
+    doc.description,
+    ''
+  ];
+  doc.heads.forEach(([label, amount], i) => {
+    lines.push(`${i + 1}. ${label}`);
+    lines.push('Head Tax Interest Penalty Fee Others Total');
+    const half = Math.round(amount / 2);
+    lines.push(`CGST ${inr(half)} 0 0 0 0 ${inr(half)}`);
+    lines.push(`SGST ${inr(amount - half)} 0 0 0 0 ${inr(amount - half)}`);
+    lines.push('');
+  });
+  lines.push(`You are requested to furnish your reply on or before ${doc.due_dt.replace(/-/g, '/')}.`);
+  lines.push('Proper Officer');
+  lines.push('Designation: Superintendent, Range-II');
+  return buildPdf(lines);
+};
+
+// --- HTTP ---
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const ok = (res, data) => send(res, 200, { status_cd: '1', data });
+const fail = (res, status, code, message, headers) => send(res, status, { status_cd: '0', error: { error_cd: code, message } }, headers);
+
+const readBody = (req) => new Promise((resolve) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try { resolve(raw ? JSON.parse(raw) : {}); } catch { resolve(null); }
+  });
+});
+
+const sessionFor = (req, gstin) => {
+  const session = sessions.get(req.headers['auth-token']);
+  if (!session || session.expires < Date.now()) return null;
+  return session.gstin === gstin ? session : null;
+};
+
+const handle = async (req, res, url) => {
+  const path = url.pathname.startsWith(PREFIX) ? url.pathname.slice(PREFIX.length) : url.pathname;
+  const gstin = String(req.headers['gstin'] || url.searchParams.get('gstin') || '').toUpperCase();
+
+  if (!req.headers['clientid'] || !req.headers['client-secret']) return fail(res, 401, 'AUTH4033', 'Invalid client credentials.');
+  if (!/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstin)) return fail(res, 400, 'RET11401', 'Invalid GSTIN.');
+
+  if (req.method === 'POST' && path === '/authenticate') {
+    const body = await readBody(req);
+    if (!body || !body.username) return fail(res, 400, 'AUTH4001', 'Username is required.');
+    const key = `${gstin}|${body.username}`;
+    if (body.action === 'OTPREQUEST') {
+      pendingOtps.set(key, Date.now());
+      return ok(res, { message: `OTP sent to the registered mobile of ${gstin}` });
+    }
+    if (body.action === 'AUTHTOKEN') {
+      if (!pendingOtps.has(key)) return fail(res, 400, 'AUTH4034', 'Request an OTP first.');
+      if (body.otp !== OTP) return fail(res, 401, 'AUTH4038', 'Invalid OTP.');
+      pendingOtps.delete(key);
+      const token = crypto.randomBytes(16).toString('hex');
+      sessions.set(token, { gstin, username: body.username, expires: Date.now() + SESSION_MINUTES * 60000 });
+      return ok(res, { auth_token: token, expiry: SESSION_MINUTES });
+    }
+    return fail(res, 400, 'AUTH4002', 'Unknown action.');
+  }
+
+  if (req.method !== 'GET') return fail(res, 405, 'GEN5001', 'Method not allowed.');
+  if (!sessionFor(req, gstin)) return fail(res, 401, 'AUTH4039', 'Session expired or invalid auth-token.');
+
+  if (path === '/returns') {
+    const fy = url.searchParams.get('fy') || '';
+    if (!/^\d{4}-\d{2}$/.test(fy)) return fail(res, 400, 'RET13509', 'Financial year must be yyyy-yy.');
+    return ok(res, returnStatus(gstin, fy));
+  }
+  if (path === '/returns/gstr2b') {
+    const rtnprd = url.searchParams.get('rtnprd') || '';
+    if (!/^(0[1-9]|1[0-2])\d{4}$/.test(rtnprd)) return fail(res, 400, 'RET2B1016', 'Return period must be MMYYYY.');
+    const month = parseInt(rtnprd.slice(0, 2), 10);
+    const year = parseInt(rtnprd.slice(2), 10);
+    if (new Date(year, month, 14) > new Date()) return fail(res, 404, 'RET2B1018', 'GSTR-2B is not generated yet for this period.');
+    return ok(res, gstr2b(gstin, rtnprd));
+  }
+  if (path === '/casefolder') {
+    return ok(res, { documents: caseDocuments(gstin).map(({ heads, ...doc }) => doc) });
+  }
+  if (path === '/casefolder/document') {
+    const doc = caseDocuments(gstin).find(d => d.id === url.searchParams.get('id'));
+    if (!doc) return fail(res, 404, 'CF1004', 'Document not found.');
+    return ok(res, { file_name: `${doc.form}_${doc.ref_no}.pdf`, content_type: 'application/pdf', content: noticePdf(gstin, doc).toString('base64') });
+  }
+  return fail(res, 404, 'GEN4004', `No endpoint ${path}.`);
+};
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, clientid, client-secret, gstin, state-cd, txn, username, auth-token');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  const now = Date.now();
+  recentRequests = recentRequests.filter(t => now - t < 60000);
+  recentRequests.push(now);
+  console.log(`${new Date().toISOString()} ${req.method} ${url.pathname} action=${url.searchParams.get('action') || '-'} txn=${req.headers['txn'] || '-'}`);
+
+  if (recentRequests.length > RATE_LIMIT) return fail(res, 429, 'GEN4029', 'Rate limit exceeded.', { 'Retry-After': '5' });
+  if (Math.random() < FAILURE_RATE) return fail(res, 503, 'GEN5003', 'Service temporarily unavailable.');
+
+  setTimeout(() => {
+    handle(req, res, url).catch(e => {
+      console.error(e);
+      fail(res, 500, 'GEN5000', 'Internal error.');
+    });
+  }, DELAY_MS);
+});
+
+// Loopback only: any client ID is accepted and CORS is open
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`GST mock API on http://127.0.0.1:${PORT}${PREFIX} (OTP ${OTP})`);
+});
@@ -1,10 +1,24 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { UserRole, ALL_PERMISSIONS, PermissionType, User } from '../types';
-import { Trash2, UserPlus, Save, Shield, Settings, Plus, X, AlertOctagon, Users, Calculator, Calendar, ToggleLeft, ToggleRight, Info, CheckCircle, Lock, Edit2, Database, Download, Upload, Globe, Key, Wifi, MapPin, List, Bell, ChevronRight, LayoutList, CheckSquare, Split, Activity } from 'lucide-react';
+import { UserRole, ALL_PERMISSIONS, PermissionType, User, LimitationConfig, LimitationExtension, LimitationExclusion, BackupSchedule, BackupRunStatus, GstApiConfig, ReplyTemplate, CaseWorkflow, WorkflowTransition, NotificationRule, NotificationEntity, NotificationCondition } from '../types';
+import { Trash2, UserPlus, Save, Shield, Settings, Plus, X, AlertOctagon, Users, Calculator, Calendar, ToggleLeft, ToggleRight, Info, CheckCircle, Lock, Edit2, Database, Download, Upload, Globe, Key, Wifi, MapPin, List, Bell, ChevronRight, LayoutList, CheckSquare, Split, Activity, Hourglass, ScanText, KeyRound, FolderOpen, Clock, FileText, GitBranch, ArrowRight, RefreshCw } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_LIMITATION_CONFIG, getAnnualReturnDueDate } from '../utils/limitation';
+import { hashPassword, validateNewPassword } from '../utils/security';
+import { getOcrQueueState, queuePendingOcr, subscribeOcrQueue } from '../utils/ocr';
+import { ENCRYPTION_CONFIG_KEY, rekeyDatabase, unlockDatabase } from '../utils/encryption';
+import { chooseBackupFolder, DEFAULT_BACKUP_SCHEDULE, getBackupSchedule, getDefaultBackupFolder, isElectron, runScheduledBackup, saveAutoBackupPassphrase, saveBackupSchedule } from '../utils/backupScheduler';
+import { applyRestore, BACKUP_FILE_EXTENSION, BACKUP_PASSPHRASE_KEY, BACKUP_STATE_KEY, BACKUP_STATUS_KEY, BackupFileInfo, BackupState, BackupType, createBackup, inspectBackupFiles, prepareRestore, RestorePlan, saveBackupFile } from '../utils/backup';
+import { DEFAULT_API_CONFIG, MOCK_BASE_URL, MOCK_OTP, getApiConfig, saveApiConfig } from '../utils/gstProvider';
+import { REPLY_MERGE_FIELDS } from '../utils/replyTemplates';
+import { DEFAULT_NOTIFICATION_RULES, describeRule, getEntityDef, newRuleId, NOTIFICATION_CONDITIONS, NOTIFICATION_ENTITIES, NOTIFICATION_RULES_KEY } from '../utils/notificationRules';
+import { NOTIFICATION_STATUS_KEY, NotificationRunStatus, previewRule, RulePreviewRow, runNotificationRules } from '../utils/notificationEngine';
+import { DEFAULT_WORKFLOWS, getWorkflow, WORKFLOW_ACTIONS, WORKFLOW_CONFIG_KEY, WORKFLOW_FIELDS } from '../utils/workflow';
+import { calculateDefectInterest, getDefectTaxPayments, applyInterestToDefect, INTEREST_RATE_EXCESS_ITC } from '../utils/interest';
+
+const MIN_PASSPHRASE_LENGTH = 12;
 
 const AdminSettings: React.FC = () => {
   const users = useLiveQuery(() => db.users.toArray());
@@ -17,17 +31,53 @@ const AdminSettings: React.FC = () => {
   const [targetDate, setTargetDate] = useState(new Date().toISOString().split('T')[0]);
   const [isTillToday, setIsTillToday] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const ocrQueue = useSyncExternalStore(subscribeOcrQueue, getOcrQueueState);
+  const ocrBacklog = useLiveQuery(async () => {
+      const docs = await db.documents.filter(d => !!d.fileData && !d.ocrText).toArray();
+      return { pending: docs.filter(d => d.ocrStatus !== 'Failed').length, failed: docs.filter(d => d.ocrStatus === 'Failed').length };
+  });
   
   // Config State
   const [newConfigInput, setNewConfigInput] = useState<Record<string, string>>({});
   const [selectedConfigKey, setSelectedConfigKey] = useState('notice_types');
-  const [reminderDays, setReminderDays] = useState(3);
+  const [newExtension, setNewExtension] = useState<LimitationExtension>({ period: '', track: '73', orderDate: '', reference: '' });
+  const [newExclusion, setNewExclusion] = useState<LimitationExclusion>({ from: '', to: '', track: 'Both', reference: '' });
+  const replyTemplates = useLiveQuery(() => db.replyTemplates.toArray());
+  const [templateForm, setTemplateForm] = useState<ReplyTemplate | null>(null);
+  const [workflowTrack, setWorkflowTrack] = useState(''); // '' = default workflow
+  const [workflowDraft, setWorkflowDraft] = useState<WorkflowTransition[] | null>(null);
+  const [ruleForm, setRuleForm] = useState<NotificationRule | null>(null);
+  const [rulePreview, setRulePreview] = useState<RulePreviewRow[] | null>(null);
+  const [isPreviewingRule, setIsPreviewingRule] = useState(false);
+  const [isRunningRules, setIsRunningRules] = useState(false);
 
   // Password Reset State
   const [showPasswordModal, setShowPasswordModal] = useState(false);
   const [selectedUserForReset, setSelectedUserForReset] = useState<User | null>(null);
   const [newPasswordInput, setNewPasswordInput] = useState('');
 
+  // At-rest Encryption State
+  const encryptionConfig = configItems?.find(c => c.key === ENCRYPTION_CONFIG_KEY)?.value;
+  const [passphraseForm, setPassphraseForm] = useState({ current: '', next: '', confirm: '' });
+  const [rekeyProgress, setRekeyProgress] = useState('');
+
+  // Backup & Restore State
+  const backupState: BackupState | undefined = configItems?.find(c => c.key === BACKUP_STATE_KEY)?.value;
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [backupPassphraseConfirm, setBackupPassphraseConfirm] = useState('');
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [restoreFiles, setRestoreFiles] = useState<File[]>([]);
+  const [restoreInfos, setRestoreInfos] = useState<BackupFileInfo[]>([]);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null);
+  const [restoreError, setRestoreError] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [backupSchedule, setBackupSchedule] = useState<BackupSchedule>(DEFAULT_BACKUP_SCHEDULE);
+  const backupRunStatus: BackupRunStatus | undefined = configItems?.find(c => c.key === BACKUP_STATUS_KEY)?.value;
+  const [isRunningScheduled, setIsRunningScheduled] = useState(false);
+  const [autoPassphrase, setAutoPassphrase] = useState({ next: '', confirm: '' });
+  const hasAutoPassphrase = !!configItems?.find(c => c.key === BACKUP_PASSPHRASE_KEY)?.secret;
+
   // New User Form State
   const [newUser, setNewUser] = useState({
       username: '',
@@ -38,11 +88,7 @@ const AdminSettings: React.FC = () => {
   });
 
   // API Config State
-  const [apiConfig, setApiConfig] = useState({
-      baseUrl: 'https://api.gst.gov.in/v1',
-      clientId: '',
-      clientSecret: ''
-  });
+  const [apiConfig, setApiConfig] = useState<GstApiConfig>(DEFAULT_API_CONFIG);
 
   // Sync target date with today if toggle is on
   useEffect(() => {
@@ -53,34 +99,27 @@ const AdminSettings: React.FC = () => {
 
   useEffect(() => {
       // Load API Config
-      db.appConfig.get({ key: 'api_config' }).then(config => {
-          if (config && config.value) {
-              setApiConfig({
-                  baseUrl: config.value.baseUrl || 'https://api.gst.gov.in/v1',
-                  clientId: config.value.clientId || '',
-                  clientSecret: config.value.clientSecret || ''
-              });
-          }
-      });
+      getApiConfig().then(setApiConfig);
 
-      // Load Notification Config
-      db.appConfig.get({ key: 'notification_reminder_days' }).then(config => {
-          if (config && config.value) {
-              setReminderDays(Number(config.value));
-          }
+      // Load Backup Schedule (the folder defaults to GSTNexus_Data/Backups in the desktop app)
+      getBackupSchedule().then(async schedule => {
+          setBackupSchedule(schedule.folder ? schedule : { ...schedule, folder: await getDefaultBackupFolder() });
       });
   }, []);
 
   const handleAddUser = async (e: React.FormEvent) => {
       e.preventDefault();
+      const policyError = validateNewPassword(newUser.password, newUser.username);
+      if (policyError) { alert(policyError); return; }
       try {
           const userId = await db.users.add({
               username: newUser.username,
-              passwordHash: newUser.password, 
+              passwordHash: await hashPassword(newUser.password),
               fullName: newUser.fullName,
               email: newUser.email,
               role: newUser.role,
-              isActive: true
+              isActive: true,
+              mustChangePassword: true
           });
 
           await db.auditLogs.add({
@@ -117,12 +156,20 @@ const AdminSettings: React.FC = () => {
   const handlePasswordUpdate = async (e: React.FormEvent) => {
       e.preventDefault();
       if (!selectedUserForReset || !newPasswordInput) return;
+      const policyError = validateNewPassword(newPasswordInput, selectedUserForReset.username);
+      if (policyError) { alert(policyError); return; }
 
       try {
-          await db.users.update(selectedUserForReset.id!, { passwordHash: newPasswordInput });
+          // Resetting someone else's password clears any lockout, signs them out and forces a change on next login
+          const isSelf = selectedUserForReset.id === currentUser?.id;
+          await db.users.update(selectedUserForReset.id!, {
+              passwordHash: await hashPassword(newPasswordInput), mustChangePassword: !isSelf, failedLoginAttempts: 0, lockedUntil: undefined,
+              ...(isSelf ? { passwordChangedAt: new Date().toISOString() } : {})
+          });
+          if (!isSelf) await db.sessions.where('userId').equals(selectedUserForReset.id!).delete();
           await db.auditLogs.add({
-              entityType: 'Auth', entityId: selectedUserForReset.id!, action: 'Update', timestamp: new Date().toISOString(),
-              user: currentUser?.username || 'System', details: `Password changed for user ${selectedUserForReset.username}`
+              entityType: 'Auth', entityId: selectedUserForReset.id!, action: 'PasswordChange', timestamp: new Date().toISOString(),
+              user: currentUser?.username || 'System', details: `Password reset for user ${selectedUserForReset.username}`
           });
           alert('Password updated successfully');
           setShowPasswordModal(false);
@@ -197,31 +244,231 @@ const AdminSettings: React.FC = () => {
       }
   };
 
-  const handleSaveNotificationSettings = async (e: React.FormEvent) => {
-      e.preventDefault();
+  // --- LIMITATION RULES ---
+  const saveLimitationConfig = async (value: LimitationConfig, detail: string) => {
+      const key = 'limitation_config';
+      const currentConfig = configItems?.find(c => c.key === key);
+      if (currentConfig) {
+          await db.appConfig.update(currentConfig.id!, { value });
+      } else {
+          await db.appConfig.add({ key, value });
+      }
+      await db.auditLogs.add({
+          entityType: 'System', entityId: 'CONFIG', action: 'Update', timestamp: new Date().toISOString(),
+          user: currentUser?.username || 'System', details: `Limitation rules: ${detail}`
+      });
+  };
+
+  const handleAnnualReturnDueDateChange = async (period: string, date: string) => {
+      const dueDates = { ...limitationConfig.annualReturnDueDates };
+      if (date) dueDates[period] = date; else delete dueDates[period];
+      await saveLimitationConfig({ ...limitationConfig, annualReturnDueDates: dueDates }, `GSTR-9 due date for ${period} set to ${date || 'default'}`);
+  };
+
+  const handleAddExtension = async () => {
+      if (!newExtension.period || !newExtension.orderDate) return;
+      const extensions = [...limitationConfig.extensions.filter(e => !(e.period === newExtension.period && e.track === newExtension.track)), newExtension];
+      await saveLimitationConfig({ ...limitationConfig, extensions }, `Extension for ${newExtension.period} (Sec ${newExtension.track}) to ${newExtension.orderDate}`);
+      setNewExtension({ period: '', track: '73', orderDate: '', reference: '' });
+  };
+
+  const handleRemoveExtension = async (ext: LimitationExtension) => {
+      if (!confirm(`Remove extension for ${ext.period} (Sec ${ext.track})?`)) return;
+      const extensions = limitationConfig.extensions.filter(e => e !== ext);
+      await saveLimitationConfig({ ...limitationConfig, extensions }, `Removed extension for ${ext.period} (Sec ${ext.track})`);
+  };
+
+  const handleAddExclusion = async () => {
+      if (!newExclusion.from || !newExclusion.to || newExclusion.to < newExclusion.from) return;
+      const exclusions = [...limitationConfig.exclusions, newExclusion];
+      await saveLimitationConfig({ ...limitationConfig, exclusions }, `Exclusion window ${newExclusion.from} to ${newExclusion.to}`);
+      setNewExclusion({ from: '', to: '', track: 'Both', reference: '' });
+  };
+
+  const handleRemoveExclusion = async (win: LimitationExclusion) => {
+      if (!confirm(`Remove exclusion window ${win.from} to ${win.to}?`)) return;
+      const exclusions = limitationConfig.exclusions.filter(w => w !== win);
+      await saveLimitationConfig({ ...limitationConfig, exclusions }, `Removed exclusion window ${win.from} to ${win.to}`);
+  };
+
+  // --- STATUS WORKFLOWS ---
+  const saveWorkflows = async (value: CaseWorkflow[], detail: string) => {
+      const currentConfig = configItems?.find(c => c.key === WORKFLOW_CONFIG_KEY);
+      if (currentConfig) {
+          await db.appConfig.update(currentConfig.id!, { value });
+      } else {
+          await db.appConfig.add({ key: WORKFLOW_CONFIG_KEY, value });
+      }
+      await db.auditLogs.add({
+          entityType: 'System', entityId: 'CONFIG', action: 'Update', timestamp: new Date().toISOString(),
+          user: currentUser?.username || 'System', details: `Status workflow: ${detail}`
+      });
+  };
+
+  const handleSelectWorkflowTrack = (track: string) => {
+      if (workflowDraft && !confirm('Discard unsaved workflow changes?')) return;
+      setWorkflowTrack(track);
+      setWorkflowDraft(null);
+  };
+
+  // A track starts from a copy of the default workflow
+  const handleCustomiseTrack = () => {
+      setWorkflowDraft(getWorkflow(workflows, '').transitions.map(t => ({ ...t })));
+  };
+
+  const handleRevertTrack = async () => {
+      if (!confirm(`Remove the ${workflowTrack} workflow? The track will follow the default workflow.`)) return;
+      await saveWorkflows(workflows.filter(w => w.caseType !== workflowTrack), `${workflowTrack} reverted to default`);
+      setWorkflowDraft(null);
+  };
+
+  const updateTransition = (idx: number, patch: Partial<WorkflowTransition>) => {
+      setWorkflowDraft(shownTransitions!.map((t, i) => i === idx ? { ...t, ...patch } : t));
+  };
+
+  const toggleIn = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(x => x !== item) : [...list, item];
+
+  const handleAddTransition = () => {
+      setWorkflowDraft([...(shownTransitions || []), { from: [], to: '', requiredFields: [], roles: [], actions: [] }]);
+  };
+
+  const handleSaveWorkflow = async () => {
+      if (!workflowDraft) return;
+      if (workflowDraft.some(t => !t.to)) {
+          alert('Every transition needs a target status.');
+          return;
+      }
+      const value = [...workflows.filter(w => (w.caseType || '') !== workflowTrack), { caseType: workflowTrack, transitions: workflowDraft }];
+      await saveWorkflows(value, `${workflowTrack || 'Default'} saved with ${workflowDraft.length} transition(s)`);
+      setWorkflowDraft(null);
+  };
+
+  // --- REPLY TEMPLATES ---
+  const handleNewTemplate = () => {
+      setTemplateForm({ name: '', noticeTypes: [], body: '# Reply to {{notice.noticeType}} No. {{notice.noticeNumber}}\nDate: {{today}}\n', isActive: true, updatedAt: '', updatedBy: '' });
+  };
+
+  const handleToggleTemplateNoticeType = (type: string) => {
+      if (!templateForm) return;
+      const noticeTypes = templateForm.noticeTypes.includes(type) ? templateForm.noticeTypes.filter(t => t !== type) : [...templateForm.noticeTypes, type];
+      setTemplateForm({ ...templateForm, noticeTypes });
+  };
+
+  const handleSaveTemplate = async () => {
+      if (!templateForm) return;
+      const name = templateForm.name.trim();
+      if (!name || !templateForm.body.trim()) { alert('A template needs a name and a body.'); return; }
+      if (replyTemplates?.some(t => t.id !== templateForm.id && t.name.toLowerCase() === name.toLowerCase())) { alert(`A template named "${name}" already exists.`); return; }
+      const record: ReplyTemplate = { ...templateForm, name, updatedAt: new Date().toISOString(), updatedBy: currentUser?.username || 'System' };
+      const id = templateForm.id ? (await db.replyTemplates.put(record)) as number : (await db.replyTemplates.add(record)) as number;
+      await db.auditLogs.add({
+          entityType: 'System', entityId: 'CONFIG', action: templateForm.id ? 'Update' : 'Create', timestamp: record.updatedAt,
+          user: record.updatedBy, details: `Reply template "${name}" ${templateForm.id ? 'updated' : 'created'}`
+      });
+      setTemplateForm({ ...record, id });
+  };
+
+  const handleDeleteTemplate = async (template: ReplyTemplate) => {
+      // Drafts keep the template name, so earlier versions still say where they came from
+      if (!confirm(`Delete reply template "${template.name}"? Drafts already generated are kept.`)) return;
+      await db.replyTemplates.delete(template.id!);
+      await db.auditLogs.add({
+          entityType: 'System', entityId: 'CONFIG', action: 'Delete', timestamp: new Date().toISOString(),
+          user: currentUser?.username || 'System', details: `Reply template "${template.name}" deleted`
+      });
+      if (templateForm?.id === template.id) setTemplateForm(null);
+  };
+
+  // --- NOTIFICATION RULES ---
+  const saveNotificationRules = async (value: NotificationRule[], detail: string) => {
+      const currentConfig = configItems?.find(c => c.key === NOTIFICATION_RULES_KEY);
+      if (currentConfig) {
+          await db.appConfig.update(currentConfig.id!, { value });
+      } else {
+          await db.appConfig.add({ key: NOTIFICATION_RULES_KEY, value });
+      }
+      await db.auditLogs.add({
+          entityType: 'System', entityId: 'CONFIG', action: 'Update', timestamp: new Date().toISOString(),
+          user: currentUser?.username || 'System', details: `Notification rules: ${detail}`
+      });
+  };
+
+  const handleNewRule = () => {
+      setRuleForm({ id: newRuleId(), name: '', enabled: true, entity: 'Notice', field: 'dueDate', condition: 'within', offsetDays: 3, statuses: [], openOnly: true, severity: 'warning', notifyAssignee: true, roles: [], repeatDays: 1 });
+      setRulePreview(null);
+  };
+
+  const handleEditRule = (rule: NotificationRule) => {
+      setRuleForm({ ...rule });
+      setRulePreview(null);
+  };
+
+  // Fields and statuses differ per entity
+  const handleRuleEntityChange = (entity: NotificationEntity) => {
+      if (!ruleForm) return;
+      setRuleForm({ ...ruleForm, entity, field: getEntityDef(entity).fields[0].key, statuses: [], openOnly: entity === 'Notice' && ruleForm.openOnly });
+      setRulePreview(null);
+  };
+
+  const handleSaveRule = async () => {
+      if (!ruleForm) return;
+      if (!ruleForm.name.trim()) {
+          alert('Give the rule a name; it is used as the notification title.');
+          return;
+      }
+      const rule = { ...ruleForm, name: ruleForm.name.trim(), offsetDays: Math.max(0, ruleForm.offsetDays || 0), repeatDays: Math.max(0, ruleForm.repeatDays || 0) };
+      const exists = notificationRules.some(r => r.id === rule.id);
+      const value = exists ? notificationRules.map(r => r.id === rule.id ? rule : r) : [...notificationRules, rule];
+      await saveNotificationRules(value, `${exists ? 'Updated' : 'Added'} "${rule.name}" (${describeRule(rule)})`);
+      setRuleForm(null);
+      setRulePreview(null);
+  };
+
+  const handleToggleRule = async (rule: NotificationRule) => {
+      await saveNotificationRules(notificationRules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r), `${rule.enabled ? 'Disabled' : 'Enabled'} "${rule.name}"`);
+  };
+
+  const handleDeleteRule = async (rule: NotificationRule) => {
+      if (!confirm(`Delete the rule "${rule.name}"? Its unread alerts are cleared on the next run.`)) return;
+      await saveNotificationRules(notificationRules.filter(r => r.id !== rule.id), `Deleted "${rule.name}"`);
+      if (ruleForm?.id === rule.id) setRuleForm(null);
+  };
+
+  const handlePreviewRule = async () => {
+      if (!ruleForm) return;
+      setIsPreviewingRule(true);
       try {
-          const key = 'notification_reminder_days';
-          const config = await db.appConfig.get({ key });
-          if (config) {
-              await db.appConfig.update(config.id!, { value: reminderDays });
-          } else {
-              await db.appConfig.add({ key, value: reminderDays });
-          }
-          await db.auditLogs.add({
-              entityType: 'System', entityId: 'CONFIG', action: 'Update', timestamp: new Date().toISOString(),
-              user: currentUser?.username || 'System', details: `Set Notification Reminder to ${reminderDays} days`
-          });
-          alert('Notification settings updated.');
+          setRulePreview(await previewRule(ruleForm));
       } catch (e) {
-          alert('Error saving notification settings');
+          alert(`Preview failed: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+          setIsPreviewingRule(false);
       }
   };
 
+  const handleRunRules = async () => {
+      setIsRunningRules(true);
+      try {
+          const status = await runNotificationRules();
+          if (status.lastError) alert(`Notification rules failed: ${status.lastError}`);
+          else alert(`Rules run: ${status.raised} alert(s) raised, ${status.refreshed} refreshed, ${status.cleared} cleared.`);
+      } catch (e) {
+          alert(`Notification rules failed: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+          setIsRunningRules(false);
+      }
+  };
+
+  const handleBatchOcr = async () => {
+      const count = await queuePendingOcr(true);
+      if (count === 0) alert('All stored documents already have extracted text.');
+  };
+
   const handleBulkInterestUpdate = async () => {
     // ... (Keep existing bulk update logic)
     const confirmation = confirm(`This will recalculate interest for ALL open notices (Status ≠ Closed).
     \nParameters:
-    - Interest Rate: ${interestRate}%
+    - Interest Rate: ${interestRate}% (${INTEREST_RATE_EXCESS_ITC}% for excess ITC)
     - Calculation Period: Due Date -> ${isTillToday ? 'TODAY' : targetDate}
     \nExisting interest values will be overwritten. Continue?`);
 
@@ -238,32 +485,19 @@ const AdminSettings: React.FC = () => {
              const defects = await db.defects.where('noticeId').equals(notice.id!).toArray();
              let noticeUpdated = false;
 
-             if (!notice.dueDate) continue;
-             
-             const diffTime = new Date(effectiveTargetDate).getTime() - new Date(notice.dueDate).getTime();
-             const days = Math.ceil(diffTime / (1000 * 3600 * 24));
-             
-             if (days <= 0) continue; 
+             if (!notice.dueDate || notice.dueDate >= effectiveTargetDate) continue;
 
-             for (const defect of defects) {
-                 const calc = (tax: number) => Math.round((tax * interestRate * days) / 36500);
+             const payments = await db.payments.where('noticeId').equals(notice.id!).toArray();
 
-                 const newIgstInterest = calc(defect.igst.tax);
-                 const newCgstInterest = calc(defect.cgst.tax);
-                 const newSgstInterest = calc(defect.sgst.tax);
-                 const newCessInterest = calc(defect.cess.tax);
-                 const totalNewInterest = newIgstInterest + newCgstInterest + newSgstInterest + newCessInterest;
+             for (const defect of defects) {
+                 const taxPayments = getDefectTaxPayments(defect, payments, defects.length);
+                 const result = calculateDefectInterest(defect, taxPayments, { fromDate: notice.dueDate, toDate: effectiveTargetDate, standardRate: interestRate });
 
                  const currentTotalInterest = defect.igst.interest + defect.cgst.interest + defect.sgst.interest + defect.cess.interest;
                  
-                 if (totalNewInterest !== currentTotalInterest) {
-                     await db.defects.update(defect.id!, {
-                         igst: { ...defect.igst, interest: newIgstInterest },
-                         cgst: { ...defect.cgst, interest: newCgstInterest },
-                         sgst: { ...defect.sgst, interest: newSgstInterest },
-                         cess: { ...defect.cess, interest: newCessInterest },
-                         interestDemand: totalNewInterest
-                     });
+                 if (result.total !== currentTotalInterest) {
+                     const { igst, cgst, sgst, cess, interestDemand } = applyInterestToDefect(defect, result);
+                     await db.defects.update(defect.id!, { igst, cgst, sgst, cess, interestDemand });
                      noticeUpdated = true;
                  }
              }
@@ -299,77 +533,150 @@ const AdminSettings: React.FC = () => {
     }
   };
 
-  const handleBackup = async () => { /* ... Keep existing logic ... */
+  const handleRekey = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const enabling = !encryptionConfig?.enabled;
+      if (passphraseForm.next.length < MIN_PASSPHRASE_LENGTH) { alert(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`); return; }
+      if (passphraseForm.next !== passphraseForm.confirm) { alert('Passphrases do not match.'); return; }
+      if (!enabling && !(await unlockDatabase(passphraseForm.current))) { alert('Current passphrase is incorrect.'); return; }
+      if (!confirm(enabling
+          ? 'Encrypt client data with this passphrase? It will be required at every sign-in and cannot be recovered if lost.'
+          : 'Re-encrypt all client data with the new passphrase? Keep the app open until this finishes.')) return;
+
       try {
-          const exportData: Record<string, any[]> = {};
-          // Cast to any to access tables property dynamically which is present in Dexie instance
-          for (const table of (db as any).tables) {
-              exportData[table.name] = await table.toArray();
-          }
-          const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `GSTNexus_Backup_${new Date().toISOString().split('T')[0]}.json`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
+          await rekeyDatabase(passphraseForm.next, setRekeyProgress);
+          await db.auditLogs.add({
+              entityType: 'System', entityId: 'encryption', action: enabling ? 'Create' : 'Rekey', timestamp: new Date().toISOString(),
+              user: currentUser?.username || 'Admin', details: enabling ? 'Enabled at-rest encryption' : 'Re-keyed encrypted data with a new passphrase'
+          });
+          setPassphraseForm({ current: '', next: '', confirm: '' });
+          alert(enabling ? 'Encryption enabled.' : 'Passphrase changed and data re-encrypted.');
+      } catch (err) {
+          console.error(err);
+          alert(`Encryption failed: ${err instanceof Error ? err.message : String(err)}. Signing in with the new passphrase finishes re-encrypting.`);
+      } finally {
+          setRekeyProgress('');
+      }
+  };
+
+  const handleBackup = async (type: BackupType) => {
+      if (backupPassphrase && backupPassphrase !== backupPassphraseConfirm) { alert('Backup passphrases do not match.'); return; }
+      setIsBackingUp(true);
+      try {
+          const { blob, manifest, fileName, markSaved } = await createBackup({ type, passphrase: backupPassphrase || undefined, createdBy: currentUser?.username || 'Admin' });
+          if (!await saveBackupFile(blob, fileName)) return;
+          await markSaved();
+          const included = Object.values(manifest.tables).reduce((sum, t) => sum + t.included, 0);
+          await db.auditLogs.add({
+              entityType: 'System', entityId: manifest.backupId, action: 'Backup', timestamp: manifest.createdAt, user: currentUser?.username || 'Admin',
+              details: `${type === 'full' ? 'Full' : 'Incremental'} backup ${fileName} (${included} records${manifest.encryption ? ', encrypted' : ''})`
+          });
       } catch (err) {
           console.error(err);
-          alert("Backup failed.");
+          alert(`Backup failed: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+          setIsBackingUp(false);
       }
   };
 
-  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => { /* ... Keep existing logic ... */
-      const file = e.target.files?.[0];
-      if (!file) return;
+  const handleChooseBackupFolder = async () => {
+      const folder = await chooseBackupFolder();
+      if (folder) setBackupSchedule({ ...backupSchedule, folder });
+  };
 
-      if (!confirm("WARNING: This will CLEAR all current data and replace it with the backup file. This action cannot be undone. Are you sure?")) {
-          if (fileInputRef.current) fileInputRef.current.value = '';
-          return;
+  const handleSaveBackupSchedule = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (backupSchedule.enabled && !backupSchedule.folder) { alert('Choose a backup folder first.'); return; }
+      if (autoPassphrase.next && autoPassphrase.next !== autoPassphrase.confirm) { alert('Backup passphrases do not match.'); return; }
+      if (backupSchedule.enabled && encryptionConfig?.enabled && !autoPassphrase.next && !hasAutoPassphrase) { alert('At-rest encryption is on. Set a passphrase for automatic backups so they are not written in clear text.'); return; }
+      if (autoPassphrase.next) {
+          await saveAutoBackupPassphrase(autoPassphrase.next);
+          setAutoPassphrase({ next: '', confirm: '' });
       }
+      await saveBackupSchedule({ ...backupSchedule, keepGenerations: Math.max(1, backupSchedule.keepGenerations) });
+      alert('Backup schedule saved.');
+  };
 
-      const reader = new FileReader();
-      reader.onload = async (ev) => {
-          try {
-              const importedData = JSON.parse(ev.target?.result as string);
-              // Cast to any to access dynamic properties transaction, tables and table()
-              const dbAny = db as any;
-              
-              await dbAny.transaction('rw', dbAny.tables, async () => {
-                  for (const table of dbAny.tables) {
-                      await table.clear();
-                  }
-                  for (const tableName of Object.keys(importedData)) {
-                      const table = dbAny.table(tableName);
-                      if (table) {
-                          await table.bulkAdd(importedData[tableName]);
-                      }
-                  }
-              });
-              alert("Data restored successfully. The page will reload.");
-              window.location.reload();
-          } catch (err) {
-              console.error(err);
-              alert("Restore failed. Invalid backup file format.");
+  const handleRunScheduledBackup = async () => {
+      if (autoPassphrase.next && autoPassphrase.next !== autoPassphrase.confirm) { alert('Backup passphrases do not match.'); return; }
+      setIsRunningScheduled(true);
+      try {
+          await saveBackupSchedule(backupSchedule);
+          if (autoPassphrase.next) {
+              await saveAutoBackupPassphrase(autoPassphrase.next);
+              setAutoPassphrase({ next: '', confirm: '' });
           }
-      };
-      reader.readAsText(file);
+          const status = await runScheduledBackup('Manual', currentUser?.username || 'Admin');
+          if (status.lastError) alert(`Backup failed: ${status.lastError}`);
+      } finally {
+          setIsRunningScheduled(false);
+      }
+  };
+
+  const resetRestore = () => {
+      setRestoreFiles([]);
+      setRestoreInfos([]);
+      setRestorePlan(null);
+      setRestorePassphrase('');
+      setRestoreError('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleRestoreSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+      if (files.length === 0) return;
+      resetRestore();
+      try {
+          const infos = await inspectBackupFiles(files);
+          setRestoreFiles(files);
+          setRestoreInfos(infos);
+          // Unencrypted sets go straight to the preview
+          if (!infos.some(i => i.manifest?.encryption)) await handlePrepareRestore(files);
+      } catch (err) {
+          setRestoreError(err instanceof Error ? err.message : String(err));
+      }
+  };
+
+  const handlePrepareRestore = async (files = restoreFiles) => {
+      setRestoreError('');
+      setIsRestoring(true);
+      try {
+          setRestorePlan(await prepareRestore(files, restorePassphrase || undefined));
+      } catch (err) {
+          console.error(err);
+          setRestoreError(err instanceof Error ? err.message : String(err));
+      } finally {
+          setIsRestoring(false);
+      }
+  };
+
+  const handleApplyRestore = async () => {
+      if (!restorePlan) return;
+      if (!confirm("WARNING: This will CLEAR all current data and replace it with the backup. This action cannot be undone. Are you sure?")) return;
+      setIsRestoring(true);
+      try {
+          await applyRestore(restorePlan);
+          await db.auditLogs.add({
+              entityType: 'System', entityId: 'restore', action: 'Restore', timestamp: new Date().toISOString(), user: currentUser?.username || 'Admin',
+              details: `Restored ${restorePlan.files.map(f => f.fileName).join(', ')} (schema v${restorePlan.schemaVersion})`
+          });
+          alert("Data restored successfully. The page will reload.");
+          window.location.reload();
+      } catch (err) {
+          console.error(err);
+          setRestoreError(`Restore failed: ${err instanceof Error ? err.message : String(err)}`);
+          setIsRestoring(false);
+      }
   };
 
   const handleSaveApiConfig = async (e: React.FormEvent) => { /* ... Keep existing logic ... */
       e.preventDefault();
       try {
-          const existing = await db.appConfig.get({ key: 'api_config' });
-          if (existing) {
-              await db.appConfig.update(existing.id!, { value: apiConfig });
-          } else {
-              await db.appConfig.add({ key: 'api_config', value: apiConfig });
-          }
+          await saveApiConfig(apiConfig);
           await db.auditLogs.add({
               entityType: 'System', entityId: 'API_CONFIG', action: 'Update', timestamp: new Date().toISOString(),
-              user: currentUser?.username || 'System', details: 'Updated API Configuration'
+              user: currentUser?.username || 'System',
+              details: `Updated API Configuration: ${apiConfig.provider === 'mock' ? 'local mock server' : 'GSP'} ${apiConfig.baseUrl}, ${apiConfig.requestsPerMinute}/min, ${apiConfig.maxRetries} retries`
           });
           alert('API Configuration Saved.');
       } catch (e) {
@@ -400,17 +707,29 @@ const AdminSettings: React.FC = () => {
       }
   };
 
+  const limitationConfig: LimitationConfig = configItems?.find(c => c.key === 'limitation_config')?.value || DEFAULT_LIMITATION_CONFIG;
+
   const availableRoles = getConfig('user_roles').length > 0 ? getConfig('user_roles') : Object.values(UserRole);
+  const workflows: CaseWorkflow[] = configItems?.find(c => c.key === WORKFLOW_CONFIG_KEY)?.value || DEFAULT_WORKFLOWS;
+  const ownWorkflow = workflows.find(w => (w.caseType || '') === workflowTrack);
+  const shownTransitions = workflowDraft || ownWorkflow?.transitions || null;
+  const notificationRules: NotificationRule[] = configItems?.find(c => c.key === NOTIFICATION_RULES_KEY)?.value || DEFAULT_NOTIFICATION_RULES;
+  const notificationRunStatus: NotificationRunStatus | undefined = configItems?.find(c => c.key === NOTIFICATION_STATUS_KEY)?.value;
+  const ruleStatuses: string[] = ruleForm ? getEntityDef(ruleForm.entity).statuses || getConfig('notice_statuses') : [];
+  const ruleChip = (active: boolean) => `px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${active ? 'bg-amber-600 text-white border-amber-600' : 'bg-white text-slate-600 border-slate-300 hover:border-amber-400'}`;
 
   const configSections = [
       { key: 'case_types', label: 'Case Tracks', icon: Split, placeholder: 'e.g. Assessment, Demand, Rectification', description: 'Broad categories to separate workflows (Track splitting).' },
       { key: 'notice_types', label: 'Notice Types', icon: List, placeholder: 'e.g. SCN, ASMT-10, DRC-01', description: 'Specific types of notices/forms.' },
       { key: 'notice_periods', label: 'Financial Periods', icon: Calendar, placeholder: 'e.g. FY 2023-24', description: 'Fiscal years used for tagging notices.' },
       { key: 'notice_statuses', label: 'Workflow Statuses', icon: CheckCircle, placeholder: 'e.g. Pending Review, Order Passed', description: 'Stages in the compliance workflow.' },
+      { key: 'workflows', label: 'Status Workflows', icon: GitBranch, placeholder: '', description: 'Allowed status changes per case track, who may make them, what must be recorded and what happens automatically.' },
       { key: 'taxpayer_statuses', label: 'Client Statuses', icon: Activity, placeholder: 'e.g. Active, Dormant, Litigation Only', description: 'Categorization for taxpayer clients.' },
       { key: 'overdue_excluded_statuses', label: 'Overdue Logic', icon: CheckSquare, placeholder: '', description: 'Select statuses that mark a case as "Resolved" to stop overdue alerts.' },
       { key: 'defect_types', label: 'Defect Types', icon: AlertOctagon, placeholder: 'e.g. ITC Mismatch, E-Way Bill', description: 'Common issues identified in notices.' },
-      { key: 'user_roles', label: 'User Roles', icon: Users, placeholder: 'e.g. Manager, Partner', description: 'Roles assignable to users for permission control.' }
+      { key: 'user_roles', label: 'User Roles', icon: Users, placeholder: 'e.g. Manager, Partner', description: 'Roles assignable to users for permission control.' },
+      { key: 'limitation_config', label: 'Limitation Rules', icon: Hourglass, placeholder: '', description: 'Annual return due dates, notified extensions and exclusion windows used for the Section 73/74 time-bar check.' },
+      { key: 'reply_templates', label: 'Reply Templates', icon: FileText, placeholder: '', description: 'Letters generated from a notice as .docx and .pdf. Each line is a paragraph; "# " marks the title and "## " a heading.' }
   ];
 
   const currentSection = configSections.find(s => s.key === selectedConfigKey) || configSections[0];
@@ -493,6 +812,203 @@ const AdminSettings: React.FC = () => {
                                          })}
                                      </div>
                                  </div>
+                             ) : currentSection.key === 'reply_templates' ? (
+                                 <div className="space-y-4">
+                                     <div className="bg-slate-50 rounded-xl border border-slate-200 overflow-hidden">
+                                         <div className="divide-y divide-slate-200">
+                                             {replyTemplates?.map(t => (
+                                                 <div key={t.id} className={`px-4 py-3 flex justify-between items-center group transition-colors ${templateForm?.id === t.id ? 'bg-white' : 'hover:bg-white'}`}>
+                                                     <button onClick={() => setTemplateForm(t)} className="text-left flex-1">
+                                                         <span className={`text-sm font-medium ${t.isActive ? 'text-slate-700' : 'text-slate-400 line-through'}`}>{t.name}</span>
+                                                         <span className="block text-xs text-slate-400">{t.noticeTypes.length ? t.noticeTypes.join(', ') : 'Any notice type'} • updated {new Date(t.updatedAt).toLocaleDateString()} by {t.updatedBy}</span>
+                                                     </button>
+                                                     <button onClick={() => handleDeleteTemplate(t)} className="text-slate-400 hover:text-red-500 p-1.5 rounded-lg hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all" title="Delete"><Trash2 size={14}/></button>
+                                                 </div>
+                                             ))}
+                                             {replyTemplates?.length === 0 && <div className="p-6 text-center text-slate-400 text-sm italic">No reply templates yet.</div>}
+                                         </div>
+                                     </div>
+                                     <button onClick={handleNewTemplate} className="bg-blue-600 text-white px-4 py-2 rounded-xl text-sm font-medium hover:bg-blue-700 transition-colors shadow-sm flex items-center gap-2"><Plus size={16}/> New Template</button>
+
+                                     {templateForm && (
+                                         <div className="bg-slate-50 rounded-xl border border-slate-200 p-4 space-y-4">
+                                             <div className="flex gap-3 items-center">
+                                                 <input type="text" placeholder="Template name" value={templateForm.name} onChange={e => setTemplateForm({...templateForm, name: e.target.value})} className="flex-1 p-2 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"/>
+                                                 <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                                                     <input type="checkbox" checked={templateForm.isActive} onChange={e => setTemplateForm({...templateForm, isActive: e.target.checked})} className="w-4 h-4 text-blue-600 rounded border-slate-300"/>
+                                                     Active
+                                                 </label>
+                                             </div>
+                                             <div>
+                                                 <p className="text-xs font-bold text-slate-500 uppercase mb-2">Offered first for (none = any notice)</p>
+                                                 <div className="flex flex-wrap gap-2">
+                                                     {getConfig('notice_types').map((type: string) => (
+                                                         <button key={type} onClick={() => handleToggleTemplateNoticeType(type)} className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${templateForm.noticeTypes.includes(type) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-300 hover:border-blue-400'}`}>{type}</button>
+                                                     ))}
+                                                 </div>
+                                             </div>
+                                             <textarea rows={18} value={templateForm.body} onChange={e => setTemplateForm({...templateForm, body: e.target.value})} className="w-full p-3 border border-slate-300 rounded-lg text-xs font-mono bg-white outline-none focus:ring-2 focus:ring-blue-500" spellCheck={false}/>
+                                             <details className="bg-white rounded-lg border border-slate-200 p-3 text-xs">
+                                                 <summary className="font-bold text-slate-600 cursor-pointer">Merge fields</summary>
+                                                 <p className="text-slate-500 mt-2">Wrap per-defect text in <code>{'{{#defects}}'}</code> … <code>{'{{/defects}}'}</code> (waived defects are left out) and per-worksheet text in <code>{'{{#reconciliations}}'}</code> … <code>{'{{/reconciliations}}'}</code>. Fields without a value appear in the draft as [field].</p>
+                                                 {REPLY_MERGE_FIELDS.map(group => (
+                                                     <div key={group.group} className="mt-3">
+                                                         <p className="font-semibold text-slate-700 mb-1">{group.group}</p>
+                                                         <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+                                                             {group.fields.map(f => (
+                                                                 <div key={f.key} className="flex justify-between gap-2"><code className="text-blue-700">{`{{${f.key}}}`}</code><span className="text-slate-400 truncate">{f.label}</span></div>
+                                                             ))}
+                                                         </div>
+                                                     </div>
+                                                 ))}
+                                             </details>
+                                             <div className="flex justify-end gap-2">
+                                                 <button onClick={() => setTemplateForm(null)} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-200 rounded-lg">Close</button>
+                                                 <button onClick={handleSaveTemplate} className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center gap-2"><Save size={16}/> Save Template</button>
+                                             </div>
+                                         </div>
+                                     )}
+                                 </div>
+                             ) : currentSection.key === 'workflows' ? (
+                                 <div className="space-y-4">
+                                     <div className="flex flex-wrap items-center gap-3">
+                                         <select value={workflowTrack} onChange={e => handleSelectWorkflowTrack(e.target.value)} className="p-2 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500">
+                                             <option value="">Default workflow</option>
+                                             {getConfig('case_types').map((track: string) => <option key={track} value={track}>{track}{workflows.some(w => w.caseType === track) ? '' : ' (uses default)'}</option>)}
+                                         </select>
+                                         {workflowTrack && ownWorkflow && !workflowDraft && <button onClick={handleRevertTrack} className="text-sm text-slate-500 hover:text-red-600 px-3 py-2 rounded-lg hover:bg-red-50">Revert to default</button>}
+                                     </div>
+                                     {!shownTransitions ? (
+                                         <div className="bg-slate-50 rounded-xl border border-dashed border-slate-300 p-6 text-center">
+                                             <p className="text-sm text-slate-500 mb-3">Cases on the <strong>{workflowTrack}</strong> track follow the default workflow.</p>
+                                             <button onClick={handleCustomiseTrack} className="bg-blue-600 text-white px-4 py-2 rounded-xl text-sm font-medium hover:bg-blue-700 transition-colors shadow-sm inline-flex items-center gap-2"><Edit2 size={16}/> Customise for this track</button>
+                                         </div>
+                                     ) : (
+                                         <>
+                                             <div className="space-y-3">
+                                                 {shownTransitions.map((t, idx) => {
+                                                     const statuses: string[] = Array.from(new Set([...getConfig('notice_statuses'), ...t.from, ...(t.to ? [t.to] : [])]));
+                                                     const chip = (active: boolean) => `px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-300 hover:border-blue-400'}`;
+                                                     return (
+                                                         <div key={idx} className="bg-slate-50 rounded-xl border border-slate-200 p-4 space-y-3">
+                                                             <div className="flex items-center gap-3">
+                                                                 <span className="text-xs font-bold text-slate-500 uppercase w-20 shrink-0">Move to</span>
+                                                                 <select value={t.to} onChange={e => updateTransition(idx, { to: e.target.value })} className="flex-1 p-2 border border-slate-300 rounded-lg text-sm bg-white font-semibold">
+                                                                     <option value="">Select status...</option>
+                                                                     {statuses.map(s => <option key={s} value={s}>{s}</option>)}
+                                                                 </select>
+                                                                 <button onClick={() => setWorkflowDraft(shownTransitions.filter((_, i) => i !== idx))} className="text-slate-400 hover:text-red-500 p-1.5 rounded-lg hover:bg-red-50" title="Remove transition"><Trash2 size={14}/></button>
+                                                             </div>
+                                                             <div className="flex gap-3">
+                                                                 <span className="text-xs font-bold text-slate-500 uppercase w-20 shrink-0 pt-1">From</span>
+                                                                 <div className="flex flex-wrap gap-1.5">
+                                                                     <button onClick={() => updateTransition(idx, { from: [] })} className={chip(t.from.length === 0)}>Any status</button>
+                                                                     {statuses.filter(s => s !== t.to).map(s => <button key={s} onClick={() => updateTransition(idx, { from: toggleIn(t.from, s) })} className={chip(t.from.includes(s))}>{s}</button>)}
+                                                                 </div>
+                                                             </div>
+                                                             <div className="flex gap-3">
+                                                                 <span className="text-xs font-bold text-slate-500 uppercase w-20 shrink-0 pt-1">Requires</span>
+                                                                 <div className="flex flex-wrap gap-1.5">
+                                                                     {WORKFLOW_FIELDS.map(f => <button key={f.key} onClick={() => updateTransition(idx, { requiredFields: toggleIn(t.requiredFields, f.key) })} className={chip(t.requiredFields.includes(f.key))}>{f.label}</button>)}
+                                                                 </div>
+                                                             </div>
+                                                             <div className="flex gap-3">
+                                                                 <span className="text-xs font-bold text-slate-500 uppercase w-20 shrink-0 pt-1">Roles</span>
+                                                                 <div className="flex flex-wrap gap-1.5">
+                                                                     <button onClick={() => updateTransition(idx, { roles: [] })} className={chip(t.roles.length === 0)}>Anyone</button>
+                                                                     {availableRoles.map((role: string) => <button key={role} onClick={() => updateTransition(idx, { roles: toggleIn(t.roles, role) })} className={chip(t.roles.includes(role))}>{role}</button>)}
+                                                                 </div>
+                                                             </div>
+                                                             <div className="flex gap-3">
+                                                                 <span className="text-xs font-bold text-slate-500 uppercase w-20 shrink-0 pt-1">Then</span>
+                                                                 <div className="flex flex-wrap gap-1.5">
+                                                                     {WORKFLOW_ACTIONS.map(a => <button key={a.key} onClick={() => updateTransition(idx, { actions: toggleIn(t.actions, a.key) })} className={chip(t.actions.includes(a.key))} title={a.description}>{a.label}</button>)}
+                                                                 </div>
+                                                             </div>
+                                                         </div>
+                                                     );
+                                                 })}
+                                                 {shownTransitions.length === 0 && <div className="p-6 text-center text-slate-400 text-sm italic">No transitions: statuses on this track cannot be changed.</div>}
+                                             </div>
+                                             <div className="flex justify-between gap-2">
+                                                 <button onClick={handleAddTransition} className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium hover:bg-slate-50 flex items-center gap-2"><Plus size={16}/> Add Transition</button>
+                                                 {workflowDraft && (
+                                                     <div className="flex gap-2">
+                                                         <button onClick={() => setWorkflowDraft(null)} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-200 rounded-lg">Discard</button>
+                                                         <button onClick={handleSaveWorkflow} className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center gap-2"><Save size={16}/> Save Workflow</button>
+                                                     </div>
+                                                 )}
+                                             </div>
+                                             <p className="text-xs text-slate-400 flex items-center gap-1"><ArrowRight size={12}/> Side effects also ask for the fields they need. Changes apply to the list, bulk and detail status controls.</p>
+                                         </>
+                                     )}
+                                 </div>
+                             ) : currentSection.key === 'limitation_config' ? (
+                                 <div className="space-y-6">
+                                     <div className="bg-slate-50 rounded-xl border border-slate-200 p-4">
+                                         <p className="text-sm font-bold mb-3 text-slate-700">GSTR-9 Due Date per Financial Year</p>
+                                         <div className="space-y-2">
+                                             {getConfig('notice_periods').map((period: string) => (
+                                                 <div key={period} className="flex items-center justify-between gap-3">
+                                                     <span className="text-sm text-slate-700 font-medium">{period}</span>
+                                                     <div className="flex items-center gap-2">
+                                                         {!limitationConfig.annualReturnDueDates[period] && <span className="text-xs text-slate-400 italic">Default: {getAnnualReturnDueDate(period, limitationConfig) || '-'}</span>}
+                                                         <input type="date" value={limitationConfig.annualReturnDueDates[period] || ''} onChange={e => handleAnnualReturnDueDateChange(period, e.target.value)} className="p-2 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"/>
+                                                     </div>
+                                                 </div>
+                                             ))}
+                                         </div>
+                                     </div>
+
+                                     <div className="bg-slate-50 rounded-xl border border-slate-200 p-4">
+                                         <p className="text-sm font-bold mb-3 text-slate-700">Notified Extensions (Last Date for Order)</p>
+                                         <div className="divide-y divide-slate-200 mb-3">
+                                             {limitationConfig.extensions.map((ext, idx) => (
+                                                 <div key={idx} className="py-2 flex justify-between items-center text-sm">
+                                                     <span className="text-slate-700"><strong>{ext.period}</strong> • Sec {ext.track} • {ext.orderDate} {ext.reference && <span className="text-slate-400">({ext.reference})</span>}</span>
+                                                     <button onClick={() => handleRemoveExtension(ext)} className="text-slate-400 hover:text-red-500 p-1.5 rounded-lg hover:bg-red-50"><Trash2 size={14}/></button>
+                                                 </div>
+                                             ))}
+                                         </div>
+                                         <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                                             <select value={newExtension.period} onChange={e => setNewExtension({...newExtension, period: e.target.value})} className="p-2 border border-slate-300 rounded-lg text-sm bg-white">
+                                                 <option value="">Period</option>
+                                                 {getConfig('notice_periods').map((p: string) => <option key={p} value={p}>{p}</option>)}
+                                             </select>
+                                             <select value={newExtension.track} onChange={e => setNewExtension({...newExtension, track: e.target.value as any})} className="p-2 border border-slate-300 rounded-lg text-sm bg-white">
+                                                 <option value="73">Sec 73</option>
+                                                 <option value="74">Sec 74</option>
+                                             </select>
+                                             <input type="date" value={newExtension.orderDate} onChange={e => setNewExtension({...newExtension, orderDate: e.target.value})} className="p-2 border border-slate-300 rounded-lg text-sm"/>
+                                             <input type="text" placeholder="Notification No." value={newExtension.reference || ''} onChange={e => setNewExtension({...newExtension, reference: e.target.value})} className="p-2 border border-slate-300 rounded-lg text-sm"/>
+                                             <button onClick={handleAddExtension} className="bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center justify-center gap-1"><Plus size={16}/> Add</button>
+                                         </div>
+                                     </div>
+
+                                     <div className="bg-slate-50 rounded-xl border border-slate-200 p-4">
+                                         <p className="text-sm font-bold mb-3 text-slate-700">Excluded Windows (not counted towards limitation)</p>
+                                         <div className="divide-y divide-slate-200 mb-3">
+                                             {limitationConfig.exclusions.map((win, idx) => (
+                                                 <div key={idx} className="py-2 flex justify-between items-center text-sm">
+                                                     <span className="text-slate-700"><strong>{win.from} → {win.to}</strong> • {win.track === 'Both' ? 'Sec 73 & 74' : `Sec ${win.track}`} {win.reference && <span className="text-slate-400">({win.reference})</span>}</span>
+                                                     <button onClick={() => handleRemoveExclusion(win)} className="text-slate-400 hover:text-red-500 p-1.5 rounded-lg hover:bg-red-50"><Trash2 size={14}/></button>
+                                                 </div>
+                                             ))}
+                                             {limitationConfig.exclusions.length === 0 && <p className="py-2 text-xs text-slate-400 italic">No exclusion windows configured.</p>}
+                                         </div>
+                                         <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                                             <input type="date" value={newExclusion.from} onChange={e => setNewExclusion({...newExclusion, from: e.target.value})} className="p-2 border border-slate-300 rounded-lg text-sm"/>
+                                             <input type="date" value={newExclusion.to} onChange={e => setNewExclusion({...newExclusion, to: e.target.value})} className="p-2 border border-slate-300 rounded-lg text-sm"/>
+                                             <select value={newExclusion.track} onChange={e => setNewExclusion({...newExclusion, track: e.target.value as any})} className="p-2 border border-slate-300 rounded-lg text-sm bg-white">
+                                                 <option value="Both">Both</option>
+                                                 <option value="73">Sec 73</option>
+                                                 <option value="74">Sec 74</option>
+                                             </select>
+                                             <input type="text" placeholder="Notification No." value={newExclusion.reference || ''} onChange={e => setNewExclusion({...newExclusion, reference: e.target.value})} className="p-2 border border-slate-300 rounded-lg text-sm"/>
+                                             <button onClick={handleAddExclusion} className="bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center justify-center gap-1"><Plus size={16}/> Add</button>
+                                         </div>
+                                     </div>
+                                 </div>
                              ) : (
                                  <>
                                      <div className="flex gap-2 mb-6">
@@ -574,6 +1090,8 @@ const AdminSettings: React.FC = () => {
                                                 <td className="px-6 py-4">
                                                     <p className="font-semibold text-slate-800">{u.fullName}</p>
                                                     <p className="text-xs text-slate-500">@{u.username} • {u.email}</p>
+                                                    {u.lockedUntil && new Date(u.lockedUntil) > new Date() && <span className="inline-block mt-1 text-[10px] font-bold uppercase px-2 py-0.5 rounded-full bg-red-50 text-red-600 border border-red-200">Locked until {new Date(u.lockedUntil).toLocaleTimeString()}</span>}
+                                                    {u.mustChangePassword && <span className="inline-block mt-1 ml-1 text-[10px] font-bold uppercase px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200">Password change pending</span>}
                                                 </td>
                                                 <td className="px-6 py-4"><span className="px-3 py-1 rounded-full text-xs font-medium bg-slate-100 text-slate-600 border border-slate-200">{u.role}</span></td>
                                                 <td className="px-6 py-4 text-right">
@@ -645,41 +1163,125 @@ const AdminSettings: React.FC = () => {
              )}
 
              {activeTab === 'notifications' && (
-                 <div className="max-w-2xl mx-auto animate-in fade-in zoom-in-95 p-8">
-                     <div className="bg-white border border-slate-200 rounded-2xl p-8 shadow-sm">
-                         <div className="flex items-start gap-4 mb-6">
+                 <div className="animate-in fade-in zoom-in-95 p-8 space-y-6">
+                     <div className="flex flex-wrap items-start justify-between gap-4">
+                         <div className="flex items-start gap-4">
                              <div className="p-3 bg-amber-100 text-amber-600 rounded-xl"><Bell size={28}/></div>
                              <div>
-                                 <h3 className="text-xl font-bold text-slate-800">Notification Settings</h3>
-                                 <p className="text-slate-500 text-sm mt-1">Configure automated alerts for upcoming due dates.</p>
+                                 <h3 className="text-xl font-bold text-slate-800">Notification Rules</h3>
+                                 <p className="text-slate-500 text-sm mt-1">Alerts raised from dates on notices, hearings, invoices and returns. Rules run when someone signs in and every 30 minutes.</p>
+                                 {notificationRunStatus?.lastRunAt && (
+                                     <p className={`text-xs mt-1 ${notificationRunStatus.lastError ? 'text-red-600' : 'text-slate-400'}`}>
+                                         Last run {new Date(notificationRunStatus.lastRunAt).toLocaleString()}: {notificationRunStatus.lastError ? `failed (${notificationRunStatus.lastError})` : `${notificationRunStatus.raised} raised, ${notificationRunStatus.refreshed} refreshed, ${notificationRunStatus.cleared} cleared`}
+                                     </p>
+                                 )}
                              </div>
                          </div>
-                         
-                         <form onSubmit={handleSaveNotificationSettings} className="space-y-6">
-                             <div>
-                                 <label className="block text-sm font-bold text-slate-700 mb-2">Reminder Trigger (Days)</label>
-                                 <p className="text-xs text-slate-500 mb-2">Automatically trigger a 'Due Soon' warning when a notice's due date is within this many days.</p>
-                                 <div className="flex items-center gap-3">
-                                     <input 
-                                        type="number" 
-                                        min="1" 
-                                        max="30"
-                                        value={reminderDays} 
-                                        onChange={e => setReminderDays(Number(e.target.value))} 
-                                        className="w-24 p-3 border border-slate-300 rounded-xl text-center text-lg font-bold outline-none focus:ring-2 focus:ring-amber-500" 
-                                        required 
-                                     />
-                                     <span className="text-slate-600 font-medium">Days before due date</span>
-                                 </div>
-                             </div>
-                             
-                             <div className="pt-4">
-                                 <button type="submit" className="w-full bg-amber-600 hover:bg-amber-700 text-white font-bold py-3 rounded-xl transition-colors shadow-md">
-                                     Save Settings
+                         <div className="flex gap-2">
+                             <button onClick={handleRunRules} disabled={isRunningRules} className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-xl text-sm font-medium hover:bg-slate-50 flex items-center gap-2 disabled:opacity-50"><RefreshCw size={16} className={isRunningRules ? 'animate-spin' : ''}/> Run Now</button>
+                             <button onClick={handleNewRule} className="bg-amber-600 text-white px-4 py-2 rounded-xl text-sm font-medium hover:bg-amber-700 transition-colors shadow-sm flex items-center gap-2"><Plus size={16}/> New Rule</button>
+                         </div>
+                     </div>
+
+                     <div className="bg-white rounded-xl border border-slate-200 divide-y divide-slate-100">
+                         {notificationRules.map(rule => (
+                             <div key={rule.id} className="flex items-center gap-3 p-3 group hover:bg-slate-50">
+                                 <button onClick={() => handleToggleRule(rule)} className={rule.enabled ? 'text-green-600' : 'text-slate-400'} title={rule.enabled ? 'Disable' : 'Enable'}>
+                                     {rule.enabled ? <ToggleRight size={22}/> : <ToggleLeft size={22}/>}
+                                 </button>
+                                 <button onClick={() => handleEditRule(rule)} className="flex-1 text-left">
+                                     <span className={`block text-sm font-semibold ${rule.enabled ? 'text-slate-800' : 'text-slate-400'}`}>{rule.name}</span>
+                                     <span className="block text-xs text-slate-400">{rule.entity}: {describeRule(rule)}{rule.statuses.length ? ` • ${rule.statuses.join(', ')}` : ''} • to {[rule.notifyAssignee ? 'assignee' : '', ...rule.roles].filter(Boolean).join(', ') || 'everyone'}</span>
                                  </button>
+                                 <span className={`px-2 py-0.5 rounded text-xs font-medium border ${rule.severity === 'critical' ? 'bg-red-50 text-red-700 border-red-200' : rule.severity === 'warning' ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-blue-50 text-blue-700 border-blue-200'}`}>{rule.severity}</span>
+                                 <button onClick={() => handleDeleteRule(rule)} className="text-slate-400 hover:text-red-500 p-1.5 rounded-lg hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all" title="Delete"><Trash2 size={14}/></button>
                              </div>
-                         </form>
+                         ))}
+                         {notificationRules.length === 0 && <div className="p-6 text-center text-slate-400 text-sm italic">No notification rules. Nothing will be raised automatically.</div>}
                      </div>
+
+                     {ruleForm && (
+                             <div className="bg-slate-50 rounded-xl border border-slate-200 p-5 space-y-4">
+                                 <input type="text" placeholder="Rule name (notification title)" value={ruleForm.name} onChange={e => setRuleForm({...ruleForm, name: e.target.value})} className="w-full p-2 border border-slate-300 rounded-lg text-sm bg-white font-semibold outline-none focus:ring-2 focus:ring-amber-500"/>
+                                 <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700">
+                                     <span>When the</span>
+                                     <select value={ruleForm.entity} onChange={e => handleRuleEntityChange(e.target.value as NotificationEntity)} className="p-2 border border-slate-300 rounded-lg text-sm bg-white">
+                                         {NOTIFICATION_ENTITIES.map(e => <option key={e.entity} value={e.entity}>{e.entity}</option>)}
+                                     </select>
+                                     <select value={ruleForm.field} onChange={e => { setRuleForm({...ruleForm, field: e.target.value}); setRulePreview(null); }} className="p-2 border border-slate-300 rounded-lg text-sm bg-white">
+                                         {getEntityDef(ruleForm.entity).fields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+                                     </select>
+                                     <select value={ruleForm.condition} onChange={e => { setRuleForm({...ruleForm, condition: e.target.value as NotificationCondition}); setRulePreview(null); }} className="p-2 border border-slate-300 rounded-lg text-sm bg-white">
+                                         {NOTIFICATION_CONDITIONS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                                     </select>
+                                     <input type="number" min="0" value={ruleForm.offsetDays} onChange={e => { setRuleForm({...ruleForm, offsetDays: Number(e.target.value)}); setRulePreview(null); }} className="w-20 p-2 border border-slate-300 rounded-lg text-sm text-center bg-white"/>
+                                     <span>{ruleForm.condition === 'within' ? 'days' : 'days ago'}</span>
+                                 </div>
+                                 <div>
+                                     <p className="text-xs font-bold text-slate-500 uppercase mb-2">Only in status (none = any)</p>
+                                     <div className="flex flex-wrap gap-1.5">
+                                         {ruleStatuses.map(status => (
+                                             <button key={status} onClick={() => { setRuleForm({...ruleForm, statuses: ruleForm.statuses.includes(status) ? ruleForm.statuses.filter(s => s !== status) : [...ruleForm.statuses, status]}); setRulePreview(null); }} className={ruleChip(ruleForm.statuses.includes(status))}>{status}</button>
+                                         ))}
+                                     </div>
+                                     {ruleForm.entity === 'Notice' && (
+                                         <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer mt-2">
+                                             <input type="checkbox" checked={ruleForm.openOnly} onChange={e => { setRuleForm({...ruleForm, openOnly: e.target.checked}); setRulePreview(null); }} className="w-4 h-4 rounded border-slate-300"/>
+                                             Skip notices in a resolved status (Overdue Logic)
+                                         </label>
+                                     )}
+                                 </div>
+                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                     <div>
+                                         <p className="text-xs font-bold text-slate-500 uppercase mb-2">Severity</p>
+                                         <select value={ruleForm.severity} onChange={e => setRuleForm({...ruleForm, severity: e.target.value as NotificationRule['severity']})} className="w-full p-2 border border-slate-300 rounded-lg text-sm bg-white">
+                                             <option value="info">Info</option>
+                                             <option value="warning">Warning</option>
+                                             <option value="critical">Critical</option>
+                                         </select>
+                                     </div>
+                                     <div>
+                                         <p className="text-xs font-bold text-slate-500 uppercase mb-2">Remind again after reading (days, 0 = once)</p>
+                                         <input type="number" min="0" value={ruleForm.repeatDays} onChange={e => setRuleForm({...ruleForm, repeatDays: Number(e.target.value)})} className="w-full p-2 border border-slate-300 rounded-lg text-sm bg-white"/>
+                                     </div>
+                                 </div>
+                                 <div>
+                                     <p className="text-xs font-bold text-slate-500 uppercase mb-2">Recipients (none = everyone)</p>
+                                     <div className="flex flex-wrap gap-1.5">
+                                         {ruleForm.entity !== 'Return' && (
+                                             <button onClick={() => { setRuleForm({...ruleForm, notifyAssignee: !ruleForm.notifyAssignee}); setRulePreview(null); }} className={ruleChip(ruleForm.notifyAssignee)}>{ruleForm.entity === 'Invoice' ? 'Invoice creator' : 'Assignee'}</button>
+                                         )}
+                                         {availableRoles.map((role: string) => (
+                                             <button key={role} onClick={() => { setRuleForm({...ruleForm, roles: ruleForm.roles.includes(role) ? ruleForm.roles.filter(r => r !== role) : [...ruleForm.roles, role]}); setRulePreview(null); }} className={ruleChip(ruleForm.roles.includes(role))}>{role}</button>
+                                         ))}
+                                     </div>
+                                 </div>
+                                 <div className="flex justify-between gap-2">
+                                     <button onClick={handlePreviewRule} disabled={isPreviewingRule} className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-50 flex items-center gap-2 disabled:opacity-50"><Activity size={16}/> {isPreviewingRule ? 'Checking...' : 'Preview Matches'}</button>
+                                     <div className="flex gap-2">
+                                         <button onClick={() => { setRuleForm(null); setRulePreview(null); }} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-200 rounded-lg">Close</button>
+                                         <button onClick={handleSaveRule} className="bg-amber-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-amber-700 flex items-center gap-2"><Save size={16}/> Save Rule</button>
+                                     </div>
+                                 </div>
+                                 {rulePreview && (
+                                     <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+                                         <p className="px-3 py-2 text-xs font-bold text-slate-500 uppercase bg-slate-50 border-b border-slate-200">Would fire on {rulePreview.length} record(s) today</p>
+                                         <div className="max-h-72 overflow-y-auto divide-y divide-slate-100">
+                                             {rulePreview.map(row => (
+                                                 <div key={row.match.dedupeKey} className="px-3 py-2 text-sm flex justify-between gap-3">
+                                                     <div>
+                                                         <p className="font-medium text-slate-700">{row.match.record.label}</p>
+                                                         <p className="text-xs text-slate-400">{row.match.record.status} • {new Date(row.match.date).toLocaleDateString()} ({row.match.days >= 0 ? `in ${row.match.days} day(s)` : `${-row.match.days} day(s) ago`})</p>
+                                                     </div>
+                                                     <p className="text-xs text-slate-500 text-right">{row.recipients.join(', ')}</p>
+                                                 </div>
+                                             ))}
+                                             {rulePreview.length === 0 && <p className="p-4 text-center text-slate-400 text-sm italic">No record meets this rule today.</p>}
+                                         </div>
+                                     </div>
+                                 )}
+                             </div>
+                     )}
                  </div>
              )}
 
@@ -691,11 +1293,28 @@ const AdminSettings: React.FC = () => {
                              <div className="p-3 bg-indigo-100 text-indigo-600 rounded-xl"><Globe size={28}/></div>
                              <div>
                                  <h3 className="text-xl font-bold text-slate-800">API Integration</h3>
-                                 <p className="text-slate-500 text-sm mt-1">Configure credentials for future fetching of GSTR data.</p>
+                                 <p className="text-slate-500 text-sm mt-1">GSP connection used by Returns &gt; Fetch Online for return status, GSTR-2B and the case folder.</p>
                              </div>
                          </div>
                          
                          <form onSubmit={handleSaveApiConfig} className="space-y-6">
+                             <div>
+                                 <label className="block text-sm font-bold text-slate-700 mb-2">Provider</label>
+                                 <select
+                                     value={apiConfig.provider}
+                                     onChange={e => {
+                                         const provider = e.target.value as GstApiConfig['provider'];
+                                         setApiConfig({ ...apiConfig, provider, baseUrl: provider === 'mock' ? MOCK_BASE_URL : DEFAULT_API_CONFIG.baseUrl });
+                                     }}
+                                     className="w-full p-3 border border-slate-300 rounded-xl text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                                 >
+                                     <option value="gsp">GSP (GST Suvidha Provider)</option>
+                                     <option value="mock">Local mock server</option>
+                                 </select>
+                                 {apiConfig.provider === 'mock' && (
+                                     <p className="text-xs text-slate-500 mt-2 flex items-start gap-1"><Info size={14} className="shrink-0 mt-0.5"/> Start it with <code className="bg-slate-100 px-1 rounded">npm run mock:gst</code>. Any client ID, secret and username work; the OTP is {MOCK_OTP}.</p>
+                                 )}
+                             </div>
                              <div>
                                  <label className="block text-sm font-bold text-slate-700 mb-2">GSTN API Base URL</label>
                                  <input type="url" value={apiConfig.baseUrl} onChange={e => setApiConfig({...apiConfig, baseUrl: e.target.value})} className="w-full p-3 border border-slate-300 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none" required />
@@ -716,6 +1335,21 @@ const AdminSettings: React.FC = () => {
                                      </div>
                                  </div>
                              </div>
+                             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                 <div>
+                                     <label className="block text-sm font-bold text-slate-700 mb-2">Requests / Minute</label>
+                                     <input type="number" min={1} max={600} value={apiConfig.requestsPerMinute} onChange={e => setApiConfig({...apiConfig, requestsPerMinute: parseInt(e.target.value) || 1})} className="w-full p-3 border border-slate-300 rounded-xl text-sm" required />
+                                 </div>
+                                 <div>
+                                     <label className="block text-sm font-bold text-slate-700 mb-2">Retries</label>
+                                     <input type="number" min={0} max={10} value={apiConfig.maxRetries} onChange={e => setApiConfig({...apiConfig, maxRetries: parseInt(e.target.value) || 0})} className="w-full p-3 border border-slate-300 rounded-xl text-sm" required />
+                                 </div>
+                                 <div>
+                                     <label className="block text-sm font-bold text-slate-700 mb-2">Timeout (seconds)</label>
+                                     <input type="number" min={5} max={300} value={apiConfig.timeoutSeconds} onChange={e => setApiConfig({...apiConfig, timeoutSeconds: parseInt(e.target.value) || 30})} className="w-full p-3 border border-slate-300 rounded-xl text-sm" required />
+                                 </div>
+                             </div>
+                             <p className="text-xs text-slate-500 -mt-2">Requests are spaced to stay under the provider's quota. Network errors, rate-limit (429) and server (5xx) responses are retried with increasing delays.</p>
                              
                              <div className="pt-4">
                                  <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-xl transition-colors shadow-md">
@@ -763,6 +1397,7 @@ const AdminSettings: React.FC = () => {
 
                              <div>
                                  <label className="block text-sm font-bold text-slate-700 mb-2">Annual Interest Rate (%)</label>
+                                 <p className="text-xs text-slate-500 mb-2">Applied on the outstanding tax after each recorded tax payment. Excess ITC defects use {INTEREST_RATE_EXCESS_ITC}% u/s 50(3).</p>
                                  <input 
                                     type="number" 
                                     value={interestRate} 
@@ -788,6 +1423,39 @@ const AdminSettings: React.FC = () => {
                              </button>
                          </div>
                      </div>
+
+                     <div className="bg-gradient-to-br from-white to-slate-50 border border-slate-200 rounded-2xl p-8 shadow-sm">
+                         <div className="flex items-start gap-4 mb-6">
+                             <div className="p-3 bg-blue-100 text-blue-600 rounded-xl"><ScanText size={28}/></div>
+                             <div>
+                                 <h3 className="text-xl font-bold text-slate-800">Batch OCR</h3>
+                                 <p className="text-slate-500 text-sm mt-1">Extract text from stored scans and PDFs so they are searchable. Runs offline in the background.</p>
+                             </div>
+                         </div>
+
+                         <div className="grid grid-cols-3 gap-4 mb-6">
+                             <div className="bg-white p-4 rounded-xl border border-slate-200 text-center"><p className="text-2xl font-bold text-slate-800">{ocrBacklog?.pending ?? '-'}</p><p className="text-xs text-slate-500 uppercase font-bold mt-1">Without Text</p></div>
+                             <div className="bg-white p-4 rounded-xl border border-slate-200 text-center"><p className="text-2xl font-bold text-red-600">{ocrBacklog?.failed ?? '-'}</p><p className="text-xs text-slate-500 uppercase font-bold mt-1">Failed</p></div>
+                             <div className="bg-white p-4 rounded-xl border border-slate-200 text-center"><p className="text-2xl font-bold text-blue-600">{ocrQueue.pending.length + (ocrQueue.current ? 1 : 0)}</p><p className="text-xs text-slate-500 uppercase font-bold mt-1">In Queue</p></div>
+                         </div>
+
+                         {ocrQueue.current && (
+                             <div className="mb-6">
+                                 <div className="flex justify-between text-xs text-slate-500 mb-1">
+                                     <span className="truncate">{ocrQueue.current.fileName}{ocrQueue.current.totalPages > 1 ? ` (page ${ocrQueue.current.page}/${ocrQueue.current.totalPages})` : ''}</span>
+                                     <span>{Math.round(ocrQueue.current.progress * 100)}%</span>
+                                 </div>
+                                 <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden"><div className="bg-blue-600 h-2 transition-all" style={{ width: `${Math.round(ocrQueue.current.progress * 100)}%` }}></div></div>
+                             </div>
+                         )}
+
+                         <button 
+                             onClick={handleBatchOcr} 
+                             className="w-full py-4 rounded-xl font-bold text-white shadow-lg transition-all flex justify-center items-center gap-2 bg-blue-600 hover:bg-blue-700 shadow-blue-200"
+                         >
+                             Queue All Documents Without Text
+                         </button>
+                     </div>
                  </div>
              )}
 
@@ -803,23 +1471,227 @@ const AdminSettings: React.FC = () => {
                          </div>
 
                          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                             <div className="border border-slate-200 rounded-xl p-6 bg-slate-50 hover:bg-slate-100 transition-colors">
+                             <div className="border border-slate-200 rounded-xl p-6 bg-slate-50">
                                  <h4 className="font-bold text-slate-800 mb-2 flex items-center gap-2"><Download size={18}/> Export Data</h4>
-                                 <p className="text-sm text-slate-500 mb-4">Download a complete JSON backup of all your data (Notices, Taxpayers, Payments, etc.).</p>
-                                 <button onClick={handleBackup} className="w-full bg-indigo-600 text-white py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center justify-center gap-2">
-                                     <Download size={16}/> Download Backup
-                                 </button>
+                                 <p className="text-sm text-slate-500 mb-3">Single archive with every table, stored document files, a manifest and checksums.</p>
+                                 <p className="text-xs text-slate-500 mb-3">
+                                     {backupState
+                                         ? <>Last backup: <span className="font-semibold text-slate-700">{new Date(backupState.lastBackupAt).toLocaleString()}</span> ({backupState.lastType === 'full' ? 'full' : `incremental #${backupState.incrementsSinceFull}`})</>
+                                         : 'No backup taken from this install yet.'}
+                                 </p>
+                                 <div className="space-y-2 mb-4">
+                                     <input type="password" placeholder={encryptionConfig?.enabled ? 'Backup passphrase (required while encryption is on)' : 'Backup passphrase (optional)'} className="w-full border border-slate-300 rounded-lg p-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={backupPassphrase} onChange={e => setBackupPassphrase(e.target.value)} />
+                                     {backupPassphrase && (
+                                         <input type="password" placeholder="Confirm passphrase" className="w-full border border-slate-300 rounded-lg p-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={backupPassphraseConfirm} onChange={e => setBackupPassphraseConfirm(e.target.value)} />
+                                     )}
+                                 </div>
+                                 <div className="grid grid-cols-2 gap-2">
+                                     <button onClick={() => handleBackup('full')} disabled={isBackingUp} className="bg-indigo-600 text-white py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-60 flex items-center justify-center gap-2">
+                                         <Download size={16}/> Full
+                                     </button>
+                                     <button onClick={() => handleBackup('incremental')} disabled={isBackingUp || !backupState} title={backupState ? 'Only records changed since the last backup' : 'Take a full backup first'} className="bg-white border border-indigo-300 text-indigo-700 py-2 rounded-lg text-sm font-medium hover:bg-indigo-50 disabled:opacity-50 flex items-center justify-center gap-2">
+                                         <Download size={16}/> Incremental
+                                     </button>
+                                 </div>
                              </div>
 
-                             <div className="border border-slate-200 rounded-xl p-6 bg-slate-50 hover:bg-slate-100 transition-colors">
+                             <div className="border border-slate-200 rounded-xl p-6 bg-slate-50">
                                  <h4 className="font-bold text-slate-800 mb-2 flex items-center gap-2"><Upload size={18}/> Restore Data</h4>
-                                 <p className="text-sm text-slate-500 mb-4">Import a backup file. <span className="text-red-500 font-bold">Warning: This will replace all current data!</span></p>
+                                 <p className="text-sm text-slate-500 mb-4">Select a full backup together with its incremental backups, or an older JSON export. <span className="text-red-500 font-bold">Restoring replaces all current data.</span></p>
                                  <button onClick={() => fileInputRef.current?.click()} className="w-full bg-white border border-slate-300 text-slate-700 py-2 rounded-lg text-sm font-medium hover:bg-slate-50 flex items-center justify-center gap-2">
-                                     <Upload size={16}/> Select Backup File
+                                     <Upload size={16}/> Select Backup Files
                                  </button>
-                                 <input type="file" ref={fileInputRef} onChange={handleRestore} className="hidden" accept=".json" />
+                                 <input type="file" ref={fileInputRef} onChange={handleRestoreSelect} className="hidden" accept={`${BACKUP_FILE_EXTENSION},.json`} multiple />
+                             </div>
+                         </div>
+
+                         {(restoreInfos.length > 0 || restoreError) && (
+                             <div className="mt-6 border border-slate-200 rounded-xl p-6">
+                                 <div className="flex justify-between items-center mb-4">
+                                     <h4 className="font-bold text-slate-800">Restore Preview</h4>
+                                     <button onClick={resetRestore} className="text-slate-400 hover:text-slate-600"><X size={18}/></button>
+                                 </div>
+
+                                 {restoreInfos.length > 0 && (
+                                     <ul className="text-sm space-y-1 mb-4">
+                                         {restoreInfos.map(info => (
+                                             <li key={info.fileName} className="flex justify-between gap-4">
+                                                 <span className="truncate text-slate-700">{info.fileName}</span>
+                                                 <span className="text-xs text-slate-500 whitespace-nowrap">
+                                                     {info.manifest
+                                                         ? `${info.manifest.type} · ${new Date(info.manifest.createdAt).toLocaleString()} · schema v${info.manifest.schemaVersion}${info.manifest.encryption ? ' · encrypted' : ''}`
+                                                         : `legacy JSON · schema v${info.legacySchemaVersion}`}
+                                                 </span>
+                                             </li>
+                                         ))}
+                                     </ul>
+                                 )}
+
+                                 {!restorePlan && restoreInfos.some(i => i.manifest?.encryption) && (
+                                     <div className="flex gap-2 mb-4">
+                                         <input type="password" placeholder="Backup passphrase" className="flex-1 border border-slate-300 rounded-lg p-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={restorePassphrase} onChange={e => setRestorePassphrase(e.target.value)} />
+                                         <button onClick={() => handlePrepareRestore()} disabled={isRestoring || !restorePassphrase} className="bg-indigo-600 text-white px-4 rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-60">
+                                             {isRestoring ? 'Checking...' : 'Decrypt & Validate'}
+                                         </button>
+                                     </div>
+                                 )}
+
+                                 {restoreError && <div className="bg-red-50 text-red-600 p-3 rounded-lg mb-4 text-sm border border-red-100">{restoreError}</div>}
+
+                                 {restorePlan && (
+                                     <>
+                                         <table className="w-full text-sm mb-4">
+                                             <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+                                                 <tr><th className="text-left py-2">Table</th><th className="text-right">Current</th><th className="text-right">Backup</th><th className="text-right">New</th><th className="text-right">Changed</th><th className="text-right">Removed</th></tr>
+                                             </thead>
+                                             <tbody className="divide-y divide-slate-100">
+                                                 {restorePlan.preview.map(diff => (
+                                                     <tr key={diff.table}>
+                                                         <td className="py-1.5 font-medium text-slate-700">{diff.table}</td>
+                                                         <td className="text-right text-slate-600">{diff.current}</td>
+                                                         <td className="text-right text-slate-600">{diff.restored}</td>
+                                                         <td className={`text-right ${diff.added ? 'text-green-600 font-semibold' : 'text-slate-400'}`}>{diff.added}</td>
+                                                         <td className={`text-right ${diff.changed ? 'text-amber-600 font-semibold' : 'text-slate-400'}`}>{diff.changed}</td>
+                                                         <td className={`text-right ${diff.removed ? 'text-red-600 font-semibold' : 'text-slate-400'}`}>{diff.removed}</td>
+                                                     </tr>
+                                                 ))}
+                                             </tbody>
+                                         </table>
+                                         {restorePlan.notes.length > 0 && (
+                                             <ul className="bg-amber-50 border border-amber-100 rounded-lg p-3 mb-4 text-xs text-amber-700 space-y-1">
+                                                 {restorePlan.schemaVersion < db.verno && <li className="font-bold">Migrated from schema v{restorePlan.schemaVersion} to v{db.verno}:</li>}
+                                                 {restorePlan.notes.map(note => <li key={note}>• {note}</li>)}
+                                             </ul>
+                                         )}
+                                         <button onClick={handleApplyRestore} disabled={isRestoring} className="w-full bg-red-600 text-white py-2.5 rounded-lg text-sm font-bold hover:bg-red-700 disabled:opacity-60">
+                                             {isRestoring ? 'Restoring...' : 'Replace Current Data with This Backup'}
+                                         </button>
+                                     </>
+                                 )}
+                             </div>
+                         )}
+                     </div>
+
+                     <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+                         <div className="flex items-center gap-4 mb-6">
+                             <div className="p-3 bg-sky-50 text-sky-600 rounded-xl"><Clock size={28}/></div>
+                             <div>
+                                 <h3 className="text-xl font-bold text-slate-800">Scheduled Backups</h3>
+                                 <p className="text-slate-500 text-sm">Full backups written automatically to a local or network folder, with older generations rotated out.</p>
                              </div>
                          </div>
+
+                         {!isElectron() ? (
+                             <p className="text-sm text-slate-500 bg-slate-50 border border-slate-200 rounded-lg p-4">Scheduled backups run from the desktop app. In the browser, use the manual backup above.</p>
+                         ) : (
+                             <form onSubmit={handleSaveBackupSchedule} className="space-y-4">
+                                 <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                                     <input type="checkbox" checked={backupSchedule.enabled} onChange={e => setBackupSchedule({ ...backupSchedule, enabled: e.target.checked })} />
+                                     Enable automatic backups
+                                 </label>
+                                 <div>
+                                     <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Folder</label>
+                                     <div className="flex gap-2">
+                                         <input type="text" className="flex-1 border border-slate-300 rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-sky-500" value={backupSchedule.folder} onChange={e => setBackupSchedule({ ...backupSchedule, folder: e.target.value })} placeholder={'D:\\Backups or \\\\server\\share\\GSTNexus'} />
+                                         <button type="button" onClick={handleChooseBackupFolder} className="px-3 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50"><FolderOpen size={16}/></button>
+                                     </div>
+                                 </div>
+                                 <div className="grid grid-cols-3 gap-4">
+                                     <div>
+                                         <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Frequency</label>
+                                         <select className="w-full border border-slate-300 rounded-lg p-2.5 text-sm bg-white" value={backupSchedule.frequency} onChange={e => setBackupSchedule({ ...backupSchedule, frequency: e.target.value as BackupSchedule['frequency'] })}>
+                                             <option value="daily">Daily</option>
+                                             <option value="weekly">Weekly</option>
+                                         </select>
+                                     </div>
+                                     {backupSchedule.frequency === 'weekly' && (
+                                         <div>
+                                             <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Day</label>
+                                             <select className="w-full border border-slate-300 rounded-lg p-2.5 text-sm bg-white" value={backupSchedule.weekday} onChange={e => setBackupSchedule({ ...backupSchedule, weekday: Number(e.target.value) })}>
+                                                 {['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'].map((day, idx) => <option key={day} value={idx}>{day}</option>)}
+                                             </select>
+                                         </div>
+                                     )}
+                                     <div>
+                                         <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Time</label>
+                                         <input type="time" className="w-full border border-slate-300 rounded-lg p-2.5 text-sm" value={backupSchedule.time} onChange={e => setBackupSchedule({ ...backupSchedule, time: e.target.value })} />
+                                     </div>
+                                 </div>
+                                 <div className="grid grid-cols-2 gap-4">
+                                     <div>
+                                         <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Generations to Keep</label>
+                                         <input type="number" min={1} className="w-full border border-slate-300 rounded-lg p-2.5 text-sm" value={backupSchedule.keepGenerations} onChange={e => setBackupSchedule({ ...backupSchedule, keepGenerations: Number(e.target.value) })} />
+                                     </div>
+                                     <div>
+                                         <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Alert After (days without backup)</label>
+                                         <input type="number" min={0} className="w-full border border-slate-300 rounded-lg p-2.5 text-sm" value={backupSchedule.alertAfterDays} onChange={e => setBackupSchedule({ ...backupSchedule, alertAfterDays: Number(e.target.value) })} />
+                                     </div>
+                                 </div>
+                                 <label className="flex items-center gap-2 text-sm text-slate-700">
+                                     <input type="checkbox" checked={backupSchedule.onExit} onChange={e => setBackupSchedule({ ...backupSchedule, onExit: e.target.checked })} />
+                                     Also back up when the app is closed
+                                 </label>
+                                 <div className="space-y-2">
+                                     <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Backup Passphrase {hasAutoPassphrase && <span className="text-green-600 normal-case font-medium">(set; leave blank to keep)</span>}</label>
+                                     <input type="password" className="w-full border border-slate-300 rounded-lg p-2.5 text-sm" placeholder={encryptionConfig?.enabled ? 'Required while encryption is on' : 'Optional'} value={autoPassphrase.next} onChange={e => setAutoPassphrase({ ...autoPassphrase, next: e.target.value })} />
+                                     {autoPassphrase.next && <input type="password" className="w-full border border-slate-300 rounded-lg p-2.5 text-sm" placeholder="Confirm passphrase" value={autoPassphrase.confirm} onChange={e => setAutoPassphrase({ ...autoPassphrase, confirm: e.target.value })} />}
+                                     {!hasAutoPassphrase && !encryptionConfig?.enabled && <p className="text-xs text-amber-600 flex items-center gap-1"><Info size={12}/> Without a passphrase automatic backups are not protected. Use a folder only authorised staff can open.</p>}
+                                 </div>
+
+                                 {backupRunStatus?.lastAttemptAt && (
+                                     <div className={`text-xs rounded-lg p-3 border ${backupRunStatus.lastError ? 'bg-red-50 border-red-100 text-red-600' : 'bg-green-50 border-green-100 text-green-700'}`}>
+                                         {backupRunStatus.lastError
+                                             ? <>Last run {new Date(backupRunStatus.lastAttemptAt).toLocaleString()} failed: {backupRunStatus.lastError}</>
+                                             : <>Last backup {new Date(backupRunStatus.lastAttemptAt).toLocaleString()}: {backupRunStatus.lastFile}</>}
+                                     </div>
+                                 )}
+
+                                 <div className="grid grid-cols-2 gap-2">
+                                     <button type="button" onClick={handleRunScheduledBackup} disabled={isRunningScheduled || !backupSchedule.folder} className="bg-white border border-sky-300 text-sky-700 py-2.5 rounded-lg text-sm font-medium hover:bg-sky-50 disabled:opacity-50">
+                                         {isRunningScheduled ? 'Backing up...' : 'Run Now'}
+                                     </button>
+                                     <button type="submit" className="bg-sky-600 text-white py-2.5 rounded-lg text-sm font-medium hover:bg-sky-700 flex items-center justify-center gap-2">
+                                         <Save size={16}/> Save Schedule
+                                     </button>
+                                 </div>
+                             </form>
+                         )}
+                     </div>
+
+                     <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200">
+                         <div className="flex items-center gap-4 mb-6">
+                             <div className="p-3 bg-emerald-50 text-emerald-600 rounded-xl"><KeyRound size={28}/></div>
+                             <div>
+                                 <h3 className="text-xl font-bold text-slate-800">At-rest Encryption</h3>
+                                 <p className="text-slate-500 text-sm">Encrypts client details, notice descriptions, hearing minutes, OCR text and stored files with a master passphrase entered at sign-in.</p>
+                             </div>
+                             <span className={`ml-auto text-xs font-bold px-2 py-1 rounded ${encryptionConfig?.enabled ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                                 {encryptionConfig?.enabled ? 'Enabled' : 'Disabled'}
+                             </span>
+                         </div>
+
+                         <form onSubmit={handleRekey} className="space-y-4">
+                             {encryptionConfig?.enabled && (
+                                 <div>
+                                     <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Current Passphrase</label>
+                                     <input type="password" required className="w-full border border-slate-300 rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-emerald-500" value={passphraseForm.current} onChange={e => setPassphraseForm({ ...passphraseForm, current: e.target.value })} />
+                                 </div>
+                             )}
+                             <div className="grid grid-cols-2 gap-4">
+                                 <div>
+                                     <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{encryptionConfig?.enabled ? 'New Passphrase' : 'Master Passphrase'}</label>
+                                     <input type="password" required minLength={MIN_PASSPHRASE_LENGTH} className="w-full border border-slate-300 rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-emerald-500" value={passphraseForm.next} onChange={e => setPassphraseForm({ ...passphraseForm, next: e.target.value })} />
+                                 </div>
+                                 <div>
+                                     <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Confirm</label>
+                                     <input type="password" required className="w-full border border-slate-300 rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-emerald-500" value={passphraseForm.confirm} onChange={e => setPassphraseForm({ ...passphraseForm, confirm: e.target.value })} />
+                                 </div>
+                             </div>
+                             <p className="text-xs text-amber-600 flex items-center gap-1"><Info size={12}/> The passphrase is never stored. If it is lost, encrypted data cannot be recovered.</p>
+                             <button type="submit" disabled={!!rekeyProgress} className="w-full bg-emerald-600 text-white py-2.5 rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-60 flex items-center justify-center gap-2">
+                                 <KeyRound size={16}/> {rekeyProgress || (encryptionConfig?.enabled ? 'Change Passphrase & Re-encrypt' : 'Enable Encryption')}
+                             </button>
+                         </form>
                      </div>
                  </div>
              )}
@@ -88,6 +88,7 @@ const AuditLogViewer: React.FC = () => {
                     >
                         <option value="All">All Entities</option>
                         <option value="Notice">Notice</option>
+                        <option value="Appeal">Appeal</option>
                         <option value="Payment">Payment</option>
                         <option value="Taxpayer">Taxpayer</option>
                         <option value="Auth">Auth</option>
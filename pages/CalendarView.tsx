@@ -1,18 +1,95 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { NoticeStatus } from '../types';
-import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Clock, Gavel } from 'lucide-react';
+import { Hearing, Notice, NoticeStatus, RiskLevel } from '../types';
+import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Clock, Gavel, FileCheck, AlertTriangle, Download, X, Copy, Rss, RefreshCw, MapPin } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { COMPLIANCE_STATUS_STYLES, ComplianceDue, buildComplianceSchedule } from '../utils/complianceCalendar';
+import { DEFAULT_LIMITATION_CONFIG } from '../utils/limitation';
+import { formatDate } from '../utils/formatting';
+import { IcsScope, buildIcs, downloadIcs } from '../utils/icsExport';
+import { CALENDAR_FEED_KEY, DEFAULT_CALENDAR_FEED, feedUrl, loadIcsSource, newFeedToken, publishCalendarFeed, saveCalendarFeedConfig } from '../utils/calendarFeed';
+import { isElectron } from '../utils/backupScheduler';
+import { CalendarFeedConfig } from '../types';
+import { findHearingConflicts, parseHearingTime } from '../utils/hearingSchedule';
+
+type CalendarLayer = 'notices' | 'hearings' | 'filings';
+type CalendarMode = 'month' | 'week' | 'agenda' | 'team';
+
+const MODES: { key: CalendarMode; label: string }[] = [
+  { key: 'month', label: 'Month' },
+  { key: 'week', label: 'Week' },
+  { key: 'agenda', label: 'Agenda' },
+  { key: 'team', label: 'Team' }
+];
+
+const AGENDA_DAYS = 30;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const UNASSIGNED = '__unassigned';
+
+interface CalendarEvent {
+  type: 'due' | 'hearing';
+  notice: Notice;
+  hearingDetail?: Hearing;
+}
+
+const toDateKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (dateKey: string, n: number) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return toDateKey(new Date(y, m - 1, d + n));
+};
+
+const shortDate = (dateKey: string) => new Date(`${dateKey}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+const LAYERS: { key: CalendarLayer; label: string; style: string }[] = [
+  { key: 'notices', label: 'Notice Due Dates', style: 'bg-red-50 text-red-600 border-red-200' },
+  { key: 'hearings', label: 'Hearings', style: 'bg-purple-100 text-purple-700 border-purple-200' },
+  { key: 'filings', label: 'Return Filings', style: 'bg-sky-50 text-sky-700 border-sky-200' }
+];
+
+// A day cell shows one chip per form, coloured by the most pressing status among its taxpayers
+const STATUS_PRIORITY: ComplianceDue['status'][] = ['Overdue', 'Pending', 'Filed Late', 'Lapsed', 'Filed'];
+
+const groupFilings = (dues: ComplianceDue[]) => {
+  const groups = new Map<string, ComplianceDue[]>();
+  dues.forEach(d => groups.set(d.form, [...(groups.get(d.form) || []), d]));
+  return [...groups.entries()].map(([form, list]) => ({
+      form, count: list.length, status: STATUS_PRIORITY.find(s => list.some(d => d.status === s))!
+  }));
+};
 
 const CalendarView: React.FC = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [layers, setLayers] = useState<Record<CalendarLayer, boolean>>({ notices: true, hearings: true, filings: true });
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const [riskFilter, setRiskFilter] = useState('');
 
   const notices = useLiveQuery(() => db.notices.toArray());
   const hearings = useLiveQuery(() => db.hearings.toArray());
+  const taxpayers = useLiveQuery(() => db.taxpayers.toArray());
+  const returns = useLiveQuery(() => db.returns.toArray());
+  const configLimitation = useLiveQuery(() => db.appConfig.get({ key: 'limitation_config' }));
+  const users = useLiveQuery(() => db.users.toArray());
+  const feedRow = useLiveQuery(() => db.appConfig.get({ key: CALENDAR_FEED_KEY }));
+  const feedConfig: CalendarFeedConfig = { ...DEFAULT_CALENDAR_FEED, ...(feedRow?.value || {}) };
+
+  // Export / subscribe: one scope drives both the .ics download and the feed URL shown
+  const [showExport, setShowExport] = useState(false);
+  const [exportScope, setExportScope] = useState<IcsScope['type']>('user');
+  const [exportUser, setExportUser] = useState('');
+  const [exportGstin, setExportGstin] = useState('');
+  const [includeFilings, setIncludeFilings] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [feedBusy, setFeedBusy] = useState(false);
+  const [portInput, setPortInput] = useState('');
+  const [copied, setCopied] = useState(false);
 
   const getDaysInMonth = (date: Date) => {
     const year = date.getFullYear();
@@ -25,13 +102,14 @@ const CalendarView: React.FC = () => {
   const { days, firstDay } = getDaysInMonth(currentDate);
   const monthNames = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
 
-  const handlePrevMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1));
-    setSelectedDate(null);
-  };
-
-  const handleNextMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1));
+  // Month steps by month, week and team by seven days, agenda by its own length
+  const handleStep = (direction: 1 | -1) => {
+    if (mode === 'month') {
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + direction, 1));
+    } else {
+      const step = mode === 'agenda' ? AGENDA_DAYS : 7;
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() + direction * step));
+    }
     setSelectedDate(null);
   };
 
@@ -40,12 +118,135 @@ const CalendarView: React.FC = () => {
     return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
   };
 
+  // Days on screen: the month, the Sunday-to-Saturday week around the current date, or the agenda window
+  const today = new Date().toISOString().split('T')[0];
+  const anchor = toDateKey(currentDate);
+  const weekStart = addDays(anchor, -currentDate.getDay());
+  const [rangeStart, rangeEnd] = mode === 'month'
+      ? [formatDateKey(currentDate.getFullYear(), currentDate.getMonth(), 1), formatDateKey(currentDate.getFullYear(), currentDate.getMonth(), days)]
+      : mode === 'agenda' ? [anchor, addDays(anchor, AGENDA_DAYS - 1)] : [weekStart, addDays(weekStart, 6)];
+  const rangeDays = useMemo(() => {
+      const list: string[] = [];
+      for (let d = rangeStart; d <= rangeEnd; d = addDays(d, 1)) list.push(d);
+      return list;
+  }, [rangeStart, rangeEnd]);
+
+  // Return filing due dates for the days shown, plus everything overdue up to today
+  const schedule = useMemo(() => (
+      taxpayers && returns
+          ? buildComplianceSchedule(taxpayers, returns, rangeStart < today ? rangeStart : today, rangeEnd > today ? rangeEnd : today, configLimitation?.value || DEFAULT_LIMITATION_CONFIG)
+          : []
+  ), [taxpayers, returns, configLimitation, rangeStart, rangeEnd, today]);
+  const overdueFilings = schedule.filter(d => d.status === 'Overdue');
+  const untrackedCount = taxpayers?.filter(t => !t.filingProfile).length || 0;
+
+  // Return filings belong to a taxpayer, not a person or a risk rating, so those filters hide them
+  const personFiltered = !!assigneeFilter || !!riskFilter;
+  const matchesFilters = (notice: Notice) =>
+      (!assigneeFilter || (assigneeFilter === UNASSIGNED ? !notice.assignedTo : notice.assignedTo === assigneeFilter))
+      && (!riskFilter || notice.riskLevel === riskFilter);
+
+  const tradeNames = useMemo(() => new Map((taxpayers || []).map(t => [t.gstin, t.tradeName])), [taxpayers]);
+  const activeUsers = (users || []).filter(u => u.isActive);
+  const userName = (username?: string) => activeUsers.find(u => u.username === username)?.fullName || username || 'Unassigned';
+
+  const conflicts = useMemo(() => (notices && hearings ? findHearingConflicts(hearings, notices) : []), [notices, hearings]);
+  const conflictIds = new Set(conflicts.flatMap(c => c.hearingIds));
+  const conflictsInRange = conflicts.filter(c => c.date >= rangeStart && c.date <= rangeEnd && (!assigneeFilter || c.assignedTo === assigneeFilter));
+
+  const filingsByDate: Record<string, ComplianceDue[]> = {};
+  if (layers.filings && !personFiltered) {
+      schedule.forEach(due => {
+          if (due.dueDate < rangeStart || due.dueDate > rangeEnd) return;
+          if (!filingsByDate[due.dueDate]) filingsByDate[due.dueDate] = [];
+          filingsByDate[due.dueDate].push(due);
+      });
+  }
+
+  const openExport = () => {
+      setExportUser(exportUser || user?.username || '');
+      setExportGstin(exportGstin || taxpayers?.[0]?.gstin || '');
+      setPortInput(String(feedConfig.port));
+      setCopied(false);
+      setShowExport(true);
+  };
+
+  const getExportScope = (): IcsScope | null => {
+      if (exportScope === 'firm') return { type: 'firm' };
+      if (exportScope === 'user') return exportUser ? { type: 'user', username: exportUser } : null;
+      return exportGstin ? { type: 'client', gstin: exportGstin } : null;
+  };
+
+  const scopeName = (scope: IcsScope) => scope.type === 'firm'
+      ? 'Firm'
+      : scope.type === 'user'
+          ? users?.find(u => u.username === scope.username)?.fullName || scope.username
+          : taxpayers?.find(t => t.gstin === scope.gstin)?.tradeName || scope.gstin;
+
+  const handleDownloadIcs = async () => {
+      const scope = getExportScope();
+      if (!scope) return alert('Select a user or client to export.');
+      setExporting(true);
+      try {
+          const source = await loadIcsSource(includeFilings);
+          const ics = buildIcs(source, scope, `GST Nexus - ${scopeName(scope)}`);
+          const label = scope.type === 'firm' ? 'Firm' : scope.type === 'user' ? scope.username : scope.gstin;
+          downloadIcs(ics, `GSTNexus_Calendar_${label.replace(/[^A-Za-z0-9_-]/g, '_')}_${today}.ics`);
+      } catch (e) {
+          console.error(e);
+          alert('Could not build the calendar file.');
+      } finally {
+          setExporting(false);
+      }
+  };
+
+  // Saves and republishes straight away, so a port already in use is reported here
+  const updateFeed = async (changes: Partial<CalendarFeedConfig>) => {
+      if (!user) return;
+      const next = { ...feedConfig, ...changes };
+      if (next.enabled && !next.token) next.token = newFeedToken();
+      setFeedBusy(true);
+      try {
+          await saveCalendarFeedConfig(next, user.username);
+          await publishCalendarFeed();
+      } catch (e) {
+          console.error(e);
+          if (next.enabled) await saveCalendarFeedConfig({ ...next, enabled: false }, user.username);
+          alert(`Could not start the calendar feed on port ${next.port}: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+          setFeedBusy(false);
+      }
+  };
+
+  const handlePortBlur = () => {
+      const port = parseInt(portInput);
+      if (port === feedConfig.port) return;
+      if (!(port >= 1024 && port <= 65535)) {
+          setPortInput(String(feedConfig.port));
+          return alert('Enter a port between 1024 and 65535.');
+      }
+      updateFeed({ port });
+  };
+
+  const handleResetToken = () => {
+      if (!confirm('Generate a new feed address? Calendars subscribed to the current address will stop updating.')) return;
+      updateFeed({ token: newFeedToken() });
+  };
+
+  const exportScopeValue = getExportScope();
+  const subscribeUrl = exportScopeValue && feedConfig.enabled && feedConfig.token ? feedUrl(feedConfig, exportScopeValue) : '';
+
+  const handleCopyUrl = async () => {
+      await navigator.clipboard.writeText(subscribeUrl);
+      setCopied(true);
+  };
+
   // Group events by date
-  const eventsByDate: Record<string, any[]> = {};
+  const eventsByDate: Record<string, CalendarEvent[]> = {};
   
   // Notice Due Dates
   notices?.forEach(notice => {
-      if (notice.dueDate && notice.status !== NoticeStatus.CLOSED) {
+      if (layers.notices && notice.dueDate && notice.status !== NoticeStatus.CLOSED && matchesFilters(notice)) {
           if (!eventsByDate[notice.dueDate]) eventsByDate[notice.dueDate] = [];
           eventsByDate[notice.dueDate].push({ type: 'due', notice });
       }
@@ -53,15 +254,19 @@ const CalendarView: React.FC = () => {
 
   // Hearings from new table
   hearings?.forEach(hearing => {
-      if (hearing.date) {
+      if (layers.hearings && hearing.date) {
           const relatedNotice = notices?.find(n => n.id === hearing.noticeId);
-          if (relatedNotice) {
+          if (relatedNotice && matchesFilters(relatedNotice)) {
               if (!eventsByDate[hearing.date]) eventsByDate[hearing.date] = [];
               eventsByDate[hearing.date].push({ type: 'hearing', notice: relatedNotice, hearingDetail: hearing });
           }
       }
   });
 
+  // Hearings in time order, ahead of the day's due dates
+  const eventMinutes = (e: CalendarEvent) => (e.type === 'hearing' ? parseHearingTime(e.hearingDetail?.time) ?? 24 * 60 : 24 * 60 + 1);
+  Object.values(eventsByDate).forEach(list => list.sort((a, b) => eventMinutes(a) - eventMinutes(b)));
+
   const renderCalendar = () => {
     const calendarDays = [];
     // Empty cells for days before the first of the month
@@ -73,6 +278,22 @@ const CalendarView: React.FC = () => {
     for (let d = 1; d <= days; d++) {
       const dateKey = formatDateKey(currentDate.getFullYear(), currentDate.getMonth(), d);
       const dayEvents = eventsByDate[dateKey] || [];
+      const filingGroups = groupFilings(filingsByDate[dateKey] || []);
+      const chips = [
+          ...dayEvents.map((event, idx) => {
+              const clash = event.type === 'hearing' && conflictIds.has(event.hearingDetail!.id!);
+              return (
+                  <div key={`${event.notice.id}-${idx}`} className={`text-[10px] px-1.5 py-0.5 rounded truncate border ${clash ? 'bg-red-100 text-red-700 border-red-300 font-semibold' : event.type === 'hearing' ? 'bg-purple-100 text-purple-700 border-purple-200' : 'bg-red-50 text-red-600 border-red-100'}`}>
+                      {event.type === 'hearing' ? `${clash ? '⚠️' : '⚖️'} Hearing` : '⚠️ Due'}
+                  </div>
+              );
+          }),
+          ...filingGroups.map(group => (
+              <div key={group.form} className={`text-[10px] px-1.5 py-0.5 rounded truncate border ${COMPLIANCE_STATUS_STYLES[group.status]}`}>
+                  🧾 {group.form}{group.count > 1 ? ` ×${group.count}` : ''}
+              </div>
+          ))
+      ];
       const isToday = dateKey === new Date().toISOString().split('T')[0];
       const isSelected = selectedDate === dateKey;
 
@@ -88,13 +309,9 @@ const CalendarView: React.FC = () => {
           <span className={`text-sm font-semibold rounded-full w-7 h-7 flex items-center justify-center ${isToday ? 'bg-blue-600 text-white' : 'text-slate-700'}`}>{d}</span>
           
           <div className="mt-2 space-y-1 overflow-y-auto max-h-[80px]">
-              {dayEvents.slice(0, 3).map((event, idx) => (
-                  <div key={`${event.notice.id}-${idx}`} className={`text-[10px] px-1.5 py-0.5 rounded truncate border ${event.type === 'hearing' ? 'bg-purple-100 text-purple-700 border-purple-200' : 'bg-red-50 text-red-600 border-red-100'}`}>
-                      {event.type === 'hearing' ? '⚖️ Hearing' : '⚠️ Due'}
-                  </div>
-              ))}
-              {dayEvents.length > 3 && (
-                  <div className="text-[10px] text-slate-400 pl-1">+ {dayEvents.length - 3} more</div>
+              {chips.slice(0, 3)}
+              {chips.length > 3 && (
+                  <div className="text-[10px] text-slate-400 pl-1">+ {chips.length - 3} more</div>
               )}
           </div>
         </div>
@@ -104,34 +321,269 @@ const CalendarView: React.FC = () => {
   };
 
   const selectedEvents = selectedDate ? (eventsByDate[selectedDate] || []) : [];
+  const selectedFilings = selectedDate ? (filingsByDate[selectedDate] || []) : [];
+  const totalSelected = selectedEvents.length + selectedFilings.length;
+
+  const renderFiling = (due: ComplianceDue) => (
+      <div
+          key={due.key}
+          onClick={() => due.taxpayerId && navigate(`/taxpayers/${due.taxpayerId}`)}
+          className="p-3 rounded-lg border bg-white border-slate-200 hover:border-sky-300 cursor-pointer hover:shadow-md transition-all group"
+      >
+          <div className="flex justify-between items-start mb-1">
+              <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-sky-100 text-sky-800">{due.form}</span>
+              <span className={`text-[10px] px-1.5 py-0.5 rounded border ${COMPLIANCE_STATUS_STYLES[due.status]}`}>
+                  {due.status}{due.daysLate ? ` · ${due.daysLate}d` : ''}
+              </span>
+          </div>
+          <h4 className="font-semibold text-slate-800 text-sm group-hover:text-sky-700 transition-colors">{due.tradeName}</h4>
+          <p className="text-xs text-slate-500 mt-1">{due.label} · {due.gstin}</p>
+          <p className="text-[11px] text-slate-400 mt-1">
+              Due {formatDate(due.dueDate)}{due.filingDate ? ` · filed ${formatDate(due.filingDate)}` : ''}
+          </p>
+      </div>
+  );
+
+  const renderEvent = (evt: CalendarEvent, idx: number) => {
+      const clash = evt.type === 'hearing' && conflictIds.has(evt.hearingDetail!.id!);
+      return (
+          <div 
+              key={idx} 
+              onClick={() => navigate(`/notices/${evt.notice.id}`)}
+              className={`p-3 rounded-lg border cursor-pointer hover:shadow-md transition-all group ${
+                  clash ? 'bg-red-50 border-red-300' : evt.type === 'hearing' ? 'bg-purple-50 border-purple-100 hover:border-purple-300' : 'bg-white border-slate-200 hover:border-blue-300'
+              }`}
+          >
+              <div className="flex justify-between items-start mb-1">
+                  <span className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${
+                      evt.type === 'hearing' ? 'bg-purple-200 text-purple-800' : 'bg-red-100 text-red-700'
+                  }`}>
+                      {evt.type === 'hearing' ? 'Hearing' : 'Due Date'}
+                  </span>
+                  <span className="text-[10px] text-slate-400 font-mono">#{evt.notice.noticeNumber}</span>
+              </div>
+              <h4 className="font-semibold text-slate-800 text-sm group-hover:text-blue-600 transition-colors">
+                  {tradeNames.get(evt.notice.gstin) || evt.notice.gstin}
+              </h4>
+              <p className="text-xs text-slate-500 mt-1 line-clamp-1">{evt.notice.noticeType} · {userName(evt.notice.assignedTo)}</p>
+              
+              {evt.type === 'hearing' && evt.hearingDetail && (
+                  <div className="mt-2 pt-2 border-t border-purple-200/50 flex flex-col gap-1 text-xs text-purple-700">
+                      <div className="flex items-center gap-2">
+                          <Gavel size={12}/>
+                          <span>{evt.hearingDetail.time}</span>
+                      </div>
+                      <span className="truncate opacity-75">{evt.hearingDetail.venue}</span>
+                      <span className={`text-[9px] px-1 rounded w-fit border ${
+                          evt.hearingDetail.status === 'Concluded' ? 'bg-green-100 border-green-200 text-green-700' : 'bg-purple-100 border-purple-200 text-purple-700'
+                      }`}>{evt.hearingDetail.status}</span>
+                      {clash && (
+                          <span className="text-[10px] text-red-700 font-semibold flex items-center gap-1"><AlertTriangle size={11}/> Clashes with another hearing</span>
+                      )}
+                  </div>
+              )}
+          </div>
+      );
+  };
+
+  // Narrow card for the week columns and team lanes
+  const renderCompactEvent = (evt: CalendarEvent, idx: number) => {
+      const clash = evt.type === 'hearing' && conflictIds.has(evt.hearingDetail!.id!);
+      return (
+          <div
+              key={idx}
+              onClick={e => { e.stopPropagation(); navigate(`/notices/${evt.notice.id}`); }}
+              title={`${evt.notice.noticeNumber} · ${tradeNames.get(evt.notice.gstin) || evt.notice.gstin}${evt.hearingDetail?.venue ? ` · ${evt.hearingDetail.venue}` : ''}`}
+              className={`text-[11px] px-1.5 py-1 rounded border cursor-pointer hover:shadow-sm ${
+                  clash ? 'bg-red-100 text-red-700 border-red-300' : evt.type === 'hearing' ? 'bg-purple-50 text-purple-700 border-purple-200' : 'bg-red-50 text-red-600 border-red-100'
+              }`}
+          >
+              <div className="font-semibold truncate">
+                  {evt.type === 'hearing' ? `${clash ? '⚠️' : '⚖️'} ${evt.hearingDetail!.time || 'Hearing'}` : '⚠️ Due'} · {evt.notice.noticeType}
+              </div>
+              <div className="truncate opacity-80">{tradeNames.get(evt.notice.gstin) || evt.notice.gstin}</div>
+              {evt.type === 'hearing' && evt.hearingDetail!.venue && (
+                  <div className="truncate opacity-60 flex items-center gap-0.5"><MapPin size={9}/>{evt.hearingDetail!.venue}</div>
+              )}
+          </div>
+      );
+  };
+
+  const renderFilingChips = (dateKey: string) => groupFilings(filingsByDate[dateKey] || []).map(group => (
+      <div key={group.form} className={`text-[11px] px-1.5 py-0.5 rounded truncate border ${COMPLIANCE_STATUS_STYLES[group.status]}`}>
+          🧾 {group.form}{group.count > 1 ? ` ×${group.count}` : ''}
+      </div>
+  ));
+
+  const renderWeek = () => (
+      <div className="grid grid-cols-7 flex-1 min-h-[28rem]">
+          {rangeDays.map(dateKey => (
+              <div
+                  key={dateKey}
+                  onClick={() => setSelectedDate(dateKey)}
+                  className={`border-r border-slate-200 p-2 space-y-1.5 cursor-pointer overflow-y-auto ${dateKey === today ? 'bg-blue-50' : 'bg-white'} ${selectedDate === dateKey ? 'ring-2 ring-inset ring-blue-500' : 'hover:bg-slate-50'}`}
+              >
+                  <div className={`text-xs font-semibold mb-2 ${dateKey === today ? 'text-blue-700' : 'text-slate-600'}`}>{shortDate(dateKey)}</div>
+                  {(eventsByDate[dateKey] || []).map(renderCompactEvent)}
+                  {renderFilingChips(dateKey)}
+              </div>
+          ))}
+      </div>
+  );
+
+  const renderAgenda = () => {
+      const agendaDays = rangeDays.filter(d => (eventsByDate[d] || []).length > 0 || (filingsByDate[d] || []).length > 0);
+      if (agendaDays.length === 0) {
+          return (
+              <div className="flex-1 flex flex-col items-center justify-center py-16 text-slate-400">
+                  <Clock size={32} className="mb-2 opacity-50"/>
+                  <p>Nothing scheduled between {shortDate(rangeStart)} and {shortDate(rangeEnd)}.</p>
+              </div>
+          );
+      }
+      return (
+          <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+              {agendaDays.map(dateKey => (
+                  <div key={dateKey} className="flex gap-4 p-4">
+                      <div className={`w-24 shrink-0 text-sm font-semibold ${dateKey === today ? 'text-blue-700' : 'text-slate-700'}`}>
+                          {new Date(`${dateKey}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' })}
+                      </div>
+                      <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-2">
+                          {(eventsByDate[dateKey] || []).map(renderEvent)}
+                          {(filingsByDate[dateKey] || []).map(renderFiling)}
+                      </div>
+                  </div>
+              ))}
+          </div>
+      );
+  };
+
+  // One lane per team member: who is in a hearing on which day of the week
+  const renderTeam = () => {
+      const lanes = [...activeUsers.map(u => ({ key: u.username, label: u.fullName })), { key: UNASSIGNED, label: 'Unassigned' }]
+          .filter(lane => !assigneeFilter || lane.key === assigneeFilter);
+      const laneEvents = (lane: string, dateKey: string) => (eventsByDate[dateKey] || [])
+          .filter(e => (lane === UNASSIGNED ? !e.notice.assignedTo : e.notice.assignedTo === lane));
+      return (
+          <div className="flex-1 overflow-auto">
+              <div className="grid grid-cols-[10rem_repeat(7,minmax(0,1fr))] min-w-[56rem]">
+                  <div className="py-2 px-3 text-xs font-semibold text-slate-500 uppercase tracking-wide bg-slate-50 border-b border-r border-slate-200">Team member</div>
+                  {rangeDays.map(dateKey => (
+                      <div key={dateKey} className={`py-2 text-center text-xs font-semibold uppercase tracking-wide border-b border-r border-slate-200 ${dateKey === today ? 'bg-blue-50 text-blue-700' : 'bg-slate-50 text-slate-500'}`}>
+                          {WEEKDAYS[new Date(`${dateKey}T00:00:00`).getDay()]} {shortDate(dateKey)}
+                      </div>
+                  ))}
+                  {lanes.map(lane => {
+                      const week = rangeDays.map(d => laneEvents(lane.key, d));
+                      const hearingCount = week.flat().filter(e => e.type === 'hearing').length;
+                      return (
+                          <React.Fragment key={lane.key}>
+                              <div className="p-3 border-b border-r border-slate-200 bg-white">
+                                  <div className="text-sm font-semibold text-slate-800 truncate">{lane.label}</div>
+                                  <div className="text-[11px] text-slate-400">{hearingCount} hearing{hearingCount !== 1 ? 's' : ''}</div>
+                              </div>
+                              {rangeDays.map((dateKey, i) => {
+                                  const clash = conflictsInRange.some(c => c.assignedTo === lane.key && c.date === dateKey);
+                                  return (
+                                      <div
+                                          key={dateKey}
+                                          onClick={() => setSelectedDate(dateKey)}
+                                          className={`p-1.5 border-b border-r space-y-1 min-h-[5rem] cursor-pointer ${clash ? 'bg-red-50/60 border-red-200' : 'border-slate-200 hover:bg-slate-50'}`}
+                                      >
+                                          {week[i].map(renderCompactEvent)}
+                                      </div>
+                                  );
+                              })}
+                          </React.Fragment>
+                      );
+                  })}
+              </div>
+          </div>
+      );
+  };
+
+  const headerTitle = mode === 'month'
+      ? `${monthNames[currentDate.getMonth()]} ${currentDate.getFullYear()}`
+      : `${shortDate(rangeStart)} – ${shortDate(rangeEnd)} ${rangeEnd.slice(0, 4)}`;
 
   return (
     <div className="h-full flex flex-col md:flex-row gap-6 pb-6">
         <div className="flex-1 flex flex-col bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
             {/* Calendar Header */}
-            <div className="p-4 flex justify-between items-center bg-white border-b border-slate-200">
+            <div className="p-4 flex flex-wrap gap-3 justify-between items-center bg-white border-b border-slate-200">
                 <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                     <CalendarIcon className="text-blue-600"/>
-                    {monthNames[currentDate.getMonth()]} {currentDate.getFullYear()}
+                    {headerTitle}
                 </h2>
+                <div className="flex bg-slate-100 rounded-lg p-0.5">
+                    {MODES.map(m => (
+                        <button
+                            key={m.key}
+                            onClick={() => { setMode(m.key); setSelectedDate(null); }}
+                            className={`px-3 py-1 text-sm rounded-md font-medium ${mode === m.key ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'}`}
+                        >
+                            {m.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-1.5">
+                    {LAYERS.map(layer => (
+                        <button
+                            key={layer.key}
+                            onClick={() => setLayers(prev => ({ ...prev, [layer.key]: !prev[layer.key] }))}
+                            className={`px-2.5 py-1 text-xs rounded-full border font-medium transition-opacity ${layer.style} ${layers[layer.key] ? '' : 'opacity-40 line-through'}`}
+                        >
+                            {layer.label}
+                        </button>
+                    ))}
+                </div>
                 <div className="flex gap-2">
-                    <button onClick={handlePrevMonth} className="p-2 hover:bg-slate-100 rounded-full text-slate-600"><ChevronLeft/></button>
+                    <button onClick={openExport} className="px-3 py-1 text-sm bg-slate-100 hover:bg-slate-200 rounded-lg text-slate-700 font-medium flex items-center gap-1.5">
+                        <Download size={14}/> Export .ics
+                    </button>
+                    <button onClick={() => handleStep(-1)} className="p-2 hover:bg-slate-100 rounded-full text-slate-600"><ChevronLeft/></button>
                     <button onClick={() => setCurrentDate(new Date())} className="px-3 py-1 text-sm bg-slate-100 hover:bg-slate-200 rounded-lg text-slate-700 font-medium">Today</button>
-                    <button onClick={handleNextMonth} className="p-2 hover:bg-slate-100 rounded-full text-slate-600"><ChevronRight/></button>
+                    <button onClick={() => handleStep(1)} className="p-2 hover:bg-slate-100 rounded-full text-slate-600"><ChevronRight/></button>
                 </div>
             </div>
 
-            {/* Weekday Headers */}
-            <div className="grid grid-cols-7 border-b border-slate-200 bg-slate-50">
-                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
-                    <div key={day} className="py-2 text-center text-xs font-semibold text-slate-500 uppercase tracking-wide">{day}</div>
-                ))}
+            {/* Filters */}
+            <div className="px-4 py-2 flex flex-wrap gap-3 items-center border-b border-slate-200 bg-slate-50 text-sm">
+                <select value={assigneeFilter} onChange={e => setAssigneeFilter(e.target.value)} className="p-1.5 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500">
+                    <option value="">All team members</option>
+                    {activeUsers.map(u => <option key={u.username} value={u.username}>{u.fullName}</option>)}
+                    <option value={UNASSIGNED}>Unassigned</option>
+                </select>
+                <select value={riskFilter} onChange={e => setRiskFilter(e.target.value)} className="p-1.5 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500">
+                    <option value="">All risk levels</option>
+                    {Object.values(RiskLevel).map(r => <option key={r} value={r}>{r} risk</option>)}
+                </select>
+                {personFiltered && layers.filings && (
+                    <span className="text-[11px] text-slate-400">Return filings are hidden while filtering by team member or risk.</span>
+                )}
+                {conflictsInRange.length > 0 && (
+                    <span className="ml-auto text-xs font-semibold text-red-700 bg-red-50 border border-red-200 rounded-full px-2.5 py-1 flex items-center gap-1">
+                        <AlertTriangle size={12}/> {conflictsInRange.length} hearing clash{conflictsInRange.length !== 1 ? 'es' : ''}
+                    </span>
+                )}
             </div>
 
-            {/* Calendar Grid */}
-            <div className="grid grid-cols-7 flex-1 auto-rows-fr">
-                {renderCalendar()}
-            </div>
+            {(mode === 'month' || mode === 'week') && (
+                <div className="grid grid-cols-7 border-b border-slate-200 bg-slate-50">
+                    {WEEKDAYS.map(day => (
+                        <div key={day} className="py-2 text-center text-xs font-semibold text-slate-500 uppercase tracking-wide">{day}</div>
+                    ))}
+                </div>
+            )}
+
+            {mode === 'month' && (
+                <div className="grid grid-cols-7 flex-1 auto-rows-fr">
+                    {renderCalendar()}
+                </div>
+            )}
+            {mode === 'week' && renderWeek()}
+            {mode === 'agenda' && renderAgenda()}
+            {mode === 'team' && renderTeam()}
         </div>
 
         {/* Side Panel for Selected Date */}
@@ -142,54 +594,147 @@ const CalendarView: React.FC = () => {
                         {selectedDate ? new Date(selectedDate).toLocaleDateString('en-IN', { weekday: 'long', day: 'numeric', month: 'long' }) : 'Select a date'}
                     </h3>
                     <p className="text-xs text-slate-500 mt-1">
-                        {selectedEvents.length} Event{selectedEvents.length !== 1 ? 's' : ''}
+                        {selectedDate ? `${totalSelected} Event${totalSelected !== 1 ? 's' : ''}` : `${overdueFilings.length} overdue return filing${overdueFilings.length !== 1 ? 's' : ''}`}
                     </p>
                 </div>
                 <div className="p-4 flex-1 overflow-y-auto space-y-3">
-                    {selectedDate && selectedEvents.length === 0 && (
+                    {!selectedDate && conflictsInRange.length > 0 && (
+                        <>
+                            <h4 className="text-xs font-bold text-red-700 uppercase tracking-wide flex items-center gap-1"><AlertTriangle size={14}/> Hearing Clashes</h4>
+                            {conflictsInRange.map(c => (
+                                <div key={`${c.hearingIds.join('-')}`} onClick={() => setSelectedDate(c.date)} className="p-3 rounded-lg border border-red-200 bg-red-50 cursor-pointer hover:shadow-md transition-all">
+                                    <div className="flex justify-between items-start mb-1">
+                                        <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-red-100 text-red-800">{c.kind}</span>
+                                        <span className="text-[10px] text-slate-500">{formatDate(c.date)}</span>
+                                    </div>
+                                    <h4 className="font-semibold text-slate-800 text-sm">{userName(c.assignedTo)}</h4>
+                                    <p className="text-xs text-slate-600 mt-1">{c.detail}</p>
+                                </div>
+                            ))}
+                        </>
+                    )}
+                    {!selectedDate && layers.filings && !personFiltered && (
+                        <>
+                            <h4 className="text-xs font-bold text-red-700 uppercase tracking-wide flex items-center gap-1"><AlertTriangle size={14}/> Overdue Filings</h4>
+                            {overdueFilings.length === 0 && (
+                                <div className="text-center py-6 text-slate-400 text-sm">
+                                    <FileCheck size={28} className="mx-auto mb-2 opacity-50"/>
+                                    <p>No return is past its due date.</p>
+                                </div>
+                            )}
+                            {overdueFilings.map(renderFiling)}
+                            {untrackedCount > 0 && (
+                                <p className="text-[11px] text-slate-400 pt-2 border-t border-slate-100">
+                                    {untrackedCount} taxpayer{untrackedCount !== 1 ? 's have' : ' has'} no filing profile; set one on the taxpayer page to track due dates.
+                                </p>
+                            )}
+                        </>
+                    )}
+                    {selectedDate && totalSelected === 0 && (
                         <div className="text-center py-10 text-slate-400">
                             <Clock size={32} className="mx-auto mb-2 opacity-50"/>
                             <p>No events scheduled</p>
                         </div>
                     )}
-                    {selectedEvents.map((evt, idx) => (
-                        <div 
-                            key={idx} 
-                            onClick={() => navigate(`/notices/${evt.notice.id}`)}
-                            className={`p-3 rounded-lg border cursor-pointer hover:shadow-md transition-all group ${
-                                evt.type === 'hearing' ? 'bg-purple-50 border-purple-100 hover:border-purple-300' : 'bg-white border-slate-200 hover:border-blue-300'
-                            }`}
-                        >
-                            <div className="flex justify-between items-start mb-1">
-                                <span className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${
-                                    evt.type === 'hearing' ? 'bg-purple-200 text-purple-800' : 'bg-red-100 text-red-700'
-                                }`}>
-                                    {evt.type === 'hearing' ? 'Hearing' : 'Due Date'}
-                                </span>
-                                <span className="text-[10px] text-slate-400 font-mono">#{evt.notice.noticeNumber}</span>
+                    {selectedEvents.map(renderEvent)}
+                    {selectedFilings.map(renderFiling)}
+                </div>
+            </div>
+        </div>
+        {showExport && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+                <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 animate-in zoom-in-95">
+                    <div className="flex justify-between items-center mb-5">
+                        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                            <CalendarIcon className="text-blue-600"/> Calendar Export
+                        </h3>
+                        <button onClick={() => setShowExport(false)} className="text-slate-400 hover:text-slate-600"><X size={20}/></button>
+                    </div>
+
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">Calendar for</label>
+                            <div className="grid grid-cols-3 gap-2">
+                                {([['user', 'A team member'], ['client', 'A client'], ['firm', 'Whole firm']] as [IcsScope['type'], string][]).map(([value, label]) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => { setExportScope(value); setCopied(false); }}
+                                        className={`px-3 py-2 text-sm rounded-lg border font-medium ${exportScope === value ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {exportScope === 'user' && (
+                            <div>
+                                <select value={exportUser} onChange={e => { setExportUser(e.target.value); setCopied(false); }} className="w-full p-2.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none">
+                                    {users?.filter(u => u.isActive).map(u => <option key={u.username} value={u.username}>{u.fullName} ({u.username})</option>)}
+                                </select>
+                                <p className="text-[11px] text-slate-400 mt-1">Notices assigned to this person and their hearings.</p>
                             </div>
-                            <h4 className="font-semibold text-slate-800 text-sm group-hover:text-blue-600 transition-colors">
-                                {evt.notice.gstin}
-                            </h4>
-                            <p className="text-xs text-slate-500 mt-1 line-clamp-1">{evt.notice.noticeType}</p>
-                            
-                            {evt.type === 'hearing' && evt.hearingDetail && (
-                                <div className="mt-2 pt-2 border-t border-purple-200/50 flex flex-col gap-1 text-xs text-purple-700">
-                                    <div className="flex items-center gap-2">
-                                        <Gavel size={12}/>
-                                        <span>{evt.hearingDetail.time}</span>
+                        )}
+                        {exportScope === 'client' && (
+                            <select value={exportGstin} onChange={e => { setExportGstin(e.target.value); setCopied(false); }} className="w-full p-2.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none">
+                                {taxpayers?.map(t => <option key={t.gstin} value={t.gstin}>{t.tradeName} ({t.gstin})</option>)}
+                            </select>
+                        )}
+                        {exportScope !== 'user' && (
+                            <label className="flex items-center gap-2 text-sm text-slate-700">
+                                <input type="checkbox" checked={includeFilings} onChange={e => setIncludeFilings(e.target.checked)} className="rounded text-blue-600"/>
+                                Include pending and overdue return filings
+                            </label>
+                        )}
+                        <p className="text-xs text-slate-500">
+                            Open notices&apos; due and extended due dates, and hearings with their time, venue and status. Importing a newer file updates the events already in your calendar instead of duplicating them.
+                        </p>
+                        <button onClick={handleDownloadIcs} disabled={exporting} className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 shadow-sm disabled:opacity-50 flex items-center justify-center gap-2">
+                            <Download size={16}/> {exporting ? 'Building...' : 'Download .ics'}
+                        </button>
+
+                        <div className="pt-4 border-t border-slate-200">
+                            <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2 mb-2"><Rss size={16} className="text-orange-500"/> Subscription Feed</h4>
+                            {!isElectron() ? (
+                                <p className="text-xs text-slate-500">Available in the desktop app, which serves a live feed on this computer for Outlook, Apple Calendar or Thunderbird to subscribe to.</p>
+                            ) : (
+                                <div className="space-y-3">
+                                    <div className="flex flex-wrap items-center gap-4">
+                                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                                            <input type="checkbox" checked={feedConfig.enabled} disabled={feedBusy} onChange={e => updateFeed({ enabled: e.target.checked })} className="rounded text-blue-600"/>
+                                            Serve feed on this computer
+                                        </label>
+                                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                                            Port
+                                            <input type="number" value={portInput} disabled={feedBusy} onChange={e => setPortInput(e.target.value)} onBlur={handlePortBlur} className="w-24 p-1.5 border border-slate-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"/>
+                                        </label>
+                                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                                            <input type="checkbox" checked={feedConfig.includeFilings} disabled={feedBusy} onChange={e => updateFeed({ includeFilings: e.target.checked })} className="rounded text-blue-600"/>
+                                            Filings in feed
+                                        </label>
                                     </div>
-                                    <span className="truncate opacity-75">{evt.hearingDetail.venue}</span>
-                                    <span className={`text-[9px] px-1 rounded w-fit border ${
-                                        evt.hearingDetail.status === 'Concluded' ? 'bg-green-100 border-green-200 text-green-700' : 'bg-purple-100 border-purple-200 text-purple-700'
-                                    }`}>{evt.hearingDetail.status}</span>
+                                    {subscribeUrl && (
+                                        <>
+                                            <div className="flex gap-2">
+                                                <input readOnly value={subscribeUrl} onFocus={e => e.target.select()} className="flex-1 p-2 border border-slate-300 rounded-lg text-xs font-mono bg-slate-50"/>
+                                                <button onClick={handleCopyUrl} className="px-3 py-1 text-xs bg-slate-100 hover:bg-slate-200 rounded-lg text-slate-700 font-medium flex items-center gap-1">
+                                                    <Copy size={12}/> {copied ? 'Copied' : 'Copy'}
+                                                </button>
+                                            </div>
+                                            <div className="flex justify-between items-start gap-3">
+                                                <p className="text-[11px] text-slate-400">Updates while GST Nexus is open and signed in. Only reachable from this computer.</p>
+                                                <button onClick={handleResetToken} disabled={feedBusy} className="text-[11px] text-slate-500 hover:text-red-600 flex items-center gap-1 shrink-0">
+                                                    <RefreshCw size={11}/> New address
+                                                </button>
+                                            </div>
+                                        </>
+                                    )}
                                 </div>
                             )}
                         </div>
-                    ))}
+                    </div>
                 </div>
             </div>
-        </div>
+        )}
     </div>
   );
 };
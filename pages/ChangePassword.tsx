@@ -0,0 +1,87 @@
+
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Lock, ShieldCheck } from 'lucide-react';
+import { PASSWORD_MIN_LENGTH } from '../utils/security';
+
+// Shown in place of the app until a seeded or admin-set password has been replaced
+const ChangePassword: React.FC = () => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { user, changePassword, logout } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await changePassword(currentPassword, newPassword);
+      if (!result.success) setError(result.error || 'Could not change password');
+    } catch (err) {
+      setError('An error occurred while changing the password');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+      <div className="bg-white p-8 rounded-2xl shadow-xl w-full max-w-md border border-slate-200">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-blue-600 rounded-xl mx-auto flex items-center justify-center mb-4 shadow-lg shadow-blue-200">
+            <ShieldCheck size={32} className="text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-slate-800">Set a New Password</h1>
+          <p className="text-slate-500 mt-2">Hi {user?.fullName}, please replace the initial password before continuing.</p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-lg mb-6 text-sm text-center border border-red-100">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {[
+            { label: 'Current Password', value: currentPassword, setter: setCurrentPassword },
+            { label: 'New Password', value: newPassword, setter: setNewPassword },
+            { label: 'Confirm New Password', value: confirmPassword, setter: setConfirmPassword }
+          ].map(field => (
+            <div key={field.label}>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{field.label}</label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                <input
+                  type="password"
+                  value={field.value}
+                  onChange={(e) => field.setter(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                  required
+                />
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-slate-500">At least {PASSWORD_MIN_LENGTH} characters, with letters and numbers.</p>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full bg-blue-600 text-white py-2.5 rounded-lg font-semibold hover:bg-blue-700 transition-colors shadow-sm mt-2 disabled:bg-slate-400"
+          >
+            {isSaving ? 'Saving...' : 'Change Password'}
+          </button>
+          <button type="button" onClick={logout} className="w-full text-sm text-slate-500 hover:text-slate-700">
+            Sign out
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePassword;
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { ReplyClause } from '../types';
+import { Plus, Search, Filter, Edit, Trash2, X, Save, BookOpen, Copy } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDate } from '../utils/formatting';
+import { searchClauses } from '../utils/clauseLibrary';
+
+type SortKey = 'usage' | 'recent' | 'title';
+
+const emptyClause = (): ReplyClause => ({ title: '', body: '', defectTypes: [], sections: [], usageCount: 0, updatedAt: '', updatedBy: '' });
+
+const ClauseLibrary: React.FC = () => {
+  const { user, checkPermission } = useAuth();
+  const canEdit = checkPermission('edit_notices');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [defectTypeFilter, setDefectTypeFilter] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('usage');
+  const [editing, setEditing] = useState<ReplyClause | null>(null);
+  const [sectionsInput, setSectionsInput] = useState('');
+
+  const clauses = useLiveQuery(() => db.replyClauses.toArray()) || [];
+  const configDefectTypes = useLiveQuery(() => db.appConfig.get({ key: 'defect_types' }));
+  const defectTypes: string[] = configDefectTypes?.value || [];
+
+  const visible = searchClauses(clauses, searchTerm)
+    .filter(c => !defectTypeFilter || (defectTypeFilter === '__untagged' ? c.defectTypes.length === 0 : c.defectTypes.includes(defectTypeFilter)))
+    .sort((a, b) =>
+      sortKey === 'usage' ? b.usageCount - a.usageCount || a.title.localeCompare(b.title) :
+      sortKey === 'recent' ? b.updatedAt.localeCompare(a.updatedAt) :
+      a.title.localeCompare(b.title));
+
+  const openEditor = (clause: ReplyClause) => {
+      setEditing({ ...clause });
+      setSectionsInput(clause.sections.join(', '));
+  };
+
+  const toggleDefectType = (type: string) => {
+      if (!editing) return;
+      const types = editing.defectTypes.includes(type) ? editing.defectTypes.filter(t => t !== type) : [...editing.defectTypes, type];
+      setEditing({ ...editing, defectTypes: types });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!editing || !user) return;
+      const title = editing.title.trim();
+      if (!title || !editing.body.trim()) { alert('A clause needs a title and text.'); return; }
+      const record: ReplyClause = {
+          ...editing,
+          title,
+          sections: Array.from(new Set(sectionsInput.split(',').map(s => s.trim()).filter(Boolean))),
+          updatedAt: new Date().toISOString(),
+          updatedBy: user.username
+      };
+      // add() writes the new id back onto the record
+      const isNew = !record.id;
+      try {
+          if (isNew) await db.replyClauses.add(record);
+          else await db.replyClauses.put(record);
+          await db.auditLogs.add({
+              entityType: 'System', entityId: 'CLAUSE', action: isNew ? 'Create' : 'Update', timestamp: record.updatedAt,
+              user: user.username, details: `Clause "${title}" ${isNew ? 'added to the library' : 'updated'}`
+          });
+          setEditing(null);
+      } catch (err) { console.error(err); alert('Error saving clause.'); }
+  };
+
+  const handleDelete = async (clause: ReplyClause) => {
+      // Submissions hold a copy of the text, so replies already drafted are not affected
+      if (!user || !confirm(`Delete "${clause.title}" from the library? Text already inserted into cases is kept.`)) return;
+      await db.replyClauses.delete(clause.id!);
+      await db.auditLogs.add({
+          entityType: 'System', entityId: 'CLAUSE', action: 'Delete', timestamp: new Date().toISOString(),
+          user: user.username, details: `Clause "${clause.title}" deleted from the library`
+      });
+  };
+
+  return (
+    <div className="space-y-6 pb-10">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Clause Library</h2>
+          <p className="text-slate-500 text-sm">Reusable reply arguments, suggested on the defects they are tagged with</p>
+        </div>
+        {canEdit && (
+            <button onClick={() => openEditor(emptyClause())} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-all">
+                <Plus size={18} /> New Clause
+            </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+          <div className="flex flex-col md:flex-row gap-4 mb-4">
+              <div className="relative flex-1">
+                   <Search className="absolute left-3 top-2.5 text-slate-400" size={16} />
+                   <input
+                      type="text"
+                      placeholder="Search title, text, defect type or section..."
+                      className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-md focus:ring-1 focus:ring-blue-500 outline-none"
+                      value={searchTerm}
+                      onChange={e => setSearchTerm(e.target.value)}
+                   />
+              </div>
+              <div className="w-full md:w-64 relative">
+                  <Filter className="absolute left-3 top-2.5 text-slate-400" size={16} />
+                  <select value={defectTypeFilter} onChange={e => setDefectTypeFilter(e.target.value)} className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-md focus:ring-1 focus:ring-blue-500 outline-none bg-white">
+                      <option value="">All Defect Types</option>
+                      {defectTypes.map(t => <option key={t} value={t}>{t}</option>)}
+                      <option value="__untagged">Not tagged</option>
+                  </select>
+              </div>
+              <select value={sortKey} onChange={e => setSortKey(e.target.value as SortKey)} className="w-full md:w-44 px-3 py-2 text-sm border border-slate-300 rounded-md outline-none bg-white">
+                  <option value="usage">Most used</option>
+                  <option value="recent">Recently edited</option>
+                  <option value="title">Title</option>
+              </select>
+          </div>
+
+          <div className="divide-y divide-slate-100">
+              {visible.map(clause => (
+                  <div key={clause.id} className="py-4 flex gap-4 group">
+                      <div className="p-2.5 h-fit rounded-lg bg-indigo-50 text-indigo-600"><BookOpen size={18}/></div>
+                      <div className="flex-1 min-w-0">
+                          <div className="flex justify-between items-start gap-3">
+                              <h4 className="font-semibold text-slate-800 text-sm">{clause.title}</h4>
+                              <div className="flex gap-1 shrink-0">
+                                  <button onClick={() => navigator.clipboard.writeText(clause.body)} className="text-slate-400 hover:text-blue-500 p-1.5 rounded hover:bg-blue-50" title="Copy text"><Copy size={14}/></button>
+                                  {canEdit && <button onClick={() => openEditor(clause)} className="text-slate-400 hover:text-blue-500 p-1.5 rounded hover:bg-blue-50" title="Edit"><Edit size={14}/></button>}
+                                  {canEdit && <button onClick={() => handleDelete(clause)} className="text-slate-400 hover:text-red-500 p-1.5 rounded hover:bg-red-50" title="Delete"><Trash2 size={14}/></button>}
+                              </div>
+                          </div>
+                          <p className="text-sm text-slate-600 mt-1 whitespace-pre-line line-clamp-3">{clause.body}</p>
+                          <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs">
+                              {clause.defectTypes.map(t => <span key={t} className="bg-amber-50 text-amber-700 border border-amber-200 px-2 py-0.5 rounded">{t}</span>)}
+                              {clause.sections.map(s => <span key={s} className="bg-slate-100 text-slate-600 border border-slate-200 px-2 py-0.5 rounded font-mono">{s}</span>)}
+                              <span className="text-slate-400 ml-auto">Used {clause.usageCount} {clause.usageCount === 1 ? 'time' : 'times'}{clause.lastUsedAt ? ` (last ${formatDate(clause.lastUsedAt)})` : ''} • Edited {formatDate(clause.updatedAt)} by {clause.updatedBy}</span>
+                          </div>
+                      </div>
+                  </div>
+              ))}
+              {visible.length === 0 && <div className="p-8 text-center text-slate-400 text-sm italic">{clauses.length ? 'No clauses match the search.' : 'The library is empty. Add the arguments your team reuses most.'}</div>}
+          </div>
+      </div>
+
+      {editing && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+              <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl p-6 animate-in zoom-in-95 max-h-[90vh] overflow-y-auto">
+                  <div className="flex justify-between items-center mb-6">
+                      <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><BookOpen className="text-blue-600"/> {editing.id ? 'Edit Clause' : 'New Clause'}</h3>
+                      <button onClick={() => setEditing(null)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                  </div>
+                  <form onSubmit={handleSave} className="space-y-4">
+                      <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Title <span className="text-red-500">*</span></label>
+                          <input type="text" required value={editing.title} onChange={e => setEditing({...editing, title: e.target.value})} className="w-full p-2.5 border rounded-lg" placeholder="e.g. Interest only on ITC wrongly availed and utilised"/>
+                      </div>
+                      <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Text <span className="text-red-500">*</span></label>
+                          <textarea required rows={8} value={editing.body} onChange={e => setEditing({...editing, body: e.target.value})} className="w-full p-2.5 border rounded-lg text-sm"/>
+                          <p className="text-xs text-slate-400 mt-1">Reply template fields such as {'{{notice.period}}'} or {'{{taxpayer.legalName}}'} are filled in when the draft is generated. Separate paragraphs with a blank line.</p>
+                      </div>
+                      <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Sections</label>
+                          <input type="text" value={sectionsInput} onChange={e => setSectionsInput(e.target.value)} className="w-full p-2.5 border rounded-lg" placeholder="Comma separated, e.g. 16(2)(c), 50(3), Rule 86B"/>
+                      </div>
+                      <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-2">Defect Types</label>
+                          <div className="flex flex-wrap gap-2">
+                              {/* Tags no longer in the config stay listed so they can be removed */}
+                              {Array.from(new Set([...defectTypes, ...editing.defectTypes])).map(type => (
+                                  <button type="button" key={type} onClick={() => toggleDefectType(type)} className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${editing.defectTypes.includes(type) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-300 hover:border-blue-400'}`}>{type}</button>
+                              ))}
+                          </div>
+                      </div>
+                      <div className="flex justify-end pt-2">
+                          <button type="submit" className="bg-blue-600 text-white px-6 py-2.5 rounded-lg font-medium hover:bg-blue-700 shadow-sm flex items-center gap-2">
+                              <Save size={18}/> Save Clause
+                          </button>
+                      </div>
+                  </form>
+              </div>
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default ClauseLibrary;
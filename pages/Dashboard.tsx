@@ -42,11 +42,11 @@ const Dashboard: React.FC = () => {
       today.setHours(0, 0, 0, 0);
 
       return notices.filter(n => 
-          ORDER_TYPES.includes(n.noticeType) && 
+          (ORDER_TYPES.includes(n.noticeType) || !!n.orderDate) && 
           !CONTESTED_STATUSES.includes(n.status) &&
-          n.dateOfIssue
+          (n.orderDate || n.dateOfIssue)
       ).map(n => {
-          const deadline = new Date(n.dateOfIssue);
+          const deadline = new Date(n.orderDate || n.dateOfIssue);
           deadline.setDate(deadline.getDate() + 90);
           const daysLeft = Math.ceil((deadline.getTime() - today.getTime()) / (1000 * 3600 * 24));
           return { ...n, deadline, daysLeft };
@@ -0,0 +1,323 @@
+import React, { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { AuthorityKind, LegalAuthority } from '../types';
+import { Plus, Search, Filter, Edit, Trash2, X, Save, Landmark, Paperclip, Download, RefreshCw, ChevronDown, ChevronUp } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDate } from '../utils/formatting';
+import { AUTHORITY_KINDS, matchSnippet, searchAuthorities } from '../utils/authorities';
+import { extractFilePages, joinOcrPages } from '../utils/ocr';
+
+type SortKey = 'date' | 'cited' | 'citation';
+
+const KIND_STYLES: Record<AuthorityKind, string> = {
+  'Judgment': 'bg-purple-50 text-purple-700 border-purple-200',
+  'Circular': 'bg-blue-50 text-blue-700 border-blue-200',
+  'Notification': 'bg-teal-50 text-teal-700 border-teal-200',
+  'Advance Ruling': 'bg-amber-50 text-amber-700 border-amber-200',
+  'Instruction': 'bg-slate-100 text-slate-700 border-slate-200'
+};
+
+const emptyAuthority = (): LegalAuthority => ({
+  kind: 'Judgment', citation: '', title: '', forum: '', headnote: '', sections: [], defectTypes: [], createdAt: '', updatedAt: '', updatedBy: ''
+});
+
+const KnowledgeBase: React.FC = () => {
+  const { user, checkPermission } = useAuth();
+  const canEdit = checkPermission('edit_notices');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [kindFilter, setKindFilter] = useState('');
+  const [defectTypeFilter, setDefectTypeFilter] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('date');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [editing, setEditing] = useState<LegalAuthority | null>(null);
+  const [sectionsInput, setSectionsInput] = useState('');
+  const [isExtracting, setIsExtracting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const authorities = useLiveQuery(() => db.authorities.toArray()) || [];
+  const citations = useLiveQuery(() => db.authorityCitations.toArray()) || [];
+  const notices = useLiveQuery(() => db.notices.toArray()) || [];
+  const configDefectTypes = useLiveQuery(() => db.appConfig.get({ key: 'defect_types' }));
+  const defectTypes: string[] = configDefectTypes?.value || [];
+
+  const citedCases = (authorityId: number) => {
+      const noticeIds = new Set(citations.filter(c => c.authorityId === authorityId).map(c => c.noticeId));
+      return notices.filter(n => noticeIds.has(n.id!));
+  };
+  const citationCount = (authorityId: number) => citations.filter(c => c.authorityId === authorityId).length;
+
+  const visible = searchAuthorities(authorities, searchTerm)
+    .filter(a => !kindFilter || a.kind === kindFilter)
+    .filter(a => !defectTypeFilter || a.defectTypes.includes(defectTypeFilter))
+    .sort((a, b) =>
+      sortKey === 'date' ? (b.date || '').localeCompare(a.date || '') :
+      sortKey === 'cited' ? citationCount(b.id!) - citationCount(a.id!) || a.citation.localeCompare(b.citation) :
+      a.citation.localeCompare(b.citation));
+
+  const openEditor = (authority: LegalAuthority) => {
+      setEditing({ ...authority });
+      setSectionsInput(authority.sections.join(', '));
+  };
+
+  const toggleDefectType = (type: string) => {
+      if (!editing) return;
+      const types = editing.defectTypes.includes(type) ? editing.defectTypes.filter(t => t !== type) : [...editing.defectTypes, type];
+      setEditing({ ...editing, defectTypes: types });
+  };
+
+  // The PDF's text fills the full text (when empty) so the judgment is searchable
+  const handleAttach = async (file?: File) => {
+      if (!file || !editing) return;
+      if (file.type !== 'application/pdf' && !/\.pdf$/i.test(file.name)) { alert('Attach the judgment or circular as a PDF.'); return; }
+      const attached = { ...editing, fileName: file.name, fileType: 'application/pdf', fileData: file as Blob };
+      setEditing(attached);
+      if (attached.fullText?.trim()) return;
+      setIsExtracting(true);
+      try {
+          const text = joinOcrPages(await extractFilePages(file, file.name, 'application/pdf'));
+          setEditing(current => current && current.fileData === file ? { ...current, fullText: text } : current);
+      } catch (e) {
+          console.error(e);
+          alert('The PDF is attached, but its text could not be read. Paste the full text if it should be searchable.');
+      } finally {
+          setIsExtracting(false);
+      }
+  };
+
+  const downloadAttachment = (authority: LegalAuthority) => {
+      if (!authority.fileData) return;
+      const url = URL.createObjectURL(authority.fileData);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = authority.fileName || `${authority.citation}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!editing || !user) return;
+      const citation = editing.citation.trim();
+      if (!citation || !editing.headnote.trim()) { alert('An authority needs a citation and a headnote.'); return; }
+      if (authorities.some(a => a.id !== editing.id && a.citation.trim().toLowerCase() === citation.toLowerCase())) {
+          alert(`"${citation}" is already in the knowledge base.`);
+          return;
+      }
+      const now = new Date().toISOString();
+      const record: LegalAuthority = {
+          ...editing,
+          citation,
+          title: editing.title.trim(),
+          forum: editing.forum.trim(),
+          fullText: editing.fullText?.trim() || undefined,
+          sections: Array.from(new Set(sectionsInput.split(',').map(s => s.trim()).filter(Boolean))),
+          createdAt: editing.createdAt || now,
+          updatedAt: now,
+          updatedBy: user.username
+      };
+      // add() writes the new id back onto the record
+      const isNew = !record.id;
+      try {
+          if (isNew) await db.authorities.add(record);
+          else await db.authorities.put(record);
+          await db.auditLogs.add({
+              entityType: 'System', entityId: 'AUTHORITY', action: isNew ? 'Create' : 'Update', timestamp: now,
+              user: user.username, details: `${record.kind} "${citation}" ${isNew ? 'added to the knowledge base' : 'updated'}`
+          });
+          setEditing(null);
+      } catch (err) { console.error(err); alert('Error saving authority.'); }
+  };
+
+  const handleDelete = async (authority: LegalAuthority) => {
+      if (!user) return;
+      // Citations feed the precedent usage report, so they are removed from the cases first
+      const cited = citedCases(authority.id!).length;
+      if (cited > 0) { alert(`"${authority.citation}" is relied upon in ${cited} case(s). Remove it from those cases before deleting.`); return; }
+      if (!confirm(`Delete "${authority.citation}" from the knowledge base?`)) return;
+      await db.authorities.delete(authority.id!);
+      await db.auditLogs.add({
+          entityType: 'System', entityId: 'AUTHORITY', action: 'Delete', timestamp: new Date().toISOString(),
+          user: user.username, details: `${authority.kind} "${authority.citation}" deleted from the knowledge base`
+      });
+  };
+
+  return (
+    <div className="space-y-6 pb-10">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Knowledge Base</h2>
+          <p className="text-slate-500 text-sm">Judgments, circulars and rulings the firm relies on, cited from cases and defects</p>
+        </div>
+        {canEdit && (
+            <button onClick={() => openEditor(emptyAuthority())} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-all">
+                <Plus size={18} /> New Authority
+            </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+          <div className="flex flex-col md:flex-row gap-4 mb-4">
+              <div className="relative flex-1">
+                   <Search className="absolute left-3 top-2.5 text-slate-400" size={16} />
+                   <input
+                      type="text"
+                      placeholder="Search citation, party, headnote, full text or section..."
+                      className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-md focus:ring-1 focus:ring-blue-500 outline-none"
+                      value={searchTerm}
+                      onChange={e => setSearchTerm(e.target.value)}
+                   />
+              </div>
+              <select value={kindFilter} onChange={e => setKindFilter(e.target.value)} className="w-full md:w-44 px-3 py-2 text-sm border border-slate-300 rounded-md outline-none bg-white">
+                  <option value="">All Kinds</option>
+                  {AUTHORITY_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+              </select>
+              <div className="w-full md:w-64 relative">
+                  <Filter className="absolute left-3 top-2.5 text-slate-400" size={16} />
+                  <select value={defectTypeFilter} onChange={e => setDefectTypeFilter(e.target.value)} className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-md focus:ring-1 focus:ring-blue-500 outline-none bg-white">
+                      <option value="">All Defect Types</option>
+                      {defectTypes.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+              </div>
+              <select value={sortKey} onChange={e => setSortKey(e.target.value as SortKey)} className="w-full md:w-44 px-3 py-2 text-sm border border-slate-300 rounded-md outline-none bg-white">
+                  <option value="date">Newest first</option>
+                  <option value="cited">Most cited</option>
+                  <option value="citation">Citation</option>
+              </select>
+          </div>
+
+          <div className="divide-y divide-slate-100">
+              {visible.map(authority => {
+                  const cases = citedCases(authority.id!);
+                  const snippet = searchTerm.trim() ? matchSnippet(authority, searchTerm) : null;
+                  const isExpanded = expandedId === authority.id;
+                  return (
+                      <div key={authority.id} className="py-4 flex gap-4">
+                          <div className="p-2.5 h-fit rounded-lg bg-indigo-50 text-indigo-600"><Landmark size={18}/></div>
+                          <div className="flex-1 min-w-0">
+                              <div className="flex justify-between items-start gap-3">
+                                  <div>
+                                      <h4 className="font-semibold text-slate-800 text-sm">{authority.title || authority.citation}</h4>
+                                      <p className="text-xs text-slate-500 mt-0.5">
+                                          <span className={`border px-1.5 py-0.5 rounded mr-2 font-medium ${KIND_STYLES[authority.kind]}`}>{authority.kind}</span>
+                                          {authority.title ? `${authority.citation} • ` : ''}{authority.forum}{authority.date ? ` • ${formatDate(authority.date)}` : ''}
+                                      </p>
+                                  </div>
+                                  <div className="flex gap-1 shrink-0">
+                                      {authority.fileData && <button onClick={() => downloadAttachment(authority)} className="text-slate-400 hover:text-blue-500 p-1.5 rounded hover:bg-blue-50" title={`Download ${authority.fileName}`}><Download size={14}/></button>}
+                                      {canEdit && <button onClick={() => openEditor(authority)} className="text-slate-400 hover:text-blue-500 p-1.5 rounded hover:bg-blue-50" title="Edit"><Edit size={14}/></button>}
+                                      {canEdit && <button onClick={() => handleDelete(authority)} className="text-slate-400 hover:text-red-500 p-1.5 rounded hover:bg-red-50" title="Delete"><Trash2 size={14}/></button>}
+                                  </div>
+                              </div>
+                              <p className={`text-sm text-slate-600 mt-2 whitespace-pre-line ${isExpanded ? '' : 'line-clamp-3'}`}>{authority.headnote}</p>
+                              {snippet && !isExpanded && <p className="text-xs text-slate-500 mt-2 bg-yellow-50 border border-yellow-100 rounded px-2 py-1.5 italic">{snippet}</p>}
+                              {isExpanded && authority.fullText && (
+                                  <div className="mt-3 max-h-96 overflow-y-auto bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs text-slate-700 whitespace-pre-line">{authority.fullText}</div>
+                              )}
+                              {isExpanded && cases.length > 0 && (
+                                  <div className="mt-3 text-xs">
+                                      <span className="font-bold text-slate-500 uppercase tracking-wide mr-2">Relied upon in</span>
+                                      {cases.map(n => <Link key={n.id} to={`/notices/${n.id}`} className="text-blue-600 hover:underline mr-3">{n.noticeNumber}</Link>)}
+                                  </div>
+                              )}
+                              <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs">
+                                  {authority.defectTypes.map(t => <span key={t} className="bg-amber-50 text-amber-700 border border-amber-200 px-2 py-0.5 rounded">{t}</span>)}
+                                  {authority.sections.map(s => <span key={s} className="bg-slate-100 text-slate-600 border border-slate-200 px-2 py-0.5 rounded font-mono">{s}</span>)}
+                                  {authority.fileName && <span className="text-slate-500 flex items-center gap-1"><Paperclip size={12}/> {authority.fileName}</span>}
+                                  <span className="text-slate-400 ml-auto">Cited in {cases.length} {cases.length === 1 ? 'case' : 'cases'} • Edited {formatDate(authority.updatedAt)} by {authority.updatedBy}</span>
+                                  <button onClick={() => setExpandedId(isExpanded ? null : authority.id!)} className="text-blue-600 hover:underline flex items-center gap-0.5 font-medium">
+                                      {isExpanded ? <><ChevronUp size={12}/> Less</> : <><ChevronDown size={12}/> More</>}
+                                  </button>
+                              </div>
+                          </div>
+                      </div>
+                  );
+              })}
+              {visible.length === 0 && <div className="p-8 text-center text-slate-400 text-sm italic">{authorities.length ? 'No authorities match the search.' : 'The knowledge base is empty. Add the judgments and circulars your team relies on.'}</div>}
+          </div>
+      </div>
+
+      {editing && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+              <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl p-6 animate-in zoom-in-95 max-h-[90vh] overflow-y-auto">
+                  <div className="flex justify-between items-center mb-6">
+                      <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Landmark className="text-blue-600"/> {editing.id ? 'Edit Authority' : 'New Authority'}</h3>
+                      <button onClick={() => setEditing(null)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                  </div>
+                  <form onSubmit={handleSave} className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1">Kind</label>
+                              <select value={editing.kind} onChange={e => setEditing({...editing, kind: e.target.value as AuthorityKind})} className="w-full p-2.5 border rounded-lg bg-white">
+                                  {AUTHORITY_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+                              </select>
+                          </div>
+                          <div className="md:col-span-2">
+                              <label className="block text-sm font-medium text-slate-700 mb-1">Citation <span className="text-red-500">*</span></label>
+                              <input type="text" required value={editing.citation} onChange={e => setEditing({...editing, citation: e.target.value})} className="w-full p-2.5 border rounded-lg" placeholder="e.g. Circular No. 183/15/2022-GST or (2023) 8 Centax 12 (Cal.)"/>
+                          </div>
+                      </div>
+                      <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Case Name / Subject</label>
+                          <input type="text" value={editing.title} onChange={e => setEditing({...editing, title: e.target.value})} className="w-full p-2.5 border rounded-lg" placeholder="e.g. ABC Traders v. Assistant Commissioner"/>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <div className="md:col-span-2">
+                              <label className="block text-sm font-medium text-slate-700 mb-1">Court / Forum</label>
+                              <input type="text" value={editing.forum} onChange={e => setEditing({...editing, forum: e.target.value})} className="w-full p-2.5 border rounded-lg" placeholder="e.g. Calcutta High Court, CBIC, AAR Maharashtra"/>
+                          </div>
+                          <div>
+                              <label className="block text-sm font-medium text-slate-700 mb-1">Date</label>
+                              <input type="date" value={editing.date || ''} onChange={e => setEditing({...editing, date: e.target.value || undefined})} className="w-full p-2.5 border rounded-lg"/>
+                          </div>
+                      </div>
+                      <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Headnote <span className="text-red-500">*</span></label>
+                          <textarea required rows={4} value={editing.headnote} onChange={e => setEditing({...editing, headnote: e.target.value})} className="w-full p-2.5 border rounded-lg text-sm" placeholder="The proposition the authority stands for"/>
+                      </div>
+                      <div>
+                          <div className="flex justify-between items-center mb-1">
+                              <label className="block text-sm font-medium text-slate-700">Full Text</label>
+                              <div className="flex items-center gap-3 text-xs">
+                                  {editing.fileName && (
+                                      <span className="text-slate-600 flex items-center gap-1"><Paperclip size={12}/> {editing.fileName}
+                                          <button type="button" onClick={() => setEditing({...editing, fileName: undefined, fileType: undefined, fileData: undefined})} className="text-slate-400 hover:text-red-500" title="Remove attachment"><X size={12}/></button>
+                                      </span>
+                                  )}
+                                  <button type="button" disabled={isExtracting} onClick={() => fileInputRef.current?.click()} className="text-blue-600 hover:underline font-medium flex items-center gap-1 disabled:opacity-50">
+                                      {isExtracting ? <><RefreshCw size={12} className="animate-spin"/> Reading PDF...</> : <><Paperclip size={12}/> {editing.fileName ? 'Replace PDF' : 'Attach PDF'}</>}
+                                  </button>
+                                  <input type="file" ref={fileInputRef} accept="application/pdf,.pdf" className="hidden" onChange={e => { handleAttach(e.target.files?.[0]); e.target.value = ''; }}/>
+                              </div>
+                          </div>
+                          <textarea rows={8} value={editing.fullText || ''} onChange={e => setEditing({...editing, fullText: e.target.value})} className="w-full p-2.5 border rounded-lg text-xs font-mono" placeholder="Paste the text, or attach the PDF to read it in"/>
+                      </div>
+                      <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Sections</label>
+                          <input type="text" value={sectionsInput} onChange={e => setSectionsInput(e.target.value)} className="w-full p-2.5 border rounded-lg" placeholder="Comma separated, e.g. 16(2)(c), 73, Rule 86B"/>
+                      </div>
+                      <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-2">Defect Types</label>
+                          <div className="flex flex-wrap gap-2">
+                              {Array.from(new Set([...defectTypes, ...editing.defectTypes])).map(type => (
+                                  <button type="button" key={type} onClick={() => toggleDefectType(type)} className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${editing.defectTypes.includes(type) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-300 hover:border-blue-400'}`}>{type}</button>
+                              ))}
+                          </div>
+                      </div>
+                      <div className="flex justify-end pt-2">
+                          <button type="submit" disabled={isExtracting} className="bg-blue-600 text-white px-6 py-2.5 rounded-lg font-medium hover:bg-blue-700 shadow-sm flex items-center gap-2 disabled:opacity-50">
+                              <Save size={18}/> Save Authority
+                          </button>
+                      </div>
+                  </form>
+              </div>
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default KnowledgeBase;
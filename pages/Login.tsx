@@ -1,24 +1,30 @@
 
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
 import { useAuth } from '../contexts/AuthContext';
-import { Lock, User } from 'lucide-react';
+import { ENCRYPTION_CONFIG_KEY } from '../utils/encryption';
+import { KeyRound, Lock, User } from 'lucide-react';
 
 const Login: React.FC = () => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [passphrase, setPassphrase] = useState('');
   const [error, setError] = useState('');
-  const { login } = useAuth();
+  const { login, sessionMessage } = useAuth();
   const navigate = useNavigate();
+  const encryptionConfig = useLiveQuery(() => db.appConfig.get({ key: ENCRYPTION_CONFIG_KEY }));
+  const needsPassphrase = !!encryptionConfig?.value?.enabled;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const success = await login(username, password);
-      if (success) {
+      const result = await login(username, password, passphrase);
+      if (result.success) {
         navigate('/');
       } else {
-        setError('Invalid username or password');
+        setError(result.error || 'Invalid username or password');
       }
     } catch (err) {
       setError('An error occurred during login');
@@ -36,6 +42,12 @@ const Login: React.FC = () => {
           <p className="text-slate-500 mt-2">Sign in to your account</p>
         </div>
 
+        {sessionMessage && !error && (
+          <div className="bg-amber-50 text-amber-700 p-3 rounded-lg mb-6 text-sm text-center border border-amber-100">
+            {sessionMessage}
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-50 text-red-600 p-3 rounded-lg mb-6 text-sm text-center border border-red-100">
             {error}
@@ -71,6 +83,22 @@ const Login: React.FC = () => {
               />
             </div>
           </div>
+          {needsPassphrase && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Master Passphrase</label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                  placeholder="Unlocks encrypted client data"
+                  required
+                />
+              </div>
+            </div>
+          )}
           <button
             type="submit"
             className="w-full bg-blue-600 text-white py-2.5 rounded-lg font-semibold hover:bg-blue-700 transition-colors shadow-sm mt-2"
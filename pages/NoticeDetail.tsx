@@ -1,14 +1,28 @@
 
-import React, { useEffect, useState, useRef, useMemo } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import React, { useEffect, useState, useRef, useMemo, useSyncExternalStore } from 'react';
+import { useParams, useNavigate, useLocation, Link } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { Notice, NoticeStatus, RiskLevel, NoticeDefect, PaymentLog, TaxHeadValues, Taxpayer, DocumentMeta, Hearing, HearingStatus, TeamTimeSheet } from '../types';
-import { Save, ArrowLeft, ArrowRight, Clock, FileText, Plus, Trash2, IndianRupee, Wallet, Calculator, Building, HelpCircle, History, RefreshCw, FileDown, Activity, ClipboardList, ChevronUp, ChevronDown, Filter, CreditCard, AlertCircle, Phone, Mail, MapPin, Edit, X, FolderOpen, UploadCloud, ScanText, File as FileIcon, Search, Eye, Download, Scale, Gavel, Calendar, CheckSquare, ShieldCheck, Link as LinkIcon, Split, ExternalLink, Receipt, Hourglass, Gavel as GavelIcon, ShieldAlert } from 'lucide-react';
+import { Notice, NoticeStatus, RiskLevel, NoticeDefect, PaymentLog, TaxHeadValues, Taxpayer, DocumentMeta, Hearing, HearingStatus, TeamTimeSheet, AppealProceeding, AppealForum, AppealOutcome, ReplyClause, LegalAuthority, AuthorityCitation } from '../types';
+import { Save, ArrowLeft, ArrowRight, Clock, FileText, Plus, Trash2, IndianRupee, Wallet, Calculator, Building, HelpCircle, History, RefreshCw, FileDown, Activity, ClipboardList, ChevronUp, ChevronDown, Filter, CreditCard, AlertCircle, Phone, Mail, MapPin, Edit, X, FolderOpen, UploadCloud, ScanText, File as FileIcon, Search, Eye, Download, Scale, Gavel, Calendar, CheckSquare, ShieldCheck, Link as LinkIcon, Split, ExternalLink, Receipt, Hourglass, Gavel as GavelIcon, ShieldAlert, BookOpen, Landmark } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { formatDate, formatCurrency } from '../utils/formatting';
+import { computeLimitation, formatLimitationCitation } from '../utils/limitation';
+import { ADJOURNMENT_PARTIES, AdjournmentInput, MAX_ADJOURNMENTS, adjournHearing, countAdjournments, findHearingConflicts, getHearingChains } from '../utils/hearingSchedule';
+import { calculatePreDeposit, getNoticePreDeposit, APPEAL_STATUSES, AppealStage } from '../utils/preDeposit';
+import { applyTransition } from '../utils/workflowTransitions';
+import StatusTransitionModal from '../components/StatusTransitionModal';
+import { readNoticePdf, ParsedNotice, ParsedNoticeField } from '../utils/noticeParser';
+import { enqueueOcr, getOcrQueueState, isOcrSupported, joinOcrPages, subscribeOcrQueue } from '../utils/ocr';
+import { getDocumentFile } from '../utils/encryption';
+import { templatesForNotice } from '../utils/replyTemplates';
+import { createReplyDraft } from '../utils/replyDrafts';
+import { appendClause, searchClauses, suggestClauses } from '../utils/clauseLibrary';
+import { formatAuthority, searchAuthorities, suggestAuthorities } from '../utils/authorities';
+import { APPEAL_FORUMS, APPEAL_OUTCOMES, getForumRule, getNextForum, getPendingContest, isAdverseDisposal, sortAppealChain } from '../utils/appeals';
+import { calculateDefectInterest, applyInterestToDefect, getDefectTaxPayments, getInterestRate, InterestResult, INTEREST_RATE_STANDARD, INTEREST_RATE_EXCESS_ITC } from '../utils/interest';
 
 const initialTaxHead: TaxHeadValues = { tax: 0, interest: 0, penalty: 0, lateFee: 0, others: 0 };
 const GSTIN_REGEX = /^\d{2}[A-Z]{5}\d{4}[A-Z]{1}[A-Z\d]{1}[Z]{1}[A-Z\d]{1}$/;
@@ -40,7 +54,7 @@ const formatLogDetails = (details: string): string => {
 interface TimelineEvent {
     id: string;
     date: Date;
-    type: 'NOTICE' | 'PAYMENT' | 'LOG' | 'HEARING' | 'REPLY';
+    type: 'NOTICE' | 'PAYMENT' | 'LOG' | 'HEARING' | 'REPLY' | 'APPEAL';
     title: string;
     subtitle?: string;
     amount?: number;
@@ -53,12 +67,13 @@ interface TimelineEvent {
 const NoticeDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const { user, checkPermission } = useAuth();
   const isNew = id === 'new';
   const noticeId = isNew ? undefined : parseInt(id!);
   const docInputRef = useRef<HTMLInputElement>(null);
   
-  const [activeTab, setActiveTab] = useState<'info' | 'defects' | 'hearings' | 'documents' | 'history' | 'audit' | 'time'>('info');
+  const [activeTab, setActiveTab] = useState<'info' | 'defects' | 'hearings' | 'appeals' | 'documents' | 'history' | 'audit' | 'time'>('info');
   const [loading, setLoading] = useState(!isNew);
   const [gstinError, setGstinError] = useState('');
   const [timelineFilter, setTimelineFilter] = useState<'ALL' | 'MAJOR'>('MAJOR');
@@ -69,11 +84,19 @@ const NoticeDetail: React.FC = () => {
     status: NoticeStatus.RECEIVED, riskLevel: RiskLevel.MEDIUM, demandAmount: 0, tags: [], issuingAuthority: '', linkedCaseId: '', budgetedHours: 0
   });
 
+  // Intake (new notices only): a portal PDF, or draft defects handed over by the returns discrepancy scan.
+  // Recognised fields are applied to the form, defects stay as drafts until save
+  const intakeInputRef = useRef<HTMLInputElement>(null);
+  const [intake, setIntake] = useState<{ source: string; file?: File; pages: string[]; parsed: ParsedNotice; filled: ParsedNoticeField[] } | null>(null);
+  const [isParsingIntake, setIsParsingIntake] = useState(false);
+  const [isIntakeDragOver, setIsIntakeDragOver] = useState(false);
+
   const configTypes = useLiveQuery(() => db.appConfig.get({key: 'notice_types'}));
   const configCaseTypes = useLiveQuery(() => db.appConfig.get({key: 'case_types'}));
   const configStatuses = useLiveQuery(() => db.appConfig.get({key: 'notice_statuses'}));
   const configDefectTypes = useLiveQuery(() => db.appConfig.get({key: 'defect_types'}));
   const configPeriods = useLiveQuery(() => db.appConfig.get({key: 'notice_periods'}));
+  const configLimitation = useLiveQuery(() => db.appConfig.get({key: 'limitation_config'}));
   
   const typeOptions = configTypes?.value || [];
   const caseTypeOptions = configCaseTypes?.value || [];
@@ -95,6 +118,26 @@ const NoticeDetail: React.FC = () => {
       return await db.notices.where('linkedCaseId').equals(formData.arn).toArray();
   }, [formData.arn]);
 
+  const appeals = useLiveQuery(() => noticeId ? db.appeals.where('noticeId').equals(noticeId).toArray() : [], [noticeId]);
+
+  // Full proceedings chain: notices sharing the Case ID, its manually linked origin and escalations, plus their appeals
+  const proceedingsChain = useLiveQuery(async () => {
+      if (!noticeId) return null;
+      const chainNotices = new Map<number, Notice>();
+      const addAll = (list: Notice[]) => list.forEach(n => chainNotices.set(n.id!, n));
+      if (formData.arn) {
+          addAll(await db.notices.where('arn').equals(formData.arn).toArray());
+          addAll(await db.notices.where('linkedCaseId').equals(formData.arn).toArray());
+      }
+      if (formData.linkedCaseId) addAll(await db.notices.where('arn').equals(formData.linkedCaseId).toArray());
+      const current = await db.notices.get(noticeId);
+      if (current) chainNotices.set(noticeId, current);
+
+      const notices = Array.from(chainNotices.values()).sort((a, b) => (a.dateOfIssue || '').localeCompare(b.dateOfIssue || ''));
+      const chainAppeals = await db.appeals.where('noticeId').anyOf(notices.map(n => n.id!)).toArray();
+      return notices.map(n => ({ notice: n, appeals: sortAppealChain(chainAppeals.filter(a => a.noticeId === n.id)) }));
+  }, [noticeId, formData.arn, formData.linkedCaseId, appeals]);
+
   const documents = useLiveQuery(async () => {
       if (!noticeId) return [];
       let docs = await db.documents.where('noticeId').equals(noticeId).reverse().toArray();
@@ -105,6 +148,11 @@ const NoticeDetail: React.FC = () => {
       return docs;
   }, [noticeId, docSearch]);
 
+  const replyTemplates = useLiveQuery(() => db.replyTemplates.toArray()) || [];
+  const replyDrafts = useLiveQuery(() => noticeId ? db.replyDrafts.where('noticeId').equals(noticeId).reverse().sortBy('version') : [], [noticeId]);
+  const [replyTemplateId, setReplyTemplateId] = useState<number | ''>('');
+  const [isDraftingReply, setIsDraftingReply] = useState(false);
+
   const auditLogs = useLiveQuery(async () => {
       if (noticeId) return await db.auditLogs.where('entityId').equals(noticeId).and(l => l.entityType === 'Notice').reverse().toArray();
       return [];
@@ -138,17 +186,32 @@ const NoticeDetail: React.FC = () => {
               }
           });
 
+          const appealLogs = await db.appeals.where('noticeId').equals(n.id!).toArray();
+          appealLogs.forEach(a => {
+              const aDate = new Date(a.filingDate || a.orderDate);
+              if (!isNaN(aDate.getTime())) {
+                  events.push({
+                      id: `appeal-${a.id}`, date: aDate, type: 'APPEAL',
+                      title: `${getForumRule(a.forum).label}: ${a.status}`, subtitle: a.appealNumber || 'Appeal No. pending', refId: n.id!,
+                      details: `Stay: ${a.stayStatus || 'Not Applied'}${a.disposalDate ? `. Disposed on ${formatDate(a.disposalDate)}` : ''}`
+                  });
+              }
+          });
+
           const hearingLogs = await db.hearings.where('noticeId').equals(n.id!).toArray();
-          hearingLogs.forEach(h => {
+          getHearingChains(hearingLogs).forEach(chain => chain.forEach((h, i) => {
               const hDate = new Date(h.date);
               if (!isNaN(hDate.getTime())) {
+                  const adjourned = h.adjournment
+                      ? ` Adjourned to ${formatDate(chain[i + 1]?.date)} at the request of ${h.adjournment.soughtBy}: ${h.adjournment.reason}.`
+                      : '';
                   events.push({
                       id: `hearing-${h.id}`, date: hDate, type: 'HEARING',
-                      title: `Hearing: ${h.type}`, subtitle: h.status, refId: n.id!,
-                      details: `Time: ${h.time}, Venue: ${h.venue}. Outcome: ${h.minutes || 'N/A'}`
+                      title: `Hearing: ${h.type}${chain.length > 1 ? ` (sitting ${i + 1} of ${chain.length})` : ''}`, subtitle: h.status, refId: n.id!,
+                      details: `Time: ${h.time}, Venue: ${h.venue}.${adjourned} Outcome: ${h.minutes || 'N/A'}`
                   });
               }
-          });
+          }));
 
           const logs = await db.auditLogs.where('entityType').equals('Notice').and(l => l.entityId === n.id!).toArray();
           logs.forEach(l => {
@@ -175,30 +238,54 @@ const NoticeDetail: React.FC = () => {
   const [currentDefect, setCurrentDefect] = useState<Partial<NoticeDefect>>({ defectType: '', section: '', description: '', igst: { ...initialTaxHead }, cgst: { ...initialTaxHead }, sgst: { ...initialTaxHead }, cess: { ...initialTaxHead } });
 
   const [showWaiverModal, setShowWaiverModal] = useState(false);
+  const [clausePickerDefectId, setClausePickerDefectId] = useState<number | null>(null);
+  const [clauseSearch, setClauseSearch] = useState('');
+  const replyClauses = useLiveQuery(() => db.replyClauses.toArray()) || [];
+  const [citePicker, setCitePicker] = useState<{ defectId?: number } | null>(null);
+  const [authoritySearch, setAuthoritySearch] = useState('');
+  const [citeNote, setCiteNote] = useState('');
+  const authorities = useLiveQuery(() => db.authorities.toArray()) || [];
+  const citations = useLiveQuery(() => noticeId ? db.authorityCitations.where('noticeId').equals(noticeId).toArray() : [], [noticeId]) || [];
   const [waiverDetails, setWaiverDetails] = useState({ id: 0, date: new Date().toISOString().split('T')[0], reason: '' });
   const [calcRate, setCalcRate] = useState(18);
   const [calcFromDate, setCalcFromDate] = useState('');
   const [calcToDate, setCalcToDate] = useState(new Date().toISOString().split('T')[0]);
   const [showCalculator, setShowCalculator] = useState(false);
+  const [interestWorking, setInterestWorking] = useState<InterestResult | null>(null);
 
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [paymentMatrix, setPaymentMatrix] = useState<{ igst: TaxHeadValues; cgst: TaxHeadValues; sgst: TaxHeadValues; cess: TaxHeadValues; challanNumber: string; paymentDate: string; bankName: string; refNumber: string; }>({
       igst: { ...initialTaxHead }, cgst: { ...initialTaxHead }, sgst: { ...initialTaxHead }, cess: { ...initialTaxHead }, challanNumber: '', paymentDate: new Date().toISOString().split('T')[0], bankName: '', refNumber: ''
   });
   
+  const [preDepositStage, setPreDepositStage] = useState<AppealStage>('First Appeal');
+  const [showDepositModal, setShowDepositModal] = useState(false);
+  const [depositForm, setDepositForm] = useState({ igst: 0, cgst: 0, sgst: 0, cess: 0, challanNumber: '', paymentDate: new Date().toISOString().split('T')[0], notes: '' });
+
+  const emptyAppeal = (): Partial<AppealProceeding> => ({ forum: 'First Appeal', orderDate: formData.orderDate || formData.dateOfIssue || '', filingDate: new Date().toISOString().split('T')[0], status: 'Filed', stayStatus: 'Not Applied', outcomes: [] });
+  const [showAppealModal, setShowAppealModal] = useState(false);
+  const [currentAppeal, setCurrentAppeal] = useState<Partial<AppealProceeding>>({});
+
   const [showEditPaymentModal, setShowEditPaymentModal] = useState(false);
   const [editingPayment, setEditingPayment] = useState<PaymentLog | null>(null);
   const [selectedDefectId, setSelectedDefectId] = useState<number | undefined>(undefined);
   const [showSyncModal, setShowSyncModal] = useState(false);
+  const [transitionTarget, setTransitionTarget] = useState<string | null>(null);
   const [syncOptions, setSyncOptions] = useState({ gstin: true, riskLevel: true, assignedTo: false, status: false });
   const [showOCRModal, setShowOCRModal] = useState(false);
   const [currentDocForOCR, setCurrentDocForOCR] = useState<DocumentMeta | null>(null);
   const [ocrTextBuffer, setOcrTextBuffer] = useState('');
+  const [ocrPagesBuffer, setOcrPagesBuffer] = useState<string[]>([]);
+  const [ocrPageIndex, setOcrPageIndex] = useState(0);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const ocrQueue = useSyncExternalStore(subscribeOcrQueue, getOcrQueueState);
 
   const [showHearingModal, setShowHearingModal] = useState(false);
   const [currentHearing, setCurrentHearing] = useState<Partial<Hearing>>({
       type: 'Personal Hearing', date: new Date().toISOString().split('T')[0], time: '11:00', status: HearingStatus.SCHEDULED, minutes: ''
   });
+  const [adjourningHearing, setAdjourningHearing] = useState<Hearing | null>(null);
+  const [adjournForm, setAdjournForm] = useState<AdjournmentInput>({ reason: '', soughtBy: 'Taxpayer', requestedOn: '', nextDate: '', nextTime: '', nextVenue: '' });
 
   const finalTypeOptions = useMemo(() => {
       const opts = [...typeOptions];
@@ -232,6 +319,31 @@ const NoticeDetail: React.FC = () => {
     }
   }, [id, isNew]);
 
+  // Draft defects raised from the returns discrepancy scan
+  useEffect(() => {
+      const draft = location.state?.draftDefects;
+      if (!isNew || !draft) return;
+      const defects: Partial<NoticeDefect>[] = draft.defects || [];
+      const demandAmount = defects.reduce((acc, d) => acc + (d.taxDemand || 0) + (d.interestDemand || 0) + (d.penaltyDemand || 0)
+          + (['igst', 'cgst', 'sgst', 'cess'] as const).reduce((s, h) => s + (d[h]?.lateFee || 0) + (d[h]?.others || 0), 0), 0);
+      const fields = { gstin: draft.gstin, period: draft.period };
+      setFormData(prev => ({ ...prev, ...fields, demandAmount, receivedDate: prev.receivedDate || new Date().toISOString().split('T')[0] }));
+      setIntake({ source: draft.source, pages: [], parsed: { fields, defects, demandAmount, warnings: [] }, filled: ['gstin', 'period'] });
+
+      // Clear state to prevent re-applying on refresh
+      window.history.replaceState({}, document.title);
+  }, [location, isNew]);
+
+  // Notice PDF downloaded from the portal case folder; parsed once the type lists have loaded
+  const portalDocumentRead = useRef(false);
+  useEffect(() => {
+      const file: File | undefined = location.state?.portalDocument;
+      if (!isNew || !file || portalDocumentRead.current || !configTypes || !configCaseTypes || !configDefectTypes) return;
+      portalDocumentRead.current = true;
+      window.history.replaceState({}, document.title);
+      handleIntakeFile(file);
+  }, [location, isNew, configTypes, configCaseTypes, configDefectTypes]);
+
   useEffect(() => {
       if (formData.gstin) {
           if (formData.gstin.length === 15 && GSTIN_REGEX.test(formData.gstin)) {
@@ -247,39 +359,47 @@ const NoticeDetail: React.FC = () => {
 
   // --- NEW: CONTEST TRACKER LOGIC ---
   const contestInfo = useMemo(() => {
-      if (!formData.noticeType || !formData.dateOfIssue || !ORDER_TYPES.includes(formData.noticeType)) return null;
-      if (['Appeal Filed', 'Rectification Filed', 'Closed', 'Paid'].includes(formData.status || '')) return null;
-
-      const issueDate = new Date(formData.dateOfIssue);
-      const deadline = new Date(issueDate);
-      deadline.setDate(issueDate.getDate() + 90);
-      
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      const daysRemaining = Math.ceil((deadline.getTime() - today.getTime()) / (1000 * 3600 * 24));
+      // An order recorded through the workflow keeps the notice's own type and issue date
+      const orderDate = formData.orderDate || formData.dateOfIssue;
+      if (!orderDate || !(ORDER_TYPES.includes(formData.noticeType || '') || formData.orderDate) || !appeals) return null;
+      if (formData.status === NoticeStatus.CLOSED) return null;
+      // Without an appeal on record, fall back to the status to know whether the order was contested
+      if (appeals.length === 0 && ['Appeal Filed', 'Rectification Filed', 'Closed', 'Paid'].includes(formData.status || '')) return null;
+
+      const pending = getPendingContest(orderDate, appeals);
+      if (!pending) return null;
+      const daysRemaining = pending.daysRemaining;
       
       return {
-          deadline,
+          forum: pending.forum,
+          parentAppeal: pending.parentAppeal,
+          deadline: pending.deadline,
           daysRemaining,
           isExpired: daysRemaining <= 0,
           isCritical: daysRemaining > 0 && daysRemaining <= 15,
           isWarning: daysRemaining > 15 && daysRemaining <= 30
       };
-  }, [formData.noticeType, formData.dateOfIssue, formData.status]);
+  }, [formData.noticeType, formData.dateOfIssue, formData.orderDate, formData.status, appeals]);
 
-  const handleQuickStatusUpdate = async (newStatus: string) => {
-      if (!noticeId) return;
-      if (confirm(`Update status to "${newStatus}"? This will stop contest alerts.`)) {
-          await db.notices.update(noticeId, { status: newStatus });
-          setFormData(prev => ({ ...prev, status: newStatus }));
-          await db.auditLogs.add({
-              entityType: 'Notice', entityId: noticeId, action: 'StatusChange', timestamp: new Date().toISOString(),
-              user: user?.username || 'System', details: `Status updated via Contest Tracker to ${newStatus}`
-          });
+  const limitationInfo = useMemo(() => computeLimitation(formData, configLimitation?.value || undefined), [formData.noticeType, formData.period, formData.section, formData.caseType, formData.dateOfIssue, formData.limitationTrack, configLimitation]);
+
+  const copyLimitationCitation = async () => {
+      if (!limitationInfo) return;
+      try {
+          await navigator.clipboard.writeText(formatLimitationCitation(formData, limitationInfo));
+          alert('Limitation paragraph copied to clipboard.');
+      } catch (e) {
+          console.error(e);
+          alert('Could not copy to clipboard.');
       }
   };
 
+  const isOrderNotice = (!!formData.noticeType && ORDER_TYPES.includes(formData.noticeType)) || !!formData.orderDate;
+  const preDeposit = useMemo(() => calculatePreDeposit(defects || [], payments || [], preDepositStage), [defects, payments, preDepositStage]);
+
+  // Status changes go through the workflow (required fields, roles, side effects)
+  const handleTransitionDone = (changes: Partial<Notice>) => setFormData(prev => ({ ...prev, ...changes }));
+
   const handleChange = (field: keyof Notice, value: any) => setFormData(prev => ({ ...prev, [field]: value }));
 
   const handleMarkAsChecked = () => {
@@ -313,21 +433,26 @@ const NoticeDetail: React.FC = () => {
           }
           
           const payload = { ...formData } as Notice;
+          payload.limitation = limitationInfo || undefined;
           let newId = noticeId;
+          const limitationNote = limitationInfo?.status === 'Time-Barred' ? ` (Appears time-barred: last date ${limitationInfo.checkedAgainst === 'Order' ? limitationInfo.orderDeadline : limitationInfo.scnDeadline})` : '';
 
           if (isNew) {
               newId = await db.notices.add(payload);
+              if (intake) await saveIntake(newId!);
               await db.auditLogs.add({
                   entityType: 'Notice', entityId: newId, action: 'Create', timestamp: new Date().toISOString(),
-                  user: user?.username || 'System', details: `Created Notice ${payload.noticeNumber}`
+                  user: user?.username || 'System', details: `Created Notice ${payload.noticeNumber}${intake ? ` from ${intake.source} (${intake.parsed.defects.length} defects)` : ''}${limitationNote}`
               });
               alert('Notice Created!');
               navigate(`/notices/${newId}`, { replace: true });
           } else {
-              await db.notices.update(noticeId!, payload as any);
+              // The status only moves through workflow transitions
+              const { status, ...changes } = payload;
+              await db.notices.update(noticeId!, changes);
               await db.auditLogs.add({
                   entityType: 'Notice', entityId: noticeId!, action: 'Update', timestamp: new Date().toISOString(),
-                  user: user?.username || 'System', details: `Updated Notice ${payload.noticeNumber}`
+                  user: user?.username || 'System', details: `Updated Notice ${payload.noticeNumber}${limitationNote}`
               });
               alert('Notice Updated!');
           }
@@ -337,6 +462,69 @@ const NoticeDetail: React.FC = () => {
       }
   };
 
+  const handleIntakeFile = async (file?: File) => {
+      if (!file) return;
+      if (file.type !== 'application/pdf' && !/\.pdf$/i.test(file.name)) { alert('Please select the PDF downloaded from the GST portal.'); return; }
+      setIsParsingIntake(true);
+      try {
+          const { pages, parsed } = await readNoticePdf(file, { noticeTypes: typeOptions, defectTypes: defectTypeOptions });
+          const filled = Object.keys(parsed.fields) as ParsedNoticeField[];
+          const caseType = parsed.fields.noticeType?.startsWith('ASMT') ? caseTypeOptions.find((c: string) => c.includes('ASMT'))
+              : parsed.fields.noticeType?.startsWith('DRC') ? caseTypeOptions.find((c: string) => c.includes('DRC')) : undefined;
+          setFormData(prev => ({
+              ...prev,
+              ...parsed.fields,
+              ...(caseType && !prev.caseType ? { caseType } : {}),
+              ...(parsed.defects.length > 0 ? { demandAmount: parsed.demandAmount } : {}),
+              receivedDate: prev.receivedDate || new Date().toISOString().split('T')[0]
+          }));
+          setIntake({ source: file.name, file, pages, parsed, filled });
+      } catch (e) {
+          console.error(e);
+          alert('Could not read this PDF. Enter the notice details manually.');
+      } finally {
+          setIsParsingIntake(false);
+          if (intakeInputRef.current) intakeInputRef.current.value = '';
+      }
+  };
+
+  const updateIntakeDefect = (idx: number, changes: Partial<NoticeDefect>) => {
+      setIntake(prev => prev ? { ...prev, parsed: { ...prev.parsed, defects: prev.parsed.defects.map((d, i) => i === idx ? { ...d, ...changes } : d) } } : prev);
+  };
+
+  const removeIntakeDefect = (idx: number) => {
+      setIntake(prev => {
+          if (!prev) return prev;
+          const defects = prev.parsed.defects.filter((_, i) => i !== idx);
+          const demandAmount = defects.reduce((acc, d) => acc + (d.taxDemand || 0) + (d.interestDemand || 0) + (d.penaltyDemand || 0)
+              + (['igst', 'cgst', 'sgst', 'cess'] as const).reduce((s, h) => s + (d[h]?.lateFee || 0) + (d[h]?.others || 0), 0), 0);
+          setFormData(f => ({ ...f, demandAmount }));
+          return { ...prev, parsed: { ...prev.parsed, defects, demandAmount } };
+      });
+  };
+
+  // Draft defects and the source PDF are only written once the notice itself is saved
+  const saveIntake = async (newNoticeId: number) => {
+      if (!intake) return;
+      for (const defect of intake.parsed.defects) {
+          await db.defects.add({ ...defect, noticeId: newNoticeId } as NoticeDefect);
+      }
+      if (intake.file) await db.documents.add({
+          noticeId: newNoticeId,
+          fileName: intake.file.name,
+          fileType: intake.file.type || 'application/pdf',
+          size: intake.file.size,
+          category: 'Notice Scan',
+          uploadDate: new Date().toISOString(),
+          fileData: intake.file,
+          ocrPages: intake.pages,
+          ocrText: joinOcrPages(intake.pages),
+          ocrStatus: 'Done',
+          ocrDate: new Date().toISOString()
+      });
+      if (intake.parsed.defects.length > 0) await updateTotalDemand(newNoticeId);
+  };
+
   const handleAddQuickLog = async () => {
       const hours = prompt("Enter hours worked:");
       const desc = prompt("Enter description:");
@@ -357,19 +545,27 @@ const NoticeDetail: React.FC = () => {
       try {
           const linked = await db.notices.where('arn').equals(formData.arn!).toArray();
           let count = 0;
+          const statusSkipped: string[] = [];
           for (const n of linked) {
               if (n.id === noticeId) continue;
               const updates: any = {};
               if (syncOptions.gstin && formData.gstin) updates.gstin = formData.gstin;
               if (syncOptions.riskLevel && formData.riskLevel) updates.riskLevel = formData.riskLevel;
-              if (syncOptions.status && formData.status) updates.status = formData.status;
               
               if (Object.keys(updates).length > 0) {
                   await db.notices.update(n.id!, updates);
-                  count++;
               }
+              // Linked notices follow their own workflow to the status
+              let statusChanged = false;
+              if (syncOptions.status && formData.status && n.status !== formData.status && user) {
+                  try {
+                      await applyTransition(n.id!, formData.status, {}, user, { source: `synced from ${formData.noticeNumber}` });
+                      statusChanged = true;
+                  } catch (e) { statusSkipped.push(`${n.noticeNumber}: ${e instanceof Error ? e.message : String(e)}`); }
+              }
+              if (Object.keys(updates).length > 0 || statusChanged) count++;
           }
-          alert(`Synced ${count} linked notices.`);
+          alert(`Synced ${count} linked notices.${statusSkipped.length ? `\n\nStatus not changed for:\n${statusSkipped.join('\n')}` : ''}`);
           setShowSyncModal(false);
       } catch (e) {
           console.error(e);
@@ -399,15 +595,90 @@ const NoticeDetail: React.FC = () => {
       } catch (e) { console.error(e); alert('Error saving defect.'); }
   };
 
-  const handleEditDefect = (defect: NoticeDefect) => { setCurrentDefect({...defect}); setShowDefectModal(true); setShowCalculator(false); };
+  const handleEditDefect = (defect: NoticeDefect) => { setCurrentDefect({...defect}); setCalcRate(getInterestRate(defect.excessItc)); setCalcFromDate(formData.dueDate || ''); setInterestWorking(null); setShowDefectModal(true); setShowCalculator(false); };
   
   const handleDeleteDefect = async (id: number) => {
       if (confirm('Delete defect?')) {
           await db.defects.delete(id);
+          await db.authorityCitations.where('defectId').equals(id).delete();
           await updateTotalDemand(noticeId!);
       }
   };
 
+  const openClausePicker = (defectId: number) => { setClausePickerDefectId(defectId); setClauseSearch(''); };
+
+  // Copies the clause into the defect's submission; the next reply draft picks it up
+  const handleInsertClause = async (defect: NoticeDefect, clause: ReplyClause) => {
+      if (!user || !noticeId) return;
+      const now = new Date().toISOString();
+      try {
+          await db.transaction('rw', db.defects, db.replyClauses, db.auditLogs, async () => {
+              // Read afresh: the rendered rows may be stale after a quick second click
+              const current = await db.defects.get(defect.id!);
+              const latest = await db.replyClauses.get(clause.id!);
+              if (!current || !latest || current.clauseIds?.includes(clause.id!)) return;
+              await db.defects.update(defect.id!, {
+                  replySubmission: appendClause(current.replySubmission, latest),
+                  clauseIds: [...(current.clauseIds || []), clause.id!]
+              });
+              await db.replyClauses.update(clause.id!, { usageCount: (latest.usageCount || 0) + 1, lastUsedAt: now });
+              await db.auditLogs.add({
+                  entityType: 'Notice', entityId: noticeId, action: 'Update', timestamp: now, user: user.username,
+                  details: `Clause "${clause.title}" added to the reply on ${defect.defectType}`
+              });
+          });
+      } catch (e) { console.error(e); alert('Could not insert the clause.'); }
+  };
+
+  const openCitePicker = (defectId?: number) => { setCitePicker({ defectId }); setAuthoritySearch(''); setCiteNote(''); };
+
+  const handleCiteAuthority = async (authority: LegalAuthority) => {
+      if (!user || !noticeId || !citePicker) return;
+      const defect = defects?.find(d => d.id === citePicker.defectId);
+      const now = new Date().toISOString();
+      try {
+          await db.transaction('rw', db.authorityCitations, db.auditLogs, async () => {
+              await db.authorityCitations.add({
+                  authorityId: authority.id!, noticeId, defectId: defect?.id, note: citeNote.trim() || undefined, citedAt: now, citedBy: user.username
+              });
+              await db.auditLogs.add({
+                  entityType: 'Notice', entityId: noticeId, action: 'Update', timestamp: now, user: user.username,
+                  details: `Relied upon ${authority.citation}${defect ? ` on ${defect.defectType}` : ''}`
+              });
+          });
+          setCiteNote('');
+      } catch (e) { console.error(e); alert('Could not cite the authority.'); }
+  };
+
+  const handleRemoveCitation = async (citation: AuthorityCitation, authority?: LegalAuthority) => {
+      if (!user || !noticeId || !confirm('Remove this authority from the case?')) return;
+      await db.authorityCitations.delete(citation.id!);
+      await db.auditLogs.add({
+          entityType: 'Notice', entityId: noticeId, action: 'Update', timestamp: new Date().toISOString(), user: user.username,
+          details: `No longer relying on ${authority?.citation || 'a deleted authority'}`
+      });
+  };
+
+  const citationList = (list: AuthorityCitation[], showScope: boolean) => list.length ? (
+      <div className="space-y-2">
+          {list.map(citation => {
+              const authority = authorities.find(a => a.id === citation.authorityId);
+              const defect = citation.defectId ? defects?.find(d => d.id === citation.defectId) : undefined;
+              return (
+                  <div key={citation.id} className="flex gap-2 items-start text-xs">
+                      <Landmark size={14} className="text-indigo-500 mt-0.5 shrink-0"/>
+                      <div className="flex-1 min-w-0">
+                          <p className="font-semibold text-slate-700">{authority ? formatAuthority(authority) : 'Deleted authority'}{showScope && <span className="ml-2 font-normal text-[10px] bg-slate-100 border border-slate-200 text-slate-500 px-1.5 py-0.5 rounded">{defect ? defect.defectType : 'Whole case'}</span>}</p>
+                          {authority && <p className="text-slate-500">{[authority.kind, authority.forum, authority.date && formatDate(authority.date)].filter(Boolean).join(' • ')}</p>}
+                          {citation.note && <p className="text-slate-600 italic mt-0.5">{citation.note}</p>}
+                      </div>
+                      {canEdit && <button onClick={() => handleRemoveCitation(citation, authority)} className="text-slate-400 hover:text-red-500 p-0.5" title="Remove"><X size={12}/></button>}
+                  </div>
+              );
+          })}
+      </div>
+  ) : <p className="text-xs text-slate-400 italic">No authorities cited yet.</p>;
+
   const handleOpenWaiverModal = (id: number) => { setWaiverDetails({ id, date: new Date().toISOString().split('T')[0], reason: '' }); setShowWaiverModal(true); };
   
   const handleWaiveDefect = async (e: React.FormEvent) => {
@@ -431,18 +702,33 @@ const NoticeDetail: React.FC = () => {
 
   const calculateModalInterest = () => {
       if (!calcFromDate || !calcToDate) return;
-      const days = Math.ceil((new Date(calcToDate).getTime() - new Date(calcFromDate).getTime()) / (1000 * 3600 * 24));
-      if (days <= 0) { alert('Invalid date range'); return; }
-
-      const calc = (tax: number) => Math.round((tax * calcRate * days) / 36500); 
-
-      setCurrentDefect(prev => ({
-          ...prev,
-          igst: { ...prev.igst!, interest: calc(prev.igst?.tax || 0) },
-          cgst: { ...prev.cgst!, interest: calc(prev.cgst?.tax || 0) },
-          sgst: { ...prev.sgst!, interest: calc(prev.sgst?.tax || 0) },
-          cess: { ...prev.cess!, interest: calc(prev.cess?.tax || 0) }
-      }));
+      if (calcToDate <= calcFromDate) { alert('Invalid date range'); return; }
+
+      // A defect being added counts too, so the notice's unlinked challans stay with its existing defect
+      const defectCount = (defects?.length || 0) + (currentDefect.id ? 0 : 1);
+      const taxPayments = getDefectTaxPayments(currentDefect, payments || [], defectCount);
+      const result = calculateDefectInterest(currentDefect, taxPayments, { fromDate: calcFromDate, toDate: calcToDate, rate: calcRate });
+      setInterestWorking(result);
+      setCurrentDefect(prev => applyInterestToDefect(prev, result));
+  };
+
+  const exportInterestWorking = () => {
+      if (!interestWorking) return;
+      const doc = new jsPDF();
+      doc.text(`Interest Working u/s 50: ${formData.noticeNumber} - ${currentDefect.defectType || 'Defect'}`, 14, 15);
+      doc.setFontSize(9);
+      doc.text(`Period: ${formatDate(calcFromDate)} to ${formatDate(calcToDate)} @ ${interestWorking.rate}% p.a.`, 14, 21);
+
+      autoTable(doc, {
+          startY: 26,
+          head: [['Head', 'From', 'To', 'Days', 'Outstanding Tax', 'Interest', 'Tax Paid', 'Challan']],
+          body: interestWorking.schedule.map(r => [
+              r.head, formatDate(r.fromDate), formatDate(r.toDate), r.days, r.principal.toFixed(2), r.interest.toFixed(2),
+              r.paymentAmount ? r.paymentAmount.toFixed(2) : '-', r.challanNumber || '-'
+          ]),
+          foot: [['Total', '', '', '', '', interestWorking.total.toFixed(2), '', '']]
+      });
+      doc.save(`InterestWorking_${formData.noticeNumber}.pdf`);
   };
 
   const updateTotalDemand = async (nId: number) => {
@@ -456,19 +742,31 @@ const NoticeDetail: React.FC = () => {
       setFormData(prev => ({ ...prev, demandAmount: total }));
   };
 
+  // Same person already booked at an overlapping time, or in another city that day
+  const confirmHearingClashes = async (hearing: Partial<Hearing>) => {
+      const candidate = { ...hearing, noticeId, id: hearing.id ?? -1 } as Hearing;
+      const others = (await db.hearings.toArray()).filter(h => h.id !== hearing.id);
+      const otherNotices = (await db.notices.toArray()).filter(n => n.id !== noticeId);
+      const clashes = findHearingConflicts([...others, candidate], [...otherNotices, { ...formData, id: noticeId } as Notice])
+          .filter(c => c.hearingIds.includes(candidate.id!));
+      return clashes.length === 0 || confirm(`${formData.assignedTo} has a clashing hearing:\n\n${clashes.map(c => `• ${c.detail}`).join('\n')}\n\nSave anyway?`);
+  };
+
   const handleSaveHearing = async (e: React.FormEvent) => {
       e.preventDefault();
       if (!noticeId) return;
       try {
+          if (!(await confirmHearingClashes(currentHearing))) return;
+
           if (currentHearing.id) {
               await db.hearings.update(currentHearing.id, currentHearing);
           } else {
               await db.hearings.add({ ...currentHearing, noticeId } as Hearing);
           }
           
-          if (formData.status !== NoticeStatus.HEARING && formData.status !== NoticeStatus.CLOSED) {
-              await db.notices.update(noticeId, { status: NoticeStatus.HEARING });
-              setFormData(prev => ({ ...prev, status: NoticeStatus.HEARING }));
+          if (user && formData.status !== NoticeStatus.HEARING && formData.status !== NoticeStatus.CLOSED) {
+              const changes = await applyTransition(noticeId, NoticeStatus.HEARING, {}, user, { automatic: true, source: 'hearing scheduled' });
+              if (changes) handleTransitionDone(changes);
           }
 
           setShowHearingModal(false);
@@ -477,8 +775,41 @@ const NoticeDetail: React.FC = () => {
 
   const handleEditHearing = (h: Hearing) => { setCurrentHearing(h); setShowHearingModal(true); };
   
+  // Keeps the adjournment chain joined: the predecessor now leads to the deleted hearing's successor
   const handleDeleteHearing = async (id: number) => {
-      if (confirm('Delete this hearing?')) { await db.hearings.delete(id); }
+      if (!confirm('Delete this hearing?')) return;
+      const hearing = hearings?.find(h => h.id === id);
+      await db.transaction('rw', db.hearings, async () => {
+          await db.hearings.delete(id);
+          const successor = await db.hearings.where('noticeId').equals(noticeId!).filter(h => h.previousHearingId === id).first();
+          if (hearing?.previousHearingId) {
+              const previous = await db.hearings.get(hearing.previousHearingId);
+              if (previous?.adjournment?.nextHearingId === id) await db.hearings.update(previous.id!, { adjournment: { ...previous.adjournment, nextHearingId: successor?.id } });
+          }
+          if (successor) await db.hearings.update(successor.id!, { previousHearingId: hearing?.previousHearingId });
+      });
+  };
+
+  const adjournmentCount = countAdjournments(hearings || []);
+  const hearingChains = getHearingChains(hearings || []);
+
+  const openAdjournModal = (h: Hearing) => {
+      setAdjourningHearing(h);
+      setAdjournForm({ reason: '', soughtBy: 'Taxpayer', requestedOn: new Date().toISOString().split('T')[0], nextDate: '', nextTime: h.time, nextVenue: h.venue });
+  };
+
+  const handleAdjournHearing = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!adjourningHearing || !user) return;
+      if (adjournForm.nextDate <= adjourningHearing.date) return alert('The next hearing must be after the adjourned one.');
+      if (adjournForm.soughtBy === 'Taxpayer' && adjournmentCount.byTaxpayer >= MAX_ADJOURNMENTS
+          && !confirm(`The taxpayer has already been granted ${adjournmentCount.byTaxpayer} adjournments. Section 75(5) allows no more than ${MAX_ADJOURNMENTS}; the officer may refuse and proceed ex parte.\n\nRecord this adjournment anyway?`)) return;
+      try {
+          const next = { ...adjourningHearing, id: undefined, date: adjournForm.nextDate, time: adjournForm.nextTime, venue: adjournForm.nextVenue, status: HearingStatus.SCHEDULED };
+          if (!(await confirmHearingClashes(next))) return;
+          await adjournHearing(adjourningHearing, adjournForm, user.username);
+          setAdjourningHearing(null);
+      } catch (err) { console.error(err); alert('Error recording adjournment.'); }
   };
 
   const handleSavePaymentMatrix = async (e: React.FormEvent) => {
@@ -519,6 +850,110 @@ const NoticeDetail: React.FC = () => {
       } catch (e) { console.error(e); alert('Error recording payment.'); }
   };
 
+  const openAppealModal = (appeal?: AppealProceeding, forum?: AppealForum, parent?: AppealProceeding) => {
+      if (appeal) {
+          setCurrentAppeal({ ...appeal, outcomes: [...appeal.outcomes] });
+      } else {
+          setCurrentAppeal({ ...emptyAppeal(), forum: forum || 'First Appeal', parentAppealId: parent?.id, orderDate: parent?.disposalDate || formData.orderDate || formData.dateOfIssue || '' });
+      }
+      setShowAppealModal(true);
+  };
+
+  const setAppealOutcome = (defectId: number, outcome: AppealOutcome) => {
+      setCurrentAppeal(prev => {
+          const others = (prev.outcomes || []).filter(o => o.defectId !== defectId);
+          return { ...prev, outcomes: [...others, { defectId, outcome }] };
+      });
+  };
+
+  const handleSaveAppeal = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!noticeId) return;
+      const appeal = { ...currentAppeal, noticeId } as AppealProceeding;
+
+      // Filing before the Appellate Authority / GSTAT requires the statutory pre-deposit
+      if (appeal.status !== 'Draft' && (appeal.forum === 'First Appeal' || appeal.forum === 'GSTAT')) {
+          const result = await getNoticePreDeposit(noticeId, appeal.forum === 'GSTAT' ? 'Tribunal' : 'First Appeal');
+          if (!result.isSatisfied) {
+              alert(`Pre-deposit for ${result.stage} is short by ${formatCurrency(result.totalShortfall)}. Save the appeal as Draft or record the deposit first.`);
+              return;
+          }
+      }
+
+      try {
+          const timestamp = new Date().toISOString();
+          appeal.id = await db.appeals.put(appeal);
+          await db.auditLogs.add({
+              entityType: 'Appeal', entityId: appeal.id!, action: currentAppeal.id ? 'Update' : 'Create', timestamp,
+              user: user?.username || 'System', details: `${appeal.forum} ${appeal.appealNumber || ''} (${appeal.status}) against ${formData.noticeNumber}`
+          });
+
+          if (user && appeal.status !== 'Draft' && appeal.status !== 'Withdrawn' && !APPEAL_STATUSES.includes(formData.status || '')) {
+              const changes = await applyTransition(noticeId, 'Appeal Filed', {}, user, { automatic: true, source: `${appeal.forum} recorded` });
+              if (changes) handleTransitionDone(changes);
+          }
+          setShowAppealModal(false);
+      } catch (e) { console.error(e); alert('Error saving appeal.'); }
+  };
+
+  const handleDeleteAppeal = async (appeal: AppealProceeding) => {
+      if (appeals?.some(a => a.parentAppealId === appeal.id)) { alert('Delete the higher forum appeal first.'); return; }
+      if (confirm(`Delete ${appeal.forum} appeal ${appeal.appealNumber || ''}?`)) {
+          await db.appeals.delete(appeal.id!);
+          await db.auditLogs.add({
+              entityType: 'Appeal', entityId: appeal.id!, action: 'Delete', timestamp: new Date().toISOString(),
+              user: user?.username || 'System', details: `Deleted ${appeal.forum} appeal against ${formData.noticeNumber}`
+          });
+      }
+  };
+
+  const handleToggleAppealStance = async (defect: NoticeDefect) => {
+      const appealStance = defect.appealStance === 'Admitted' ? 'Disputed' : 'Admitted';
+      await db.defects.update(defect.id!, { appealStance });
+      await db.auditLogs.add({
+          entityType: 'Defect', entityId: defect.id!, action: 'Update', timestamp: new Date().toISOString(),
+          user: user?.username || 'System', details: `Defect marked as ${appealStance} for appeal`
+      });
+  };
+
+  const openDepositModal = () => {
+      const shortfallFor = (head: string) => {
+          const row = preDeposit.rows.find(r => r.head === head);
+          return row ? Math.max(0, row.preDeposit - row.depositPaid) : 0;
+      };
+      setDepositForm({ igst: shortfallFor('IGST'), cgst: shortfallFor('CGST'), sgst: shortfallFor('SGST'), cess: shortfallFor('Cess'), challanNumber: '', paymentDate: new Date().toISOString().split('T')[0], notes: '' });
+      setShowDepositModal(true);
+  };
+
+  const handleSaveDeposit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!noticeId) return;
+      try {
+          let count = 0;
+          for (const { key, head } of [{ key: 'igst', head: 'IGST' }, { key: 'cgst', head: 'CGST' }, { key: 'sgst', head: 'SGST' }, { key: 'cess', head: 'Cess' }] as const) {
+              const amount = depositForm[key];
+              if (!amount || amount <= 0) continue;
+              await db.payments.add({
+                  noticeId,
+                  majorHead: head,
+                  minorHead: 'Deposit',
+                  amount,
+                  challanNumber: depositForm.challanNumber,
+                  paymentDate: depositForm.paymentDate,
+                  bankName: '',
+                  notes: depositForm.notes || `Pre-deposit (${preDepositStage})`
+              });
+              count++;
+          }
+          if (count === 0) { alert('No non-zero amounts entered.'); return; }
+          await db.auditLogs.add({
+              entityType: 'Payment', entityId: noticeId, action: 'Create', timestamp: new Date().toISOString(),
+              user: user?.username || 'System', details: `Recorded pre-deposit for ${preDepositStage} (Challan ${depositForm.challanNumber})`
+          });
+          setShowDepositModal(false);
+      } catch (e) { console.error(e); alert('Error recording deposit.'); }
+  };
+
   const handleDeletePayment = async (payId: number) => { if(confirm('Delete payment?')) await db.payments.delete(payId); };
   const openEditPayment = (payment: PaymentLog) => { setEditingPayment({...payment}); setShowEditPaymentModal(true); };
 
@@ -548,9 +983,10 @@ const NoticeDetail: React.FC = () => {
       const files = e.target.files;
       if (!files || !files.length || !noticeId) return;
       try {
+          const ocrIds: number[] = [];
           for (let i = 0; i < files.length; i++) {
               const file = files[i];
-              await db.documents.add({
+              const docId = await db.documents.add({
                   noticeId,
                   fileName: file.name,
                   fileType: file.type,
@@ -559,24 +995,44 @@ const NoticeDetail: React.FC = () => {
                   uploadDate: new Date().toISOString(),
                   fileData: file
               });
+              if (isOcrSupported({ fileType: file.type, fileName: file.name })) ocrIds.push(docId as number);
           }
+          if (ocrIds.length > 0) enqueueOcr(ocrIds);
       } catch (e) { console.error(e); alert('Upload failed'); }
   };
 
   const deleteDocument = async (docId: number) => { if(confirm('Delete file?')) await db.documents.delete(docId); };
   
-  const openOCRModal = (doc: DocumentMeta) => { setCurrentDocForOCR(doc); setOcrTextBuffer(doc.ocrText || ''); setShowOCRModal(true); };
+  const loadOCRBuffers = (doc: DocumentMeta) => { setOcrTextBuffer(doc.ocrText || ''); setOcrPagesBuffer(doc.ocrPages || []); setOcrPageIndex(0); };
+  const openOCRModal = (doc: DocumentMeta) => { setCurrentDocForOCR(doc); loadOCRBuffers(doc); setShowOCRModal(true); };
   const saveOCRText = async () => {
       if (currentDocForOCR) {
-          await db.documents.update(currentDocForOCR.id!, { ocrText: ocrTextBuffer });
+          // Multi-page documents are edited page by page so the per-page text stays aligned
+          const pages = ocrPagesBuffer.length > 1 ? ocrPagesBuffer : [ocrTextBuffer];
+          await db.documents.update(currentDocForOCR.id!, { ocrPages: pages, ocrText: joinOcrPages(pages), ocrStatus: 'Done', ocrError: undefined });
           setShowOCRModal(false);
       }
   };
-  const simulateOCR = () => { setOcrTextBuffer(`Scanned Text from ${currentDocForOCR?.fileName}...\n\nDIN: ${formData.noticeNumber}\nDate: ${formData.dateOfIssue}\n\nThis is a simulated OCR result.`); };
+  const runOCR = async () => {
+      if (!currentDocForOCR?.id) return;
+      if (!currentDocForOCR.fileData) { alert('File data not available locally.'); return; }
+      setIsExtracting(true);
+      try {
+          await enqueueOcr([currentDocForOCR.id], true);
+          const updated = await db.documents.get(currentDocForOCR.id);
+          if (updated) {
+              setCurrentDocForOCR(updated);
+              loadOCRBuffers(updated);
+              if (updated.ocrStatus === 'Failed') alert(`Text extraction failed: ${updated.ocrError || 'Unknown error'}`);
+          }
+      } finally { setIsExtracting(false); }
+  };
   
-  const downloadFile = (doc: DocumentMeta) => {
-      if (doc.fileData) {
-          const url = URL.createObjectURL(doc.fileData);
+  const downloadFile = async (doc: DocumentMeta) => {
+      let file: Blob | undefined;
+      try { file = await getDocumentFile(doc); } catch (e) { alert(e instanceof Error ? e.message : String(e)); return; }
+      if (file) {
+          const url = URL.createObjectURL(file);
           const a = document.createElement('a');
           a.href = url;
           a.download = doc.fileName;
@@ -587,27 +1043,41 @@ const NoticeDetail: React.FC = () => {
       } else { alert('File data not available locally.'); }
   };
 
+  const offeredReplyTemplates = templatesForNotice(replyTemplates, formData.noticeType);
+  const selectedReplyTemplate = offeredReplyTemplates.find(t => t.id === replyTemplateId) || offeredReplyTemplates[0];
+
+  const handleGenerateReply = async () => {
+      if (!noticeId || !user || !selectedReplyTemplate) return;
+      // Drafts are filled from the saved case, not from unsaved edits on screen
+      const notice = await db.notices.get(noticeId);
+      if (!notice) return;
+      setIsDraftingReply(true);
+      try {
+          const { version, missing } = await createReplyDraft(notice, selectedReplyTemplate, user);
+          if (missing.length) alert(`Draft v${version} saved. These fields had no value and are marked in the draft:\n${missing.join(', ')}`);
+      } catch (e) { console.error(e); alert(`Could not generate the reply: ${e instanceof Error ? e.message : String(e)}`); }
+      finally { setIsDraftingReply(false); }
+  };
+
+  const downloadDraftFile = async (documentId?: number) => {
+      const doc = documentId ? await db.documents.get(documentId) : undefined;
+      if (doc) await downloadFile(doc); else alert('This file has been deleted from the case documents.');
+  };
+
   const handleUpdateInterestTillToday = async () => {
       if (!defects || defects.length === 0) return;
-      if (confirm("Recalculate interest for all defects till today (18%)?")) {
-          const today = new Date();
+      if (confirm(`Recalculate interest for all defects till today (${INTEREST_RATE_STANDARD}%, ${INTEREST_RATE_EXCESS_ITC}% for excess ITC), net of tax payments?`)) {
+          const today = new Date().toISOString().split('T')[0];
           let updated = false;
           for (const defect of defects) {
               const baseDateStr = formData.dueDate || formData.dateOfIssue;
-              if (!baseDateStr) continue;
-              
-              const days = Math.ceil((today.getTime() - new Date(baseDateStr).getTime()) / (1000 * 3600 * 24));
-              if (days <= 0) continue;
+              if (!baseDateStr || baseDateStr >= today) continue;
 
-              const calc = (tax: number) => Math.round((tax * 18 * days) / 36500);
-              
-              await db.defects.update(defect.id!, {
-                  igst: { ...defect.igst, interest: calc(defect.igst.tax) },
-                  cgst: { ...defect.cgst, interest: calc(defect.cgst.tax) },
-                  sgst: { ...defect.sgst, interest: calc(defect.sgst.tax) },
-                  cess: { ...defect.cess, interest: calc(defect.cess.tax) },
-                  interestDemand: calc(defect.igst.tax) + calc(defect.cgst.tax) + calc(defect.sgst.tax) + calc(defect.cess.tax)
-              });
+              const taxPayments = getDefectTaxPayments(defect, payments || [], defects.length);
+              const result = calculateDefectInterest(defect, taxPayments, { fromDate: baseDateStr, toDate: today });
+              const { igst, cgst, sgst, cess, interestDemand } = applyInterestToDefect(defect, result);
+
+              await db.defects.update(defect.id!, { igst, cgst, sgst, cess, interestDemand });
               updated = true;
           }
           if (updated) {
@@ -641,27 +1111,45 @@ const NoticeDetail: React.FC = () => {
                   </div>
                   <div>
                       <h3 className="font-bold flex items-center gap-2">
-                          Contest Tracker: {formData.noticeType} Order 
+                          Contest Tracker: {contestInfo.forum === 'First Appeal' ? `${formData.noticeType} Order` : `${getForumRule(contestInfo.forum).label} (${getForumRule(contestInfo.forum).provision})`}
                           {contestInfo.isExpired && <span className="bg-red-600 text-white text-[10px] px-2 py-0.5 rounded-full uppercase tracking-widest">Expired</span>}
                       </h3>
                       <p className="text-sm font-medium">
                           {contestInfo.isExpired 
                             ? `Contest period ended on ${formatDate(contestInfo.deadline.toISOString())}.`
-                            : `${contestInfo.daysRemaining} days remaining to file Appeal or Rectification (Deadline: ${formatDate(contestInfo.deadline.toISOString())}).`
+                            : contestInfo.forum === 'First Appeal'
+                                ? `${contestInfo.daysRemaining} days remaining to file Appeal or Rectification (Deadline: ${formatDate(contestInfo.deadline.toISOString())}).`
+                                : `${contestInfo.daysRemaining} days remaining to appeal before the ${getForumRule(contestInfo.forum).label} (Deadline: ${formatDate(contestInfo.deadline.toISOString())}).`
                           }
                       </p>
                   </div>
               </div>
-              {!contestInfo.isExpired && (
+              {!contestInfo.isExpired && contestInfo.forum !== 'First Appeal' && canEdit && (
+                  <button
+                    onClick={() => openAppealModal(undefined, contestInfo.forum, contestInfo.parentAppeal)}
+                    className="bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 px-3 py-1.5 rounded-lg text-xs font-bold shadow-sm flex items-center gap-1.5"
+                  >
+                      <ArrowRight size={14} className="text-blue-500"/> Record {contestInfo.forum} Appeal
+                  </button>
+              )}
+              {!contestInfo.isExpired && contestInfo.forum === 'First Appeal' && (
                   <div className="flex gap-2">
+                      {canEdit && (
+                          <button
+                            onClick={() => openAppealModal()}
+                            className="bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 px-3 py-1.5 rounded-lg text-xs font-bold shadow-sm flex items-center gap-1.5"
+                          >
+                              <Scale size={14} className="text-purple-500"/> Record Appeal
+                          </button>
+                      )}
                       <button 
-                        onClick={() => handleQuickStatusUpdate('Appeal Filed')}
+                        onClick={() => setTransitionTarget('Appeal Filed')}
                         className="bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 px-3 py-1.5 rounded-lg text-xs font-bold shadow-sm flex items-center gap-1.5"
                       >
                           <ArrowRight size={14} className="text-blue-500"/> Mark Appeal Filed
                       </button>
                       <button 
-                        onClick={() => handleQuickStatusUpdate('Rectification Filed')}
+                        onClick={() => setTransitionTarget('Rectification Filed')}
                         className="bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 px-3 py-1.5 rounded-lg text-xs font-bold shadow-sm flex items-center gap-1.5"
                       >
                           <ShieldAlert size={14} className="text-orange-500"/> Mark Rectification Filed
@@ -671,6 +1159,15 @@ const NoticeDetail: React.FC = () => {
           </div>
       )}
 
+      {limitationInfo?.status === 'Time-Barred' && (
+          <div className="p-4 rounded-xl border-2 bg-red-50 border-red-200 text-red-800 flex items-center gap-3">
+              <Hourglass size={20} className="shrink-0"/>
+              <p className="text-sm font-medium">
+                  This {formData.noticeType} appears <strong>time-barred</strong>: issued on {formatDate(formData.dateOfIssue)}, after the last date of {formatDate(limitationInfo.checkedAgainst === 'Order' ? limitationInfo.orderDeadline : limitationInfo.scnDeadline)} under Section {limitationInfo.track}.
+              </p>
+          </div>
+      )}
+
       <div className="flex items-center justify-between">
         <button onClick={() => navigate('/notices')} className="flex items-center gap-2 text-slate-500 hover:text-slate-800 font-medium transition-colors"><ArrowLeft size={18} /> Back</button>
         {canEdit && (
@@ -695,6 +1192,7 @@ const NoticeDetail: React.FC = () => {
                 {id: 'defects', icon: Wallet, label: 'Defects & Payments'}, 
                 {id: 'time', icon: Hourglass, label: 'Time & Planning'},
                 {id: 'hearings', icon: Gavel, label: 'Hearings'}, 
+                {id: 'appeals', icon: Scale, label: 'Appeals'},
                 {id: 'documents', icon: FolderOpen, label: 'Documents'}, 
                 {id: 'history', icon: History, label: 'Case History'}, 
                 {id: 'audit', icon: Activity, label: 'Audit Trail'} 
@@ -706,6 +1204,67 @@ const NoticeDetail: React.FC = () => {
         <div className="p-8">
             {activeTab === 'info' && (
                 <div className="space-y-8 animate-in fade-in duration-300">
+                    {isNew && canEdit && !intake && (
+                        <div
+                            onDragOver={e => { e.preventDefault(); setIsIntakeDragOver(true); }}
+                            onDragLeave={() => setIsIntakeDragOver(false)}
+                            onDrop={e => { e.preventDefault(); setIsIntakeDragOver(false); handleIntakeFile(e.dataTransfer.files[0]); }}
+                            onClick={() => !isParsingIntake && intakeInputRef.current?.click()}
+                            className={`border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-colors ${isIntakeDragOver ? 'border-blue-500 bg-blue-50' : 'border-slate-300 bg-slate-50 hover:bg-slate-100'}`}
+                        >
+                            <UploadCloud size={32} className={`mx-auto mb-2 ${isParsingIntake ? 'text-blue-500 animate-pulse' : 'text-slate-400'}`}/>
+                            <p className="text-sm font-bold text-slate-700">{isParsingIntake ? 'Reading notice...' : 'Drop the portal PDF (ASMT-10 / DRC-01 / DRC-07) to pre-fill this notice'}</p>
+                            <p className="text-xs text-slate-500 mt-1">Details and the demand table are extracted on this computer. Review everything before saving.</p>
+                            <input type="file" ref={intakeInputRef} accept="application/pdf,.pdf" className="hidden" onChange={e => handleIntakeFile(e.target.files?.[0])}/>
+                        </div>
+                    )}
+
+                    {isNew && intake && (
+                        <div className="bg-blue-50 border border-blue-200 rounded-xl p-5 space-y-4">
+                            <div className="flex justify-between items-start gap-4">
+                                <div>
+                                    <h4 className="font-bold text-blue-900 flex items-center gap-2 text-sm"><ScanText size={16}/> Pre-filled from {intake.source}</h4>
+                                    <p className="text-xs text-blue-700 mt-1">{intake.filled.length > 0 ? `Recognised: ${intake.filled.map(f => ({ gstin: 'GSTIN', din: 'DIN', noticeNumber: 'Reference No', arn: 'Case ID', noticeType: 'Notice Type', section: 'Section', period: 'Period', dateOfIssue: 'Date of Issue', dueDate: 'Due Date', issuingAuthority: 'Issuing Authority' })[f]).join(', ')}.` : 'No notice details were recognised.'}{intake.file && ' The PDF will be attached as a Notice Scan.'}</p>
+                                </div>
+                                <button onClick={() => setIntake(null)} className="text-xs font-medium text-slate-500 hover:text-red-600 flex items-center gap-1 shrink-0"><X size={14}/> {intake.file ? 'Discard PDF' : 'Discard Drafts'}</button>
+                            </div>
+                            {intake.parsed.warnings.length > 0 && (
+                                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 space-y-1">
+                                    {intake.parsed.warnings.map(w => <p key={w} className="flex items-center gap-1.5"><AlertCircle size={12}/> {w}</p>)}
+                                </div>
+                            )}
+                            {formData.gstin && !taxpayersList.some(t => t.gstin === formData.gstin) && (
+                                <p className="text-xs text-amber-700 flex items-center gap-1.5"><AlertCircle size={12}/> GSTIN {formData.gstin} is not registered as a taxpayer yet. Use Add Details below after saving.</p>
+                            )}
+                            {intake.parsed.defects.length > 0 && (
+                                <div className="bg-white rounded-lg border border-blue-100 overflow-hidden">
+                                    <table className="w-full text-xs">
+                                        <thead className="bg-slate-50 text-slate-500 uppercase">
+                                            <tr><th className="p-2 text-left">Draft Defect</th><th className="p-2 text-right">Tax</th><th className="p-2 text-right">Interest</th><th className="p-2 text-right">Penalty</th><th className="p-2"></th></tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-100">
+                                            {intake.parsed.defects.map((d, idx) => (
+                                                <tr key={idx}>
+                                                    <td className="p-2">
+                                                        <select value={d.defectType} onChange={e => updateIntakeDefect(idx, { defectType: e.target.value })} className="w-full p-1.5 border border-slate-300 rounded bg-white">
+                                                            {[...new Set([d.defectType || '', ...defectTypeOptions])].filter(Boolean).map((t: string) => <option key={t} value={t}>{t}</option>)}
+                                                        </select>
+                                                        {d.description && <p className="text-[10px] text-slate-400 mt-1 truncate max-w-md" title={d.description}>{d.description}</p>}
+                                                    </td>
+                                                    <td className="p-2 text-right font-mono">{formatCurrency(d.taxDemand || 0)}</td>
+                                                    <td className="p-2 text-right font-mono">{formatCurrency(d.interestDemand || 0)}</td>
+                                                    <td className="p-2 text-right font-mono">{formatCurrency(d.penaltyDemand || 0)}</td>
+                                                    <td className="p-2 text-right"><button onClick={() => removeIntakeDefect(idx)} className="p-1 text-slate-400 hover:text-red-600"><Trash2 size={14}/></button></td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    <p className="text-[10px] text-slate-500 p-2 bg-slate-50 border-t border-slate-100">Head-wise amounts can be corrected in the Defects tab after saving.</p>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                         <div className="space-y-6">
                             <div><label className="block text-sm font-bold text-slate-700 mb-1">Select Taxpayer (GSTIN) <span className="text-red-500">*</span> <Tooltip text="The registered taxpayer for whom this notice is issued."/></label><div className="flex gap-2"><select disabled={!canEdit} value={formData.gstin || ''} onChange={(e) => handleChange('gstin', e.target.value)} className={`flex-1 p-2.5 border rounded-lg bg-white ${gstinError ? 'border-red-300' : 'border-slate-300'} disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none transition-shadow`}><option value="">-- Select Client --</option>{finalTaxpayerOptions.map(t => (<option key={t.id} value={t.gstin}>{t.tradeName} - {t.gstin}</option>))}</select><Link to="/taxpayers/new" className="bg-slate-100 border border-slate-300 text-slate-600 p-2.5 rounded-lg hover:bg-slate-200" title="Add New Taxpayer"><Plus size={20}/></Link></div>{gstinError && <span className="text-xs text-red-500 mt-1 block">{gstinError}</span>}</div>
@@ -791,6 +1350,7 @@ const NoticeDetail: React.FC = () => {
                         </div>
                         <div className="space-y-6">
                             <div><label className="block text-sm font-bold text-slate-700 flex items-center gap-1 mb-1">Notice Reference No <span className="text-red-500">*</span> <Tooltip text="DIN, SCN Number, or unique reference from the document."/></label><input disabled={!canEdit} type="text" placeholder="DIN / SCN Number" value={formData.noticeNumber || ''} onChange={(e) => handleChange('noticeNumber', e.target.value)} className="w-full p-2.5 border border-slate-300 rounded-lg disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none" /></div>
+                            <div><label className="block text-sm font-bold text-slate-700 flex items-center gap-1 mb-1">DIN <Tooltip text="Document Identification Number printed on the notice, if different from the reference number."/></label><input disabled={!canEdit} type="text" value={formData.din || ''} onChange={(e) => handleChange('din', e.target.value)} className="w-full p-2.5 border border-slate-300 rounded-lg disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none font-mono" /></div>
                             
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
@@ -814,7 +1374,7 @@ const NoticeDetail: React.FC = () => {
                                 <input disabled={!canEdit} type="text" placeholder="e.g. State Tax Officer / Superintendent" value={formData.issuingAuthority || ''} onChange={(e) => handleChange('issuingAuthority', e.target.value)} className="w-full p-2.5 border border-slate-300 rounded-lg disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none" />
                             </div>
 
-                            <div><label className="block text-sm font-bold text-slate-700 flex items-center gap-1 mb-1">Current Status</label><select disabled={!canEdit} className="w-full p-2.5 border border-slate-300 rounded-lg bg-white disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none" value={formData.status || ''} onChange={(e) => handleChange('status', e.target.value)}>{statusOptions.map((s: string) => <option key={s} value={s}>{s}</option>)}</select></div>
+                            <div><label className="block text-sm font-bold text-slate-700 flex items-center gap-1 mb-1">Current Status</label>{isNew ? <select disabled={!canEdit} className="w-full p-2.5 border border-slate-300 rounded-lg bg-white disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none" value={formData.status || ''} onChange={(e) => handleChange('status', e.target.value)}>{statusOptions.map((s: string) => <option key={s} value={s}>{s}</option>)}</select> : <div className="flex gap-2"><div className="flex-1 p-2.5 border border-slate-200 rounded-lg bg-slate-50 text-sm font-medium text-slate-700">{formData.status}</div>{canEdit && <button type="button" onClick={() => setTransitionTarget('')} className="px-3 border border-slate-300 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 flex items-center gap-1" title="Change status through the workflow"><ArrowRight size={14}/> Change</button>}</div>}</div>
                             <div className="grid grid-cols-2 gap-4"><div><label className="block text-sm font-bold text-slate-700 flex items-center gap-1 mb-1">Risk Level</label><select disabled={!canEdit} className="w-full p-2.5 border border-slate-300 rounded-lg bg-white disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none" value={formData.riskLevel || ''} onChange={(e) => handleChange('riskLevel', e.target.value)}>{Object.values(RiskLevel).map((r: string) => <option key={r} value={r}>{r}</option>)}</select></div><div><label className="block text-sm font-bold text-slate-700 flex items-center gap-1 mb-1">Assigned To</label><select disabled={!canEdit} className="w-full p-2.5 border border-slate-300 rounded-lg bg-white disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none" value={formData.assignedTo || ''} onChange={(e) => handleChange('assignedTo', e.target.value)}><option value="">-- Unassigned --</option>{usersList.map((u: any) => <option key={u.id} value={u.username}>{u.fullName}</option>)}</select></div></div>
                              <div className="grid grid-cols-2 gap-4">
                                  <div>
@@ -884,6 +1444,31 @@ const NoticeDetail: React.FC = () => {
                             <input disabled={!canEdit} type="date" value={formData.dueDate || ''} onChange={(e) => handleChange('dueDate', e.target.value)} className="w-full p-2.5 border border-slate-300 rounded-lg disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none" />
                         </div>
                     </div>
+                    {limitationInfo && (
+                        <div className={`rounded-xl border p-5 ${limitationInfo.status === 'Time-Barred' ? 'bg-red-50 border-red-200' : 'bg-slate-50 border-slate-200'}`}>
+                            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                                <h4 className="font-bold text-slate-700 flex items-center gap-2 text-sm">
+                                    <Hourglass size={16}/> Limitation (Section {limitationInfo.track})
+                                    <Tooltip text="Order due within 3 years (Sec 73) / 5 years (Sec 74) of the annual return due date; SCN at least 3 / 6 months earlier. Extensions and exclusions are configured in System Administration."/>
+                                    <span className={`text-[10px] uppercase px-2 py-0.5 rounded-full border font-bold ${limitationInfo.status === 'Time-Barred' ? 'bg-red-600 text-white border-red-600' : 'bg-green-50 text-green-700 border-green-200'}`}>{limitationInfo.status}</span>
+                                </h4>
+                                <div className="flex gap-2 items-center">
+                                    <select disabled={!canEdit} value={formData.limitationTrack || ''} onChange={(e) => handleChange('limitationTrack', e.target.value || undefined)} className="text-xs p-1.5 border border-slate-300 rounded-lg bg-white disabled:bg-slate-100 outline-none">
+                                        <option value="">Auto (from Section)</option>
+                                        <option value="73">Section 73</option>
+                                        <option value="74">Section 74</option>
+                                    </select>
+                                    <button type="button" onClick={copyLimitationCitation} className="text-xs bg-white border border-slate-300 px-3 py-1.5 rounded-lg flex items-center gap-1 hover:bg-slate-50 font-medium"><ClipboardList size={12}/> Copy for Reply</button>
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                                <div><p className="text-xs font-bold text-slate-500 uppercase">GSTR-9 Due Date</p><p className="font-semibold text-slate-800">{formatDate(limitationInfo.annualReturnDueDate)}</p></div>
+                                <div><p className="text-xs font-bold text-slate-500 uppercase">Last Date for SCN</p><p className={`font-semibold ${limitationInfo.checkedAgainst === 'SCN' && limitationInfo.status === 'Time-Barred' ? 'text-red-700' : 'text-slate-800'}`}>{formatDate(limitationInfo.scnDeadline)}</p></div>
+                                <div><p className="text-xs font-bold text-slate-500 uppercase">Last Date for Order</p><p className={`font-semibold ${limitationInfo.checkedAgainst === 'Order' && limitationInfo.status === 'Time-Barred' ? 'text-red-700' : 'text-slate-800'}`}>{formatDate(limitationInfo.orderDeadline)}</p></div>
+                            </div>
+                            <p className="text-xs text-slate-500 mt-3">Basis: {limitationInfo.basis}</p>
+                        </div>
+                    )}
                     <div>
                         <label className="block text-sm font-bold text-slate-700 flex items-center gap-1 mb-1">Description</label>
                         <textarea disabled={!canEdit} value={formData.description || ''} onChange={(e) => handleChange('description', e.target.value)} className="w-full p-2.5 border border-slate-300 rounded-lg h-32 resize-none disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none" />
@@ -953,31 +1538,117 @@ const NoticeDetail: React.FC = () => {
             {activeTab === 'hearings' && (
                 <div className="animate-in fade-in duration-300 space-y-6">
                     <div className="flex justify-between items-center">
-                        <div><h3 className="text-lg font-bold text-slate-800">Personal Hearings</h3><p className="text-sm text-slate-500">Track hearing dates, adjournments, and proceedings.</p></div>
+                        <div><h3 className="text-lg font-bold text-slate-800">Personal Hearings</h3><p className="text-sm text-slate-500">Track hearing dates, adjournments, and proceedings.{adjournmentCount.total > 0 && <span className={`ml-2 text-xs font-semibold px-2 py-0.5 rounded-full border ${adjournmentCount.byTaxpayer >= MAX_ADJOURNMENTS ? 'bg-red-50 text-red-700 border-red-200' : 'bg-amber-50 text-amber-700 border-amber-200'}`}>{adjournmentCount.total} adjournment{adjournmentCount.total !== 1 ? 's' : ''} &bull; taxpayer {adjournmentCount.byTaxpayer} of {MAX_ADJOURNMENTS}</span>}</p></div>
                         {canEdit && <button onClick={() => { setCurrentHearing({ type: 'Personal Hearing', date: new Date().toISOString().split('T')[0], time: '11:00', status: HearingStatus.SCHEDULED, minutes: '' }); setShowHearingModal(true); }} className="bg-purple-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-purple-700 flex items-center gap-2 shadow-sm transition-all"><Plus size={16}/> Schedule Hearing</button>}
                     </div>
+                    {adjournmentCount.byTaxpayer >= MAX_ADJOURNMENTS && (
+                        <div className="p-4 rounded-xl bg-red-50 border border-red-200 text-sm text-red-800 flex items-start gap-2">
+                            <AlertCircle size={18} className="shrink-0 mt-0.5"/>
+                            <span>The taxpayer has been granted {adjournmentCount.byTaxpayer} adjournments. Section 75(5) allows no more than {MAX_ADJOURNMENTS}; prepare to be heard on the next date.</span>
+                        </div>
+                    )}
                     <div className="space-y-4">
-                        {hearings?.map((hearing) => (
-                            <div key={hearing.id} className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm hover:shadow-md transition-shadow relative">
-                                <div className="flex flex-col md:flex-row justify-between md:items-start gap-4 mb-3">
-                                    <div className="flex gap-4">
-                                        <div className={`flex flex-col items-center justify-center w-16 h-16 rounded-xl text-white shadow-sm ${hearing.status === HearingStatus.CONCLUDED ? 'bg-green-600' : hearing.status === HearingStatus.ADJOURNED ? 'bg-amber-500' : hearing.status === HearingStatus.CANCELLED ? 'bg-red-500' : 'bg-purple-600'}`}>
-                                            <span className="text-xs font-bold uppercase">{new Date(hearing.date).toLocaleString('default', {month:'short'})}</span>
-                                            <span className="text-2xl font-bold">{new Date(hearing.date).getDate()}</span>
+                        {hearingChains.map(chain => (
+                            <div key={chain[0].id} className={chain.length > 1 ? 'border-l-4 border-amber-200 pl-4 space-y-3' : ''}>
+                                {chain.length > 1 && <div className="text-xs font-bold text-slate-500 uppercase tracking-wide">Hearing chain &bull; {chain.length} sittings &bull; {chain.length - 1} adjournment{chain.length > 2 ? 's' : ''}</div>}
+                                {chain.map((hearing, i) => (
+                                    <div key={hearing.id} className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm hover:shadow-md transition-shadow relative">
+                                        {i > 0 && <div className="text-[11px] font-semibold text-amber-700 uppercase tracking-wide mb-2">Adjourned from {formatDate(chain[i - 1].date)} &bull; Sitting {i + 1}</div>}
+                                        <div className="flex flex-col md:flex-row justify-between md:items-start gap-4 mb-3">
+                                            <div className="flex gap-4">
+                                                <div className={`flex flex-col items-center justify-center w-16 h-16 rounded-xl text-white shadow-sm ${hearing.status === HearingStatus.CONCLUDED ? 'bg-green-600' : hearing.status === HearingStatus.ADJOURNED ? 'bg-amber-500' : hearing.status === HearingStatus.CANCELLED ? 'bg-red-500' : 'bg-purple-600'}`}>
+                                                    <span className="text-xs font-bold uppercase">{new Date(hearing.date).toLocaleString('default', {month:'short'})}</span>
+                                                    <span className="text-2xl font-bold">{new Date(hearing.date).getDate()}</span>
+                                                </div>
+                                                <div>
+                                                    <h4 className="font-bold text-slate-800 text-lg flex items-center gap-2">{hearing.type} <span className={`text-[10px] uppercase px-2 py-0.5 rounded-full border ${hearing.status === HearingStatus.CONCLUDED ? 'bg-green-50 text-green-700 border-green-200' : hearing.status === HearingStatus.ADJOURNED ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-purple-50 text-purple-700 border-purple-200'}`}>{hearing.status}</span></h4>
+                                                    <div className="flex flex-wrap gap-4 text-sm text-slate-600 mt-1"><div className="flex items-center gap-1"><Clock size={14}/> {hearing.time}</div><div className="flex items-center gap-1"><MapPin size={14}/> {hearing.venue}</div></div>
+                                                </div>
+                                            </div>
+                                            <div className="flex gap-2">{canEdit && (<>{hearing.status === HearingStatus.SCHEDULED && <button onClick={() => openAdjournModal(hearing)} className="px-3 py-1.5 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 hover:bg-amber-100 rounded-lg transition-colors">Adjourn</button>}<button onClick={() => handleEditHearing(hearing)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"><Edit size={16}/></button><button onClick={() => handleDeleteHearing(hearing.id!)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"><Trash2 size={16}/></button></>)}</div>
                                         </div>
+                                        {hearing.adjournment && <div className="mb-3 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-900"><span className="font-bold">Adjourned{chain[i + 1] ? ` to ${formatDate(chain[i + 1].date)}` : ''}</span> at the request of {hearing.adjournment.soughtBy} (sought {formatDate(hearing.adjournment.requestedOn)}): {hearing.adjournment.reason}</div>}
+                                        {hearing.attendees && <div className="mb-3 flex items-start gap-2"><span className="text-xs font-bold text-slate-500 uppercase mt-0.5">Attendees:</span><p className="text-sm text-slate-700">{hearing.attendees}</p></div>}
+                                        <div className="bg-slate-50 p-3 rounded-lg border border-slate-100"><span className="text-xs font-bold text-slate-500 uppercase block mb-1">Minutes / Outcome:</span><p className="text-sm text-slate-700 whitespace-pre-line">{hearing.minutes || 'No notes recorded.'}</p></div>
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                        {hearings?.length === 0 && <div className="text-center py-12 bg-slate-50 rounded-xl border border-dashed border-slate-300"><Gavel size={48} className="mx-auto text-slate-300 mb-3"/><p className="text-slate-500 font-medium">No hearings scheduled yet.</p></div>}
+                    </div>
+                </div>
+            )}
+
+            {activeTab === 'appeals' && (
+                <div className="animate-in fade-in duration-300 space-y-6">
+                    <div className="flex justify-between items-center">
+                        <div><h3 className="text-lg font-bold text-slate-800">Proceedings Chain</h3><p className="text-sm text-slate-500">SCN to order to appeals, across every forum linked to this case.</p></div>
+                        {canEdit && isOrderNotice && (appeals?.length || 0) === 0 && <button onClick={() => openAppealModal()} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center gap-2 shadow-sm transition-all"><Plus size={16}/> Record Appeal</button>}
+                    </div>
+                    <div className="relative border-l-2 border-slate-200 ml-3 space-y-6">
+                        {proceedingsChain?.map(({ notice, appeals: chainAppeals }) => (
+                            <div key={notice.id} className="relative pl-8">
+                                <div className={`absolute -left-[9px] top-1 w-4 h-4 rounded-full border-2 border-white shadow-sm ${notice.id === noticeId ? 'bg-blue-600' : 'bg-slate-400'}`}></div>
+                                <div className={`p-4 rounded-xl border ${notice.id === noticeId ? 'bg-blue-50 border-blue-200' : 'bg-white border-slate-200'}`}>
+                                    <div className="flex justify-between items-start gap-4">
                                         <div>
-                                            <h4 className="font-bold text-slate-800 text-lg flex items-center gap-2">{hearing.type} <span className={`text-[10px] uppercase px-2 py-0.5 rounded-full border ${hearing.status === HearingStatus.CONCLUDED ? 'bg-green-50 text-green-700 border-green-200' : hearing.status === HearingStatus.ADJOURNED ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-purple-50 text-purple-700 border-purple-200'}`}>{hearing.status}</span></h4>
-                                            <div className="flex flex-wrap gap-4 text-sm text-slate-600 mt-1"><div className="flex items-center gap-1"><Clock size={14}/> {hearing.time}</div><div className="flex items-center gap-1"><MapPin size={14}/> {hearing.venue}</div></div>
+                                            <div className="text-xs font-bold text-slate-500 uppercase">{formatDate(notice.dateOfIssue)} &bull; {notice.noticeType}</div>
+                                            <div className="font-bold text-slate-800">{notice.noticeNumber}</div>
+                                            <div className="text-xs text-slate-500 mt-0.5">{notice.section || '-'} &bull; {notice.status}</div>
                                         </div>
+                                        {notice.id !== noticeId && <Link to={`/notices/${notice.id}`} className="text-xs font-bold text-blue-600 hover:underline flex items-center gap-1">Open <ExternalLink size={12}/></Link>}
                                     </div>
-                                    <div className="flex gap-2">{canEdit && (<><button onClick={() => handleEditHearing(hearing)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"><Edit size={16}/></button><button onClick={() => handleDeleteHearing(hearing.id!)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"><Trash2 size={16}/></button></>)}</div>
                                 </div>
-                                {hearing.attendees && <div className="mb-3 flex items-start gap-2"><span className="text-xs font-bold text-slate-500 uppercase mt-0.5">Attendees:</span><p className="text-sm text-slate-700">{hearing.attendees}</p></div>}
-                                <div className="bg-slate-50 p-3 rounded-lg border border-slate-100"><span className="text-xs font-bold text-slate-500 uppercase block mb-1">Minutes / Outcome:</span><p className="text-sm text-slate-700 whitespace-pre-line">{hearing.minutes || 'No notes recorded.'}</p></div>
+
+                                {chainAppeals.length > 0 && (
+                                    <div className="mt-3 ml-4 space-y-3">
+                                        {chainAppeals.map(appeal => {
+                                            const nextForum = getNextForum(appeal.forum);
+                                            const canEscalate = notice.id === noticeId && isAdverseDisposal(appeal) && nextForum && !chainAppeals.some(a => a.parentAppealId === appeal.id);
+                                            return (
+                                                <div key={appeal.id} className="p-4 rounded-xl border border-indigo-200 bg-white shadow-sm">
+                                                    <div className="flex justify-between items-start gap-4">
+                                                        <div>
+                                                            <div className="flex items-center gap-2">
+                                                                <Scale size={14} className="text-indigo-600"/>
+                                                                <span className="font-bold text-slate-800">{getForumRule(appeal.forum).label}</span>
+                                                                <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded-full border bg-indigo-50 text-indigo-700 border-indigo-200">{appeal.status}</span>
+                                                                {appeal.stayStatus && appeal.stayStatus !== 'Not Applied' && <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full border ${appeal.stayStatus === 'Granted' ? 'bg-green-50 text-green-700 border-green-200' : appeal.stayStatus === 'Rejected' ? 'bg-red-50 text-red-700 border-red-200' : 'bg-amber-50 text-amber-700 border-amber-200'}`}>Stay {appeal.stayStatus}</span>}
+                                                            </div>
+                                                            <div className="text-xs text-slate-500 mt-1">
+                                                                {appeal.appealNumber || 'Appeal No. pending'}{appeal.authority ? ` \u2022 ${appeal.authority}` : ''} &bull; Filed {appeal.filingDate ? formatDate(appeal.filingDate) : '-'}{appeal.disposalDate ? ` \u2022 Disposed ${formatDate(appeal.disposalDate)}` : ''}
+                                                            </div>
+                                                        </div>
+                                                        {notice.id === noticeId && canEdit && (
+                                                            <div className="flex gap-1">
+                                                                <button onClick={() => openAppealModal(appeal)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"><Edit size={16}/></button>
+                                                                <button onClick={() => handleDeleteAppeal(appeal)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"><Trash2 size={16}/></button>
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                    {appeal.outcomes.length > 0 && (
+                                                        <div className="mt-3 flex flex-wrap gap-2">
+                                                            {appeal.outcomes.map(o => {
+                                                                const defect = defects?.find(d => d.id === o.defectId);
+                                                                return <span key={o.defectId} className="text-[11px] px-2 py-1 rounded bg-slate-50 border border-slate-200 text-slate-600"><span className="font-medium">{defect?.defectType || `Defect #${o.defectId}`}:</span> {o.outcome}</span>;
+                                                            })}
+                                                        </div>
+                                                    )}
+                                                    {appeal.remarks && <p className="mt-2 text-xs text-slate-600 whitespace-pre-line">{appeal.remarks}</p>}
+                                                    {canEscalate && canEdit && (
+                                                        <button onClick={() => openAppealModal(undefined, nextForum!, appeal)} className="mt-3 text-xs font-bold text-indigo-700 bg-indigo-50 border border-indigo-200 px-3 py-1.5 rounded-lg hover:bg-indigo-100 flex items-center gap-1.5">
+                                                            <ArrowRight size={12}/> Escalate to {getForumRule(nextForum!).label}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
                             </div>
                         ))}
-                        {hearings?.length === 0 && <div className="text-center py-12 bg-slate-50 rounded-xl border border-dashed border-slate-300"><Gavel size={48} className="mx-auto text-slate-300 mb-3"/><p className="text-slate-500 font-medium">No hearings scheduled yet.</p></div>}
                     </div>
+                    {!isOrderNotice && (appeals?.length || 0) === 0 && <div className="text-center py-8 bg-slate-50 rounded-xl border border-dashed border-slate-300"><Scale size={40} className="mx-auto text-slate-300 mb-3"/><p className="text-slate-500 font-medium">Appeals can be recorded against an order (DRC-07, ASMT-13 etc.).</p></div>}
                 </div>
             )}
 
@@ -987,6 +1658,45 @@ const NoticeDetail: React.FC = () => {
                          <div className="bg-red-50 p-5 rounded-2xl border border-red-100 flex justify-between items-center shadow-sm"><div><p className="text-red-600 font-bold text-sm uppercase tracking-wider">Active Demand <Tooltip text="Total tax + interest + penalty (Excluding Waived)."/></p><p className="text-3xl font-bold text-red-700 mt-1">{formatCurrency(formData.demandAmount || 0)}</p></div><div className="p-3 bg-red-100 rounded-xl text-red-600"><IndianRupee size={28} /></div></div>
                          <div className="bg-green-50 p-5 rounded-2xl border border-green-100 flex justify-between items-center shadow-sm"><div><p className="text-green-600 font-bold text-sm uppercase tracking-wider">Total Paid</p><p className="text-3xl font-bold text-green-700 mt-1">{formatCurrency(payments?.reduce((acc, p) => acc + p.amount, 0) || 0)}</p></div><div className="p-3 bg-green-100 rounded-xl text-green-600"><Wallet size={28} /></div></div>
                     </div>
+                    {isOrderNotice && (
+                        <div className={`rounded-2xl border p-5 shadow-sm ${preDeposit.isSatisfied ? 'bg-green-50/40 border-green-200' : 'bg-amber-50/40 border-amber-200'}`}>
+                            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                                <div>
+                                    <h3 className="font-bold text-slate-800 flex items-center gap-2"><Scale size={18}/> Appeal Pre-Deposit
+                                        <Tooltip text="Admitted amounts must be paid in full. Disputed tax requires 10% for the first appeal (Sec 107(6)) and a further 10% for the Tribunal (Sec 112(8)), subject to caps. Mark defects as Admitted or Disputed below."/>
+                                        <span className={`text-[10px] uppercase px-2 py-0.5 rounded-full border font-bold ${preDeposit.isSatisfied ? 'bg-green-100 text-green-700 border-green-200' : 'bg-amber-100 text-amber-700 border-amber-200'}`}>{preDeposit.isSatisfied ? 'Condition Satisfied' : `Short by ${formatCurrency(preDeposit.totalShortfall)}`}</span>
+                                    </h3>
+                                    <p className="text-xs text-slate-500 mt-1">Deposits are recorded as payments under the 'Deposit' minor head.</p>
+                                </div>
+                                <div className="flex gap-2 items-center">
+                                    <select value={preDepositStage} onChange={e => setPreDepositStage(e.target.value as AppealStage)} className="text-xs p-1.5 border border-slate-300 rounded-lg bg-white outline-none">
+                                        <option value="First Appeal">First Appeal (Sec 107)</option>
+                                        <option value="Tribunal">Tribunal (Sec 112)</option>
+                                    </select>
+                                    {canEdit && <button onClick={openDepositModal} className="text-xs bg-slate-800 text-white px-3 py-1.5 rounded-lg flex items-center gap-1 hover:bg-slate-700 font-medium"><Plus size={12}/> Record Deposit</button>}
+                                </div>
+                            </div>
+                            <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+                                <table className="w-full text-sm text-right">
+                                    <thead className="bg-slate-50 text-slate-500 uppercase text-xs font-bold border-b">
+                                        <tr><th className="px-4 py-2 text-left">Head</th><th className="px-4 py-2">Admitted (Due / Paid)</th><th className="px-4 py-2">Disputed Tax</th><th className="px-4 py-2">Pre-Deposit Required</th><th className="px-4 py-2">Deposited</th><th className="px-4 py-2">Shortfall</th></tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {preDeposit.rows.map(row => (
+                                            <tr key={row.head}>
+                                                <td className="px-4 py-2 text-left font-bold text-slate-600">{row.head}</td>
+                                                <td className="px-4 py-2 font-mono">{formatCurrency(row.admittedDue)} / {formatCurrency(row.admittedPaid)}</td>
+                                                <td className="px-4 py-2 font-mono">{formatCurrency(row.disputedTax)}</td>
+                                                <td className="px-4 py-2 font-mono">{formatCurrency(row.preDeposit)}</td>
+                                                <td className="px-4 py-2 font-mono text-green-700">{formatCurrency(row.depositPaid)}</td>
+                                                <td className={`px-4 py-2 font-mono font-bold ${row.shortfall > 0 ? 'text-red-600' : 'text-slate-400'}`}>{formatCurrency(row.shortfall)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
                     <div>
                         <div className="flex justify-between items-center mb-4">
                             <h3 className="text-lg font-bold text-slate-800">Defect Breakdown</h3>
@@ -994,7 +1704,7 @@ const NoticeDetail: React.FC = () => {
                                 {canEdit && (
                                     <>
                                         <button onClick={handleUpdateInterestTillToday} className="flex items-center gap-2 bg-white border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-sm hover:bg-slate-50 font-medium transition-colors"><Calculator size={16}/> Calculate Interest to Date</button>
-                                        <button onClick={() => { setCurrentDefect({ defectType: '', section: '', description: '', igst: { ...initialTaxHead }, cgst: { ...initialTaxHead }, sgst: { ...initialTaxHead }, cess: { ...initialTaxHead } }); setShowDefectModal(true); }} className="flex items-center gap-2 bg-slate-800 text-white px-3 py-2 rounded-lg text-sm hover:bg-slate-700 font-medium transition-colors"><Plus size={16} /> Add Defect</button>
+                                        <button onClick={() => { setCurrentDefect({ defectType: '', section: '', description: '', igst: { ...initialTaxHead }, cgst: { ...initialTaxHead }, sgst: { ...initialTaxHead }, cess: { ...initialTaxHead } }); setCalcRate(INTEREST_RATE_STANDARD); setCalcFromDate(formData.dueDate || ''); setInterestWorking(null); setShowDefectModal(true); }} className="flex items-center gap-2 bg-slate-800 text-white px-3 py-2 rounded-lg text-sm hover:bg-slate-700 font-medium transition-colors"><Plus size={16} /> Add Defect</button>
                                     </>
                                 )}
                             </div>
@@ -1007,6 +1717,9 @@ const NoticeDetail: React.FC = () => {
                                 const rowSum = (h: TaxHeadValues) => (h?.tax || 0) + (h?.interest || 0) + (h?.penalty || 0) + (h?.lateFee || 0) + (h?.others || 0);
                                 const defectTotal = rowSum(defect.igst) + rowSum(defect.cgst) + rowSum(defect.sgst) + rowSum(defect.cess);
                                 const balance = isWaived ? 0 : Math.max(0, defectTotal - totalPaid);
+                                const suggestedClauses = suggestClauses(replyClauses, defect).length;
+                                const defectCitations = citations.filter(c => c.defectId === defect.id);
+                                const suggestedAuthorities = suggestAuthorities(authorities, defect).length;
 
                                 return (
                                     <div key={defect.id} className={`border rounded-xl overflow-hidden shadow-sm transition-shadow hover:shadow-md ${isWaived ? 'border-green-200 bg-green-50/10' : 'border-slate-200 bg-white'}`}>
@@ -1016,6 +1729,16 @@ const NoticeDetail: React.FC = () => {
                                                     {defect.defectType} 
                                                     <span className="text-xs bg-slate-200 px-2 py-0.5 rounded text-slate-600 border border-slate-300 font-medium">{defect.section}</span>
                                                     {isWaived && <span className="text-xs bg-green-200 text-green-800 px-2 py-0.5 rounded font-bold border border-green-300">WAIVED</span>}
+                                                    {isOrderNotice && !isWaived && (
+                                                        <button
+                                                            disabled={!canEdit}
+                                                            onClick={() => handleToggleAppealStance(defect)}
+                                                            className={`text-xs px-2 py-0.5 rounded font-bold border transition-colors ${defect.appealStance === 'Admitted' ? 'bg-blue-100 text-blue-800 border-blue-300' : 'bg-amber-100 text-amber-800 border-amber-300'}`}
+                                                            title="Toggle Admitted / Disputed for appeal pre-deposit"
+                                                        >
+                                                            {defect.appealStance === 'Admitted' ? 'ADMITTED' : 'DISPUTED'}
+                                                        </button>
+                                                    )}
                                                 </div>
                                                 <p className="text-sm text-slate-600 mt-1">{defect.description}</p>
                                                 {isWaived && (
@@ -1037,6 +1760,26 @@ const NoticeDetail: React.FC = () => {
                                             )}
                                         </div>
                                         <div className="p-0 overflow-x-auto"><table className="w-full text-sm text-right border-collapse"><thead className="text-xs text-slate-500 bg-slate-50/50 border-b"><tr><th className="py-2 px-4 text-left">Head</th><th className="px-4">Tax</th><th className="px-4">Interest</th><th className="px-4">Penalty</th><th className="px-4">Late Fee</th><th className="px-4 font-bold bg-slate-50">Total</th></tr></thead><tbody className={`divide-y divide-slate-100 text-slate-700 text-xs ${isWaived ? 'line-through opacity-50' : ''}`}>{['igst', 'cgst', 'sgst', 'cess'].map(h => { const r = (defect as any)[h]; const t = rowSum(r); return t > 0 ? <tr key={h}><td className="py-2 px-4 text-left uppercase font-bold text-slate-500">{h}</td><td className="px-4">{formatCurrency(r.tax)}</td><td className="px-4">{formatCurrency(r.interest)}</td><td className="px-4">{formatCurrency(r.penalty)}</td><td className="px-4">{formatCurrency(r.lateFee)}</td><td className="px-4 font-bold bg-slate-50 text-slate-800">{formatCurrency(t)}</td></tr> : null; })}</tbody><tfoot className="border-t border-slate-200 bg-slate-50 text-slate-900 font-bold"><tr><td className="py-3 px-4 text-left">Total {isWaived ? 'Original' : 'Active'} Demand: {formatCurrency(defectTotal)}</td><td colSpan={5} className="py-3 px-4 text-right text-base">Balance: <span className={balance > 0 ? "text-red-600" : "text-green-600"}>{formatCurrency(balance)}</span></td></tr></tfoot></table></div>
+                                        {!isWaived && (
+                                            <div className="p-4 border-t border-slate-200">
+                                                <div className="flex justify-between items-center mb-2">
+                                                    <h4 className="text-xs font-bold uppercase text-slate-500 tracking-wide">Reply Submission</h4>
+                                                    {canEdit && <button onClick={() => openClausePicker(defect.id!)} className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center gap-1 hover:underline"><BookOpen size={12}/> Clauses{suggestedClauses > 0 ? ` (${suggestedClauses} suggested)` : ''}</button>}
+                                                </div>
+                                                {defect.replySubmission?.trim()
+                                                    ? <p className="text-xs text-slate-600 whitespace-pre-line line-clamp-4">{defect.replySubmission}</p>
+                                                    : <p className="text-xs text-slate-400 italic">No submission yet. Reply drafts will mark this defect's argument as missing.</p>}
+                                            </div>
+                                        )}
+                                        {(defectCitations.length > 0 || (canEdit && !isWaived)) && (
+                                            <div className="p-4 border-t border-slate-200">
+                                                <div className="flex justify-between items-center mb-2">
+                                                    <h4 className="text-xs font-bold uppercase text-slate-500 tracking-wide">Authorities Relied Upon</h4>
+                                                    {canEdit && <button onClick={() => openCitePicker(defect.id!)} className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center gap-1 hover:underline"><Landmark size={12}/> Cite{suggestedAuthorities > 0 ? ` (${suggestedAuthorities} suggested)` : ''}</button>}
+                                                </div>
+                                                {citationList(defectCitations, false)}
+                                            </div>
+                                        )}
                                         {!isWaived && (
                                             <div className="p-4 bg-slate-50/30 border-t border-slate-200"><div className="flex justify-between items-center mb-2"><h4 className="text-xs font-bold uppercase text-slate-500 tracking-wide">Payments Recorded</h4>{canEdit && <button onClick={() => { setSelectedDefectId(defect.id); setShowPaymentModal(true); }} className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center gap-1 hover:underline"><Plus size={12}/> Record Payment</button>}</div>{defectPayments?.length ? (<div className="space-y-1">{defectPayments.map(p => <div key={p.id} className="text-xs flex justify-between text-slate-600 border-b border-slate-200 pb-1.5 items-center last:border-0"><span><span className="font-bold text-slate-700">{formatDate(p.paymentDate)}</span> • {p.majorHead} {p.minorHead}</span><div className="flex items-center gap-3"><span className="font-bold text-green-700 bg-green-50 px-2 py-0.5 rounded border border-green-100">{formatCurrency(p.amount)}</span>{canEdit && <div className="flex gap-1"><button onClick={() => openEditPayment(p)} className="text-slate-400 hover:text-blue-500 p-0.5"><Edit size={12}/></button><button onClick={() => handleDeletePayment(p.id!)} className="text-slate-400 hover:text-red-500 p-0.5"><Trash2 size={12}/></button></div>}</div></div>)}</div>) : <p className="text-xs text-slate-400 italic">No payments recorded for this defect.</p>}</div>
                                         )}
@@ -1045,13 +1788,23 @@ const NoticeDetail: React.FC = () => {
                             })}
                         </div>
                     </div>
+                    <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-5">
+                        <div className="flex justify-between items-start mb-4">
+                            <div>
+                                <h3 className="font-bold text-slate-800 flex items-center gap-2"><Landmark size={18} className="text-indigo-600"/> Authorities Relied Upon</h3>
+                                <p className="text-xs text-slate-500 mt-1">Judgments, circulars and rulings from the knowledge base cited for this case and its defects.</p>
+                            </div>
+                            {canEdit && <button onClick={() => openCitePicker()} className="flex items-center gap-2 bg-white border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-sm hover:bg-slate-50 font-medium transition-colors"><Plus size={16}/> Cite for Case</button>}
+                        </div>
+                        {citationList([...citations].sort((a, b) => (a.defectId ? 1 : 0) - (b.defectId ? 1 : 0) || a.citedAt.localeCompare(b.citedAt)), true)}
+                    </div>
                 </div>
             )}
             
             {activeTab === 'history' && (
                 <div className="animate-in fade-in duration-300">
                     <div className="mb-6 flex justify-between items-center"><h3 className="text-lg font-bold text-slate-800">Unified Case History</h3><button onClick={exportHistoryPDF} className="text-xs bg-white border border-slate-300 px-3 py-1.5 rounded-lg flex items-center gap-2 hover:bg-slate-50 font-medium transition-colors"><FileDown size={14}/> Export PDF</button></div>
-                    {!formData.arn ? <div className="bg-amber-50 border border-amber-200 rounded-xl p-8 text-center text-amber-800">Case ID Missing. Events cannot be linked.</div> : <div className="relative border-l-2 border-slate-200 ml-4 space-y-8 py-2">{timelineEvents?.map((item) => (<div key={item.id} className="relative pl-8"><div className={`absolute -left-[11px] top-0 w-6 h-6 rounded-full border-4 border-white shadow-sm flex items-center justify-center ${item.type === 'NOTICE' ? 'bg-blue-600' : item.type === 'PAYMENT' ? 'bg-green-500' : item.type === 'HEARING' ? 'bg-purple-500' : item.type === 'REPLY' ? 'bg-amber-500' : 'bg-slate-400'}`}></div><div className="rounded-xl border border-slate-200 p-5 bg-white shadow-sm hover:shadow-md transition-shadow"><div className="flex justify-between mb-1"><span className="text-xs font-bold uppercase text-slate-500 tracking-wide">{item.type}</span><span className="text-xs font-medium text-slate-600 bg-slate-100 px-2 py-0.5 rounded">{formatDate(item.date.toISOString())}</span></div><h4 className="font-bold text-slate-800 text-sm mt-1">{item.title}</h4><p className="text-xs text-slate-600 font-medium">{item.subtitle}</p>{item.details && <p className="text-xs text-slate-500 mt-2 border-t border-slate-100 pt-2 leading-relaxed">{item.details}</p>}</div></div>))}</div>}
+                    {!formData.arn ? <div className="bg-amber-50 border border-amber-200 rounded-xl p-8 text-center text-amber-800">Case ID Missing. Events cannot be linked.</div> : <div className="relative border-l-2 border-slate-200 ml-4 space-y-8 py-2">{timelineEvents?.map((item) => (<div key={item.id} className="relative pl-8"><div className={`absolute -left-[11px] top-0 w-6 h-6 rounded-full border-4 border-white shadow-sm flex items-center justify-center ${item.type === 'NOTICE' ? 'bg-blue-600' : item.type === 'PAYMENT' ? 'bg-green-500' : item.type === 'HEARING' ? 'bg-purple-500' : item.type === 'REPLY' ? 'bg-amber-500' : item.type === 'APPEAL' ? 'bg-indigo-600' : 'bg-slate-400'}`}></div><div className="rounded-xl border border-slate-200 p-5 bg-white shadow-sm hover:shadow-md transition-shadow"><div className="flex justify-between mb-1"><span className="text-xs font-bold uppercase text-slate-500 tracking-wide">{item.type}</span><span className="text-xs font-medium text-slate-600 bg-slate-100 px-2 py-0.5 rounded">{formatDate(item.date.toISOString())}</span></div><h4 className="font-bold text-slate-800 text-sm mt-1">{item.title}</h4><p className="text-xs text-slate-600 font-medium">{item.subtitle}</p>{item.details && <p className="text-xs text-slate-500 mt-2 border-t border-slate-100 pt-2 leading-relaxed">{item.details}</p>}</div></div>))}</div>}
                 </div>
             )}
             
@@ -1087,6 +1840,40 @@ const NoticeDetail: React.FC = () => {
                         </div>
                     </div>
 
+                    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+                        <div className="p-4 bg-slate-50 border-b border-slate-200 flex flex-col md:flex-row gap-3 justify-between items-center">
+                            <h4 className="font-bold text-slate-700 text-sm flex items-center gap-2"><FileText size={16} className="text-blue-500"/> Reply Drafts</h4>
+                            {canEdit && (
+                                <div className="flex gap-2 w-full md:w-auto">
+                                    <select value={selectedReplyTemplate?.id ?? ''} onChange={e => setReplyTemplateId(Number(e.target.value))} className="flex-1 md:w-64 p-2 border border-slate-300 rounded-lg text-sm bg-white" disabled={offeredReplyTemplates.length === 0}>
+                                        {offeredReplyTemplates.length === 0 && <option value="">No templates (System Configuration)</option>}
+                                        {offeredReplyTemplates.map(t => <option key={t.id} value={t.id}>{t.name}{t.noticeTypes.includes(formData.noticeType) ? '' : ' (general)'}</option>)}
+                                    </select>
+                                    <button onClick={handleGenerateReply} disabled={!selectedReplyTemplate || isDraftingReply} className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2 whitespace-nowrap">
+                                        {isDraftingReply ? <RefreshCw size={14} className="animate-spin"/> : <Plus size={14}/>} Generate
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                        <div className="divide-y divide-slate-100">
+                            {replyDrafts?.map(draft => (
+                                <div key={draft.id} className="px-4 py-3 flex flex-col md:flex-row md:items-center gap-2 text-sm">
+                                    <span className="font-bold text-blue-700 bg-blue-50 border border-blue-100 rounded px-2 py-0.5 text-xs w-fit">v{draft.version}</span>
+                                    <div className="flex-1">
+                                        <p className="text-slate-700 font-medium">{draft.templateName}</p>
+                                        <p className="text-xs text-slate-500">{new Date(draft.createdAt).toLocaleString()} • {draft.createdBy}</p>
+                                        {draft.missingFields && <p className="text-xs text-amber-600 mt-0.5 flex items-center gap-1"><AlertCircle size={12}/> Left blank: {draft.missingFields.join(', ')}</p>}
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => downloadDraftFile(draft.docxDocumentId)} className="px-3 py-1.5 text-xs font-semibold border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-50 flex items-center gap-1"><Download size={12}/> DOCX</button>
+                                        <button onClick={() => downloadDraftFile(draft.pdfDocumentId)} className="px-3 py-1.5 text-xs font-semibold border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-50 flex items-center gap-1"><Download size={12}/> PDF</button>
+                                    </div>
+                                </div>
+                            ))}
+                            {replyDrafts?.length === 0 && <p className="p-4 text-xs text-slate-400 italic">No reply drafted yet. Each draft generated here is kept as a new version with its .docx and .pdf.</p>}
+                        </div>
+                    </div>
+
                     <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
                         <div className="p-4 bg-slate-50 border-b border-slate-200 flex flex-col md:flex-row gap-4 justify-between items-center">
                             <div className="flex gap-2 w-full md:w-auto">
@@ -1128,7 +1915,8 @@ const NoticeDetail: React.FC = () => {
                                     <div className={`p-3 rounded-lg ${
                                         doc.category === 'Notice Scan' ? 'bg-red-50 text-red-600' :
                                         doc.category === 'Evidence' ? 'bg-green-50 text-green-600' :
-                                        doc.category === 'Reconciliation' ? 'bg-purple-50 text-purple-600' : 'bg-slate-100 text-slate-600'
+                                        doc.category === 'Reconciliation' ? 'bg-purple-50 text-purple-600' :
+                                        doc.category === 'Reply Draft' ? 'bg-blue-50 text-blue-600' : 'bg-slate-100 text-slate-600'
                                     }`}>
                                         <FileText size={24}/>
                                     </div>
@@ -1139,7 +1927,10 @@ const NoticeDetail: React.FC = () => {
                                             <span>{(doc.size / 1024).toFixed(1)} KB</span>
                                             <span>{formatDate(doc.uploadDate)}</span>
                                         </div>
-                                        {doc.ocrText && <p className="text-xs text-slate-400 mt-1 truncate max-w-md italic">OCR Content available</p>}
+                                        {doc.ocrText ? <p className="text-xs text-slate-400 mt-1 truncate max-w-md italic">OCR Content available{doc.ocrPages && doc.ocrPages.length > 1 ? ` (${doc.ocrPages.length} pages)` : ''}</p>
+                                            : ocrQueue.current?.docId === doc.id ? <p className="text-xs text-blue-500 mt-1 italic">Reading text... {Math.round(ocrQueue.current!.progress * 100)}%</p>
+                                            : doc.ocrStatus === 'Queued' ? <p className="text-xs text-slate-400 mt-1 italic">Queued for OCR</p>
+                                            : doc.ocrStatus === 'Failed' ? <p className="text-xs text-red-500 mt-1 italic truncate max-w-md" title={doc.ocrError}>OCR failed</p> : null}
                                     </div>
                                     <div className="flex gap-2 opacity-100 md:opacity-0 group-hover:opacity-100 transition-opacity">
                                         <button onClick={() => openOCRModal(doc)} className="p-2 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg border border-transparent hover:border-blue-100 transition-colors" title="View/Edit OCR Text">
@@ -1192,7 +1983,7 @@ const NoticeDetail: React.FC = () => {
                           <div>
                               <label className="block text-sm font-bold text-slate-700 mb-1">Status</label>
                               <select value={currentHearing.status || HearingStatus.SCHEDULED} onChange={e => setCurrentHearing({...currentHearing, status: e.target.value as any})} className="w-full p-2.5 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-purple-500">
-                                  {Object.values(HearingStatus).map(s => <option key={s} value={s}>{s}</option>)}
+                                  {Object.values(HearingStatus).filter(s => s !== HearingStatus.ADJOURNED || currentHearing.status === HearingStatus.ADJOURNED).map(s => <option key={s} value={s}>{s}</option>)}
                               </select>
                           </div>
                       </div>
@@ -1216,6 +2007,149 @@ const NoticeDetail: React.FC = () => {
           </div>
       )}
 
+      {adjourningHearing && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+              <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg animate-in zoom-in-95">
+                  <div className="p-5 border-b bg-slate-50 flex justify-between items-center rounded-t-2xl">
+                      <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2"><Calendar className="text-amber-600"/> Adjourn Hearing of {formatDate(adjourningHearing.date)}</h3>
+                      <button onClick={() => setAdjourningHearing(null)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                  </div>
+                  <form onSubmit={handleAdjournHearing} className="p-6 space-y-4">
+                      {adjournForm.soughtBy === 'Taxpayer' && (
+                          <div className={`p-3 rounded-lg border text-sm ${adjournmentCount.byTaxpayer >= MAX_ADJOURNMENTS ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                              {adjournmentCount.byTaxpayer >= MAX_ADJOURNMENTS
+                                  ? `Limit reached: the taxpayer has already had ${adjournmentCount.byTaxpayer} adjournments (Section 75(5) allows ${MAX_ADJOURNMENTS}).`
+                                  : `This will be adjournment ${adjournmentCount.byTaxpayer + 1} of ${MAX_ADJOURNMENTS} allowed to the taxpayer under Section 75(5).`}
+                          </div>
+                      )}
+                      <div className="grid grid-cols-2 gap-4">
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Sought By</label>
+                              <select value={adjournForm.soughtBy} onChange={e => setAdjournForm({...adjournForm, soughtBy: e.target.value as AdjournmentInput['soughtBy']})} className="w-full p-2.5 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-amber-500">
+                                  {ADJOURNMENT_PARTIES.map(p => <option key={p} value={p}>{p}</option>)}
+                              </select>
+                          </div>
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Requested On</label>
+                              <input type="date" required value={adjournForm.requestedOn} onChange={e => setAdjournForm({...adjournForm, requestedOn: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-amber-500"/>
+                          </div>
+                      </div>
+                      <div>
+                          <label className="block text-sm font-bold text-slate-700 mb-1">Reason <span className="text-red-500">*</span></label>
+                          <textarea required placeholder="e.g. Records under compilation, authorised representative unavailable" value={adjournForm.reason} onChange={e => setAdjournForm({...adjournForm, reason: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg h-20 resize-none outline-none focus:ring-2 focus:ring-amber-500"/>
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Next Hearing Date <span className="text-red-500">*</span></label>
+                              <input type="date" required min={adjourningHearing.date} value={adjournForm.nextDate} onChange={e => setAdjournForm({...adjournForm, nextDate: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-amber-500"/>
+                          </div>
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Time <span className="text-red-500">*</span></label>
+                              <input type="time" required value={adjournForm.nextTime} onChange={e => setAdjournForm({...adjournForm, nextTime: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-amber-500"/>
+                          </div>
+                      </div>
+                      <div>
+                          <label className="block text-sm font-bold text-slate-700 mb-1">Venue / Mode</label>
+                          <input type="text" value={adjournForm.nextVenue} onChange={e => setAdjournForm({...adjournForm, nextVenue: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-amber-500"/>
+                      </div>
+                      <div className="flex justify-end pt-2">
+                          <button type="submit" className="bg-amber-600 text-white px-6 py-2.5 rounded-lg font-medium hover:bg-amber-700 shadow-sm transition-all">Adjourn &amp; Schedule Next</button>
+                      </div>
+                  </form>
+              </div>
+          </div>
+      )}
+
+      {showAppealModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+              <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl animate-in zoom-in-95 flex flex-col max-h-[90vh]">
+                  <div className="p-5 border-b bg-slate-50 flex justify-between items-center rounded-t-2xl">
+                      <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2"><Scale className="text-indigo-600"/> {currentAppeal.id ? 'Edit Appeal' : 'Record Appeal'}</h3>
+                      <button onClick={() => setShowAppealModal(false)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                  </div>
+                  <form onSubmit={handleSaveAppeal} className="p-6 space-y-4 overflow-y-auto">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Forum</label>
+                              <select value={currentAppeal.forum || 'First Appeal'} onChange={e => setCurrentAppeal({...currentAppeal, forum: e.target.value as AppealForum})} className="w-full p-2.5 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-indigo-500">
+                                  {APPEAL_FORUMS.map(f => <option key={f.forum} value={f.forum}>{f.label} ({f.provision})</option>)}
+                              </select>
+                          </div>
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Status</label>
+                              <select value={currentAppeal.status || 'Filed'} onChange={e => setCurrentAppeal({...currentAppeal, status: e.target.value as AppealProceeding['status']})} className="w-full p-2.5 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-indigo-500">
+                                  {['Draft', 'Filed', 'Admitted', 'Heard', 'Disposed', 'Withdrawn'].map(s => <option key={s}>{s}</option>)}
+                              </select>
+                          </div>
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Appeal / ARN No.</label>
+                              <input type="text" value={currentAppeal.appealNumber || ''} onChange={e => setCurrentAppeal({...currentAppeal, appealNumber: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500" placeholder="APL-01 ARN / WP No."/>
+                          </div>
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Authority / Bench</label>
+                              <input type="text" value={currentAppeal.authority || ''} onChange={e => setCurrentAppeal({...currentAppeal, authority: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"/>
+                          </div>
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Impugned Order Date <span className="text-red-500">*</span></label>
+                              <input type="date" required value={currentAppeal.orderDate || ''} onChange={e => setCurrentAppeal({...currentAppeal, orderDate: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"/>
+                          </div>
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Filing Date</label>
+                              <input type="date" value={currentAppeal.filingDate || ''} onChange={e => setCurrentAppeal({...currentAppeal, filingDate: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"/>
+                          </div>
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-1">Stay Application</label>
+                              <select value={currentAppeal.stayStatus || 'Not Applied'} onChange={e => setCurrentAppeal({...currentAppeal, stayStatus: e.target.value as AppealProceeding['stayStatus']})} className="w-full p-2.5 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-indigo-500">
+                                  {['Not Applied', 'Applied', 'Granted', 'Rejected'].map(s => <option key={s}>{s}</option>)}
+                              </select>
+                          </div>
+                          {currentAppeal.stayStatus && currentAppeal.stayStatus !== 'Not Applied' && (
+                              <div className="grid grid-cols-2 gap-2">
+                                  <div>
+                                      <label className="block text-sm font-bold text-slate-700 mb-1">Applied On</label>
+                                      <input type="date" value={currentAppeal.stayApplicationDate || ''} onChange={e => setCurrentAppeal({...currentAppeal, stayApplicationDate: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"/>
+                                  </div>
+                                  <div>
+                                      <label className="block text-sm font-bold text-slate-700 mb-1">Stay Order</label>
+                                      <input type="date" value={currentAppeal.stayOrderDate || ''} onChange={e => setCurrentAppeal({...currentAppeal, stayOrderDate: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"/>
+                                  </div>
+                              </div>
+                          )}
+                          {currentAppeal.status === 'Disposed' && (
+                              <div>
+                                  <label className="block text-sm font-bold text-slate-700 mb-1">Disposal Date <span className="text-red-500">*</span></label>
+                                  <input type="date" required value={currentAppeal.disposalDate || ''} onChange={e => setCurrentAppeal({...currentAppeal, disposalDate: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"/>
+                              </div>
+                          )}
+                      </div>
+                      {(defects?.length || 0) > 0 && (
+                          <div>
+                              <label className="block text-sm font-bold text-slate-700 mb-2">Outcome per Defect</label>
+                              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                                  {defects?.map(d => (
+                                      <div key={d.id} className="flex justify-between items-center p-2.5 gap-4">
+                                          <span className="text-sm text-slate-700">{d.defectType} <span className="text-xs text-slate-400">({formatCurrency(d.taxDemand)})</span></span>
+                                          <select value={currentAppeal.outcomes?.find(o => o.defectId === d.id)?.outcome || 'Pending'} onChange={e => setAppealOutcome(d.id!, e.target.value as AppealOutcome)} className="p-1.5 border border-slate-300 rounded-lg bg-white text-xs">
+                                              {APPEAL_OUTCOMES.map(o => <option key={o}>{o}</option>)}
+                                          </select>
+                                      </div>
+                                  ))}
+                              </div>
+                          </div>
+                      )}
+                      <div>
+                          <label className="block text-sm font-bold text-slate-700 mb-1">Remarks</label>
+                          <textarea value={currentAppeal.remarks || ''} onChange={e => setCurrentAppeal({...currentAppeal, remarks: e.target.value})} className="w-full p-2.5 border border-slate-300 rounded-lg h-20 resize-none outline-none focus:ring-2 focus:ring-indigo-500"/>
+                      </div>
+                      <div className="flex justify-end gap-3 pt-2">
+                          <button type="button" onClick={() => setShowAppealModal(false)} className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50">Cancel</button>
+                          <button type="submit" className="bg-indigo-600 text-white px-6 py-2.5 rounded-lg font-medium hover:bg-indigo-700 shadow-sm transition-all">Save Appeal</button>
+                      </div>
+                  </form>
+              </div>
+          </div>
+      )}
+
       {showOCRModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
               <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl animate-in zoom-in-95 flex flex-col max-h-[90vh]">
@@ -1226,16 +2160,36 @@ const NoticeDetail: React.FC = () => {
                   <div className="p-6 flex-1 overflow-hidden flex flex-col">
                       <div className="mb-4">
                           <p className="text-sm font-bold text-slate-700">Filename: <span className="font-normal">{currentDocForOCR?.fileName}</span></p>
-                          <p className="text-xs text-slate-500 mt-1">Extract text to make this document searchable.</p>
+                          <p className="text-xs text-slate-500 mt-1">Extract text to make this document searchable. Text is read on this computer; nothing is uploaded.</p>
                       </div>
+                      {isExtracting && (
+                          <div className="mb-4">
+                              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                                  <span>{ocrQueue.current?.docId === currentDocForOCR?.id ? (ocrQueue.current!.totalPages > 1 ? `Page ${ocrQueue.current!.page} of ${ocrQueue.current!.totalPages}` : 'Reading text...') : 'Waiting for the OCR engine...'}</span>
+                                  <span>{ocrQueue.current?.docId === currentDocForOCR?.id ? Math.round(ocrQueue.current!.progress * 100) : 0}%</span>
+                              </div>
+                              <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                                  <div className="bg-blue-600 h-2 transition-all" style={{ width: `${ocrQueue.current?.docId === currentDocForOCR?.id ? Math.round(ocrQueue.current!.progress * 100) : 0}%` }}></div>
+                              </div>
+                          </div>
+                      )}
+                      {ocrPagesBuffer.length > 1 && (
+                          <div className="flex gap-1 mb-2 overflow-x-auto">
+                              {ocrPagesBuffer.map((_, idx) => (
+                                  <button key={idx} onClick={() => setOcrPageIndex(idx)} className={`px-3 py-1 rounded-lg text-xs font-bold border whitespace-nowrap ${ocrPageIndex === idx ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}>Page {idx + 1}</button>
+                              ))}
+                          </div>
+                      )}
                       <textarea 
-                          className="flex-1 w-full p-4 border border-slate-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none resize-none mb-4"
+                          className="flex-1 min-h-[300px] w-full p-4 border border-slate-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none resize-none mb-4"
                           placeholder="Extracted text will appear here..."
-                          value={ocrTextBuffer}
-                          onChange={(e) => setOcrTextBuffer(e.target.value)}
+                          value={ocrPagesBuffer.length > 1 ? ocrPagesBuffer[ocrPageIndex] || '' : ocrTextBuffer}
+                          onChange={(e) => ocrPagesBuffer.length > 1
+                              ? setOcrPagesBuffer(prev => prev.map((p, idx) => idx === ocrPageIndex ? e.target.value : p))
+                              : setOcrTextBuffer(e.target.value)}
                       />
                       <div className="flex justify-between items-center">
-                          <button onClick={simulateOCR} className="text-sm text-blue-600 font-bold hover:underline">Auto-Extract (Simulated)</button>
+                          <button onClick={runOCR} disabled={isExtracting || !currentDocForOCR || !isOcrSupported(currentDocForOCR)} className="text-sm text-blue-600 font-bold hover:underline disabled:text-slate-400 disabled:no-underline">{isExtracting ? 'Extracting...' : currentDocForOCR?.ocrText ? 'Re-Extract Text' : 'Auto-Extract Text'}</button>
                           <div className="flex gap-3">
                               <button onClick={() => setShowOCRModal(false)} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg font-medium">Cancel</button>
                               <button onClick={saveOCRText} className="px-4 py-2 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-lg shadow-sm font-medium">Save Text</button>
@@ -1246,6 +2200,15 @@ const NoticeDetail: React.FC = () => {
           </div>
       )}
 
+      {transitionTarget !== null && noticeId && (
+          <StatusTransitionModal
+              notice={{ ...formData, id: noticeId } as Notice}
+              initialStatus={transitionTarget || undefined}
+              onClose={() => setTransitionTarget(null)}
+              onDone={handleTransitionDone}
+          />
+      )}
+
       {showSyncModal && (<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm"><div className="bg-white rounded-2xl shadow-2xl p-6 w-full max-w-md animate-in zoom-in-95"><h3 className="font-bold text-lg mb-4 text-slate-800">Sync Linked Notices</h3><div className="space-y-3 mb-6"><label className="flex items-center gap-3 p-2 hover:bg-slate-50 rounded-lg cursor-pointer"><input type="checkbox" checked={syncOptions.gstin} onChange={e => setSyncOptions({...syncOptions, gstin: e.target.checked})} className="w-5 h-5 rounded text-blue-600"/> <span className="text-sm font-medium">Taxpayer Details</span></label><label className="flex items-center gap-3 p-2 hover:bg-slate-50 rounded-lg cursor-pointer"><input type="checkbox" checked={syncOptions.riskLevel} onChange={e => setSyncOptions({...syncOptions, riskLevel: e.target.checked})} className="w-5 h-5 rounded text-blue-600"/> <span className="text-sm font-medium">Risk Level</span></label><label className="flex items-center gap-3 p-2 hover:bg-slate-50 rounded-lg cursor-pointer"><input type="checkbox" checked={syncOptions.status} onChange={e => setSyncOptions({...syncOptions, status: e.target.checked})} className="w-5 h-5 rounded text-blue-600"/> <span className="text-sm font-medium">Status</span></label></div><div className="flex justify-end gap-3"><button onClick={() => setShowSyncModal(false)} className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50">Cancel</button><button onClick={executeSync} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 shadow-sm">Sync Now</button></div></div></div>)}
       
       {showDefectModal && (
@@ -1265,6 +2228,10 @@ const NoticeDetail: React.FC = () => {
                     <option value="">Select Defect Type</option>
                     {defectTypeOptions.map((t:any) => <option key={t} value={t}>{t}</option>)}
                   </select>
+                  <label className="flex items-center gap-2 mt-2 text-xs text-slate-600">
+                    <input type="checkbox" checked={!!currentDefect.excessItc} onChange={e => { setCurrentDefect({...currentDefect, excessItc: e.target.checked}); setCalcRate(getInterestRate(e.target.checked)); }}/>
+                    Excess ITC availed and utilised (interest u/s 50(3) at {INTEREST_RATE_EXCESS_ITC}%)
+                  </label>
                 </div>
                 <div>
                   <label className="text-sm font-bold block mb-1.5 text-slate-700">Section / Act</label>
@@ -1284,6 +2251,15 @@ const NoticeDetail: React.FC = () => {
                      placeholder="Brief description of the discrepancy..."
                    />
                 </div>
+                <div className="md:col-span-2">
+                   <label className="text-sm font-bold block mb-1.5 text-slate-700">Reply Submission <Tooltip text="Our answer on this defect, filled into reply drafts as {{defect.submission}}. Clauses from the library are added from the defect card."/></label>
+                   <textarea 
+                     className="w-full border border-slate-300 p-2.5 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none h-32" 
+                     value={currentDefect.replySubmission || ''} 
+                     onChange={e => setCurrentDefect({...currentDefect, replySubmission: e.target.value})}
+                     placeholder="Facts, legal position and documents relied upon. Separate paragraphs with a blank line."
+                   />
+                </div>
               </div>
 
               <div className="mb-6 border border-blue-100 bg-blue-50/50 rounded-xl overflow-hidden">
@@ -1305,12 +2281,41 @@ const NoticeDetail: React.FC = () => {
                               <input type="date" value={calcToDate} onChange={e => setCalcToDate(e.target.value)} className="w-full p-2 text-sm border border-blue-200 rounded-lg bg-white"/>
                           </div>
                           <div>
-                              <label className="text-xs font-bold text-slate-600 block mb-1 uppercase">Rate (%)</label>
+                              <label className="text-xs font-bold text-slate-600 block mb-1 uppercase">Rate (%) <Tooltip text={`${INTEREST_RATE_STANDARD}% u/s 50(1); ${INTEREST_RATE_EXCESS_ITC}% u/s 50(3) for excess ITC availed and utilised.`}/></label>
                               <input type="number" value={calcRate} onChange={e => setCalcRate(parseFloat(e.target.value))} className="w-full p-2 text-sm border border-blue-200 rounded-lg bg-white"/>
                           </div>
                           <button type="button" onClick={calculateModalInterest} className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-blue-700 shadow-sm transition-all h-[38px]">Calculate & Apply</button>
                       </div>
                   )}
+                  {showCalculator && interestWorking && (
+                      <div className="px-5 pb-5">
+                          <div className="flex justify-between items-center mb-2">
+                              <p className="text-xs font-bold text-blue-800 uppercase">Working Schedule (net of tax payments)</p>
+                              <button type="button" onClick={exportInterestWorking} className="text-xs text-blue-600 hover:underline flex items-center gap-1 font-medium"><FileDown size={12}/> Export PDF</button>
+                          </div>
+                          <div className="border border-blue-100 rounded-lg overflow-hidden bg-white">
+                              <table className="w-full text-xs text-right">
+                                  <thead className="bg-blue-50/50 text-slate-500 uppercase font-bold">
+                                      <tr><th className="px-3 py-2 text-left">Head</th><th className="px-3 py-2 text-left">Period</th><th className="px-3 py-2">Days</th><th className="px-3 py-2">Outstanding Tax</th><th className="px-3 py-2">Interest</th><th className="px-3 py-2">Tax Paid</th></tr>
+                                  </thead>
+                                  <tbody className="divide-y divide-slate-100">
+                                      {interestWorking.schedule.map((row, idx) => (
+                                          <tr key={idx}>
+                                              <td className="px-3 py-1.5 text-left font-bold text-slate-600">{row.head}</td>
+                                              <td className="px-3 py-1.5 text-left text-slate-600">{formatDate(row.fromDate)} → {formatDate(row.toDate)}</td>
+                                              <td className="px-3 py-1.5">{row.days}</td>
+                                              <td className="px-3 py-1.5 font-mono">{formatCurrency(row.principal)}</td>
+                                              <td className="px-3 py-1.5 font-mono text-amber-700">{formatCurrency(row.interest)}</td>
+                                              <td className="px-3 py-1.5 font-mono text-green-700">{row.paymentAmount ? formatCurrency(row.paymentAmount) : '-'}</td>
+                                          </tr>
+                                      ))}
+                                      {interestWorking.schedule.length === 0 && <tr><td colSpan={6} className="text-center py-3 text-slate-400">No outstanding tax in the selected period.</td></tr>}
+                                  </tbody>
+                                  <tfoot className="bg-slate-50 font-bold"><tr><td colSpan={4} className="px-3 py-2 text-left">Total Interest @ {interestWorking.rate}%</td><td className="px-3 py-2 font-mono text-amber-700">{formatCurrency(interestWorking.total)}</td><td></td></tr></tfoot>
+                              </table>
+                          </div>
+                      </div>
+                  )}
               </div>
 
               <div className="border rounded-xl overflow-hidden mb-6 shadow-sm">
@@ -1358,6 +2363,92 @@ const NoticeDetail: React.FC = () => {
         </div>
       )}
       
+      {clausePickerDefectId !== null && (() => {
+          const defect = defects?.find(d => d.id === clausePickerDefectId);
+          if (!defect) return null;
+          const suggested = suggestClauses(replyClauses, defect);
+          const listed = clauseSearch.trim() ? searchClauses(replyClauses, clauseSearch) : suggested;
+          return (
+              <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+                  <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl p-6 animate-in zoom-in-95 max-h-[90vh] flex flex-col">
+                      <div className="flex justify-between items-start mb-4">
+                          <div>
+                              <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><BookOpen className="text-blue-600"/> Clauses for {defect.defectType}</h3>
+                              <p className="text-xs text-slate-500 mt-1">{defect.section ? `Section ${defect.section} • ` : ''}Inserted text is added to this defect's reply submission.</p>
+                          </div>
+                          <button onClick={() => setClausePickerDefectId(null)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                      </div>
+                      <div className="relative mb-4">
+                          <Search className="absolute left-3 top-2.5 text-slate-400" size={16} />
+                          <input type="text" value={clauseSearch} onChange={e => setClauseSearch(e.target.value)} placeholder="Search the whole library..." className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"/>
+                      </div>
+                      <div className="overflow-y-auto divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                          {listed.map(clause => {
+                              const inserted = defect.clauseIds?.includes(clause.id!);
+                              return (
+                                  <div key={clause.id} className="p-4 flex gap-3">
+                                      <div className="flex-1 min-w-0">
+                                          <p className="text-sm font-semibold text-slate-800">{clause.title}</p>
+                                          <p className="text-xs text-slate-600 mt-1 whitespace-pre-line line-clamp-4">{clause.body}</p>
+                                          <p className="text-[10px] text-slate-400 mt-1">{[...clause.defectTypes, ...clause.sections].join(' • ')}{clause.defectTypes.length + clause.sections.length ? ' • ' : ''}used {clause.usageCount}×</p>
+                                      </div>
+                                      <button onClick={() => handleInsertClause(defect, clause)} disabled={inserted} className={`h-fit px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 ${inserted ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-blue-600 text-white hover:bg-blue-700'}`}>
+                                          {inserted ? <><CheckSquare size={12}/> Inserted</> : <><Plus size={12}/> Insert</>}
+                                      </button>
+                                  </div>
+                              );
+                          })}
+                          {listed.length === 0 && <p className="p-6 text-center text-sm text-slate-400 italic">{clauseSearch.trim() ? 'No clauses match the search.' : 'No clauses are tagged with this defect type or section. Search the library above, or tag clauses in the Clause Library.'}</p>}
+                      </div>
+                  </div>
+              </div>
+          );
+      })()}
+
+      {citePicker && (() => {
+          const defect = citePicker.defectId ? defects?.find(d => d.id === citePicker.defectId) : undefined;
+          const scoped = citations.filter(c => c.defectId === defect?.id);
+          // A case-level citation is suggested from every defect of the notice
+          const suggested = defect ? suggestAuthorities(authorities, defect) : Array.from(new Set((defects || []).flatMap(d => suggestAuthorities(authorities, d))));
+          const listed = authoritySearch.trim() ? searchAuthorities(authorities, authoritySearch) : suggested;
+          return (
+              <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+                  <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl p-6 animate-in zoom-in-95 max-h-[90vh] flex flex-col">
+                      <div className="flex justify-between items-start mb-4">
+                          <div>
+                              <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Landmark className="text-indigo-600"/> Cite {defect ? `on ${defect.defectType}` : 'for the Case'}</h3>
+                              <p className="text-xs text-slate-500 mt-1">{defect?.section ? `Section ${defect.section} • ` : ''}Authorities are added from the <Link to="/knowledge-base" className="text-blue-600 hover:underline">Knowledge Base</Link>.</p>
+                          </div>
+                          <button onClick={() => setCitePicker(null)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                      </div>
+                      <div className="relative mb-3">
+                          <Search className="absolute left-3 top-2.5 text-slate-400" size={16} />
+                          <input type="text" value={authoritySearch} onChange={e => setAuthoritySearch(e.target.value)} placeholder="Search citation, party, headnote or full text..." className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"/>
+                      </div>
+                      <input type="text" value={citeNote} onChange={e => setCiteNote(e.target.value)} placeholder="Paragraph or proposition relied on (optional)" className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 mb-4"/>
+                      <div className="overflow-y-auto divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                          {listed.map(authority => {
+                              const cited = scoped.some(c => c.authorityId === authority.id);
+                              return (
+                                  <div key={authority.id} className="p-4 flex gap-3">
+                                      <div className="flex-1 min-w-0">
+                                          <p className="text-sm font-semibold text-slate-800">{formatAuthority(authority)}</p>
+                                          <p className="text-[10px] text-slate-400">{[authority.kind, authority.forum, authority.date && formatDate(authority.date)].filter(Boolean).join(' • ')}</p>
+                                          <p className="text-xs text-slate-600 mt-1 whitespace-pre-line line-clamp-3">{authority.headnote}</p>
+                                      </div>
+                                      <button onClick={() => handleCiteAuthority(authority)} disabled={cited} className={`h-fit px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 ${cited ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-blue-600 text-white hover:bg-blue-700'}`}>
+                                          {cited ? <><CheckSquare size={12}/> Cited</> : <><Plus size={12}/> Cite</>}
+                                      </button>
+                                  </div>
+                              );
+                          })}
+                          {listed.length === 0 && <p className="p-6 text-center text-sm text-slate-400 italic">{authoritySearch.trim() ? 'No authorities match the search.' : 'Nothing in the knowledge base is tagged with these defect types or sections. Search above to cite any authority.'}</p>}
+                      </div>
+                  </div>
+              </div>
+          );
+      })()}
+
       {showWaiverModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
               <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-8 animate-in zoom-in-95">
@@ -1383,6 +2474,43 @@ const NoticeDetail: React.FC = () => {
           </div>
       )}
 
+      {showDepositModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+              <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg p-8 animate-in zoom-in-95">
+                  <div className="flex justify-between items-center mb-6">
+                      <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Scale className="text-slate-700"/> Record Pre-Deposit</h3>
+                      <button onClick={() => setShowDepositModal(false)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                  </div>
+                  <form onSubmit={handleSaveDeposit} className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                          <div>
+                              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Payment Date</label>
+                              <input type="date" required value={depositForm.paymentDate} onChange={e => setDepositForm({...depositForm, paymentDate: e.target.value})} className="w-full p-2 border border-slate-300 rounded-lg text-sm"/>
+                          </div>
+                          <div>
+                              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Challan / DRC-03 Ref</label>
+                              <input type="text" required value={depositForm.challanNumber} onChange={e => setDepositForm({...depositForm, challanNumber: e.target.value})} className="w-full p-2 border border-slate-300 rounded-lg text-sm" placeholder="CPIN / ARN"/>
+                          </div>
+                          {(['igst', 'cgst', 'sgst', 'cess'] as const).map(head => (
+                              <div key={head}>
+                                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{head}</label>
+                                  <input type="number" min="0" value={depositForm[head] || ''} onChange={e => setDepositForm({...depositForm, [head]: parseFloat(e.target.value) || 0})} onFocus={e => e.target.select()} className="w-full p-2 border border-slate-300 rounded-lg text-sm text-right font-mono" placeholder="0"/>
+                              </div>
+                          ))}
+                      </div>
+                      <div>
+                          <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Notes</label>
+                          <input type="text" value={depositForm.notes} onChange={e => setDepositForm({...depositForm, notes: e.target.value})} className="w-full p-2 border border-slate-300 rounded-lg text-sm" placeholder={`Pre-deposit (${preDepositStage})`}/>
+                      </div>
+                      <div className="flex justify-end gap-3 pt-2">
+                          <button type="button" onClick={() => setShowDepositModal(false)} className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50">Cancel</button>
+                          <button type="submit" className="px-6 py-2 bg-slate-800 text-white rounded-lg text-sm font-bold hover:bg-slate-700 shadow-sm transition-colors">Record Deposit</button>
+                      </div>
+                  </form>
+              </div>
+          </div>
+      )}
+
       {showPaymentModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
             <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl p-8 animate-in zoom-in-95 max-h-[90vh] overflow-y-auto">
@@ -8,6 +8,10 @@ import { Link, useNavigate, useLocation } from 'react-router-dom';
 import * as XLSX from 'xlsx';
 import { useAuth } from '../contexts/AuthContext';
 import { formatDate, parseExcelDate, formatCurrency } from '../utils/formatting';
+import { computeLimitation } from '../utils/limitation';
+import { applyTransition } from '../utils/workflowTransitions';
+import StatusTransitionModal from '../components/StatusTransitionModal';
+import { enqueueOcr, isOcrSupported } from '../utils/ocr';
 
 const NoticeList: React.FC = () => {
   const navigate = useNavigate();
@@ -22,6 +26,7 @@ const NoticeList: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'proceedings' | 'orders' | 'rectification' | 'closed'>('proceedings');
   const [showAdvanced, setShowAdvanced] = useState(!!initialState?.defectType || !!initialState?.status || !!initialState?.riskLevel || !!initialState?.assignedTo);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [transitionNotice, setTransitionNotice] = useState<Notice | null>(null);
   const [importType, setImportType] = useState<'notice' | 'defect' | 'payment'>('notice');
   const [isBulkUploading, setIsBulkUploading] = useState(false);
 
@@ -47,6 +52,7 @@ const NoticeList: React.FC = () => {
   const configStatuses = useLiveQuery(() => db.appConfig.get({key: 'notice_statuses'}));
   const configDefectTypes = useLiveQuery(() => db.appConfig.get({key: 'defect_types'}));
   const configCaseTypes = useLiveQuery(() => db.appConfig.get({key: 'case_types'}));
+  const configLimitation = useLiveQuery(() => db.appConfig.get({key: 'limitation_config'}));
   
   const statusOptions = configStatuses?.value || Object.values(NoticeStatus);
   const defectTypeOptions = configDefectTypes?.value || [];
@@ -111,31 +117,12 @@ const NoticeList: React.FC = () => {
   }, [activeTab, textSearch, selectedStatuses, selectedRisks, assignedTo, dateFrom, dateTo, dateType, selectedSection, selectedDefectType, selectedCaseType]);
 
   // Actions
-  const handleTransition = async (id: number, type: 'Order' | 'Rectification' | 'Closed') => {
-      const timestamp = new Date().toISOString();
-      if (type === 'Order') {
-          if(confirm('Convert this notice to an Order? This will change status to "Order Passed" and move it to the Orders tab.')) {
-              await db.notices.update(id, { status: 'Order Passed', noticeType: 'DRC-07' });
-              await db.auditLogs.add({ entityType: 'Notice', entityId: id, action: 'Update', timestamp, user: user?.username || 'System', details: 'Notice converted to Order' });
-          }
-      } else if (type === 'Rectification') {
-          if(confirm('Move to Rectification? This will change status to "Rectification Filed".')) {
-              await db.notices.update(id, { status: 'Rectification Filed' });
-              await db.auditLogs.add({ entityType: 'Notice', entityId: id, action: 'Update', timestamp, user: user?.username || 'System', details: 'Notice moved to Rectification' });
-          }
-      } else if (type === 'Closed') {
-          if(confirm('Close/Waive this notice?')) {
-              await db.notices.update(id, { status: 'Closed' });
-              await db.auditLogs.add({ entityType: 'Notice', entityId: id, action: 'StatusChange', timestamp, user: user?.username || 'System', details: 'Notice Closed/Waived' });
-          }
-      }
-  };
-
   const handleDelete = async (id: number) => {
     if(confirm('Are you sure you want to delete this notice?')) {
         await db.notices.delete(id);
         await db.defects.where('noticeId').equals(id).delete();
         await db.payments.where('noticeId').equals(id).delete();
+        await db.authorityCitations.where('noticeId').equals(id).delete();
         await db.auditLogs.add({
             entityType: 'Notice', entityId: id, action: 'Delete', timestamp: new Date().toISOString(), user: user?.username || 'System', details: `Deleted notice`
         });
@@ -148,17 +135,27 @@ const NoticeList: React.FC = () => {
              await db.notices.delete(nid);
              await db.defects.where('noticeId').equals(nid).delete();
              await db.payments.where('noticeId').equals(nid).delete(); 
+             await db.authorityCitations.where('noticeId').equals(nid).delete();
           }
           setSelectedIds([]);
       }
   };
 
+  // Each notice goes through its own workflow; those that cannot move are listed with the reason
   const handleBulkStatusChange = async (newStatus: string) => {
+      if (!user) return;
       if (confirm(`Change status of ${selectedIds.length} notices to "${newStatus}"?`)) {
-          const timestamp = new Date().toISOString();
+          const blocked: string[] = [];
           for (const id of selectedIds) {
-              await db.notices.update(id, { status: newStatus });
-              await db.auditLogs.add({ entityType: 'Notice', entityId: id, action: 'StatusChange', timestamp, user: user?.username || 'System', details: `Bulk status change to '${newStatus}'` });
+              try {
+                  await applyTransition(id, newStatus, {}, user, { source: 'bulk change' });
+              } catch (e) {
+                  const notice = notices?.find(n => n.id === id);
+                  blocked.push(`${notice?.noticeNumber || id}: ${e instanceof Error ? e.message : String(e)}`);
+              }
+          }
+          if (blocked.length > 0) {
+              alert(`Status unchanged for ${blocked.length} of ${selectedIds.length} notices:\n\n${blocked.join('\n')}`);
           }
           setSelectedIds([]);
       }
@@ -185,16 +182,19 @@ const NoticeList: React.FC = () => {
       setIsBulkUploading(true);
       try {
           const timestamp = new Date().toISOString();
+          const ocrIds: number[] = [];
           for (const noticeId of selectedIds) {
               for (let i = 0; i < files.length; i++) {
                   const file = files[i];
                   const arrayBuffer = await file.arrayBuffer();
-                  await db.documents.add({
+                  const docId = await db.documents.add({
                       noticeId: noticeId, fileName: file.name, fileType: file.type, size: file.size, uploadDate: timestamp, category: 'Other',
                       fileData: new Blob([new Uint8Array(arrayBuffer)], {type: file.type})
                   });
+                  if (isOcrSupported({ fileType: file.type, fileName: file.name })) ocrIds.push(docId as number);
               }
           }
+          if (ocrIds.length > 0) enqueueOcr(ocrIds);
           alert('Files attached successfully.');
       } catch (error) { alert("Error during bulk upload."); } 
       finally { setIsBulkUploading(false); if (bulkUploadRef.current) bulkUploadRef.current.value = ''; setSelectedIds([]); }
@@ -421,6 +421,7 @@ const NoticeList: React.FC = () => {
 
   const renderNoticeRow = (notice: Notice, showCheckbox: boolean = true) => {
       const assignedUser = users?.find(u => u.username === notice.assignedTo);
+      const limitation = computeLimitation(notice, configLimitation?.value || undefined);
       return (
         <tr key={notice.id} className={`hover:bg-slate-50 cursor-pointer transition-colors ${selectedIds.includes(notice.id!) ? 'bg-blue-50/40' : ''}`} onClick={() => navigate(`/notices/${notice.id}`)}>
             {showCheckbox && (
@@ -436,6 +437,9 @@ const NoticeList: React.FC = () => {
                     <span className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded text-[10px] border border-slate-200 font-medium">{notice.noticeType || 'General'}</span>
                     <span className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded text-[10px] border border-slate-200">{notice.section}</span>
                     <span className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded text-[10px] border border-slate-200">{notice.period}</span>
+                    {limitation?.status === 'Time-Barred' && (
+                        <span className="px-2 py-0.5 bg-red-50 text-red-700 rounded text-[10px] border border-red-200 font-bold uppercase" title={`Issued after the last date for ${limitation.checkedAgainst} u/s ${limitation.track} (${formatDate(limitation.checkedAgainst === 'Order' ? limitation.orderDeadline : limitation.scnDeadline)})`}>Time-Barred</span>
+                    )}
                 </div>
             </td>
             <td className="px-6 py-4 align-top">
@@ -447,12 +451,8 @@ const NoticeList: React.FC = () => {
             <td className="px-6 py-4 text-right align-top">
                 <div className="flex flex-col gap-2 items-end">
                     <button onClick={(e) => { e.stopPropagation(); navigate(`/notices/${notice.id}`); }} className="text-blue-600 hover:text-blue-800 text-xs font-semibold border border-blue-100 bg-blue-50 px-3 py-1.5 rounded-lg hover:bg-blue-100 transition-colors">Edit</button>
-                    {activeTab === 'proceedings' && checkPermission('edit_notices') && (
-                        <div className="flex gap-1">
-                            <button onClick={(e) => { e.stopPropagation(); handleTransition(notice.id!, 'Order'); }} className="p-1.5 bg-white border border-purple-200 text-purple-600 rounded hover:bg-purple-50 text-[10px]" title="Convert to Order"><Gavel size={14}/></button>
-                            <button onClick={(e) => { e.stopPropagation(); handleTransition(notice.id!, 'Rectification'); }} className="p-1.5 bg-white border border-orange-200 text-orange-600 rounded hover:bg-orange-50 text-[10px]" title="File Rectification"><ShieldAlert size={14}/></button>
-                            <button onClick={(e) => { e.stopPropagation(); handleTransition(notice.id!, 'Closed'); }} className="p-1.5 bg-white border border-green-200 text-green-600 rounded hover:bg-green-50 text-[10px]" title="Close/Waive"><CheckSquare size={14}/></button>
-                        </div>
+                    {checkPermission('edit_notices') && (
+                        <button onClick={(e) => { e.stopPropagation(); setTransitionNotice(notice); }} className="text-slate-600 hover:text-blue-700 text-xs font-medium flex items-center gap-1 hover:underline" title="Change status through the workflow"><ArrowRight size={12}/> Status</button>
                     )}
                     {checkPermission('delete_notices') && (
                         <button onClick={(e) => { e.stopPropagation(); handleDelete(notice.id!); }} className="text-red-500 hover:text-red-700 text-xs font-medium hover:underline">Delete</button>
@@ -761,6 +761,8 @@ const NoticeList: React.FC = () => {
       </div>
       
       {/* Import Modal - Unchanged */}
+      {transitionNotice && <StatusTransitionModal notice={transitionNotice} onClose={() => setTransitionNotice(null)} />}
+
       {showImportModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
               <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg p-8 animate-in zoom-in-95">
@@ -2,21 +2,70 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { ReconciliationRecord, ReconciliationRow } from '../types';
-import { FileDown, Scale, Plus, ArrowLeft, Save, Trash2, Edit, Calculator, FileText, Layers, TrendingUp, AlertCircle, Upload, Download } from 'lucide-react';
+import { BooksCategory, InvoiceMatchStatus, InvoiceMatchTolerance, ItcInvoice, ReconciliationRecord, ReconciliationRow, ReconciliationType } from '../types';
+import { FileDown, Scale, Plus, ArrowLeft, Save, Trash2, Edit, Calculator, FileText, Layers, TrendingUp, AlertCircle, Upload, Download, FileJson, GitCompare, Wand2, RefreshCw, X } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { useAuth } from '../contexts/AuthContext';
 import { Link } from 'react-router-dom';
+import { AUTO_WORKSHEETS, BOOKS_CATEGORIES, TrialBalanceLedger, booksMonthlyValues, buildWorksheets, isReturnMetric, isWorksheetStale, readTrialBalance, refreshRows } from '../utils/reconciliationBuilder';
+import { DEFAULT_MATCH_TOLERANCE, downloadRegisterTemplate, invoiceTax, matchInvoices, matchSources, readGstr2bInvoices, readPurchaseRegister, rollUpMatch } from '../utils/itcMatching';
 
 const MONTHS = ['April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December', 'January', 'February', 'March'];
 
 const initialRows: ReconciliationRow[] = MONTHS.map(m => ({ period: m, sourceA: 0, sourceB: 0, diff: 0, remarks: '' }));
 
+const MATCH_STATUSES: InvoiceMatchStatus[] = ['Matched', 'Value Mismatch', 'Only in Books', 'Only in 2B'];
+const MATCH_STATUS_STYLES: Record<InvoiceMatchStatus, string> = {
+    'Matched': 'bg-green-100 text-green-700',
+    'Value Mismatch': 'bg-amber-100 text-amber-700',
+    'Only in Books': 'bg-red-100 text-red-700',
+    'Only in 2B': 'bg-purple-100 text-purple-700'
+};
+const MATCH_ROW_LIMIT = 500;
+
+const sumMonths = (values: Record<string, number>) => Object.keys(values).reduce((sum, k) => sum + values[k], 0);
+
+// Column headings for the two sides of a worksheet
+const sourceLabels = (rec: Partial<ReconciliationRecord>): [string, string] => {
+    if (rec.autoBuild) {
+        return [rec.autoBuild.sourceA, isReturnMetric(rec.autoBuild.sourceB) ? rec.autoBuild.sourceB : `Books – ${rec.autoBuild.sourceB}`];
+    }
+    if (rec.type === 'Liability (GSTR-1 vs GSTR-3B)') return ['GSTR-1', 'GSTR-3B'];
+    if (rec.type === 'ITC (GSTR-3B vs GSTR-2B)') return ['GSTR-3B', 'GSTR-2B'];
+    return [
+        rec.type?.includes('GSTR-1') ? 'GSTR-1 / Portal' : rec.type?.includes('GSTR-3B') ? 'GSTR-3B' : rec.type?.includes('ITC') ? 'GSTR-2B' : 'Portal Value',
+        'As per Books'
+    ];
+};
+
+interface InvoiceSource {
+    names: string[];
+    invoices: ItcInvoice[];
+    warnings: string[];
+}
+
 const Reconciliation: React.FC = () => {
     const { user } = useAuth();
     const [view, setView] = useState<'list' | 'edit'>('list');
     const [activeSubTab, setActiveSubTab] = useState<'all' | 'gstr1' | 'gstr3b' | 'itc'>('all');
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const registerInputRef = useRef<HTMLInputElement>(null);
+    const portalInputRef = useRef<HTMLInputElement>(null);
+
+    // Invoice matching inputs for the worksheet being edited (the saved match keeps its own copy)
+    const [registerSource, setRegisterSource] = useState<InvoiceSource | null>(null);
+    const [portalSource, setPortalSource] = useState<InvoiceSource | null>(null);
+    const [tolerance, setTolerance] = useState<InvoiceMatchTolerance>(DEFAULT_MATCH_TOLERANCE);
+    const [statusFilter, setStatusFilter] = useState<InvoiceMatchStatus | 'All'>('All');
+
+    // Auto-build from stored returns
+    const tbInputRef = useRef<HTMLInputElement>(null);
+    const [showBuildModal, setShowBuildModal] = useState(false);
+    const [buildForm, setBuildForm] = useState<{ gstin: string; financialYear: string; types: ReconciliationType[] }>({
+        gstin: '', financialYear: '2023-24', types: AUTO_WORKSHEETS.map(w => w.type)
+    });
+    const [trialBalance, setTrialBalance] = useState<{ fileName: string; ledgers: TrialBalanceLedger[]; warnings: string[] } | null>(null);
+    const [isBuilding, setIsBuilding] = useState(false);
     
     const [formData, setFormData] = useState<Partial<ReconciliationRecord>>({
         rows: JSON.parse(JSON.stringify(initialRows)),
@@ -26,13 +75,15 @@ const Reconciliation: React.FC = () => {
 
     const taxpayers = useLiveQuery(() => db.taxpayers.orderBy('tradeName').toArray());
     const reconciliations = useLiveQuery(() => db.reconciliations.reverse().toArray());
+    // Returns drive auto-built worksheets, so a re-import shows up as "returns changed"
+    const returns = useLiveQuery(() => db.returns.toArray()) || [];
     
     // Filtered list based on active tab
     const filteredReconciliations = reconciliations?.filter(rec => {
         if (activeSubTab === 'all') return true;
         if (activeSubTab === 'gstr1') return rec.type === 'Turnover (GSTR-1 vs Books)';
-        if (activeSubTab === 'gstr3b') return rec.type === 'Tax Liability (GSTR-3B vs Books)';
-        if (activeSubTab === 'itc') return rec.type === 'ITC (GSTR-2B vs Books)';
+        if (activeSubTab === 'gstr3b') return rec.type === 'Tax Liability (GSTR-3B vs Books)' || rec.type === 'Liability (GSTR-1 vs GSTR-3B)';
+        if (activeSubTab === 'itc') return rec.type === 'ITC (GSTR-2B vs Books)' || rec.type === 'ITC (GSTR-3B vs GSTR-2B)';
         return true;
     });
 
@@ -48,7 +99,7 @@ const Reconciliation: React.FC = () => {
     }, [formData.gstin]);
 
     const handleCreateNew = () => {
-        let defaultType: any = 'Turnover (GSTR-1 vs Books)';
+        let defaultType: ReconciliationType = 'Turnover (GSTR-1 vs Books)';
         if (activeSubTab === 'gstr3b') defaultType = 'Tax Liability (GSTR-3B vs Books)';
         if (activeSubTab === 'itc') defaultType = 'ITC (GSTR-2B vs Books)';
 
@@ -59,14 +110,23 @@ const Reconciliation: React.FC = () => {
             gstin: '',
             noticeId: undefined
         });
+        resetMatchInputs();
         setView('edit');
     };
 
     const handleEdit = (record: ReconciliationRecord) => {
         setFormData(JSON.parse(JSON.stringify(record))); // Deep copy
+        resetMatchInputs(record.invoiceMatch?.tolerance);
         setView('edit');
     };
 
+    const resetMatchInputs = (savedTolerance?: InvoiceMatchTolerance) => {
+        setRegisterSource(null);
+        setPortalSource(null);
+        setTolerance(savedTolerance || DEFAULT_MATCH_TOLERANCE);
+        setStatusFilter('All');
+    };
+
     const handleDelete = async (id: number) => {
         if (confirm('Are you sure you want to delete this worksheet?')) {
             await db.reconciliations.delete(id);
@@ -149,6 +209,115 @@ const Reconciliation: React.FC = () => {
         if (fileInputRef.current) fileInputRef.current.value = '';
     };
 
+    const handleRegisterUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (registerInputRef.current) registerInputRef.current.value = '';
+        if (!file) return;
+        try {
+            const { invoices, warnings } = await readPurchaseRegister(file, formData.financialYear || '');
+            setRegisterSource({ names: [file.name], invoices, warnings });
+        } catch (err) {
+            console.error(err);
+            alert('Error reading purchase register: ' + (err instanceof Error ? err.message : String(err)));
+        }
+    };
+
+    const handlePortalUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        if (portalInputRef.current) portalInputRef.current.value = '';
+        if (files.length === 0) return;
+        if (!formData.gstin) { alert('Please select a Client/Taxpayer first'); return; }
+        try {
+            const { invoices, warnings } = await readGstr2bInvoices(files, formData.gstin, formData.financialYear || '');
+            setPortalSource({ names: files.map(f => f.name), invoices, warnings });
+        } catch (err) {
+            console.error(err);
+            alert('Error reading GSTR-2B: ' + (err instanceof Error ? err.message : String(err)));
+        }
+    };
+
+    // Newly chosen files win; otherwise the previous match is re-run from its own lines
+    const handleRunMatch = () => {
+        const saved = formData.invoiceMatch ? matchSources(formData.invoiceMatch) : undefined;
+        const books = registerSource?.invoices || saved?.books;
+        const portal = portalSource?.invoices || saved?.portal;
+        if (!books || !portal) { alert('Load both the purchase register and the GSTR-2B files.'); return; }
+
+        const lines = matchInvoices(books, portal, tolerance);
+        setFormData(prev => ({
+            ...prev,
+            invoiceMatch: {
+                tolerance,
+                booksFile: registerSource?.names[0] || prev.invoiceMatch?.booksFile || '',
+                portalFiles: portalSource?.names || prev.invoiceMatch?.portalFiles || [],
+                matchedAt: new Date().toISOString(),
+                lines
+            },
+            rows: rollUpMatch(prev.rows || [], lines)
+        }));
+        setStatusFilter('All');
+    };
+
+    const handleClearMatch = () => {
+        if (!confirm('Remove the invoice match from this worksheet? Monthly values are kept.')) return;
+        setFormData(prev => ({ ...prev, invoiceMatch: undefined }));
+        resetMatchInputs();
+    };
+
+    const handleOpenBuildModal = () => {
+        setBuildForm(prev => ({ ...prev, gstin: prev.gstin || taxpayers?.[0]?.gstin || '' }));
+        setTrialBalance(null);
+        setShowBuildModal(true);
+    };
+
+    const handleTrialBalanceUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (tbInputRef.current) tbInputRef.current.value = '';
+        if (!file) return;
+        try {
+            const { ledgers, warnings } = await readTrialBalance(file);
+            setTrialBalance({ fileName: file.name, ledgers, warnings });
+        } catch (err) {
+            console.error(err);
+            alert('Error reading trial balance: ' + (err instanceof Error ? err.message : String(err)));
+        }
+    };
+
+    const setLedgerCategory = (index: number, category: TrialBalanceLedger['category']) => {
+        setTrialBalance(prev => prev && ({ ...prev, ledgers: prev.ledgers.map((l, i) => i === index ? { ...l, category } : l) }));
+    };
+
+    const handleBuild = async () => {
+        if (!buildForm.gstin) { alert('Please select a Client/Taxpayer'); return; }
+        if (buildForm.types.length === 0) { alert('Select at least one worksheet to build.'); return; }
+        setIsBuilding(true);
+        try {
+            const result = await buildWorksheets({
+                ...buildForm,
+                ledgers: trialBalance?.ledgers,
+                booksFile: trialBalance?.fileName,
+                username: user?.username || 'System'
+            });
+            setShowBuildModal(false);
+            alert(`${result.created} worksheet(s) created, ${result.updated} refreshed.${result.skipped.length ? `\n\nSkipped:\n${result.skipped.join('\n')}` : ''}`);
+        } catch (err) {
+            console.error(err);
+            alert('Auto-build failed: ' + (err instanceof Error ? err.message : String(err)));
+        } finally {
+            setIsBuilding(false);
+        }
+    };
+
+    const handleRefreshFromReturns = () => {
+        if (!formData.autoBuild || !formData.gstin || !formData.financialYear) return;
+        const gstinReturns = returns.filter(r => r.gstin === formData.gstin);
+        setFormData(prev => ({
+            ...prev,
+            rows: refreshRows(prev.rows || [], prev.autoBuild!, gstinReturns, prev.financialYear!),
+            autoBuild: { ...prev.autoBuild!, builtAt: new Date().toISOString() }
+        }));
+    };
+
     const handleSave = async () => {
         if (!formData.gstin) { alert('Please select a Client/Taxpayer'); return; }
         
@@ -180,10 +349,11 @@ const Reconciliation: React.FC = () => {
     };
 
     const exportToExcel = () => {
+        const [labelA, labelB] = sourceLabels(formData);
         const rows = formData.rows?.map(r => ({
             Period: r.period,
-            [`${formData.type?.includes('GSTR-1') ? 'GSTR-1' : formData.type?.includes('GSTR-3B') ? 'GSTR-3B' : 'Portal'}`]: r.sourceA,
-            Books: r.sourceB,
+            [labelA]: r.sourceA,
+            [labelB]: r.sourceB,
             Difference: r.diff,
             Remarks: r.remarks
         }));
@@ -197,18 +367,146 @@ const Reconciliation: React.FC = () => {
         
         XLSX.utils.sheet_add_json(ws, [{
             Period: 'TOTAL',
-            [`${formData.type?.includes('GSTR-1') ? 'GSTR-1' : 'Portal'}`]: totalA,
-            Books: totalB,
+            [labelA]: totalA,
+            [labelB]: totalB,
             Difference: totalDiff,
             Remarks: ''
         }], {skipHeader: true, origin: -1});
 
         XLSX.utils.book_append_sheet(wb, ws, "Reconciliation");
+
+        if (formData.invoiceMatch) {
+            const lines = formData.invoiceMatch.lines.map(l => ({
+                Status: l.status,
+                'Supplier GSTIN': (l.books || l.portal)!.supplierGstin,
+                'Supplier Name': l.portal?.supplierName || l.books?.supplierName || '',
+                'Books Invoice': l.books?.invoiceNumber || '',
+                'Books Date': l.books?.invoiceDate || '',
+                'Books Month': l.books?.period || '',
+                'Books Taxable': l.books?.taxableValue ?? '',
+                'Books Tax': l.books ? invoiceTax(l.books) : '',
+                '2B Invoice': l.portal?.invoiceNumber || '',
+                '2B Date': l.portal?.invoiceDate || '',
+                '2B Period': l.portal?.period || '',
+                '2B Taxable': l.portal?.taxableValue ?? '',
+                '2B Tax': l.portal ? invoiceTax(l.portal) : '',
+                'Tax Difference': l.taxDiff,
+                Note: l.note || ''
+            }));
+            XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(lines), "Invoice Match");
+        }
         XLSX.writeFile(wb, `Recon_${formData.gstin}_${formData.financialYear}.xlsx`);
     };
 
     const formatCurrency = (val: number) => new Intl.NumberFormat('en-IN', { maximumFractionDigits: 2 }).format(val);
 
+    const renderBuildModal = () => (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 animate-in zoom-in-95 space-y-5">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Wand2 className="text-indigo-600"/> Auto-build from Returns</h3>
+                    <button onClick={() => setShowBuildModal(false)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                </div>
+                <p className="text-sm text-slate-500">Monthly figures are taken from the GSTR-1, GSTR-3B and GSTR-2B records on the Returns page. Worksheets built earlier for the same client, year and type are refreshed in place.</p>
+
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Client / Taxpayer</label>
+                        <select className="w-full p-2 border border-slate-300 rounded text-sm bg-white" value={buildForm.gstin} onChange={e => setBuildForm({ ...buildForm, gstin: e.target.value })}>
+                            <option value="">-- Select Client --</option>
+                            {taxpayers?.map(t => <option key={t.id} value={t.gstin}>{t.tradeName} ({t.gstin})</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Financial Year</label>
+                        <select className="w-full p-2 border border-slate-300 rounded text-sm bg-white" value={buildForm.financialYear} onChange={e => setBuildForm({ ...buildForm, financialYear: e.target.value })}>
+                            <option>2024-25</option>
+                            <option>2023-24</option>
+                            <option>2022-23</option>
+                            <option>2021-22</option>
+                            <option>2020-21</option>
+                            <option>2019-20</option>
+                            <option>2018-19</option>
+                            <option>2017-18</option>
+                        </select>
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Worksheets</label>
+                    <div className="space-y-2">
+                        {AUTO_WORKSHEETS.map(w => (
+                            <label key={w.type} className="flex items-center gap-2 text-sm text-slate-700">
+                                <input
+                                    type="checkbox"
+                                    checked={buildForm.types.includes(w.type)}
+                                    onChange={e => setBuildForm({ ...buildForm, types: e.target.checked ? [...buildForm.types, w.type] : buildForm.types.filter(t => t !== w.type) })}
+                                />
+                                <span className="font-medium">{w.type}</span>
+                                <span className="text-xs text-slate-400">{w.sourceA} vs {isReturnMetric(w.sourceB) ? w.sourceB : `books (${w.sourceB})`}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="border-t border-slate-200 pt-4 space-y-3">
+                    <div className="flex justify-between items-center">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase">Books Side (Optional)</label>
+                            <p className="text-xs text-slate-500">Monthly trial balance: ledger rows with month columns, or a Month column with Debit / Credit.</p>
+                        </div>
+                        <button onClick={() => tbInputRef.current?.click()} className="bg-white border border-slate-300 text-slate-700 px-3 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-50 text-sm">
+                            <Upload size={16}/> {trialBalance ? 'Replace' : 'Upload'} Trial Balance
+                        </button>
+                        <input type="file" ref={tbInputRef} onChange={handleTrialBalanceUpload} className="hidden" accept=".xlsx,.xls,.csv" />
+                    </div>
+                    {trialBalance && (
+                        <>
+                            <p className="text-xs text-slate-600 font-medium">{trialBalance.fileName} – {trialBalance.ledgers.length} ledgers</p>
+                            {trialBalance.warnings.map((w, i) => <p key={i} className="text-xs text-amber-700">{w}</p>)}
+                            <div className="max-h-60 overflow-y-auto border rounded-lg">
+                                <table className="w-full text-xs">
+                                    <thead className="bg-slate-50 text-slate-600 uppercase font-bold sticky top-0">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left">Ledger</th>
+                                            <th className="px-3 py-2 text-right">Year Total</th>
+                                            <th className="px-3 py-2 text-left w-44">Use As</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {trialBalance.ledgers.map((l, idx) => {
+                                            const total = sumMonths(l.category === 'Ignore' ? l.months : booksMonthlyValues([l], l.category));
+                                            return (
+                                                <tr key={l.name} className={l.category === 'Ignore' ? 'text-slate-400' : 'text-slate-700'}>
+                                                    <td className="px-3 py-1.5">{l.name}</td>
+                                                    <td className="px-3 py-1.5 text-right">{formatCurrency(total)}</td>
+                                                    <td className="px-3 py-1.5">
+                                                        <select className="w-full p-1 border rounded text-xs bg-white" value={l.category} onChange={e => setLedgerCategory(idx, e.target.value as BooksCategory | 'Ignore')}>
+                                                            <option value="Ignore">Ignore</option>
+                                                            {BOOKS_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                                                        </select>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                    {!trialBalance && <p className="text-xs text-slate-400 italic">Without a trial balance, books values already on refreshed worksheets are kept and new ones start at zero.</p>}
+                </div>
+
+                <div className="flex justify-end gap-2 pt-2">
+                    <button onClick={() => setShowBuildModal(false)} className="px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50">Cancel</button>
+                    <button onClick={handleBuild} disabled={isBuilding} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:bg-slate-300 flex items-center gap-2">
+                        <Wand2 size={16}/> {isBuilding ? 'Building...' : 'Build Worksheets'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+
     if (view === 'list') {
         return (
             <div className="space-y-6 pb-10">
@@ -217,9 +515,14 @@ const Reconciliation: React.FC = () => {
                         <h2 className="text-2xl font-bold text-slate-800">Reconciliation Worksheets</h2>
                         <p className="text-slate-500 text-sm">Create and manage supporting workings for notices (GSTR vs Books)</p>
                     </div>
-                    <button onClick={handleCreateNew} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-all">
-                        <Plus size={18} /> New Reconciliation
-                    </button>
+                    <div className="flex gap-2">
+                        <button onClick={handleOpenBuildModal} className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-50 shadow-sm transition-all">
+                            <Wand2 size={18} /> Auto-build from Returns
+                        </button>
+                        <button onClick={handleCreateNew} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-all">
+                            <Plus size={18} /> New Reconciliation
+                        </button>
+                    </div>
                 </div>
 
                 <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
@@ -252,6 +555,9 @@ const Reconciliation: React.FC = () => {
                                             <div className="flex gap-3 mt-1 text-xs text-slate-500">
                                                 <span className="bg-slate-100 px-2 py-0.5 rounded">FY {rec.financialYear}</span>
                                                 {rec.noticeId && <span className="bg-blue-50 text-blue-700 px-2 py-0.5 rounded">Linked to Notice</span>}
+                                                {rec.autoBuild && (isWorksheetStale(rec, returns.filter(r => r.gstin === rec.gstin))
+                                                    ? <span className="bg-amber-50 text-amber-700 px-2 py-0.5 rounded">Returns changed – refresh</span>
+                                                    : <span className="bg-green-50 text-green-700 px-2 py-0.5 rounded">From returns</span>)}
                                                 <span>Updated: {new Date(rec.updatedAt).toLocaleDateString()}</span>
                                             </div>
                                         </div>
@@ -270,14 +576,137 @@ const Reconciliation: React.FC = () => {
                         {filteredReconciliations?.length === 0 && <div className="text-center py-12 text-slate-400">No reconciliation worksheets found in this category.</div>}
                     </div>
                 </div>
+
+                {showBuildModal && renderBuildModal()}
             </div>
         );
     }
 
+    const renderInvoiceMatching = () => {
+        const match = formData.invoiceMatch;
+        const visibleLines = (match?.lines || []).filter(l => statusFilter === 'All' || l.status === statusFilter);
+        const warnings = [...(registerSource?.warnings || []), ...(portalSource?.warnings || [])];
+        const booksLabel = registerSource ? `${registerSource.names[0]} (${registerSource.invoices.length} invoices)` : match ? `${match.booksFile} (saved)` : 'Not loaded';
+        const portalLabel = portalSource ? `${portalSource.names.length} file(s), ${portalSource.invoices.length} invoices` : match ? `${match.portalFiles.length} file(s) (saved)` : 'Not loaded';
+
+        return (
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h3 className="font-bold text-slate-800 flex items-center gap-2"><GitCompare size={18} className="text-indigo-600"/> Invoice-level Matching</h3>
+                        <p className="text-xs text-slate-500 mt-1">Matches the purchase register with GSTR-2B B2B invoices on supplier GSTIN and invoice number, then fills the monthly rows above.</p>
+                    </div>
+                    {match && (
+                        <button onClick={handleClearMatch} className="text-xs text-slate-500 hover:text-red-600 flex items-center gap-1"><Trash2 size={14}/> Remove Match</button>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                    <div className="md:col-span-2 grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Purchase Register</label>
+                            <button onClick={() => registerInputRef.current?.click()} className="w-full bg-white border border-slate-300 text-slate-700 px-3 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-50 text-sm">
+                                <Upload size={16}/> Excel / CSV
+                            </button>
+                            <input type="file" ref={registerInputRef} onChange={handleRegisterUpload} className="hidden" accept=".xlsx,.xls,.csv" />
+                            <p className="text-[11px] text-slate-500 mt-1 truncate" title={booksLabel}>{booksLabel}</p>
+                            <button onClick={downloadRegisterTemplate} className="text-[11px] text-blue-600 hover:underline flex items-center gap-1"><Download size={10}/> Template</button>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">GSTR-2B</label>
+                            <button onClick={() => portalInputRef.current?.click()} className="w-full bg-white border border-slate-300 text-slate-700 px-3 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-50 text-sm">
+                                <FileJson size={16}/> JSON Files
+                            </button>
+                            <input type="file" ref={portalInputRef} onChange={handlePortalUpload} className="hidden" accept=".json,application/json" multiple />
+                            <p className="text-[11px] text-slate-500 mt-1 truncate" title={portalLabel}>{portalLabel}</p>
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Amount Tolerance (₹)</label>
+                        <input type="number" min={0} className="w-full p-2 border border-slate-300 rounded text-sm" value={tolerance.amount} onChange={e => setTolerance({ ...tolerance, amount: Math.max(0, parseFloat(e.target.value) || 0) })} />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Date Tolerance (Days)</label>
+                        <input type="number" min={0} className="w-full p-2 border border-slate-300 rounded text-sm" value={tolerance.dateDays} onChange={e => setTolerance({ ...tolerance, dateDays: Math.max(0, parseInt(e.target.value) || 0) })} />
+                    </div>
+                    <button onClick={handleRunMatch} className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2 shadow-sm text-sm">
+                        <Calculator size={16}/> {match ? 'Re-run Match' : 'Run Match'}
+                    </button>
+                </div>
+
+                {warnings.length > 0 && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 space-y-1">
+                        {warnings.map((w, i) => <p key={i}>{w}</p>)}
+                    </div>
+                )}
+
+                {match && (
+                    <>
+                        <div className="flex flex-wrap gap-2 items-center">
+                            <button onClick={() => setStatusFilter('All')} className={`px-3 py-1 rounded-full text-xs font-semibold border ${statusFilter === 'All' ? 'border-slate-700 bg-slate-700 text-white' : 'border-slate-300 text-slate-600'}`}>
+                                All ({match.lines.length})
+                            </button>
+                            {MATCH_STATUSES.map(status => {
+                                const lines = match.lines.filter(l => l.status === status);
+                                const tax = lines.reduce((sum, l) => sum + Math.abs(l.taxDiff), 0);
+                                return (
+                                    <button key={status} onClick={() => setStatusFilter(status)} className={`px-3 py-1 rounded-full text-xs font-semibold ${MATCH_STATUS_STYLES[status]} ${statusFilter === status ? 'ring-2 ring-offset-1 ring-slate-400' : ''}`}>
+                                        {status} ({lines.length}){status !== 'Matched' && tax ? ` · ₹${formatCurrency(tax)}` : ''}
+                                    </button>
+                                );
+                            })}
+                            <span className="text-[11px] text-slate-400 ml-auto">Matched {new Date(match.matchedAt).toLocaleString()} · ±₹{match.tolerance.amount}, ±{match.tolerance.dateDays} day(s)</span>
+                        </div>
+
+                        <div className="overflow-x-auto border rounded-lg">
+                            <table className="w-full text-xs text-left">
+                                <thead className="bg-slate-50 text-slate-600 uppercase font-bold">
+                                    <tr>
+                                        <th className="px-3 py-2">Status</th>
+                                        <th className="px-3 py-2">Supplier</th>
+                                        <th className="px-3 py-2">Books Invoice</th>
+                                        <th className="px-3 py-2 text-right">Books Tax</th>
+                                        <th className="px-3 py-2">2B Invoice</th>
+                                        <th className="px-3 py-2 text-right">2B Tax</th>
+                                        <th className="px-3 py-2 text-right">Difference</th>
+                                        <th className="px-3 py-2">Note</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                    {visibleLines.slice(0, MATCH_ROW_LIMIT).map((l, idx) => (
+                                        <tr key={idx} className="hover:bg-slate-50">
+                                            <td className="px-3 py-2"><span className={`px-2 py-0.5 rounded font-semibold whitespace-nowrap ${MATCH_STATUS_STYLES[l.status]}`}>{l.status}</span></td>
+                                            <td className="px-3 py-2">
+                                                <p className="font-medium text-slate-700">{l.portal?.supplierName || l.books?.supplierName || '-'}</p>
+                                                <p className="text-slate-400">{(l.books || l.portal)!.supplierGstin}</p>
+                                            </td>
+                                            <td className="px-3 py-2">{l.books ? <>{l.books.invoiceNumber}<p className="text-slate-400">{l.books.invoiceDate} · {l.books.period}</p></> : '-'}</td>
+                                            <td className="px-3 py-2 text-right">{l.books ? formatCurrency(invoiceTax(l.books)) : '-'}</td>
+                                            <td className="px-3 py-2">{l.portal ? <>{l.portal.invoiceNumber}<p className="text-slate-400">{l.portal.invoiceDate} · {l.portal.period}</p></> : '-'}</td>
+                                            <td className="px-3 py-2 text-right">{l.portal ? formatCurrency(invoiceTax(l.portal)) : '-'}</td>
+                                            <td className={`px-3 py-2 text-right font-medium ${l.taxDiff === 0 ? 'text-slate-500' : 'text-red-600'}`}>{formatCurrency(l.taxDiff)}</td>
+                                            <td className="px-3 py-2 text-slate-500">{l.note || ''}</td>
+                                        </tr>
+                                    ))}
+                                    {visibleLines.length === 0 && <tr><td colSpan={8} className="text-center py-6 text-slate-400">No invoices in this category.</td></tr>}
+                                </tbody>
+                            </table>
+                        </div>
+                        {visibleLines.length > MATCH_ROW_LIMIT && (
+                            <p className="text-xs text-slate-500">Showing the first {MATCH_ROW_LIMIT} of {visibleLines.length} lines. Export to Excel for the full list.</p>
+                        )}
+                    </>
+                )}
+            </div>
+        );
+    };
+
     // EDIT VIEW
     const totalSourceA = formData.rows?.reduce((sum, r) => sum + r.sourceA, 0) || 0;
     const totalSourceB = formData.rows?.reduce((sum, r) => sum + r.sourceB, 0) || 0;
     const totalDiff = formData.rows?.reduce((sum, r) => sum + r.diff, 0) || 0;
+    const [columnA, columnB] = sourceLabels(formData);
+    const isStale = !!formData.autoBuild && isWorksheetStale(formData as ReconciliationRecord, returns.filter(r => r.gstin === formData.gstin));
 
     return (
         <div className="space-y-6 pb-10">
@@ -319,10 +748,12 @@ const Reconciliation: React.FC = () => {
                     </div>
                     <div>
                         <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Reconciliation Type</label>
-                        <select className="w-full p-2 border border-slate-300 rounded text-sm bg-white" value={formData.type} onChange={e => setFormData({...formData, type: e.target.value as any})}>
+                        <select className="w-full p-2 border border-slate-300 rounded text-sm bg-white" value={formData.type} onChange={e => setFormData({...formData, type: e.target.value as ReconciliationType})}>
                             <option>Turnover (GSTR-1 vs Books)</option>
                             <option>Tax Liability (GSTR-3B vs Books)</option>
                             <option>ITC (GSTR-2B vs Books)</option>
+                            <option>Liability (GSTR-1 vs GSTR-3B)</option>
+                            <option>ITC (GSTR-3B vs GSTR-2B)</option>
                             <option>E-Way Bill vs GSTR-1</option>
                             <option>Custom</option>
                         </select>
@@ -342,13 +773,28 @@ const Reconciliation: React.FC = () => {
                     </div>
                 </div>
 
+                {formData.autoBuild && (
+                    <div className={`mb-4 p-3 rounded-lg border text-sm flex justify-between items-center gap-4 ${isStale ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-indigo-50 border-indigo-100 text-indigo-800'}`}>
+                        <div>
+                            <p className="font-semibold">{isStale ? 'Returns have changed since this worksheet was built.' : 'Built from stored returns.'}</p>
+                            <p className="text-xs opacity-90">
+                                {formData.autoBuild.sourceA} vs {isReturnMetric(formData.autoBuild.sourceB) ? formData.autoBuild.sourceB : `books (${formData.autoBuild.sourceB}${formData.autoBuild.booksFile ? `, ${formData.autoBuild.booksFile}` : ''})`}
+                                {' · '}Last built {new Date(formData.autoBuild.builtAt).toLocaleString()}
+                            </p>
+                        </div>
+                        <button onClick={handleRefreshFromReturns} className="bg-white border border-slate-300 text-slate-700 px-3 py-1.5 rounded-lg flex items-center gap-2 hover:bg-slate-50 text-xs font-medium shrink-0">
+                            <RefreshCw size={14}/> Refresh from Returns
+                        </button>
+                    </div>
+                )}
+
                 <div className="overflow-x-auto border rounded-lg">
                     <table className="w-full text-sm text-left">
                         <thead className="bg-slate-50 text-slate-600 uppercase text-xs font-bold">
                             <tr>
                                 <th className="px-4 py-3 w-32">Period</th>
-                                <th className="px-4 py-3 w-40 text-right">{formData.type?.includes('GSTR-1') ? 'GSTR-1 / Portal' : formData.type?.includes('GSTR-3B') ? 'GSTR-3B' : formData.type?.includes('ITC') ? 'GSTR-2B' : 'Portal Value'}</th>
-                                <th className="px-4 py-3 w-40 text-right">As per Books</th>
+                                <th className="px-4 py-3 w-40 text-right">{columnA}</th>
+                                <th className="px-4 py-3 w-40 text-right">{columnB}</th>
                                 <th className="px-4 py-3 w-40 text-right">Difference</th>
                                 <th className="px-4 py-3">Remarks / Reason</th>
                             </tr>
@@ -384,6 +830,8 @@ const Reconciliation: React.FC = () => {
                     </table>
                 </div>
             </div>
+
+            {formData.type === 'ITC (GSTR-2B vs Books)' && renderInvoiceMatching()}
         </div>
     );
 };
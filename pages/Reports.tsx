@@ -2,10 +2,11 @@
 import React, { useState, useEffect } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { FileDown, PieChart, BarChart, FileText, Users, AlertCircle, Layers, ArrowUpDown, ChevronUp, ChevronDown, ListFilter, ArrowRight, User, Database, Link as LinkIcon, ExternalLink, Map, Search } from 'lucide-react';
+import { FileDown, PieChart, BarChart, FileText, Users, AlertCircle, Layers, ArrowUpDown, ChevronUp, ChevronDown, ListFilter, ArrowRight, User, Database, Link as LinkIcon, ExternalLink, Map, Search, Landmark } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { ResponsiveContainer, BarChart as ReBarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as ReTooltip, Legend, PieChart as RePieChart, Pie, Cell } from 'recharts';
 import { useNavigate } from 'react-router-dom';
+import { CITATION_OUTCOMES, formatAuthority, searchAuthorities, summarizeAuthorityUsage } from '../utils/authorities';
 
 interface ArnData { arn: string; count: number; demand: number; paid: number; statuses: Set<string>; }
 interface DefectData { type: string; count: number; demand: number; }
@@ -13,7 +14,7 @@ interface CircleData { circle: string; clientCount: number; noticeCount: number;
 
 const Reports: React.FC = () => {
     const navigate = useNavigate();
-    const [activeTab, setActiveTab] = useState<'clients' | 'cases' | 'defects' | 'status' | 'powerbi' | 'jurisdiction'>('clients');
+    const [activeTab, setActiveTab] = useState<'clients' | 'cases' | 'defects' | 'status' | 'powerbi' | 'jurisdiction' | 'authorities'>('clients');
     const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
     const [powerBiUrl, setPowerBiUrl] = useState('');
     const [searchTerm, setSearchTerm] = useState('');
@@ -22,6 +23,9 @@ const Reports: React.FC = () => {
     const payments = useLiveQuery(() => db.payments.toArray()) || [];
     const taxpayers = useLiveQuery(() => db.taxpayers.toArray()) || [];
     const defects = useLiveQuery(() => db.defects.toArray()) || [];
+    const appeals = useLiveQuery(() => db.appeals.toArray()) || [];
+    const authorities = useLiveQuery(() => db.authorities.toArray()) || [];
+    const citations = useLiveQuery(() => db.authorityCitations.toArray()) || [];
 
     useEffect(() => {
         const storedUrl = localStorage.getItem('powerbi_embed_url');
@@ -153,6 +157,12 @@ const Reports: React.FC = () => {
         return data;
     }, [taxpayers, notices, payments, searchTerm]);
 
+    // Precedent usage: how often each authority is relied upon and how those cases ended
+    const authorityReport = React.useMemo(
+        () => summarizeAuthorityUsage(searchAuthorities(authorities, searchTerm), citations, notices, defects, appeals),
+        [authorities, citations, notices, defects, appeals, searchTerm]
+    );
+
     const exportToExcel = () => {
         const wb = XLSX.utils.book_new();
         let ws;
@@ -160,6 +170,10 @@ const Reports: React.FC = () => {
         else if (activeTab === 'cases') ws = XLSX.utils.json_to_sheet(arnReport.map(r => ({...r, statuses: undefined, status: r.statusStr})));
         else if (activeTab === 'defects') ws = XLSX.utils.json_to_sheet(defectReport);
         else if (activeTab === 'jurisdiction') ws = XLSX.utils.json_to_sheet(circleReport);
+        else if (activeTab === 'authorities') ws = XLSX.utils.json_to_sheet(authorityReport.map(u => ({
+            citation: u.authority.citation, title: u.authority.title, kind: u.authority.kind, forum: u.authority.forum, date: u.authority.date,
+            citations: u.citations, cases: u.cases, ...u.outcomes, lastCitedAt: u.lastCitedAt
+        })));
         else ws = XLSX.utils.json_to_sheet(statusReport);
         XLSX.utils.book_append_sheet(wb, ws, "Report");
         XLSX.writeFile(wb, `GST_Nexus_Report_${activeTab}.xlsx`);
@@ -212,7 +226,7 @@ const Reports: React.FC = () => {
 
             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden min-h-[600px]">
                 <div className="flex border-b border-slate-200 bg-slate-50 overflow-x-auto">
-                    {[ { id: 'clients', label: 'Client Wise', icon: Users }, { id: 'jurisdiction', label: 'Jurisdiction', icon: Map }, { id: 'status', label: 'Status Summary', icon: ListFilter }, { id: 'cases', label: 'Case / ARN Wise', icon: Layers }, { id: 'defects', label: 'Defect Analysis', icon: AlertCircle }, { id: 'powerbi', label: 'Power BI', icon: BarChart } ].map(tab => (
+                    {[ { id: 'clients', label: 'Client Wise', icon: Users }, { id: 'jurisdiction', label: 'Jurisdiction', icon: Map }, { id: 'status', label: 'Status Summary', icon: ListFilter }, { id: 'cases', label: 'Case / ARN Wise', icon: Layers }, { id: 'defects', label: 'Defect Analysis', icon: AlertCircle }, { id: 'authorities', label: 'Precedents', icon: Landmark }, { id: 'powerbi', label: 'Power BI', icon: BarChart } ].map(tab => (
                         <button key={tab.id} onClick={() => setActiveTab(tab.id as any)} className={`flex-1 py-4 text-sm font-semibold border-b-2 transition-colors flex items-center justify-center gap-2 min-w-[140px] ${activeTab === tab.id ? 'border-blue-600 text-blue-600 bg-white' : 'border-transparent text-slate-500 hover:bg-slate-100'}`}><tab.icon size={16} /> {tab.label}</button>
                     ))}
                 </div>
@@ -341,6 +355,45 @@ const Reports: React.FC = () => {
                         </div>
                     )}
 
+                    {activeTab === 'authorities' && (
+                        <div className="animate-in fade-in">
+                            <p className="text-xs text-slate-500 mb-4">Outcome per citation: accepted when the defect was waived or the appeal allowed, rejected when dismissed; closed cases without either are shown as closed.</p>
+                            <div className="overflow-x-auto border border-slate-200 rounded-xl shadow-sm">
+                                <table className="w-full text-sm text-left">
+                                    <thead className="bg-slate-50 text-slate-500 uppercase text-xs font-bold">
+                                        <tr>
+                                            <th className="px-6 py-4">Authority</th>
+                                            <th className="px-4 py-4 text-center">Cited</th>
+                                            <th className="px-4 py-4 text-center">Cases</th>
+                                            {CITATION_OUTCOMES.map(o => <th key={o} className="px-4 py-4 text-center">{o}</th>)}
+                                            <th className="px-4 py-4 text-center">Success</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {authorityReport.map(u => {
+                                            // Share of decided citations that were accepted in full or in part
+                                            const decided = u.outcomes['Accepted'] + u.outcomes['Partly Accepted'] + u.outcomes['Rejected'];
+                                            const success = decided ? Math.round(((u.outcomes['Accepted'] + u.outcomes['Partly Accepted'] / 2) / decided) * 100) : null;
+                                            return (
+                                                <tr key={u.authority.id} className="hover:bg-slate-50 transition-colors">
+                                                    <td className="px-6 py-4">
+                                                        <p className="font-medium text-slate-700">{formatAuthority(u.authority)}</p>
+                                                        <p className="text-xs text-slate-400">{[u.authority.kind, u.authority.forum].filter(Boolean).join(' • ')}</p>
+                                                    </td>
+                                                    <td className="px-4 py-4 text-center font-bold">{u.citations}</td>
+                                                    <td className="px-4 py-4 text-center">{u.cases}</td>
+                                                    {CITATION_OUTCOMES.map(o => <td key={o} className={`px-4 py-4 text-center ${u.outcomes[o] ? 'text-slate-700' : 'text-slate-300'}`}>{u.outcomes[o]}</td>)}
+                                                    <td className="px-4 py-4 text-center font-bold">{success === null ? <span className="text-slate-300">-</span> : <span className={success >= 50 ? 'text-green-600' : 'text-red-600'}>{success}%</span>}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                                {authorityReport.length === 0 && <div className="text-center py-10 text-slate-400">No authorities have been cited in a case yet.</div>}
+                            </div>
+                        </div>
+                    )}
+
                     {activeTab === 'status' && (
                         <div className="animate-in fade-in">
                             <div className="overflow-hidden border border-slate-200 rounded-xl shadow-sm">
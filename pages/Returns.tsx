@@ -2,39 +2,74 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { ReturnRecord, GSTReturnType } from '../types';
-import { Upload, FileText, BarChart2, Calendar, AlertCircle, CheckCircle, Search, Trash2, Download, CloudDownload, X, Play, RefreshCw } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { ReturnRecord, GSTReturnType, NoticeStatus, AnnualFigure, GstApiConfig } from '../types';
+import { Upload, FileText, BarChart2, Calendar, AlertCircle, CheckCircle, Search, Trash2, Download, CloudDownload, X, Play, RefreshCw, FileJson, ChevronDown, ChevronRight, AlertTriangle, ShieldAlert, FilePlus, BookOpen, Save, KeyRound, LogOut } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
 import { useAuth } from '../contexts/AuthContext';
 import { formatDate, parseExcelDate, formatCurrency } from '../utils/formatting';
+import { ReturnImportAction, ReturnImportRow, applyReturnImport, readReturnFiles, sectionTax } from '../utils/returnImport';
+import { DISCREPANCY_CHECKS, DiscrepancyFinding, addFindingToNotice, findingToDefect, scanReturns } from '../utils/discrepancyScanner';
+import { DEFECT_HEADS } from '../utils/interest';
+import { GstDataProvider, GstSession, MOCK_OTP, PortalCaseDocument, PortalReturnStatus, applyReturnStatus, getApiConfig, getGstProvider } from '../utils/gstProvider';
+import { ANNUAL_TABLES, ANNUAL_TOLERANCE, AnnualPart, buildAnnualReconciliation, downloadBooksTemplate, emptyFigure, exportAnnualPdf, exportAnnualWorkbook, measureOf, readBooksFile, saveAnnualRecord } from '../utils/annualReturn';
 
 const Returns: React.FC = () => {
-  const { user } = useAuth();
+  const { user, checkPermission } = useAuth();
+  const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [activeTab, setActiveTab] = useState<'list' | 'import' | 'analysis'>('list');
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+  const [activeTab, setActiveTab] = useState<'list' | 'import' | 'analysis' | 'scan' | 'annual'>('list');
   const [selectedGstin, setSelectedGstin] = useState('');
   const [filterYear, setFilterYear] = useState('2023-24');
   
-  // Fetch Modal State
+  // Portal fetch through the configured GST provider: OTP login, then return status, 2B and case folder
   const [showFetchModal, setShowFetchModal] = useState(false);
-  const [fetchParams, setFetchParams] = useState({
-      gstin: '',
-      date: new Date().toISOString().split('T')[0],
-      email: '',
-      gstUsername: '',
-      stateCode: '',
-      ipAddress: 'Fetching...'
-  });
-  const [isFetching, setIsFetching] = useState(false);
+  const [portalConfig, setPortalConfig] = useState<GstApiConfig | null>(null);
+  const [portalForm, setPortalForm] = useState({ gstin: '', username: '', otp: '' });
+  const [portalStep, setPortalStep] = useState<'login' | 'otp' | 'connected'>('login');
+  const [portalSession, setPortalSession] = useState<GstSession | null>(null);
+  const [portalBusy, setPortalBusy] = useState('');
+  const [portalStatuses, setPortalStatuses] = useState<PortalReturnStatus[] | null>(null);
+  const [portalDocuments, setPortalDocuments] = useState<PortalCaseDocument[] | null>(null);
+  const [portal2bMonths, setPortal2bMonths] = useState<string[]>([]);
+
+  // Portal JSON import: parsed files awaiting confirmation, then the outcome report
+  const [importRows, setImportRows] = useState<ReturnImportRow[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Discrepancy scan: the finding being turned into a draft defect
+  const [draftFinding, setDraftFinding] = useState<DiscrepancyFinding | null>(null);
+  const [draftTarget, setDraftTarget] = useState('new');
+  const [draftDefectType, setDraftDefectType] = useState('');
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+
+  // GSTR-9 / 9C: audited books being edited, remarks typed but not yet saved
+  const booksInputRef = useRef<HTMLInputElement>(null);
+  const [booksDraft, setBooksDraft] = useState<Record<string, AnnualFigure> | null>(null);
+  const [booksFileName, setBooksFileName] = useState<string | undefined>();
+  const [remarkDrafts, setRemarkDrafts] = useState<Record<string, string>>({});
 
   const taxpayers = useLiveQuery(() => db.taxpayers.orderBy('tradeName').toArray()) || [];
   const returns = useLiveQuery(() => db.returns.toArray()) || [];
+  const configDefectTypes = useLiveQuery(() => db.appConfig.get({ key: 'defect_types' }));
+  const defectTypeOptions: string[] = configDefectTypes?.value || [];
+  const gstinNotices = useLiveQuery(() => selectedGstin ? db.notices.where('gstin').equals(selectedGstin).toArray() : [], [selectedGstin]) || [];
+  const openNotices = checkPermission('edit_notices') ? gstinNotices.filter(n => n.status !== NoticeStatus.CLOSED) : [];
+  const portalNotices = useLiveQuery(() => portalSession ? db.notices.where('gstin').equals(portalSession.gstin).toArray() : [], [portalSession]) || [];
+  const fyStart = parseInt(filterYear) || new Date().getFullYear();
+  const portalMonths = Array.from({ length: 12 }, (_, i) => {
+      const month = (i + 3) % 12 + 1;
+      const year = month >= 4 ? fyStart : fyStart + 1;
+      return { value: `${String(month).padStart(2, '0')}${year}`, label: `${new Date(year, month - 1).toLocaleString('en-US', { month: 'short' })} ${year}` };
+  });
 
   const filteredReturns = returns.filter(r => 
     (!selectedGstin || r.gstin === selectedGstin) && 
     (!filterYear || r.financialYear === filterYear)
-  ).sort((a,b) => new Date(b.filingDate).getTime() - new Date(a.filingDate).getTime());
+  ).sort((a,b) => new Date(b.filingDate || 0).getTime() - new Date(a.filingDate || 0).getTime());
 
   // Analysis Data
   const analysisData = React.useMemo(() => {
@@ -55,14 +90,20 @@ const Returns: React.FC = () => {
       });
   }, [filteredReturns]);
 
-  useEffect(() => {
-      if (showFetchModal) {
-          fetch('https://api.ipify.org?format=json')
-              .then(res => res.json())
-              .then(data => setFetchParams(prev => ({ ...prev, ipAddress: data.ip })))
-              .catch(() => setFetchParams(prev => ({ ...prev, ipAddress: '127.0.0.1' })));
-      }
-  }, [showFetchModal]);
+  const annualRecord = useLiveQuery(
+      () => selectedGstin ? db.annualReturns.where('gstin').equals(selectedGstin).and(r => r.financialYear === filterYear).first() : undefined,
+      [selectedGstin, filterYear]
+  );
+  const annual = React.useMemo(() => (
+      activeTab === 'annual' && selectedGstin && filterYear ? buildAnnualReconciliation(returns, selectedGstin, filterYear, annualRecord) : null
+  ), [activeTab, returns, selectedGstin, filterYear, annualRecord]);
+  const annualRemarks = { ...(annualRecord?.remarks || {}), ...remarkDrafts };
+
+  useEffect(() => { setRemarkDrafts({}); }, [selectedGstin, filterYear]);
+
+  const scan = React.useMemo(() => (
+      activeTab === 'scan' && selectedGstin && filterYear ? scanReturns(returns, selectedGstin, filterYear, defectTypeOptions) : null
+  ), [activeTab, returns, selectedGstin, filterYear, defectTypeOptions]);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
@@ -111,6 +152,40 @@ const Returns: React.FC = () => {
       if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handleJsonSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+      if (jsonInputRef.current) jsonInputRef.current.value = '';
+      if (files.length === 0) return;
+      setIsImporting(true);
+      try {
+          setImportRows(await readReturnFiles(files));
+      } catch (err) {
+          console.error(err);
+          alert('Error reading files: ' + (err instanceof Error ? err.message : String(err)));
+      } finally {
+          setIsImporting(false);
+      }
+  };
+
+  const setRowAction = (index: number, action: ReturnImportAction) => {
+      setImportRows(rows => rows.map((r, i) => i === index ? { ...r, action } : r));
+  };
+
+  const handleConfirmJsonImport = async () => {
+      setIsImporting(true);
+      try {
+          setImportRows(await applyReturnImport(importRows, user?.username || 'System'));
+      } catch (err) {
+          console.error(err);
+          alert('Import failed: ' + (err instanceof Error ? err.message : String(err)));
+      } finally {
+          setIsImporting(false);
+      }
+  };
+
+  const importDone = importRows.some(r => r.outcome);
+  const pendingCount = importRows.filter(r => r.parsed && !r.error && r.action !== 'skip').length;
+
   const downloadTemplate = () => {
       const data = [{
           gstin: "27ABCDE1234F1Z5", returnType: "GSTR-3B", period: "April-2023", financialYear: "2023-24",
@@ -128,69 +203,166 @@ const Returns: React.FC = () => {
       }
   };
 
-  // New Fetch Logic
-  const handleOpenFetchModal = () => {
-      // Auto-fill gstin if selected in filter
-      if (selectedGstin) {
-          const t = taxpayers.find(t => t.gstin === selectedGstin);
-          setFetchParams({
-              gstin: selectedGstin,
-              date: new Date().toISOString().split('T')[0],
-              email: t?.email || '',
-              gstUsername: '',
-              stateCode: selectedGstin.substring(0, 2),
-              ipAddress: 'Fetching...'
-          });
+  const handleOpenFetchModal = async () => {
+      setPortalConfig(await getApiConfig());
+      // A live session is kept between openings; otherwise start again from the login step
+      if (!portalSession || new Date(portalSession.expiresAt) <= new Date()) {
+          setPortalForm({ gstin: selectedGstin, username: '', otp: '' });
+          setPortalStep('login');
+          setPortalSession(null);
+          setPortalStatuses(null);
+          setPortalDocuments(null);
+          setPortal2bMonths([]);
       }
       setShowFetchModal(true);
   };
 
-  const handleExecuteFetch = async (e: React.FormEvent) => {
+  const runPortal = async (label: string, action: (provider: GstDataProvider, session: GstSession) => Promise<void>) => {
+      setPortalBusy(label);
+      try {
+          await action(await getGstProvider(user?.username || 'System'), portalSession!);
+      } catch (e) {
+          console.error(e);
+          alert(e instanceof Error ? e.message : String(e));
+      } finally {
+          setPortalBusy('');
+      }
+  };
+
+  const handleRequestOtp = (e: React.FormEvent) => {
       e.preventDefault();
-      setIsFetching(true);
-      
-      // Simulate API delay
-      setTimeout(async () => {
-          // Generate a fake TXN ID
-          const txnId = `TXN-${Math.floor(Math.random() * 1000000)}`;
-          
-          // Log the attempt
-          await db.auditLogs.add({
-              entityType: 'System', 
-              entityId: 'API_FETCH', 
-              action: 'Update', 
-              timestamp: new Date().toISOString(),
-              user: user?.username || 'System',
-              details: JSON.stringify({
-                  message: 'Initiated Data Fetch',
-                  gstin: fetchParams.gstin,
-                  date: fetchParams.date,
-                  username: fetchParams.gstUsername,
-                  state: fetchParams.stateCode,
-                  ip: fetchParams.ipAddress,
-                  txn: txnId,
-                  status: 'Simulated Success'
-              })
-          });
-
-          await db.returns.add({
-              gstin: fetchParams.gstin,
-              returnType: 'GSTR-1',
-              period: `Month-${new Date(fetchParams.date).getMonth() + 1}`,
-              financialYear: filterYear,
-              filingDate: new Date().toISOString().split('T')[0],
-              taxableValue: 0,
-              taxLiability: 0,
-              itcAvailable: 0,
-              cashPaid: 0,
-              status: 'Submitted',
-              sourceFile: 'API Fetch'
-          });
-
-          setIsFetching(false);
+      runPortal('Requesting OTP...', async provider => {
+          await provider.requestOtp(portalForm.gstin, portalForm.username.trim());
+          setPortalStep('otp');
+      });
+  };
+
+  const handleVerifyOtp = (e: React.FormEvent) => {
+      e.preventDefault();
+      runPortal('Verifying OTP...', async provider => {
+          setPortalSession(await provider.authenticate(portalForm.gstin, portalForm.username.trim(), portalForm.otp.trim()));
+          setPortalForm(prev => ({ ...prev, otp: '' }));
+          setPortalStatuses(null);
+          setPortalDocuments(null);
+          setPortalStep('connected');
+      });
+  };
+
+  const handleDisconnect = () => {
+      setPortalSession(null);
+      setPortalStatuses(null);
+      setPortalDocuments(null);
+      setPortalStep('login');
+  };
+
+  const handleFetchStatus = () => runPortal('Fetching return status...', async (provider, session) => {
+      setPortalStatuses(await provider.getReturnStatus(session, filterYear));
+  });
+
+  const handleApplyStatus = () => runPortal('Updating returns...', async (_provider, session) => {
+      if (!portalStatuses) return;
+      const result = await applyReturnStatus(portalStatuses, session.gstin, user?.username || 'System');
+      alert(`${result.updated} returns updated, ${result.unchanged} already current.${result.missing.length ? `\n${result.missing.length} filed returns are not on record; import their JSON to bring in the figures.` : ''}`);
+  });
+
+  // Downloaded statements go through the same review as uploaded portal JSON
+  const handleFetch2b = () => runPortal('Fetching GSTR-2B...', async (provider, session) => {
+      const files: File[] = [];
+      const failures: string[] = [];
+      for (const period of portal2bMonths) {
+          try {
+              files.push(await provider.getGstr2b(session, period));
+          } catch (e) {
+              failures.push(e instanceof Error ? e.message : String(e));
+          }
+      }
+      if (files.length) {
+          setImportRows(await readReturnFiles(files));
+          setPortal2bMonths([]);
           setShowFetchModal(false);
-          alert(`API Request Queued (Simulated).\nTransaction ID: ${txnId}\n\nData would be fetched for GSTIN: ${fetchParams.gstin}`);
-      }, 1500);
+          setActiveTab('import');
+      }
+      if (failures.length) alert(failures.join('\n'));
+  });
+
+  const handleFetchCaseFolder = () => runPortal('Loading case folder...', async (provider, session) => {
+      setPortalDocuments(await provider.getCaseDocuments(session));
+  });
+
+  const handleOpenCaseDocument = (doc: PortalCaseDocument) => runPortal(`Downloading ${doc.referenceNumber}...`, async (provider, session) => {
+      const file = await provider.downloadCaseDocument(session, doc);
+      setShowFetchModal(false);
+      navigate('/notices/new', { state: { portalDocument: file } });
+  });
+
+  const openDraft = (finding: DiscrepancyFinding) => {
+      setDraftFinding(finding);
+      setDraftDefectType(finding.defectType);
+      setDraftTarget(openNotices.length === 1 || !checkPermission('create_notices') ? String(openNotices[0]?.id ?? '') : 'new');
+  };
+
+  // An existing notice gets the defect straight away; a new notice opens pre-filled and saves it with the notice
+  const handleCreateDraft = async () => {
+      if (!draftFinding || !scan || !draftTarget) return;
+      if (draftTarget === 'new') {
+          navigate('/notices/new', { state: { draftDefects: {
+              source: `Discrepancy scan, FY ${scan.financialYear}`,
+              gstin: scan.gstin,
+              period: `FY ${scan.financialYear}`,
+              defects: [findingToDefect(draftFinding, draftDefectType)]
+          } } });
+          return;
+      }
+      setIsSavingDraft(true);
+      try {
+          const noticeId = parseInt(draftTarget);
+          await addFindingToNotice(draftFinding, draftDefectType, noticeId, user?.username || 'System');
+          setDraftFinding(null);
+          navigate(`/notices/${noticeId}`);
+      } catch (e) {
+          console.error(e);
+          alert('Could not add the defect to the notice.');
+      } finally {
+          setIsSavingDraft(false);
+      }
+  };
+
+  const saveRemark = async (code: string) => {
+      if (!annual || remarkDrafts[code] === undefined || remarkDrafts[code] === (annualRecord?.remarks[code] || '')) return;
+      const remarks = { ...(annualRecord?.remarks || {}), [code]: remarkDrafts[code] };
+      await saveAnnualRecord(annual.gstin, annual.financialYear, { remarks }, user?.username || 'System', `GSTR-9 FY ${annual.financialYear}: remark on table ${code} updated`);
+      setRemarkDrafts(prev => { const next = { ...prev }; delete next[code]; return next; });
+  };
+
+  const openBooksEditor = () => {
+      setBooksDraft(Object.fromEntries(ANNUAL_TABLES.filter(t => t.books).map(t => [t.code, { ...emptyFigure(), ...(annualRecord?.books[t.code] || {}) }])));
+      setBooksFileName(annualRecord?.booksFile);
+  };
+
+  const handleBooksFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      try {
+          const books = await readBooksFile(file);
+          setBooksDraft(prev => ({ ...(prev || {}), ...books }));
+          setBooksFileName(file.name);
+      } catch (err) {
+          console.error(err);
+          alert(err instanceof Error ? err.message : 'Could not read the file.');
+      } finally {
+          if (booksInputRef.current) booksInputRef.current.value = '';
+      }
+  };
+
+  const updateBooksFigure = (code: string, field: keyof AnnualFigure, value: string) => {
+      setBooksDraft(prev => prev ? { ...prev, [code]: { ...prev[code], [field]: parseFloat(value) || 0 } } : prev);
+  };
+
+  const handleSaveBooks = async () => {
+      if (!annual || !booksDraft) return;
+      await saveAnnualRecord(annual.gstin, annual.financialYear, { books: booksDraft, booksFile: booksFileName }, user?.username || 'System',
+          `GSTR-9C FY ${annual.financialYear}: audited books figures saved${booksFileName ? ` from ${booksFileName}` : ''}`);
+      setBooksDraft(null);
   };
 
   return (
@@ -210,6 +382,12 @@ const Returns: React.FC = () => {
                 <button onClick={() => setActiveTab('analysis')} className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors ${activeTab === 'analysis' ? 'bg-blue-600 text-white' : 'bg-white border border-slate-300 text-slate-700 hover:bg-slate-50'}`}>
                     <BarChart2 size={16}/> Analysis
                 </button>
+                <button onClick={() => setActiveTab('scan')} className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors ${activeTab === 'scan' ? 'bg-blue-600 text-white' : 'bg-white border border-slate-300 text-slate-700 hover:bg-slate-50'}`}>
+                    <ShieldAlert size={16}/> Discrepancy Scan
+                </button>
+                <button onClick={() => setActiveTab('annual')} className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors ${activeTab === 'annual' ? 'bg-blue-600 text-white' : 'bg-white border border-slate-300 text-slate-700 hover:bg-slate-50'}`}>
+                    <BookOpen size={16}/> Annual Return
+                </button>
                 <button onClick={() => setActiveTab('list')} className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors ${activeTab === 'list' ? 'bg-blue-600 text-white' : 'bg-white border border-slate-300 text-slate-700 hover:bg-slate-50'}`}>
                     <FileText size={16}/> Records
                 </button>
@@ -237,30 +415,138 @@ const Returns: React.FC = () => {
         </div>
 
         {activeTab === 'import' && (
-            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center animate-in fade-in">
-                <div className="max-w-md mx-auto space-y-6">
-                    <div className="p-4 bg-blue-50 rounded-full w-20 h-20 flex items-center justify-center mx-auto text-blue-600">
-                        <Upload size={32}/>
-                    </div>
-                    <div>
-                        <h3 className="text-xl font-bold text-slate-800">Bulk Import Returns</h3>
-                        <p className="text-slate-500 mt-2 text-sm">Upload Excel file containing GSTR-1, 3B, or 2B data to generate analysis.</p>
-                    </div>
-                    
-                    <div className="space-y-3">
-                        <button onClick={downloadTemplate} className="text-sm text-blue-600 hover:underline flex items-center justify-center gap-1 font-medium">
-                            <Download size={14}/> Download Excel Template
-                        </button>
+            <div className="space-y-6 animate-in fade-in">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center space-y-6">
+                        <div className="p-4 bg-blue-50 rounded-full w-20 h-20 flex items-center justify-center mx-auto text-blue-600">
+                            <Upload size={32}/>
+                        </div>
+                        <div>
+                            <h3 className="text-xl font-bold text-slate-800">Bulk Import Returns</h3>
+                            <p className="text-slate-500 mt-2 text-sm">Upload Excel file containing GSTR-1, 3B, or 2B data to generate analysis.</p>
+                        </div>
                         
+                        <div className="space-y-3">
+                            <button onClick={downloadTemplate} className="text-sm text-blue-600 hover:underline flex items-center justify-center gap-1 font-medium mx-auto">
+                                <Download size={14}/> Download Excel Template
+                            </button>
+                            
+                            <div 
+                                className="border-2 border-dashed border-slate-300 rounded-xl p-8 hover:bg-slate-50 transition-colors cursor-pointer"
+                                onClick={() => fileInputRef.current?.click()}
+                            >
+                                <p className="text-sm font-bold text-slate-600">Click to Select File (.xlsx)</p>
+                                <input type="file" ref={fileInputRef} className="hidden" accept=".xlsx, .xls" onChange={handleFileUpload} />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center space-y-6">
+                        <div className="p-4 bg-green-50 rounded-full w-20 h-20 flex items-center justify-center mx-auto text-green-600">
+                            <FileJson size={32}/>
+                        </div>
+                        <div>
+                            <h3 className="text-xl font-bold text-slate-800">Portal JSON Import</h3>
+                            <p className="text-slate-500 mt-2 text-sm">GSTR-1, GSTR-3B and GSTR-9 JSON from the offline tool or portal, and GSTR-2B downloads. Table-wise detail is stored with each return.</p>
+                        </div>
                         <div 
-                            className="border-2 border-dashed border-slate-300 rounded-xl p-8 hover:bg-slate-50 transition-colors cursor-pointer"
-                            onClick={() => fileInputRef.current?.click()}
+                            className={`border-2 border-dashed border-slate-300 rounded-xl p-8 transition-colors ${isImporting ? 'opacity-60 cursor-wait' : 'hover:bg-slate-50 cursor-pointer'}`}
+                            onClick={() => !isImporting && jsonInputRef.current?.click()}
                         >
-                            <p className="text-sm font-bold text-slate-600">Click to Select File (.xlsx)</p>
-                            <input type="file" ref={fileInputRef} className="hidden" accept=".xlsx, .xls" onChange={handleFileUpload} />
+                            <p className="text-sm font-bold text-slate-600">{isImporting ? 'Reading files...' : 'Click to Select Files (.json)'}</p>
+                            <input type="file" ref={jsonInputRef} className="hidden" accept=".json,application/json" multiple onChange={handleJsonSelect} />
                         </div>
                     </div>
                 </div>
+
+                {importRows.length > 0 && (
+                    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                        <div className="p-4 border-b border-slate-200 flex justify-between items-center">
+                            <div>
+                                <h3 className="font-bold text-slate-800">{importDone ? 'Import Report' : 'Review Import'}</h3>
+                                <p className="text-xs text-slate-500">
+                                    {importDone
+                                        ? `${importRows.filter(r => r.outcome === 'Imported').length} imported, ${importRows.filter(r => r.outcome === 'Replaced').length} replaced, ${importRows.filter(r => r.outcome === 'Skipped').length} skipped, ${importRows.filter(r => r.outcome === 'Failed').length} failed`
+                                        : 'Periods already on record are skipped unless you choose to replace them.'}
+                                </p>
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => setImportRows([])} className="px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50">
+                                    {importDone ? 'Close' : 'Cancel'}
+                                </button>
+                                {!importDone && (
+                                    <button
+                                        onClick={handleConfirmJsonImport}
+                                        disabled={isImporting || pendingCount === 0}
+                                        className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:bg-slate-300"
+                                    >
+                                        Import {pendingCount} Return{pendingCount === 1 ? '' : 's'}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                        <table className="w-full text-sm text-left">
+                            <thead className="bg-slate-50 text-slate-500 uppercase text-xs font-bold border-b border-slate-200">
+                                <tr>
+                                    <th className="px-4 py-3">File</th>
+                                    <th className="px-4 py-3">GSTIN</th>
+                                    <th className="px-4 py-3">Return</th>
+                                    <th className="px-4 py-3">Period</th>
+                                    <th className="px-4 py-3 text-right">Taxable</th>
+                                    <th className="px-4 py-3 text-right">Liability</th>
+                                    <th className="px-4 py-3 text-right">ITC</th>
+                                    <th className="px-4 py-3">{importDone ? 'Result' : 'Action'}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {importRows.map((row, index) => {
+                                    const record = row.parsed?.record;
+                                    const notes = [
+                                        ...(row.error ? [row.error] : []),
+                                        ...(row.batchDuplicateOf ? [`Same return and period as ${row.batchDuplicateOf} in this selection.`] : []),
+                                        ...(row.duplicateId ? ['A record for this GSTIN, return and period already exists.'] : []),
+                                        ...(row.parsed?.warnings || [])
+                                    ];
+                                    return (
+                                        <tr key={index} className="align-top">
+                                            <td className="px-4 py-3">
+                                                <p className="font-medium text-slate-800 break-all">{row.fileName}</p>
+                                                {notes.map((note, i) => (
+                                                    <p key={i} className={`text-xs mt-1 flex items-start gap-1 ${row.error ? 'text-red-600' : 'text-amber-700'}`}>
+                                                        <AlertTriangle size={12} className="mt-0.5 shrink-0"/> {note}
+                                                    </p>
+                                                ))}
+                                            </td>
+                                            <td className="px-4 py-3 text-slate-600">{record?.gstin || '-'}</td>
+                                            <td className="px-4 py-3 text-slate-600">{record?.returnType || '-'}</td>
+                                            <td className="px-4 py-3 text-slate-600">{record?.period || '-'}</td>
+                                            <td className="px-4 py-3 text-right">{record ? formatCurrency(record.taxableValue) : '-'}</td>
+                                            <td className="px-4 py-3 text-right">{record ? formatCurrency(record.taxLiability) : '-'}</td>
+                                            <td className="px-4 py-3 text-right">{record ? formatCurrency(record.itcAvailable) : '-'}</td>
+                                            <td className="px-4 py-3">
+                                                {row.outcome ? (
+                                                    <span className={`text-xs font-bold ${row.outcome === 'Failed' ? 'text-red-600' : row.outcome === 'Skipped' ? 'text-slate-500' : 'text-green-600'}`}>{row.outcome}</span>
+                                                ) : row.error || row.batchDuplicateOf ? (
+                                                    <span className="text-xs font-bold text-slate-500">Skip</span>
+                                                ) : row.duplicateId ? (
+                                                    <select className="p-1 border rounded text-xs" value={row.action} onChange={e => setRowAction(index, e.target.value as ReturnImportAction)}>
+                                                        <option value="skip">Skip</option>
+                                                        <option value="replace">Replace existing</option>
+                                                    </select>
+                                                ) : (
+                                                    <select className="p-1 border rounded text-xs" value={row.action} onChange={e => setRowAction(index, e.target.value as ReturnImportAction)}>
+                                                        <option value="import">Import</option>
+                                                        <option value="skip">Skip</option>
+                                                    </select>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
             </div>
         )}
 
@@ -281,8 +567,15 @@ const Returns: React.FC = () => {
                     </thead>
                     <tbody className="divide-y divide-slate-100">
                         {filteredReturns.map(r => (
-                            <tr key={r.id} className="hover:bg-slate-50 transition-colors">
-                                <td className="px-6 py-4 font-medium text-slate-800">{r.gstin}</td>
+                            <React.Fragment key={r.id}>
+                            <tr className="hover:bg-slate-50 transition-colors">
+                                <td className="px-6 py-4 font-medium text-slate-800">
+                                    {r.sections?.length ? (
+                                        <button onClick={() => setExpandedId(expandedId === r.id ? null : r.id!)} className="flex items-center gap-1 hover:text-blue-600" title="Show table-wise detail">
+                                            {expandedId === r.id ? <ChevronDown size={14}/> : <ChevronRight size={14}/>} {r.gstin}
+                                        </button>
+                                    ) : r.gstin}
+                                </td>
                                 <td className="px-6 py-4 text-slate-600">{r.period}</td>
                                 <td className="px-6 py-4">
                                     <span className={`px-2 py-1 rounded text-xs font-semibold ${
@@ -303,6 +596,42 @@ const Returns: React.FC = () => {
                                     <button onClick={() => handleDelete(r.id!)} className="text-slate-400 hover:text-red-500"><Trash2 size={16}/></button>
                                 </td>
                             </tr>
+                            {expandedId === r.id && r.sections && (
+                                <tr className="bg-slate-50">
+                                    <td colSpan={8} className="px-6 py-4">
+                                        <table className="w-full text-xs">
+                                            <thead className="text-slate-500 uppercase font-bold">
+                                                <tr>
+                                                    <th className="py-1 text-left">Table</th>
+                                                    <th className="py-1 text-right">Docs</th>
+                                                    <th className="py-1 text-right">Taxable</th>
+                                                    <th className="py-1 text-right">IGST</th>
+                                                    <th className="py-1 text-right">CGST</th>
+                                                    <th className="py-1 text-right">SGST</th>
+                                                    <th className="py-1 text-right">Cess</th>
+                                                    <th className="py-1 text-right">Total Tax</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-slate-200">
+                                                {r.sections.map(s => (
+                                                    <tr key={s.code} className={s.inTotals ? 'text-slate-700' : 'text-slate-400'}>
+                                                        <td className="py-1">{s.label}</td>
+                                                        <td className="py-1 text-right">{s.documents || '-'}</td>
+                                                        <td className="py-1 text-right">{formatCurrency(s.taxableValue)}</td>
+                                                        <td className="py-1 text-right">{formatCurrency(s.igst)}</td>
+                                                        <td className="py-1 text-right">{formatCurrency(s.cgst)}</td>
+                                                        <td className="py-1 text-right">{formatCurrency(s.sgst)}</td>
+                                                        <td className="py-1 text-right">{formatCurrency(s.cess)}</td>
+                                                        <td className="py-1 text-right font-semibold">{formatCurrency(sectionTax(s))}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                        <p className="text-[10px] text-slate-400 mt-2">Greyed tables are shown for reference and not counted in the summary. Imported from {r.sourceFile}{r.importedAt ? ` on ${formatDate(r.importedAt)}` : ''}.</p>
+                                    </td>
+                                </tr>
+                            )}
+                            </React.Fragment>
                         ))}
                         {filteredReturns.length === 0 && (
                             <tr><td colSpan={8} className="text-center py-8 text-slate-400">No records found. Import or Fetch data to see list.</td></tr>
@@ -361,107 +690,486 @@ const Returns: React.FC = () => {
             </div>
         )}
 
+        {activeTab === 'scan' && (
+            <div className="space-y-6 animate-in fade-in">
+                {scan ? (
+                    <>
+                        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+                            <div className="flex justify-between items-start mb-4">
+                                <div>
+                                    <h3 className="font-bold text-slate-800">Estimated Exposure – FY {scan.financialYear}</h3>
+                                    <p className="text-xs text-slate-500 mt-1">Department-style checks on the returns stored for {scan.gstin}. Interest computed to {formatDate(scan.asOf)}.</p>
+                                </div>
+                                <span className={`px-3 py-1 rounded-full text-xs font-bold ${scan.findings.length ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+                                    {scan.findings.length ? `${scan.findings.length} finding(s)` : 'No findings'}
+                                </span>
+                            </div>
+                            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                                {DEFECT_HEADS.map(({ key, label }) => (
+                                    <div key={key} className="p-3 bg-slate-50 rounded-lg border border-slate-100">
+                                        <p className="text-xs font-bold text-slate-500 uppercase">{label}</p>
+                                        <p className="text-lg font-bold text-slate-800 font-mono">{formatCurrency(scan.byHead[key])}</p>
+                                    </div>
+                                ))}
+                                <div className="p-3 bg-red-50 rounded-lg border border-red-100">
+                                    <p className="text-xs font-bold text-red-600 uppercase">Total</p>
+                                    <p className="text-lg font-bold text-red-700 font-mono">{formatCurrency(scan.total)}</p>
+                                </div>
+                            </div>
+                            {scan.skipped.length > 0 && (
+                                <div className="mt-4 text-xs text-slate-500 space-y-1">
+                                    {scan.skipped.map(s => (
+                                        <p key={s.check} className="flex items-center gap-1.5"><AlertCircle size={12}/> Not run – {DISCREPANCY_CHECKS.find(c => c.key === s.check)?.label}: {s.reason}</p>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {scan.findings.map(f => (
+                            <div key={f.check} className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                                <div className="p-4 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                    <div>
+                                        <h4 className="font-bold text-slate-800 flex items-center gap-2"><AlertTriangle size={16} className="text-amber-500"/> {f.title}</h4>
+                                        <p className="text-xs text-slate-500 mt-1">{f.section} · Defect type: <span className="font-medium text-slate-700">{f.defectType}</span></p>
+                                    </div>
+                                    <div className="flex items-center gap-4">
+                                        <span className="text-lg font-bold text-red-700 font-mono">{formatCurrency(f.exposure)}</span>
+                                        {(checkPermission('edit_notices') || checkPermission('create_notices')) && (
+                                            <button onClick={() => openDraft(f)} className="px-3 py-2 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700 flex items-center gap-1.5">
+                                                <FilePlus size={14}/> Create Draft Defect
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-4">
+                                    <table className="w-full text-xs">
+                                        <thead className="bg-slate-50 text-slate-500 uppercase">
+                                            <tr><th className="p-2 text-left">Head</th><th className="p-2 text-right">Tax</th><th className="p-2 text-right">Interest</th><th className="p-2 text-right">Late Fee</th></tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-100">
+                                            {DEFECT_HEADS.filter(({ key }) => f.heads[key].tax || f.heads[key].interest || f.heads[key].lateFee).map(({ key, label }) => (
+                                                <tr key={key}>
+                                                    <td className="p-2 font-medium">{label}</td>
+                                                    <td className="p-2 text-right font-mono">{formatCurrency(f.heads[key].tax)}</td>
+                                                    <td className="p-2 text-right font-mono">{formatCurrency(f.heads[key].interest)}</td>
+                                                    <td className="p-2 text-right font-mono">{formatCurrency(f.heads[key].lateFee)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    <div className="max-h-56 overflow-y-auto">
+                                        <table className="w-full text-xs">
+                                            <thead className="bg-slate-50 text-slate-500 uppercase sticky top-0">
+                                                <tr>
+                                                    <th className="p-2 text-left">Period</th>
+                                                    {f.columns[0] ? <><th className="p-2 text-right">{f.columns[0]}</th><th className="p-2 text-right">{f.columns[1]}</th></> : <th className="p-2 text-left">Detail</th>}
+                                                    <th className="p-2 text-right">Gap</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-slate-100">
+                                                {f.lines.map((l, idx) => (
+                                                    <tr key={idx} className={l.gap >= 1 ? '' : 'text-slate-400'}>
+                                                        <td className="p-2">{l.period}</td>
+                                                        {f.columns[0]
+                                                            ? <><td className="p-2 text-right font-mono" title={l.detail}>{formatCurrency(l.sourceA)}</td><td className="p-2 text-right font-mono">{formatCurrency(l.sourceB)}</td></>
+                                                            : <td className="p-2">{l.detail}</td>}
+                                                        <td className={`p-2 text-right font-mono ${l.gap >= 1 ? 'text-red-600 font-bold' : ''}`}>{formatCurrency(l.gap)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                </div>
+                                {f.notes.length > 0 && (
+                                    <div className="px-4 pb-4 text-xs text-slate-500 space-y-1">
+                                        {f.notes.map(n => <p key={n} className="flex items-start gap-1.5"><AlertCircle size={12} className="mt-0.5 shrink-0"/> {n}</p>)}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </>
+                ) : (
+                    <div className="bg-amber-50 p-8 rounded-xl border border-amber-200 text-center text-amber-800">
+                        <AlertCircle size={32} className="mx-auto mb-2"/>
+                        <p className="font-bold">Select a Taxpayer</p>
+                        <p className="text-sm mt-1">Please select a GSTIN and financial year from the filter bar above to scan their returns.</p>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {activeTab === 'annual' && (
+            <div className="space-y-6 animate-in fade-in">
+                {annual ? (
+                    <>
+                        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+                            <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                                <div>
+                                    <h3 className="font-bold text-slate-800">GSTR-9 / 9C Reconciliation – FY {annual.financialYear}</h3>
+                                    <p className="text-xs text-slate-500 mt-1">
+                                        Tables assembled from the monthly GSTR-1, GSTR-3B and GSTR-2B on record, compared with the filed GSTR-9 and the audited books.
+                                    </p>
+                                    <p className="text-xs mt-2">
+                                        {annual.filedReturn
+                                            ? <span className="text-green-700 font-medium flex items-center gap-1"><CheckCircle size={12}/> GSTR-9 on record{annual.filedReturn.filingDate ? `, filed ${formatDate(annual.filedReturn.filingDate)}` : ''}{annual.filedReturn.arn ? ` (ARN ${annual.filedReturn.arn})` : ''}</span>
+                                            : <span className="text-amber-700 font-medium flex items-center gap-1"><AlertCircle size={12}/> GSTR-9 not imported. <button onClick={() => setActiveTab('import')} className="underline">Import the portal JSON</button></span>}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2 shrink-0">
+                                    <button onClick={openBooksEditor} className="px-3 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-xs font-bold hover:bg-slate-50 flex items-center gap-1.5"><BookOpen size={14}/> Audited Books</button>
+                                    <button onClick={() => exportAnnualWorkbook(annual, annualRemarks)} className="px-3 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-xs font-bold hover:bg-slate-50 flex items-center gap-1.5"><Download size={14}/> Excel</button>
+                                    <button onClick={() => exportAnnualPdf(annual, annualRemarks, taxpayers.find(t => t.gstin === annual.gstin)?.tradeName)} className="px-3 py-2 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700 flex items-center gap-1.5"><FileText size={14}/> Working Paper PDF</button>
+                                </div>
+                            </div>
+                            {annual.warnings.length > 0 && (
+                                <div className="mt-4 bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 space-y-1">
+                                    {annual.warnings.map(w => <p key={w} className="flex items-start gap-1.5"><AlertTriangle size={12} className="mt-0.5 shrink-0"/> {w}</p>)}
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-x-auto">
+                            <table className="w-full text-xs">
+                                <thead className="bg-slate-50 text-slate-500 uppercase">
+                                    <tr>
+                                        <th className="p-3 text-left">Table</th>
+                                        <th className="p-3 text-right">Monthly Returns</th>
+                                        <th className="p-3 text-right">GSTR-9 Filed</th>
+                                        <th className="p-3 text-right">Difference</th>
+                                        <th className="p-3 text-right">Audited Books</th>
+                                        <th className="p-3 text-right">Difference</th>
+                                        <th className="p-3 text-left w-64">Remarks</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                    {(['Outward supplies', 'Input tax credit', 'Tax paid', 'GSTR-9C'] as AnnualPart[]).map(part => (
+                                        <React.Fragment key={part}>
+                                            <tr className="bg-slate-100"><td colSpan={7} className="p-2 font-bold text-slate-700">{part === 'GSTR-9C' ? 'GSTR-9C – Audited books' : part}</td></tr>
+                                            {annual.lines.filter(l => l.table.part === part).map(l => {
+                                                const diffClass = (d?: number) => `p-3 text-right font-mono ${d !== undefined && Math.abs(d) > ANNUAL_TOLERANCE ? 'text-red-600 font-bold' : 'text-slate-400'}`;
+                                                const show = (n?: number) => n === undefined ? '–' : formatCurrency(n);
+                                                return (
+                                                    <tr key={l.table.code} className={l.flagged ? 'bg-red-50/50' : l.table.derive ? 'bg-slate-50/50 font-semibold' : ''}>
+                                                        <td className="p-3">
+                                                            <p className="text-slate-800">{l.table.label}</p>
+                                                            <p className="text-[10px] text-slate-400">{l.table.measure === 'value' ? 'Taxable value' : 'Tax (all heads)'}</p>
+                                                        </td>
+                                                        <td className="p-3 text-right font-mono">{show(measureOf(l.table, l.computed))}</td>
+                                                        <td className="p-3 text-right font-mono">{show(measureOf(l.table, l.filed))}</td>
+                                                        <td className={diffClass(l.filedDiff)}>{show(l.filedDiff)}</td>
+                                                        <td className="p-3 text-right font-mono">{l.table.books ? show(measureOf(l.table, l.books)) : ''}</td>
+                                                        <td className={diffClass(l.booksDiff)}>{l.table.books ? show(l.booksDiff) : ''}</td>
+                                                        <td className="p-2">
+                                                            <input
+                                                                type="text"
+                                                                value={annualRemarks[l.table.code] || ''}
+                                                                onChange={e => setRemarkDrafts(prev => ({ ...prev, [l.table.code]: e.target.value }))}
+                                                                onBlur={() => saveRemark(l.table.code)}
+                                                                placeholder={l.flagged ? 'Explain the difference' : ''}
+                                                                className={`w-full p-1.5 border rounded text-xs outline-none focus:ring-2 focus:ring-blue-500 ${l.flagged && !annualRemarks[l.table.code] ? 'border-red-200' : 'border-slate-200'}`}
+                                                            />
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </React.Fragment>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                ) : (
+                    <div className="bg-amber-50 p-8 rounded-xl border border-amber-200 text-center text-amber-800">
+                        <AlertCircle size={32} className="mx-auto mb-2"/>
+                        <p className="font-bold">Select a Taxpayer</p>
+                        <p className="text-sm mt-1">Please select a GSTIN and financial year from the filter bar above to prepare the annual return working.</p>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* Audited Books Modal (GSTR-9C) */}
+        {booksDraft && annual && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+                <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl p-6 animate-in zoom-in-95 space-y-5">
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><BookOpen className="text-blue-600"/> Audited Books – FY {annual.financialYear}</h3>
+                        <button onClick={() => setBooksDraft(null)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                    </div>
+                    <div className="flex items-center justify-between gap-4 p-3 bg-slate-50 rounded-lg border border-slate-200 text-xs text-slate-600">
+                        <p>Figures from the audited financial statements, as reported in GSTR-9C.{booksFileName ? ` Loaded from ${booksFileName}.` : ''}</p>
+                        <div className="flex gap-2 shrink-0">
+                            <button onClick={downloadBooksTemplate} className="px-3 py-1.5 bg-white border border-slate-300 rounded-lg font-medium hover:bg-slate-100">Template</button>
+                            <button onClick={() => booksInputRef.current?.click()} className="px-3 py-1.5 bg-white border border-slate-300 rounded-lg font-medium hover:bg-slate-100 flex items-center gap-1"><Upload size={12}/> Import Excel</button>
+                            <input type="file" ref={booksInputRef} accept=".xlsx,.xls,.csv" className="hidden" onChange={handleBooksFile}/>
+                        </div>
+                    </div>
+                    <table className="w-full text-xs">
+                        <thead className="bg-slate-50 text-slate-500 uppercase">
+                            <tr><th className="p-2 text-left">Table</th><th className="p-2 text-right">Taxable Value</th><th className="p-2 text-right">IGST</th><th className="p-2 text-right">CGST</th><th className="p-2 text-right">SGST</th><th className="p-2 text-right">Cess</th></tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {ANNUAL_TABLES.filter(t => t.books).map(t => (
+                                <tr key={t.code}>
+                                    <td className="p-2 font-medium text-slate-700">{t.label}</td>
+                                    {(['taxableValue', 'igst', 'cgst', 'sgst', 'cess'] as (keyof AnnualFigure)[]).map(field => (
+                                        <td key={field} className="p-1">
+                                            {(field === 'taxableValue') === (t.measure === 'value') ? (
+                                                <input type="number" value={booksDraft[t.code]?.[field] || ''} onChange={e => updateBooksFigure(t.code, field, e.target.value)} className="w-full p-1.5 border border-slate-300 rounded text-right font-mono outline-none focus:ring-2 focus:ring-blue-500"/>
+                                            ) : <span className="block text-center text-slate-300">–</span>}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setBooksDraft(null)} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+                        <button onClick={handleSaveBooks} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-bold hover:bg-blue-700 flex items-center gap-2"><Save size={14}/> Save Books</button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* Draft Defect Modal */}
+        {draftFinding && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+                <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 animate-in zoom-in-95 space-y-5">
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><FilePlus className="text-blue-600"/> Create Draft Defect</h3>
+                        <button onClick={() => setDraftFinding(null)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
+                    </div>
+                    <div className="p-3 bg-slate-50 rounded-lg border border-slate-200 text-xs text-slate-600">
+                        <p className="font-bold text-slate-800 text-sm">{draftFinding.title}</p>
+                        <p className="mt-1">{draftFinding.description}</p>
+                        <p className="mt-2 font-mono">Tax {formatCurrency(draftFinding.tax)} · Interest {formatCurrency(draftFinding.interest)} · Late fee {formatCurrency(draftFinding.lateFee)}</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-1">Defect Type</label>
+                        <select value={draftDefectType} onChange={e => setDraftDefectType(e.target.value)} className="w-full p-2.5 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500">
+                            {[...new Set([draftFinding.defectType, ...defectTypeOptions])].map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-1">Add To</label>
+                        <select value={draftTarget} onChange={e => setDraftTarget(e.target.value)} className="w-full p-2.5 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500">
+                            {checkPermission('create_notices') && <option value="new">New notice (opens the notice form)</option>}
+                            {openNotices.map(n => <option key={n.id} value={n.id}>{n.noticeNumber} – {n.noticeType} ({n.period})</option>)}
+                        </select>
+                        <p className="text-xs text-slate-500 mt-1">{draftTarget === 'new' ? 'The defect is saved together with the new notice.' : "The defect is added as Open and the notice's demand is recalculated."}</p>
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setDraftFinding(null)} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+                        <button onClick={handleCreateDraft} disabled={isSavingDraft} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-bold hover:bg-blue-700 disabled:opacity-50">
+                            {isSavingDraft ? 'Saving...' : draftTarget === 'new' ? 'Continue to Notice' : 'Add Defect'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
         {/* Fetch Online Modal */}
         {showFetchModal && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
-                <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 animate-in zoom-in-95">
+                <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl p-6 animate-in zoom-in-95 max-h-[90vh] overflow-y-auto">
                     <div className="flex justify-between items-center mb-6">
                         <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                             <CloudDownload className="text-purple-600"/> Fetch from GST Portal
                         </h3>
                         <button onClick={() => setShowFetchModal(false)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button>
                     </div>
-                    {/* ... (Form Content - Logic same, slight visual tweaks) ... */}
-                    <form onSubmit={handleExecuteFetch} className="space-y-5">
-                        <div className="p-4 bg-purple-50 rounded-lg border border-purple-100 text-sm text-purple-800 mb-4">
-                            <p className="font-semibold mb-1">API Parameters</p>
-                            <p className="text-xs opacity-90">Requests will be authenticated using credentials configured in Admin Settings.</p>
-                        </div>
 
-                        <div>
-                            <label className="block text-sm font-bold text-slate-700 mb-1">GSTIN <span className="text-red-500">*</span></label>
-                            <select 
-                                required
-                                className="w-full p-2.5 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-purple-500"
-                                value={fetchParams.gstin} 
-                                onChange={e => {
-                                    const val = e.target.value;
-                                    const t = taxpayers.find(tax => tax.gstin === val);
-                                    setFetchParams(prev => ({...prev, gstin: val, email: t?.email || prev.email, stateCode: val.substring(0, 2)}));
-                                }}
-                            >
-                                <option value="">Select Taxpayer</option>
-                                {taxpayers.map(t => <option key={t.id} value={t.gstin}>{t.tradeName} ({t.gstin})</option>)}
-                            </select>
-                        </div>
+                    <div className="p-4 bg-purple-50 rounded-lg border border-purple-100 text-sm text-purple-800 mb-5">
+                        <p className="font-semibold mb-1">Via {portalConfig?.provider === 'mock' ? 'local mock server' : 'GSP'}: {portalConfig?.baseUrl}</p>
+                        <p className="text-xs opacity-90">Client credentials, rate limit and retries are set in Admin Settings &gt; API Integration. Every request is recorded in the audit log.</p>
+                    </div>
 
-                        <div className="grid grid-cols-2 gap-4">
+                    {portalStep === 'login' && (
+                        <form onSubmit={handleRequestOtp} className="space-y-5">
                             <div>
-                                <label className="block text-sm font-bold text-slate-700 mb-1">Date <span className="text-red-500">*</span></label>
-                                <input 
-                                    type="date" 
-                                    required 
-                                    value={fetchParams.date} 
-                                    onChange={e => setFetchParams({...fetchParams, date: e.target.value})} 
-                                    className="w-full p-2.5 border border-slate-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-purple-500"
-                                />
+                                <label className="block text-sm font-bold text-slate-700 mb-1">GSTIN <span className="text-red-500">*</span></label>
+                                <select
+                                    required
+                                    className="w-full p-2.5 border border-slate-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-purple-500"
+                                    value={portalForm.gstin}
+                                    onChange={e => setPortalForm({ ...portalForm, gstin: e.target.value })}
+                                >
+                                    <option value="">Select Taxpayer</option>
+                                    {taxpayers.map(t => <option key={t.id} value={t.gstin}>{t.tradeName} ({t.gstin})</option>)}
+                                </select>
                             </div>
                             <div>
-                                <label className="block text-sm font-bold text-slate-700 mb-1">Email <span className="text-red-500">*</span></label>
-                                <input 
-                                    type="email" 
-                                    required 
-                                    placeholder="Registered Email"
-                                    value={fetchParams.email} 
-                                    onChange={e => setFetchParams({...fetchParams, email: e.target.value})} 
+                                <label className="block text-sm font-bold text-slate-700 mb-1">GST Username <span className="text-red-500">*</span></label>
+                                <input
+                                    type="text"
+                                    required
+                                    placeholder="Portal Username"
+                                    value={portalForm.username}
+                                    onChange={e => setPortalForm({ ...portalForm, username: e.target.value })}
                                     className="w-full p-2.5 border border-slate-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-purple-500"
                                 />
+                                <p className="text-xs text-slate-400 mt-1">An OTP is sent to the mobile registered with this GSTIN.</p>
                             </div>
-                        </div>
-
-                        <div>
-                            <label className="block text-sm font-bold text-slate-700 mb-1">GST Username <span className="text-red-500">*</span></label>
-                            <input 
-                                type="text" 
-                                required 
-                                placeholder="Portal Username"
-                                value={fetchParams.gstUsername} 
-                                onChange={e => setFetchParams({...fetchParams, gstUsername: e.target.value})} 
-                                className="w-full p-2.5 border border-slate-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-purple-500"
-                            />
-                        </div>
+                            <button
+                                type="submit"
+                                disabled={!!portalBusy}
+                                className={`w-full py-3 rounded-xl font-bold text-white shadow-lg transition-all flex justify-center items-center gap-2 ${portalBusy ? 'bg-slate-400 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700 shadow-purple-200'}`}
+                            >
+                                {portalBusy || <><Play size={18}/> Request OTP</>}
+                            </button>
+                        </form>
+                    )}
 
-                        <div className="grid grid-cols-2 gap-4">
+                    {portalStep === 'otp' && (
+                        <form onSubmit={handleVerifyOtp} className="space-y-5">
                             <div>
-                                <label className="block text-sm font-bold text-slate-700 mb-1">State Code</label>
-                                <input 
-                                    type="text" 
-                                    readOnly 
-                                    value={fetchParams.stateCode} 
-                                    className="w-full p-2.5 border border-slate-300 rounded-lg text-sm bg-slate-100 text-slate-500"
+                                <label className="block text-sm font-bold text-slate-700 mb-1">OTP for {portalForm.gstin} <span className="text-red-500">*</span></label>
+                                <input
+                                    type="text"
+                                    required
+                                    autoFocus
+                                    inputMode="numeric"
+                                    maxLength={6}
+                                    placeholder="6-digit OTP"
+                                    value={portalForm.otp}
+                                    onChange={e => setPortalForm({ ...portalForm, otp: e.target.value.replace(/\D/g, '') })}
+                                    className="w-full p-2.5 border border-slate-300 rounded-lg text-lg tracking-widest font-mono outline-none focus:ring-2 focus:ring-purple-500"
                                 />
+                                {portalConfig?.provider === 'mock' && <p className="text-xs text-slate-400 mt-1">The mock server accepts OTP {MOCK_OTP}.</p>}
                             </div>
-                            <div>
-                                <label className="block text-sm font-bold text-slate-700 mb-1">IP Address</label>
-                                <input 
-                                    type="text" 
-                                    readOnly 
-                                    value={fetchParams.ipAddress} 
-                                    className="w-full p-2.5 border border-slate-300 rounded-lg text-sm bg-slate-100 text-slate-500"
-                                />
+                            <div className="flex gap-3">
+                                <button type="button" onClick={() => setPortalStep('login')} className="px-4 py-3 rounded-xl border border-slate-300 text-slate-600 font-medium hover:bg-slate-50">Back</button>
+                                <button
+                                    type="submit"
+                                    disabled={!!portalBusy || portalForm.otp.length !== 6}
+                                    className={`flex-1 py-3 rounded-xl font-bold text-white shadow-lg transition-all flex justify-center items-center gap-2 ${portalBusy || portalForm.otp.length !== 6 ? 'bg-slate-400 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700 shadow-purple-200'}`}
+                                >
+                                    {portalBusy || <><KeyRound size={18}/> Verify OTP</>}
+                                </button>
                             </div>
-                        </div>
+                        </form>
+                    )}
 
-                        <div className="flex justify-end pt-4">
-                            <button 
-                                type="submit" 
-                                disabled={isFetching}
-                                className={`w-full py-3 rounded-xl font-bold text-white shadow-lg transition-all flex justify-center items-center gap-2 ${isFetching ? 'bg-slate-400 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700 shadow-purple-200'}`}
-                            >
-                                {isFetching ? 'Processing Request...' : <><Play size={18}/> Execute</>}
-                            </button>
+                    {portalStep === 'connected' && portalSession && (
+                        <div className="space-y-5">
+                            <div className="flex justify-between items-center text-sm">
+                                <span className="flex items-center gap-2 text-green-700 font-medium">
+                                    <CheckCircle size={16}/> Connected as {portalSession.username} for {portalSession.gstin}
+                                    <span className="text-xs text-slate-400 font-normal">until {new Date(portalSession.expiresAt).toLocaleTimeString()}</span>
+                                </span>
+                                <button onClick={handleDisconnect} className="text-xs text-slate-500 hover:text-red-600 flex items-center gap-1"><LogOut size={14}/> Disconnect</button>
+                            </div>
+                            {portalBusy && <div className="text-sm text-purple-700 flex items-center gap-2"><RefreshCw size={14} className="animate-spin"/> {portalBusy}</div>}
+
+                            {/* Return status */}
+                            <div className="border border-slate-200 rounded-lg p-4">
+                                <div className="flex justify-between items-center">
+                                    <div>
+                                        <p className="font-bold text-slate-700 text-sm">Return Filing Status, FY {filterYear}</p>
+                                        <p className="text-xs text-slate-500">Updates filing date, ARN and status of returns already on record.</p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button onClick={handleFetchStatus} disabled={!!portalBusy} className="px-3 py-1.5 text-xs font-medium rounded-lg border border-slate-300 hover:bg-slate-50 disabled:opacity-50">Fetch Status</button>
+                                        {portalStatuses && portalStatuses.length > 0 && (
+                                            <button onClick={handleApplyStatus} disabled={!!portalBusy} className="px-3 py-1.5 text-xs font-medium rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50">Update Records</button>
+                                        )}
+                                    </div>
+                                </div>
+                                {portalStatuses && (
+                                    portalStatuses.length === 0 ? <p className="text-xs text-slate-400 mt-3">No filings reported for FY {filterYear}.</p> : (
+                                        <div className="mt-3 max-h-48 overflow-y-auto">
+                                            <table className="w-full text-xs">
+                                                <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                                                    <tr><th className="p-2 text-left">Return</th><th className="p-2 text-left">Period</th><th className="p-2 text-left">Filed On</th><th className="p-2 text-left">ARN</th><th className="p-2 text-left">On Record</th></tr>
+                                                </thead>
+                                                <tbody className="divide-y divide-slate-100">
+                                                    {portalStatuses.map(st => {
+                                                        const record = returns.find(r => r.gstin === portalSession.gstin && r.returnType === st.returnType && r.period === st.period);
+                                                        return (
+                                                            <tr key={`${st.returnType}-${st.period}`}>
+                                                                <td className="p-2 font-medium">{st.returnType}</td>
+                                                                <td className="p-2">{st.period}</td>
+                                                                <td className="p-2">{st.filingDate ? formatDate(st.filingDate) : st.status}</td>
+                                                                <td className="p-2 font-mono text-slate-500">{st.arn || '-'}</td>
+                                                                <td className="p-2">
+                                                                    {!record ? <span className="text-amber-600">Not imported</span>
+                                                                        : record.filingDate === st.filingDate && record.status === st.status && (!st.arn || record.arn === st.arn) ? <span className="text-green-600">Current</span>
+                                                                        : <span className="text-blue-600">Will update</span>}
+                                                                </td>
+                                                            </tr>
+                                                        );
+                                                    })}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    )
+                                )}
+                            </div>
+
+                            {/* GSTR-2B */}
+                            <div className="border border-slate-200 rounded-lg p-4">
+                                <div className="flex justify-between items-center">
+                                    <div>
+                                        <p className="font-bold text-slate-700 text-sm">GSTR-2B Statements</p>
+                                        <p className="text-xs text-slate-500">Downloaded statements open in Import for review before saving.</p>
+                                    </div>
+                                    <button onClick={handleFetch2b} disabled={!!portalBusy || portal2bMonths.length === 0} className="px-3 py-1.5 text-xs font-medium rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50">
+                                        Fetch {portal2bMonths.length || ''} Month{portal2bMonths.length === 1 ? '' : 's'}
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-6 gap-2 mt-3">
+                                    {portalMonths.map(m => {
+                                        const selected = portal2bMonths.includes(m.value);
+                                        return (
+                                            <button
+                                                key={m.value}
+                                                onClick={() => setPortal2bMonths(prev => selected ? prev.filter(v => v !== m.value) : [...prev, m.value])}
+                                                className={`px-2 py-1.5 text-xs rounded-md border ${selected ? 'bg-purple-100 border-purple-400 text-purple-800 font-medium' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                                            >
+                                                {m.label}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+
+                            {/* Case folder */}
+                            <div className="border border-slate-200 rounded-lg p-4">
+                                <div className="flex justify-between items-center">
+                                    <div>
+                                        <p className="font-bold text-slate-700 text-sm">Case Folder</p>
+                                        <p className="text-xs text-slate-500">Notices and orders issued on the portal; a new one opens in Notice intake with its PDF.</p>
+                                    </div>
+                                    <button onClick={handleFetchCaseFolder} disabled={!!portalBusy} className="px-3 py-1.5 text-xs font-medium rounded-lg border border-slate-300 hover:bg-slate-50 disabled:opacity-50">Load Case Folder</button>
+                                </div>
+                                {portalDocuments && (
+                                    portalDocuments.length === 0 ? <p className="text-xs text-slate-400 mt-3">No notices or orders in the case folder.</p> : (
+                                        <div className="mt-3 divide-y divide-slate-100">
+                                            {portalDocuments.map(doc => {
+                                                const tracked = portalNotices.find(n => n.noticeNumber === doc.referenceNumber || (!!doc.din && n.din === doc.din));
+                                                return (
+                                                    <div key={doc.id} className="py-2 flex justify-between items-start gap-4 text-xs">
+                                                        <div>
+                                                            <p className="font-medium text-slate-700">{doc.form} {doc.kind} &middot; {doc.referenceNumber}</p>
+                                                            <p className="text-slate-500">{doc.description}</p>
+                                                            <p className="text-slate-400">
+                                                                Issued {formatDate(doc.issueDate)}{doc.dueDate ? `, due ${formatDate(doc.dueDate)}` : ''}{doc.period ? ` · ${doc.period}` : ''}{doc.amount ? ` · ${formatCurrency(doc.amount)}` : ''}
+                                                            </p>
+                                                        </div>
+                                                        {tracked ? (
+                                                            <button onClick={() => navigate(`/notices/${tracked.id}`)} className="shrink-0 text-green-700 hover:underline flex items-center gap-1"><CheckCircle size={12}/> Tracked</button>
+                                                        ) : checkPermission('create_notices') && (
+                                                            <button onClick={() => handleOpenCaseDocument(doc)} disabled={!!portalBusy} className="shrink-0 px-2 py-1 rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 flex items-center gap-1"><FilePlus size={12}/> Create Notice</button>
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )
+                                )}
+                            </div>
                         </div>
-                    </form>
+                    )}
                 </div>
             </div>
         )}
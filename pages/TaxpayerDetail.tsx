@@ -1,11 +1,14 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { Taxpayer } from '../types';
-import { Save, ArrowLeft, Building, FileText, ExternalLink, Map, ShieldCheck, Activity } from 'lucide-react';
+import { FilingProfile, Taxpayer } from '../types';
+import { Save, ArrowLeft, Building, FileText, ExternalLink, Map, ShieldCheck, Activity, CalendarCheck } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { COMPLIANCE_STATUS_STYLES, DEFAULT_FILING_PROFILE, FILING_SCHEMES, buildComplianceSchedule, quarterly3bDueDay } from '../utils/complianceCalendar';
+import { DEFAULT_LIMITATION_CONFIG } from '../utils/limitation';
+import { formatDate } from '../utils/formatting';
 
 const TaxpayerDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -34,6 +37,24 @@ const TaxpayerDetail: React.FC = () => {
     return [];
   }, [formData.gstin]);
 
+  const gstinReturns = useLiveQuery(() => formData.gstin ? db.returns.where('gstin').equals(formData.gstin).toArray() : [], [formData.gstin]);
+  const configLimitation = useLiveQuery(() => db.appConfig.get({ key: 'limitation_config' }));
+
+  // Last financial year to date plus the next few weeks, newest first
+  const schedule = useMemo(() => {
+      if (isNew || !formData.gstin || !formData.filingProfile || !gstinReturns) return [];
+      const now = new Date();
+      const fyStart = (now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1) - 1;
+      const horizon = new Date(now.getTime() + 45 * 24 * 3600 * 1000).toISOString().split('T')[0];
+      return buildComplianceSchedule([formData as Taxpayer], gstinReturns, `${fyStart}-04-01`, horizon, configLimitation?.value || DEFAULT_LIMITATION_CONFIG).reverse();
+  }, [isNew, formData, gstinReturns, configLimitation]);
+  const overdueCount = schedule.filter(d => d.status === 'Overdue').length;
+  const lateCount = schedule.filter(d => d.status === 'Filed Late').length;
+
+  const updateProfile = (changes: Partial<FilingProfile>) => {
+      setFormData(prev => ({ ...prev, filingProfile: { ...(prev.filingProfile || DEFAULT_FILING_PROFILE), ...changes } }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
       if (!formData.gstin || !formData.tradeName) { alert("GSTIN and Trade Name are required"); return; }
@@ -179,6 +200,69 @@ const TaxpayerDetail: React.FC = () => {
                    </div>
                </div>
 
+               <div className="flex items-center justify-between gap-3 mt-8 mb-6 pb-4 border-b border-slate-100">
+                    <div className="flex items-center gap-3">
+                        <div className="p-3 bg-sky-50 rounded-full text-sky-600"><CalendarCheck size={24}/></div>
+                        <div>
+                            <h3 className="font-semibold text-slate-800">Return Filing Profile</h3>
+                            <p className="text-xs text-slate-500">Drives the recurring due dates shown in the compliance calendar</p>
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={!!formData.filingProfile}
+                            onChange={e => setFormData({ ...formData, filingProfile: e.target.checked ? { ...DEFAULT_FILING_PROFILE } : undefined })}
+                            className="rounded text-sky-600"
+                        />
+                        Track filing due dates
+                    </label>
+               </div>
+
+               {formData.filingProfile && (
+                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4 bg-slate-50 p-4 rounded-lg border border-slate-200">
+                       <div>
+                           <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Filing Scheme</label>
+                           <select
+                                value={formData.filingProfile.scheme}
+                                onChange={e => updateProfile({ scheme: e.target.value as FilingProfile['scheme'] })}
+                                className="w-full p-2 border border-slate-300 rounded text-sm bg-white"
+                           >
+                               {FILING_SCHEMES.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                           </select>
+                       </div>
+                       <div>
+                           <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Effective From</label>
+                           <input type="date" required value={formData.filingProfile.effectiveFrom} onChange={e => updateProfile({ effectiveFrom: e.target.value })} className="w-full p-2 border border-slate-300 rounded text-sm" />
+                       </div>
+                       <div>
+                           <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Effective To</label>
+                           <input type="date" value={formData.filingProfile.effectiveTo || ''} onChange={e => updateProfile({ effectiveTo: e.target.value || undefined })} className="w-full p-2 border border-slate-300 rounded text-sm" />
+                       </div>
+                       <div className="md:col-span-3 flex flex-wrap gap-x-6 gap-y-2 text-sm text-slate-700">
+                           {formData.filingProfile.scheme === 'QRMP' && (
+                               <label className="flex items-center gap-2">
+                                   <input type="checkbox" checked={!!formData.filingProfile.iff} onChange={e => updateProfile({ iff: e.target.checked })} className="rounded"/>
+                                   Furnishes IFF (months 1 and 2 of the quarter)
+                               </label>
+                           )}
+                           <label className="flex items-center gap-2">
+                               <input type="checkbox" checked={formData.filingProfile.annualReturn} onChange={e => updateProfile({ annualReturn: e.target.checked })} className="rounded"/>
+                               {formData.filingProfile.scheme === 'Composition' ? 'Files GSTR-4' : 'Files GSTR-9'}
+                           </label>
+                           {formData.filingProfile.scheme !== 'Composition' && (
+                               <label className="flex items-center gap-2">
+                                   <input type="checkbox" checked={!!formData.filingProfile.reconciliationStatement} onChange={e => updateProfile({ reconciliationStatement: e.target.checked })} className="rounded"/>
+                                   Files GSTR-9C
+                               </label>
+                           )}
+                       </div>
+                       {formData.filingProfile.scheme === 'QRMP' && formData.gstin && formData.gstin.length >= 2 && (
+                           <p className="md:col-span-3 text-xs text-slate-500">Quarterly GSTR-3B for state code {formData.gstin.substring(0, 2)} is due on the {quarterly3bDueDay(formData.gstin) === 22 ? '22nd' : '24th'}.</p>
+                       )}
+                   </div>
+               )}
+
                <div className="pt-4 flex justify-end">
                    <button type="submit" className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2 shadow-sm">
                        <Save size={18}/> Save Taxpayer
@@ -187,6 +271,52 @@ const TaxpayerDetail: React.FC = () => {
            </form>
        </div>
 
+       {/* Compliance Schedule */}
+       {!isNew && formData.filingProfile && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+           <div className="flex justify-between items-center mb-4">
+                <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+                    <CalendarCheck size={20} className="text-sky-600"/> Filing Compliance
+                </h3>
+                <div className="flex gap-2 text-xs">
+                    {overdueCount > 0 && <span className={`px-2 py-0.5 rounded-full border ${COMPLIANCE_STATUS_STYLES['Overdue']}`}>{overdueCount} overdue</span>}
+                    {lateCount > 0 && <span className={`px-2 py-0.5 rounded-full border ${COMPLIANCE_STATUS_STYLES['Filed Late']}`}>{lateCount} filed late</span>}
+                    <button onClick={() => navigate('/calendar')} className="flex items-center gap-1 text-blue-600 hover:underline">Calendar <ExternalLink size={12}/></button>
+                </div>
+           </div>
+
+           <div className="overflow-x-auto border rounded-lg max-h-96 overflow-y-auto">
+               <table className="w-full text-sm text-left">
+                   <thead className="bg-slate-50 text-slate-500 uppercase text-xs font-bold sticky top-0">
+                       <tr>
+                           <th className="px-4 py-3">Return</th>
+                           <th className="px-4 py-3">Period</th>
+                           <th className="px-4 py-3">Due Date</th>
+                           <th className="px-4 py-3">Filed On</th>
+                           <th className="px-4 py-3">Status</th>
+                       </tr>
+                   </thead>
+                   <tbody className="divide-y divide-slate-100">
+                       {schedule.map(due => (
+                           <tr key={due.key} className="hover:bg-slate-50">
+                               <td className="px-4 py-2 font-medium text-slate-800">{due.form}</td>
+                               <td className="px-4 py-2 text-slate-600">{due.label}</td>
+                               <td className="px-4 py-2 text-slate-600">{formatDate(due.dueDate)}</td>
+                               <td className="px-4 py-2 text-slate-600">{due.filingDate ? formatDate(due.filingDate) : '-'}</td>
+                               <td className="px-4 py-2">
+                                   <span className={`px-2 py-0.5 rounded-full text-xs border ${COMPLIANCE_STATUS_STYLES[due.status]}`}>
+                                       {due.status}{due.daysLate ? ` (${due.daysLate} days)` : ''}
+                                   </span>
+                               </td>
+                           </tr>
+                       ))}
+                       {!schedule.length && <tr><td colSpan={5} className="text-center py-4 text-slate-400">No due dates in this window.</td></tr>}
+                   </tbody>
+               </table>
+           </div>
+        </div>
+       )}
+
        {/* Linked Notices Section */}
        {!isNew && (
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
@@ -1,7 +1,8 @@
 
-const { app, BrowserWindow, screen } = require('electron');
+const { app, BrowserWindow, screen, ipcMain, dialog } = require('electron');
 const path = require('path');
 const fs = require('fs');
+const http = require('http');
 
 // Determine dev mode
 const isDev = !app.isPackaged;
@@ -44,6 +45,110 @@ if (!isDev) {
 }
 // -------------------------------------------
 
+// --- SCHEDULED BACKUPS ---
+/**
+ * The renderer builds the archive (IndexedDB lives there) and hands the bytes over;
+ * writing, rotation and the folder picker need Node / native dialogs.
+ */
+const AUTO_BACKUP_PREFIX = 'GSTNexus_Auto_';
+const EXIT_BACKUP_TIMEOUT_MS = 2 * 60 * 1000;
+
+ipcMain.handle('backup:default-folder', () => path.join(app.getPath('userData'), 'Backups'));
+
+ipcMain.handle('backup:choose-folder', async (event) => {
+  const result = await dialog.showOpenDialog(BrowserWindow.fromWebContents(event.sender), {
+    title: 'Backup Folder',
+    properties: ['openDirectory', 'createDirectory']
+  });
+  return result.canceled ? null : result.filePaths[0];
+});
+
+ipcMain.handle('backup:write', async (_event, { folder, fileName, data, keep }) => {
+  await fs.promises.mkdir(folder, { recursive: true });
+  const target = path.join(folder, fileName);
+  // Write under a temporary name so a network drop never leaves a truncated archive behind
+  const partial = `${target}.partial`;
+  await fs.promises.writeFile(partial, Buffer.from(data));
+  await fs.promises.rename(partial, target);
+
+  // Only archives written by the scheduler are rotated; manual backups in the same folder are left alone
+  const generations = (await fs.promises.readdir(folder))
+    .filter(name => name.startsWith(AUTO_BACKUP_PREFIX) && name.endsWith('.gstbak'))
+    .sort()
+    .reverse();
+  const removed = [];
+  for (const name of generations.slice(Math.max(1, keep))) {
+    try {
+      await fs.promises.unlink(path.join(folder, name));
+      removed.push(name);
+    } catch (e) {
+      console.error('Could not remove old backup:', e);
+    }
+  }
+  return { path: target, removed };
+});
+// -------------------------------------------
+
+// --- CALENDAR FEED ---
+/**
+ * The renderer builds the .ics feeds and pushes them here whenever the data changes; calendar
+ * apps on this machine subscribe to http://127.0.0.1:<port>/<token>/firm.ics (or user/<name>.ics,
+ * client/<gstin>.ics). Loopback only, and unknown tokens get a 404.
+ */
+let feedServer = null;
+let feedPort = null;
+let feedToken = null;
+let feeds = {};
+
+const stopFeedServer = () => new Promise(resolve => {
+  if (!feedServer) return resolve();
+  const server = feedServer;
+  feedServer = null;
+  feedPort = null;
+  server.close(() => resolve());
+  // Calendar apps keep connections alive; without this close() waits for them to time out
+  server.closeAllConnections();
+});
+
+const startFeedServer = (port) => new Promise((resolve, reject) => {
+  const server = http.createServer((req, res) => {
+    let parts = [];
+    try {
+      parts = new URL(req.url, 'http://127.0.0.1').pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch (e) {
+      // Malformed escapes fall through to the 404 below
+    }
+    const body = req.method === 'GET' && feedToken && parts[0] === feedToken ? feeds[parts.slice(1).join('/').replace(/\.ics$/i, '')] : null;
+    if (!body) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      return res.end('Not found');
+    }
+    res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-cache' });
+    res.end(body);
+  });
+  server.once('error', reject);
+  server.listen(port, '127.0.0.1', () => {
+    feedServer = server;
+    feedPort = port;
+    resolve();
+  });
+});
+
+ipcMain.handle('calendar-feed:publish', async (_event, { port, token, feeds: next }) => {
+  if (feedServer && feedPort !== port) await stopFeedServer();
+  if (!feedServer) await startFeedServer(port);
+  feedToken = token;
+  feeds = next;
+  return { port, feeds: Object.keys(next).length };
+});
+
+ipcMain.handle('calendar-feed:stop', async () => {
+  feeds = {};
+  feedToken = null;
+  await stopFeedServer();
+});
+// -------------------------------------------
+
 function createWindow() {
   const { width, height } = screen.getPrimaryDisplay().workAreaSize;
 
@@ -63,6 +168,23 @@ function createWindow() {
   });
 
   win.setMenuBarVisibility(false);
+
+  // Give the renderer a chance to run the on-exit backup before the window goes away
+  let exitHandled = false;
+  win.on('close', (e) => {
+    if (exitHandled) return;
+    e.preventDefault();
+    exitHandled = true;
+    const finish = () => {
+      clearTimeout(timer);
+      ipcMain.removeListener('app:exit-ready', onReady);
+      if (!win.isDestroyed()) win.destroy();
+    };
+    const onReady = (event) => { if (event.sender === win.webContents) finish(); };
+    const timer = setTimeout(finish, EXIT_BACKUP_TIMEOUT_MS);
+    ipcMain.on('app:exit-ready', onReady);
+    win.webContents.send('app:before-exit');
+  });
   
   const startUrl = isDev 
     ? 'http://localhost:3000' 
@@ -50,11 +50,84 @@ export const DEFAULT_ROLE_PERMISSIONS: Record<string, PermissionType[]> = {
 export interface User {
   id?: number;
   username: string;
-  passwordHash: string; // In real app, use bcrypt. Here simple hash.
+  passwordHash: string; // PBKDF2 hash (see utils/security); legacy rows may still hold plain text until migrated
   fullName: string;
   role: string; // Changed from UserRole to allow dynamic configuration
   email: string;
   isActive: boolean;
+  mustChangePassword?: boolean; // Seeded / admin-set passwords must be replaced on first login
+  passwordChangedAt?: string;
+  failedLoginAttempts?: number;
+  lockedUntil?: string; // ISO timestamp
+  lastLoginAt?: string;
+}
+
+export interface Session {
+  id?: number;
+  token: string; // Random token kept in localStorage instead of the user record
+  userId: number;
+  createdAt: string;
+  lastActivityAt: string;
+  expiresAt: string; // Absolute expiry regardless of activity
+}
+
+export interface SecurityPolicy {
+  maxFailedAttempts: number;
+  lockoutMinutes: number;
+  idleTimeoutMinutes: number;
+  absoluteTimeoutHours: number;
+}
+
+export interface BackupSchedule {
+  enabled: boolean;
+  folder: string; // Local or network (UNC) path
+  frequency: 'daily' | 'weekly';
+  time: string; // HH:mm
+  weekday: number; // 0 = Sunday, used for weekly runs
+  onExit: boolean;
+  keepGenerations: number;
+  alertAfterDays: number; // Notify when no backup has succeeded for this long (0 = never)
+}
+
+export interface BackupRunStatus {
+  lastAttemptAt?: string;
+  lastSuccessAt?: string;
+  lastFile?: string;
+  lastError?: string;
+}
+
+// Calendar subscription feed served by the Electron shell, stored under appConfig 'calendar_feed'
+export interface CalendarFeedConfig {
+  enabled: boolean;
+  port: number; // Bound to 127.0.0.1 only
+  token: string; // Random path segment, so only holders of the URL can read the feed
+  includeFilings: boolean;
+}
+
+// GST data provider (Admin Settings > API Integration), stored under appConfig 'api_config'
+export interface GstApiConfig {
+  provider: 'gsp' | 'mock'; // Both speak the same GSP-style API; mock is the bundled local server
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  requestsPerMinute: number;
+  maxRetries: number;
+  timeoutSeconds: number;
+}
+
+export interface EncryptionKeyInfo {
+  version: number;
+  salt: string; // base64
+  iterations: number;
+  verifier: string; // Known text sealed with this key, checks the passphrase
+  createdAt: string;
+  wrappedKey?: string; // An older key sealed with the current one, while rows sealed by it remain (interrupted re-key)
+}
+
+export interface EncryptionConfig {
+  enabled: boolean;
+  currentVersion: number;
+  keys: EncryptionKeyInfo[]; // More than one only while a re-key is in progress
 }
 
 export interface Notification {
@@ -66,12 +139,37 @@ export interface Notification {
   link?: string;
   isRead: boolean;
   createdAt: string;
+  ruleId?: string; // Set on notifications raised by a notification rule
+  dedupeKey?: string; // Rule + record + trigger date; one live alert per key and recipient
+}
+
+// Notification rules (Admin Settings > Notifications), stored in appConfig under 'notification_rules'
+export type NotificationEntity = 'Notice' | 'Hearing' | 'Invoice' | 'Return';
+
+// within: the date falls in the next offsetDays (today included); passed: the date is more than offsetDays behind
+export type NotificationCondition = 'within' | 'passed';
+
+export interface NotificationRule {
+  id: string;
+  name: string; // Used as the notification title
+  enabled: boolean;
+  entity: NotificationEntity;
+  field: string; // Date field of the entity (see NOTIFICATION_ENTITIES)
+  condition: NotificationCondition;
+  offsetDays: number;
+  statuses: string[]; // Only records in these statuses; empty = any
+  openOnly: boolean; // Notices only: skip the statuses marked resolved under Overdue Logic
+  severity: Notification['type'];
+  notifyAssignee: boolean; // Notice assignee (hearings through their notice), invoice creator
+  roles: string[]; // Everyone holding these roles; with no recipient at all the alert is system-wide
+  repeatDays: number; // Alert again this many days after the last one was read; 0 = once per date
 }
 
 export interface AppConfig {
   id?: number;
   key: string; // 'notice_types', 'notice_statuses', 'user_roles', 'perm:<role>', 'api_config'
   value: any; // Changed from string[] to any to support objects (like API config)
+  secret?: string; // Sealed at rest when encryption is on (e.g. the automatic backup passphrase)
 }
 
 export interface Taxpayer {
@@ -87,6 +185,35 @@ export interface Taxpayer {
   stateCircle?: string; // e.g. Pune Zone 1
   centralRange?: string; // e.g. Range 5 Division 2
   status?: string; // e.g. Active, Dormant
+  filingProfile?: FilingProfile; // Return obligations for the compliance calendar; none = not tracked
+}
+
+export type FilingScheme = 'Monthly' | 'QRMP' | 'Composition';
+
+export interface FilingProfile {
+  scheme: FilingScheme;
+  effectiveFrom: string; // ISO date; periods ending before it carry no due date
+  effectiveTo?: string; // Cancellation or change of scheme
+  iff?: boolean; // QRMP: B2B invoices furnished through IFF in the first two months of the quarter
+  annualReturn: boolean; // GSTR-9, or GSTR-4 under composition
+  reconciliationStatement?: boolean; // GSTR-9C
+}
+
+// Admin-defined workflow: the status changes allowed for a case track
+export type WorkflowField = 'replyFiledDate' | 'replyAckArn' | 'orderNumber' | 'orderDate' | 'closureReason' | 'hearingDate' | 'hearingTime' | 'hearingVenue';
+export type WorkflowAction = 'createHearing' | 'startContestClock';
+
+export interface WorkflowTransition {
+  from: string[]; // Empty: from any status
+  to: string;
+  requiredFields: WorkflowField[];
+  roles: string[]; // Empty: any role that can edit notices
+  actions: WorkflowAction[];
+}
+
+export interface CaseWorkflow {
+  caseType: string; // '' is the default for case tracks without a workflow of their own
+  transitions: WorkflowTransition[];
 }
 
 export interface Notice {
@@ -94,6 +221,7 @@ export interface Notice {
   gstin: string; // Foreign key to Taxpayer
   arn?: string; // Application Reference Number (Parent grouping)
   noticeNumber: string; // Specific Reference Number (DIN/Notice No)
+  din?: string; // Document Identification Number printed on the notice
   noticeType: string; // Configurable Dropdown (e.g., SCN, ASMT-10)
   caseType?: string; // NEW: Track/Category (e.g., Assessment, Demand, Rectification)
   section: string; // e.g., ASMT-10, DRC-01
@@ -113,6 +241,13 @@ export interface Notice {
   lastCheckedDate?: string; // ISO Date - Last time the professional reviewed this case
   linkedCaseId?: string; // NEW: To link ASMT->DRC or Appeal chains manually
   budgetedHours?: number; // NEW: Time Planning
+  limitationTrack?: LimitationTrack; // Overrides the track derived from the section
+  limitation?: LimitationRecord; // Last computed limitation dates (for citing in replies)
+  replyFiledDate?: string; // Captured by workflow transitions
+  replyAckArn?: string; // Acknowledgement of the reply filed on the portal
+  orderNumber?: string;
+  orderDate?: string;
+  closureReason?: string;
   
   // Legacy fields (kept for migration safety, but UI will use hearings table)
   hearingDate?: string;
@@ -121,6 +256,41 @@ export interface Notice {
   hearingOutcome?: string;
 }
 
+// Limitation (Section 73 / 74)
+export type LimitationTrack = '73' | '74';
+
+export interface LimitationExtension {
+  period: string; // FY 2017-18
+  track: LimitationTrack;
+  orderDate: string; // Extended last date for the order
+  reference?: string; // Notification No.
+}
+
+export interface LimitationExclusion {
+  from: string;
+  to: string;
+  track: LimitationTrack | 'Both';
+  reference?: string;
+}
+
+export interface LimitationConfig {
+  annualReturnDueDates: Record<string, string>; // Period -> Due date of GSTR-9 (as extended)
+  extensions: LimitationExtension[];
+  exclusions: LimitationExclusion[];
+}
+
+export interface LimitationRecord {
+  track: LimitationTrack;
+  period: string;
+  annualReturnDueDate: string;
+  scnDeadline: string;
+  orderDeadline: string;
+  checkedAgainst: 'SCN' | 'Order';
+  status: 'Within Time' | 'Time-Barred';
+  basis: string; // Human readable working, e.g. extension notification applied
+  computedOn: string;
+}
+
 export interface Hearing {
   id?: number;
   noticeId: number;
@@ -131,6 +301,46 @@ export interface Hearing {
   attendees?: string; // Who attended (Staff/Client)
   status: HearingStatus;
   minutes?: string; // Outcome/Notes
+  previousHearingId?: number; // The hearing this one was adjourned from
+  adjournment?: HearingAdjournment; // Set once this hearing is adjourned
+}
+
+export type AdjournmentParty = 'Taxpayer' | 'Department' | 'Adjudicating Authority';
+
+export interface HearingAdjournment {
+  reason: string;
+  soughtBy: AdjournmentParty;
+  requestedOn: string; // ISO Date
+  nextHearingId?: number;
+  recordedBy: string; // username
+}
+
+// Appeal Proceedings (First Appeal -> GSTAT -> High Court -> Supreme Court)
+export type AppealForum = 'First Appeal' | 'GSTAT' | 'High Court' | 'Supreme Court';
+export type AppealOutcome = 'Pending' | 'Allowed' | 'Partly Allowed' | 'Dismissed' | 'Remanded';
+
+export interface AppealDefectOutcome {
+  defectId: number;
+  outcome: AppealOutcome;
+  remarks?: string;
+}
+
+export interface AppealProceeding {
+  id?: number;
+  noticeId: number; // The order (DRC-07 etc.) this chain contests
+  parentAppealId?: number; // Previous forum's appeal, if escalated
+  forum: AppealForum;
+  appealNumber?: string; // APL-01 ARN / Appeal No / WP No
+  authority?: string; // Appellate Authority / Bench / Court
+  orderDate: string; // Date of communication of the order under appeal
+  filingDate?: string;
+  status: 'Draft' | 'Filed' | 'Admitted' | 'Heard' | 'Disposed' | 'Withdrawn';
+  stayStatus?: 'Not Applied' | 'Applied' | 'Granted' | 'Rejected';
+  stayApplicationDate?: string;
+  stayOrderDate?: string;
+  disposalDate?: string;
+  outcomes: AppealDefectOutcome[];
+  remarks?: string;
 }
 
 export interface TaxHeadValues {
@@ -159,6 +369,16 @@ export interface NoticeDefect {
   interestDemand: number;
   penaltyDemand: number;
 
+  // Appeal stance on an order (drives pre-deposit)
+  appealStance?: 'Admitted' | 'Disputed';
+
+  // ITC wrongly availed and utilised: interest at the Sec 50(3) rate
+  excessItc?: boolean;
+
+  // Reply to this defect ({{defect.submission}} in reply templates), built up from the clause library
+  replySubmission?: string;
+  clauseIds?: number[]; // Library clauses inserted into the submission
+
   // Waiver Status
   status?: 'Open' | 'Waived';
   waiverDate?: string;
@@ -188,9 +408,9 @@ export interface PaymentLog {
 
 export interface AuditLog {
   id?: number;
-  entityType: 'Notice' | 'Payment' | 'Taxpayer' | 'System' | 'Auth' | 'Defect' | 'Reconciliation' | 'Document' | 'Hearing' | 'Return' | 'TimeSheet' | 'Invoice';
+  entityType: 'Notice' | 'Payment' | 'Taxpayer' | 'System' | 'Auth' | 'Defect' | 'Reconciliation' | 'Document' | 'Hearing' | 'Return' | 'TimeSheet' | 'Invoice' | 'Appeal';
   entityId: number | string;
-  action: 'Create' | 'Update' | 'Delete' | 'StatusChange' | 'Login';
+  action: 'Create' | 'Update' | 'Delete' | 'StatusChange' | 'Login' | 'Logout' | 'LoginFailed' | 'Lockout' | 'SessionExpired' | 'PasswordChange' | 'Rekey' | 'Backup' | 'Restore' | 'ApiRequest';
   timestamp: string;
   user: string;
   details: string; // JSON string of changes
@@ -211,14 +431,104 @@ export interface DocumentMeta {
   noticeId: number;
   fileName: string;
   fileType: string;
-  category: 'Notice Scan' | 'Evidence' | 'Reconciliation' | 'Ledger' | 'Other';
+  category: 'Notice Scan' | 'Evidence' | 'Reconciliation' | 'Ledger' | 'Reply Draft' | 'Other';
   uploadDate: string;
   size: number;
   fileData?: Blob; // Storing the file content for offline access
   ocrText?: string; // Extracted text for searchability
+  ocrPages?: string[]; // Text per page (images have a single page)
+  ocrStatus?: OcrStatus;
+  ocrDate?: string;
+  ocrError?: string;
+}
+
+export type OcrStatus = 'Queued' | 'Processing' | 'Done' | 'Failed';
+
+// Reply templates (merge fields and per-defect blocks, see utils/replyTemplates)
+export interface ReplyTemplate {
+  id?: number;
+  name: string;
+  noticeTypes: string[]; // Offered first for these notice types; empty = any notice
+  body: string;
+  isActive: boolean;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Reusable reply paragraphs, suggested for defects of the tagged types / sections
+export interface ReplyClause {
+  id?: number;
+  title: string;
+  body: string; // May use reply merge fields, e.g. {{notice.period}}
+  defectTypes: string[]; // Entries of the defect_types config
+  sections: string[]; // e.g. "16(2)(c)", "Rule 86B"
+  usageCount: number; // Times inserted into a defect's submission
+  lastUsedAt?: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface ReplyDraft {
+  id?: number;
+  noticeId: number;
+  templateId?: number;
+  templateName: string; // Snapshot in case the template is renamed or deleted
+  version: number; // 1, 2, ... per notice
+  text: string; // Rendered text, kept for comparing versions
+  missingFields?: string[]; // Merge fields that had no value when generated
+  docxDocumentId?: number;
+  pdfDocumentId?: number;
+  createdAt: string;
+  createdBy: string;
+}
+
+// Knowledge base of judgments, circulars and rulings the firm relies on
+export type AuthorityKind = 'Judgment' | 'Circular' | 'Notification' | 'Advance Ruling' | 'Instruction';
+
+export interface LegalAuthority {
+  id?: number;
+  kind: AuthorityKind;
+  citation: string; // e.g. "(2023) 8 Centax 12 (Cal.)", "Circular No. 183/15/2022-GST"
+  title: string; // Case name or subject
+  forum: string; // Court / bench / CBIC / AAR
+  date?: string; // Date of judgment or issue
+  headnote: string;
+  fullText?: string; // Typed in, or extracted from the attached PDF
+  fileName?: string;
+  fileType?: string;
+  fileData?: Blob;
+  sections: string[]; // e.g. "16(2)(c)", "Rule 86B"
+  defectTypes: string[]; // Entries of the defect_types config
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// An authority relied upon in a case, for the notice as a whole or one defect
+export interface AuthorityCitation {
+  id?: number;
+  authorityId: number;
+  noticeId: number;
+  defectId?: number;
+  note?: string; // Paragraph or proposition relied on
+  citedAt: string;
+  citedBy: string;
 }
 
 // Reconciliation Worksheet Types
+export type ReconciliationType = 'Turnover (GSTR-1 vs Books)' | 'Tax Liability (GSTR-3B vs Books)' | 'ITC (GSTR-2B vs Books)' | 'Liability (GSTR-1 vs GSTR-3B)' | 'ITC (GSTR-3B vs GSTR-2B)' | 'E-Way Bill vs GSTR-1' | 'Custom';
+
+// Monthly figures read from ReturnRecords, and the trial-balance groupings that feed the books side
+export type ReturnMetric = 'GSTR-1 Taxable Value' | 'GSTR-1 Tax Liability' | 'GSTR-3B Taxable Value' | 'GSTR-3B Tax Liability' | 'GSTR-3B ITC' | 'GSTR-2B ITC';
+export type BooksCategory = 'Turnover' | 'Output Tax' | 'Input Tax Credit';
+
+export interface ReconciliationAutoBuild {
+  sourceA: ReturnMetric;
+  sourceB: ReturnMetric | BooksCategory;
+  booksFile?: string; // Trial balance the books side was taken from
+  builtAt: string;
+}
+
 export interface ReconciliationRow {
   period: string; // "April", "May", "Q1", etc.
   sourceA: number; // e.g., GSTR-1 Value
@@ -231,15 +541,68 @@ export interface ReconciliationRecord {
   id?: number;
   gstin: string;
   noticeId?: number; // Link to specific notice if applicable
-  type: 'Turnover (GSTR-1 vs Books)' | 'Tax Liability (GSTR-3B vs Books)' | 'ITC (GSTR-2B vs Books)' | 'E-Way Bill vs GSTR-1' | 'Custom';
+  type: ReconciliationType;
   financialYear: string;
   rows: ReconciliationRow[];
+  invoiceMatch?: InvoiceMatchResult; // Invoice-level working behind an ITC worksheet
+  autoBuild?: ReconciliationAutoBuild; // Set when the rows are pulled from stored returns
   updatedAt: string;
   lastModifiedBy: string;
 }
 
+// Invoice-level ITC matching (purchase register vs GSTR-2B B2B)
+export interface ItcInvoice {
+  supplierGstin: string;
+  supplierName?: string;
+  invoiceNumber: string;
+  invoiceDate: string; // ISO
+  period: string; // Month name: the 2B return period, or the books month
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+  itcUnavailable?: boolean; // 2B marks ITC on this invoice as not available
+}
+
+export type InvoiceMatchStatus = 'Matched' | 'Value Mismatch' | 'Only in Books' | 'Only in 2B';
+
+export interface InvoiceMatchLine {
+  status: InvoiceMatchStatus;
+  books?: ItcInvoice;
+  portal?: ItcInvoice;
+  taxDiff: number; // 2B tax - books tax
+  note?: string;
+}
+
+export interface InvoiceMatchTolerance {
+  amount: number; // Rupees, on taxable value and on total tax
+  dateDays: number;
+}
+
+export interface InvoiceMatchResult {
+  tolerance: InvoiceMatchTolerance;
+  booksFile: string;
+  portalFiles: string[];
+  matchedAt: string;
+  lines: InvoiceMatchLine[];
+}
+
 // Returns & Analysis
-export type GSTReturnType = 'GSTR-1' | 'GSTR-3B' | 'GSTR-9' | 'GSTR-2A' | 'GSTR-2B';
+export type GSTReturnType = 'GSTR-1' | 'GSTR-3B' | 'GSTR-9' | 'GSTR-9C' | 'GSTR-4' | 'CMP-08' | 'GSTR-2A' | 'GSTR-2B';
+
+// One table of a portal return (e.g. GSTR-1 B2B, GSTR-3B 3.1(a), 4A(5)); credit notes and reversals are negative
+export interface ReturnSection {
+  code: string;
+  label: string;
+  documents?: number; // Invoices / notes / rows counted in the table
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+  inTotals: boolean; // False for informational tables (HSN, amendments, ineligible ITC)
+}
 
 export interface ReturnRecord {
   id?: number;
@@ -258,6 +621,28 @@ export interface ReturnRecord {
   
   status: 'Filed' | 'Not Filed' | 'Submitted';
   sourceFile?: string; // Filename if imported
+  sections?: ReturnSection[]; // Table-wise detail from a portal JSON import
+  importedAt?: string;
+}
+
+// GSTR-9 / 9C annual reconciliation: audited-books figures and working remarks per table
+export interface AnnualFigure {
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+export interface AnnualReturnRecord {
+  id?: number;
+  gstin: string;
+  financialYear: string;
+  books: Record<string, AnnualFigure>; // Keyed by table code (9C rows)
+  booksFile?: string;
+  remarks: Record<string, string>;
+  updatedAt: string;
+  lastModifiedBy: string;
 }
 
 // BILLING & INVOICING
@@ -0,0 +1,308 @@
+import * as XLSX from 'xlsx';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { db } from '../db';
+import { AnnualFigure, AnnualReturnRecord, GSTReturnType, ReturnRecord } from '../types';
+import { WORKSHEET_MONTHS } from './reconciliationBuilder';
+import { formatDate } from './formatting';
+
+// GSTR-9 / 9C working: the annual tables are assembled from the monthly GSTR-1 / 3B / 2B
+// on record (table codes as written by utils/returnImport) and set against the filed GSTR-9
+// and, for the 9C rows, the audited books.
+
+export type AnnualPart = 'Outward supplies' | 'Input tax credit' | 'Tax paid' | 'GSTR-9C';
+
+export interface AnnualTable {
+  code: string;
+  label: string;
+  part: AnnualPart;
+  measure: 'value' | 'tax'; // Compared on taxable value or on total tax
+  source?: { returnType: GSTReturnType; codes: string[] }; // Monthly return tables summed for the year
+  filed?: string[]; // GSTR-9 tables summed for the filed figure
+  derive?: { add: string[]; less?: string[] }; // Totals of earlier rows
+  books?: boolean; // Compared with the audited books (GSTR-9C)
+}
+
+const OUTWARD_ROWS = ['4A', '4B', '4C+5A', '4D+5B', '4E', '4F', '4I–4L'];
+
+export const ANNUAL_TABLES: AnnualTable[] = [
+  { code: '4A', label: '4A Supplies to unregistered persons (B2C)', part: 'Outward supplies', measure: 'value', source: { returnType: 'GSTR-1', codes: ['B2CL', 'B2CS'] }, filed: ['4A'] },
+  { code: '4B', label: '4B Supplies to registered persons (B2B)', part: 'Outward supplies', measure: 'value', source: { returnType: 'GSTR-1', codes: ['B2B'] }, filed: ['4B'] },
+  { code: '4C+5A', label: '4C / 5A Exports, with and without payment of tax', part: 'Outward supplies', measure: 'value', source: { returnType: 'GSTR-1', codes: ['EXP'] }, filed: ['4C', '5A'] },
+  { code: '4D+5B', label: '4D / 5B Supplies to SEZ, with and without payment of tax', part: 'Outward supplies', measure: 'value', source: { returnType: 'GSTR-1', codes: ['SEZ'] }, filed: ['4D', '5B'] },
+  { code: '4E', label: '4E Deemed exports', part: 'Outward supplies', measure: 'value', source: { returnType: 'GSTR-1', codes: ['DE'] }, filed: ['4E'] },
+  { code: '4F', label: '4F Advances, net of adjustments', part: 'Outward supplies', measure: 'tax', source: { returnType: 'GSTR-1', codes: ['AT', 'TXPD'] }, filed: ['4F'] },
+  { code: '4I–4L', label: '4I–4L Credit / debit notes and amendments', part: 'Outward supplies', measure: 'value', source: { returnType: 'GSTR-1', codes: ['CDNR', 'CDNUR'] }, filed: ['4I', '4J', '4K', '4L'] },
+  { code: '4G', label: '4G Inward supplies liable to reverse charge', part: 'Outward supplies', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['3.1(d)'] }, filed: ['4G'] },
+  { code: '5C–5F', label: '5C–5F Reverse charge, exempt, nil rated and non-GST supplies', part: 'Outward supplies', measure: 'value', source: { returnType: 'GSTR-1', codes: ['B2B-RCM', 'NIL'] }, filed: ['5C', '5D', '5E', '5F'] },
+  { code: 'TURNOVER', label: 'Total turnover (4A–4L and 5)', part: 'Outward supplies', measure: 'value', derive: { add: [...OUTWARD_ROWS, '5C–5F'] } },
+
+  { code: '6A', label: '6A Total ITC availed through GSTR-3B', part: 'Input tax credit', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['4A-IMPG', '4A-IMPS', '4A-ISRC', '4A-ISD', '4A-OTH'] }, filed: ['6A'] },
+  { code: '6B', label: '6B Inward supplies (other than imports and reverse charge)', part: 'Input tax credit', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['4A-OTH'] }, filed: ['6B'] },
+  { code: '6C–6D', label: '6C / 6D Inward supplies on reverse charge', part: 'Input tax credit', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['4A-ISRC'] }, filed: ['6C', '6D'] },
+  { code: '6E', label: '6E Import of goods', part: 'Input tax credit', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['4A-IMPG'] }, filed: ['6E'] },
+  { code: '6F', label: '6F Import of services', part: 'Input tax credit', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['4A-IMPS'] }, filed: ['6F'] },
+  { code: '6G', label: '6G Input Service Distributor', part: 'Input tax credit', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['4A-ISD'] }, filed: ['6G'] },
+  { code: '7', label: '7 ITC reversed (negative)', part: 'Input tax credit', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['4B-RUL', '4B-OTH'] }, filed: ['7'] },
+  { code: 'NET-ITC', label: 'Net ITC (6B–6G less 7)', part: 'Input tax credit', measure: 'tax', derive: { add: ['6B', '6C–6D', '6E', '6F', '6G', '7'] } },
+  { code: '8A', label: '8A ITC as per GSTR-2B (B2B and notes)', part: 'Input tax credit', measure: 'tax', source: { returnType: 'GSTR-2B', codes: ['B2B', 'B2BA', 'CDNR', 'CDNRA', 'ECO'] }, filed: ['8A'] },
+  { code: '8D', label: '8D Difference (8A less 6B)', part: 'Input tax credit', measure: 'tax', derive: { add: ['8A'], less: ['6B'] } },
+
+  { code: '9-PAY', label: '9 Tax payable', part: 'Tax paid', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['3.1(a)', '3.1(b)', '3.1(d)'] }, filed: ['9-PAY'] },
+  { code: '9-CASH', label: '9 Tax paid in cash', part: 'Tax paid', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['6.1-CASH'] }, filed: ['9-CASH'] },
+  { code: '9-ITC', label: '9 Tax paid through ITC', part: 'Tax paid', measure: 'tax', source: { returnType: 'GSTR-3B', codes: ['6.1-ITC'] }, filed: ['9-ITC'] },
+
+  { code: '9C-5', label: '9C 5 Turnover (including exports and exempt supplies)', part: 'GSTR-9C', measure: 'value', derive: { add: ['TURNOVER'] }, books: true },
+  { code: '9C-7', label: '9C 7 Taxable turnover', part: 'GSTR-9C', measure: 'value', derive: { add: OUTWARD_ROWS }, books: true },
+  { code: '9C-9', label: '9C 9 Tax payable', part: 'GSTR-9C', measure: 'tax', derive: { add: ['9-PAY'] }, books: true },
+  { code: '9C-12', label: '9C 12 ITC availed', part: 'GSTR-9C', measure: 'tax', derive: { add: ['NET-ITC'] }, books: true }
+];
+
+export const ANNUAL_TOLERANCE = 10; // Differences up to this many rupees are treated as rounding
+
+export interface AnnualLine {
+  table: AnnualTable;
+  computed?: AnnualFigure;
+  filed?: AnnualFigure;
+  books?: AnnualFigure;
+  filedDiff?: number; // Filed GSTR-9 less computed
+  booksDiff?: number; // Books less GSTR-9 (filed, else computed)
+  flagged: boolean;
+}
+
+export interface AnnualMonth {
+  month: string;
+  gstr1?: ReturnRecord;
+  gstr3b?: ReturnRecord;
+  gstr2b?: ReturnRecord;
+}
+
+export interface AnnualReconciliation {
+  gstin: string;
+  financialYear: string;
+  lines: AnnualLine[];
+  months: AnnualMonth[];
+  filedReturn?: ReturnRecord;
+  warnings: string[];
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export const emptyFigure = (): AnnualFigure => ({ taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 });
+
+export const figureTax = (f: AnnualFigure) => f.igst + f.cgst + f.sgst + f.cess;
+
+export const measureOf = (table: AnnualTable, f?: AnnualFigure) => (f ? round(table.measure === 'value' ? f.taxableValue : figureTax(f)) : undefined);
+
+const addFigure = (target: AnnualFigure, source: AnnualFigure, sign = 1) => {
+  target.taxableValue += sign * source.taxableValue;
+  target.igst += sign * source.igst;
+  target.cgst += sign * source.cgst;
+  target.sgst += sign * source.sgst;
+  target.cess += sign * source.cess;
+};
+
+const roundFigure = (f: AnnualFigure): AnnualFigure => ({
+  taxableValue: round(f.taxableValue), igst: round(f.igst), cgst: round(f.cgst), sgst: round(f.sgst), cess: round(f.cess)
+});
+
+const sumSections = (record: ReturnRecord, codes: string[]): AnnualFigure => {
+  const total = emptyFigure();
+  (record.sections || []).filter(s => codes.includes(s.code)).forEach(s => addFigure(total, s));
+  return total;
+};
+
+export const annualMonths = (returns: ReturnRecord[], gstin: string, financialYear: string): AnnualMonth[] => {
+  const own = returns.filter(r => r.gstin === gstin && r.financialYear === financialYear).sort((a, b) => (a.id || 0) - (b.id || 0));
+  return WORKSHEET_MONTHS.map(month => {
+    const ofType = (type: GSTReturnType) => own.filter(r => r.returnType === type && r.period.toLowerCase().startsWith(month.toLowerCase())).pop();
+    return { month, gstr1: ofType('GSTR-1'), gstr3b: ofType('GSTR-3B'), gstr2b: ofType('GSTR-2B') };
+  });
+};
+
+const monthReturn = (m: AnnualMonth, type: GSTReturnType) => (type === 'GSTR-1' ? m.gstr1 : type === 'GSTR-3B' ? m.gstr3b : m.gstr2b);
+
+export const buildAnnualReconciliation = (returns: ReturnRecord[], gstin: string, financialYear: string, record?: AnnualReturnRecord): AnnualReconciliation => {
+  const months = annualMonths(returns, gstin, financialYear);
+  const filedReturn = returns
+    .filter(r => r.gstin === gstin && r.financialYear === financialYear && r.returnType === 'GSTR-9')
+    .sort((a, b) => (a.id || 0) - (b.id || 0)).pop();
+  const warnings: string[] = [];
+
+  for (const type of ['GSTR-1', 'GSTR-3B', 'GSTR-2B'] as GSTReturnType[]) {
+    const missing = months.filter(m => !monthReturn(m, type)).map(m => m.month);
+    const totalsOnly = months.filter(m => monthReturn(m, type) && !monthReturn(m, type)!.sections?.length).map(m => m.month);
+    if (missing.length === 12) warnings.push(`No ${type} on record for FY ${financialYear}; its tables are not computed.`);
+    else if (missing.length) warnings.push(`${type} missing for ${missing.join(', ')}.`);
+    if (totalsOnly.length) warnings.push(`${type} for ${totalsOnly.join(', ')} was entered without table detail and is left out of the computed tables. Re-import the portal JSON.`);
+  }
+  if (!filedReturn) warnings.push('No GSTR-9 on record; import the filed GSTR-9 JSON to compare.');
+  else if (!filedReturn.sections?.length) warnings.push('The GSTR-9 on record has no table detail; import the filed GSTR-9 JSON to compare.');
+
+  const computed = new Map<string, AnnualFigure>();
+  const filed = new Map<string, AnnualFigure>();
+  const lines: AnnualLine[] = [];
+
+  for (const table of ANNUAL_TABLES) {
+    let c: AnnualFigure | undefined;
+    let f: AnnualFigure | undefined;
+    if (table.source) {
+      const { returnType, codes } = table.source;
+      const detailed = months.map(m => monthReturn(m, returnType)).filter((r): r is ReturnRecord => !!r?.sections?.length);
+      if (detailed.length) {
+        c = emptyFigure();
+        detailed.forEach(r => addFigure(c!, sumSections(r, codes)));
+      }
+    }
+    if (table.filed && filedReturn?.sections?.length) f = sumSections(filedReturn, table.filed);
+    if (table.derive) {
+      const derive = (from: Map<string, AnnualFigure>) => {
+        const inputs = [...table.derive!.add, ...(table.derive!.less || [])];
+        if (!inputs.some(code => from.has(code))) return undefined;
+        const total = emptyFigure();
+        table.derive!.add.forEach(code => from.has(code) && addFigure(total, from.get(code)!));
+        (table.derive!.less || []).forEach(code => from.has(code) && addFigure(total, from.get(code)!, -1));
+        return total;
+      };
+      c = derive(computed);
+      f = derive(filed);
+    }
+    if (c) computed.set(table.code, c = roundFigure(c));
+    if (f) filed.set(table.code, f = roundFigure(f));
+
+    const books = table.books ? record?.books[table.code] : undefined;
+    const filedDiff = c && f ? round(measureOf(table, f)! - measureOf(table, c)!) : undefined;
+    const reference = f || c;
+    const booksDiff = books && reference ? round(measureOf(table, books)! - measureOf(table, reference)!) : undefined;
+    const flagged = Math.abs(filedDiff || 0) > ANNUAL_TOLERANCE || Math.abs(booksDiff || 0) > ANNUAL_TOLERANCE;
+    lines.push({ table, computed: c, filed: f, books, filedDiff, booksDiff, flagged });
+  }
+
+  return { gstin, financialYear, lines, months, filedReturn, warnings };
+};
+
+export const saveAnnualRecord = async (gstin: string, financialYear: string, changes: Partial<Pick<AnnualReturnRecord, 'books' | 'booksFile' | 'remarks'>>, username: string, details: string) => {
+  const existing = await db.annualReturns.where('gstin').equals(gstin).and(r => r.financialYear === financialYear).first();
+  const record: AnnualReturnRecord = {
+    gstin, financialYear, books: {}, remarks: {},
+    ...existing,
+    ...changes,
+    updatedAt: new Date().toISOString(),
+    lastModifiedBy: username
+  };
+  if (existing?.id) await db.annualReturns.put(record);
+  else await db.annualReturns.add(record);
+  await db.auditLogs.add({
+    entityType: 'Return', entityId: `GSTR-9/${gstin}/${financialYear}`, action: existing ? 'Update' : 'Create', timestamp: record.updatedAt, user: username, details
+  });
+};
+
+// Audited figures for the 9C rows: one row per table, amounts per head
+export const downloadBooksTemplate = () => {
+  const data = ANNUAL_TABLES.filter(t => t.books).map(t => ({ Table: t.code, Description: t.label, 'Taxable Value': 0, IGST: 0, CGST: 0, SGST: 0, Cess: 0 }));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(data), 'Audited_Books');
+  XLSX.writeFile(wb, 'GSTNexus_GSTR9C_Books_Template.xlsx');
+};
+
+const normaliseHeading = (h: string) => h.toLowerCase().replace(/[^a-z]/g, '');
+
+const toAmount = (raw: any) => {
+  const n = parseFloat(String(raw ?? '').replace(/[₹,\s]/g, ''));
+  return Number.isFinite(n) ? n : 0;
+};
+
+export const readBooksFile = async (file: File): Promise<Record<string, AnnualFigure>> => {
+  const wb = XLSX.read(await file.arrayBuffer(), { type: 'array', raw: true });
+  const data = XLSX.utils.sheet_to_json<any>(wb.Sheets[wb.SheetNames[0]], { defval: '' });
+  if (data.length === 0) throw new Error('The file has no rows.');
+  const headings = Object.keys(data[0]);
+  const find = (...aliases: string[]) => headings.find(h => aliases.includes(normaliseHeading(h)));
+  const tableColumn = find('table', 'tableno', 'code');
+  if (!tableColumn) throw new Error('Could not find the Table column. Use the template.');
+  const columns = {
+    taxableValue: find('taxablevalue', 'turnover', 'value', 'amount'),
+    igst: find('igst', 'integratedtax'), cgst: find('cgst', 'centraltax'), sgst: find('sgst', 'utgst', 'statetax'), cess: find('cess')
+  };
+
+  const books: Record<string, AnnualFigure> = {};
+  for (const row of data) {
+    const code = String(row[tableColumn]).trim().toUpperCase().replace(/\s+/g, '');
+    const table = ANNUAL_TABLES.find(t => t.books && (t.code === code || t.code.replace('9C-', '') === code.replace(/^9C-?/, '')));
+    if (!table) continue;
+    books[table.code] = {
+      taxableValue: toAmount(columns.taxableValue && row[columns.taxableValue]),
+      igst: toAmount(columns.igst && row[columns.igst]), cgst: toAmount(columns.cgst && row[columns.cgst]),
+      sgst: toAmount(columns.sgst && row[columns.sgst]), cess: toAmount(columns.cess && row[columns.cess])
+    };
+  }
+  if (Object.keys(books).length === 0) throw new Error('No GSTR-9C table codes (9C-5, 9C-7, 9C-9, 9C-12) found in the file.');
+  return books;
+};
+
+const summaryRows = (result: AnnualReconciliation, remarks: Record<string, string>) => result.lines.map(l => ({
+  Part: l.table.part,
+  Table: l.table.code,
+  Description: l.table.label,
+  Basis: l.table.measure === 'value' ? 'Taxable value' : 'Tax',
+  'Per Monthly Returns': measureOf(l.table, l.computed) ?? '',
+  'Per GSTR-9 Filed': measureOf(l.table, l.filed) ?? '',
+  'Difference (9 - Returns)': l.filedDiff ?? '',
+  'Per Audited Books': measureOf(l.table, l.books) ?? '',
+  'Difference (Books - 9)': l.booksDiff ?? '',
+  Status: l.flagged ? 'Difference' : '',
+  Remarks: remarks[l.table.code] || ''
+}));
+
+export const exportAnnualWorkbook = (result: AnnualReconciliation, remarks: Record<string, string>) => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(summaryRows(result, remarks)), 'Summary');
+
+  const headRows = result.lines.flatMap(l => ([['Monthly Returns', l.computed], ['GSTR-9 Filed', l.filed], ['Audited Books', l.books]] as [string, AnnualFigure | undefined][])
+    .filter(([, f]) => f)
+    .map(([source, f]) => ({ Table: l.table.code, Description: l.table.label, Source: source, 'Taxable Value': f!.taxableValue, IGST: f!.igst, CGST: f!.cgst, SGST: f!.sgst, Cess: f!.cess })));
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(headRows), 'Head-wise');
+
+  const tax = (r: ReturnRecord | undefined, codes: string[], fallback: number) => (r ? (r.sections?.length ? round(figureTax(sumSections(r, codes))) : fallback) : '');
+  const monthRows = result.months.map(m => ({
+    Month: m.month,
+    'GSTR-1 Filed': m.gstr1?.filingDate ? formatDate(m.gstr1.filingDate) : '',
+    'GSTR-1 Tax': tax(m.gstr1, ['B2B', 'SEZ', 'DE', 'B2CL', 'B2CS', 'EXP', 'CDNR', 'CDNUR', 'AT', 'TXPD'], m.gstr1?.taxLiability || 0),
+    'GSTR-3B Filed': m.gstr3b?.filingDate ? formatDate(m.gstr3b.filingDate) : '',
+    'GSTR-3B Tax Payable': tax(m.gstr3b, ['3.1(a)', '3.1(b)', '3.1(d)'], m.gstr3b?.taxLiability || 0),
+    'GSTR-3B Net ITC': tax(m.gstr3b, ['4C'], m.gstr3b?.itcAvailable || 0),
+    'GSTR-3B Cash Paid': tax(m.gstr3b, ['6.1-CASH'], m.gstr3b?.cashPaid || 0),
+    'GSTR-2B ITC': tax(m.gstr2b, ['B2B', 'B2BA', 'CDNR', 'CDNRA', 'ECO'], m.gstr2b?.itcAvailable || 0)
+  }));
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(monthRows), 'Monthly');
+  XLSX.writeFile(wb, `GSTR9_Working_${result.gstin}_${result.financialYear}.xlsx`);
+};
+
+// Working paper for the reply to an annual return scrutiny: differences and their explanations
+export const exportAnnualPdf = (result: AnnualReconciliation, remarks: Record<string, string>, tradeName?: string) => {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  doc.setFontSize(14);
+  doc.text(`GSTR-9 / 9C Reconciliation – FY ${result.financialYear}`, 14, 15);
+  doc.setFontSize(10);
+  doc.text(`${tradeName ? `${tradeName} – ` : ''}GSTIN ${result.gstin}`, 14, 22);
+  doc.text(`GSTR-9 on record: ${result.filedReturn ? `${result.filedReturn.arn || 'filed'}${result.filedReturn.filingDate ? ` on ${formatDate(result.filedReturn.filingDate)}` : ''}` : 'not imported'}`, 14, 28);
+
+  const amount = (n?: number) => (n === undefined ? '-' : n.toLocaleString('en-IN', { maximumFractionDigits: 0 }));
+  autoTable(doc, {
+    startY: 34,
+    head: [['Table', 'Description', 'Monthly Returns', 'GSTR-9', 'Diff', 'Books', 'Diff', 'Remarks']],
+    body: result.lines.map(l => [
+      l.table.code, l.table.label, amount(measureOf(l.table, l.computed)), amount(measureOf(l.table, l.filed)), amount(l.filedDiff),
+      amount(measureOf(l.table, l.books)), amount(l.booksDiff), remarks[l.table.code] || ''
+    ]),
+    styles: { fontSize: 8 },
+    columnStyles: { 1: { cellWidth: 70 }, 7: { cellWidth: 60 } },
+    didParseCell: data => {
+      if (data.section === 'body' && result.lines[data.row.index]?.flagged) data.cell.styles.textColor = [185, 28, 28];
+    }
+  });
+  const y = (doc as any).lastAutoTable.finalY + 8;
+  doc.setFontSize(8);
+  doc.text('Amounts in rupees. Supply tables compare taxable value; ITC and tax tables compare total tax. Differences above the rounding tolerance are shown in red.', 14, y);
+  doc.save(`GSTR9_Working_${result.gstin}_${result.financialYear}.pdf`);
+};
@@ -0,0 +1,88 @@
+import { AppealForum, AppealProceeding } from '../types';
+
+// Appellate hierarchy and the limitation period for filing at each forum,
+// counted from the date of communication of the order under challenge.
+
+export interface AppealForumRule {
+  forum: AppealForum;
+  label: string;
+  provision: string;
+  limitationMonths?: number;
+  limitationDays?: number;
+  condonableDays: number; // Further period the forum may condone on sufficient cause
+}
+
+export const APPEAL_FORUMS: AppealForumRule[] = [
+  { forum: 'First Appeal', label: 'Appellate Authority', provision: 'Sec 107', limitationMonths: 3, condonableDays: 30 },
+  { forum: 'GSTAT', label: 'Appellate Tribunal (GSTAT)', provision: 'Sec 112', limitationMonths: 3, condonableDays: 90 },
+  { forum: 'High Court', label: 'High Court', provision: 'Sec 117', limitationDays: 180, condonableDays: 0 },
+  { forum: 'Supreme Court', label: 'Supreme Court', provision: 'Sec 118', limitationDays: 90, condonableDays: 0 }
+];
+
+export const APPEAL_OUTCOMES = ['Pending', 'Allowed', 'Partly Allowed', 'Dismissed', 'Remanded'] as const;
+
+export const getForumRule = (forum: AppealForum): AppealForumRule => {
+  return APPEAL_FORUMS.find(f => f.forum === forum) || APPEAL_FORUMS[0];
+};
+
+export const getNextForum = (forum: AppealForum): AppealForum | null => {
+  const idx = APPEAL_FORUMS.findIndex(f => f.forum === forum);
+  return idx >= 0 && idx < APPEAL_FORUMS.length - 1 ? APPEAL_FORUMS[idx + 1].forum : null;
+};
+
+export const getAppealDeadline = (forum: AppealForum, orderDate: string): Date => {
+  const rule = getForumRule(forum);
+  const deadline = new Date(orderDate);
+  if (rule.limitationMonths) deadline.setMonth(deadline.getMonth() + rule.limitationMonths);
+  if (rule.limitationDays) deadline.setDate(deadline.getDate() + rule.limitationDays);
+  return deadline;
+};
+
+// An appeal that ends in anything other than full relief can be carried to the next forum
+export const isAdverseDisposal = (appeal: AppealProceeding): boolean => {
+  if (appeal.status !== 'Disposed') return false;
+  if (appeal.outcomes.length === 0) return true;
+  return appeal.outcomes.some(o => o.outcome !== 'Allowed' && o.outcome !== 'Remanded');
+};
+
+export interface PendingContest {
+  forum: AppealForum;
+  orderDate: string;
+  deadline: Date;
+  daysRemaining: number;
+  parentAppeal?: AppealProceeding;
+}
+
+const daysUntil = (date: Date): number => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.ceil((date.getTime() - today.getTime()) / (1000 * 3600 * 24));
+};
+
+// The next appeal that still has to be filed for an order, if any.
+// orderIssueDate is the original order; appeals are the chain filed against it.
+export const getPendingContest = (orderIssueDate: string | undefined, appeals: AppealProceeding[]): PendingContest | null => {
+  const live = appeals.filter(a => a.status !== 'Withdrawn');
+
+  if (live.length === 0) {
+    if (!orderIssueDate) return null;
+    const deadline = getAppealDeadline('First Appeal', orderIssueDate);
+    return { forum: 'First Appeal', orderDate: orderIssueDate, deadline, daysRemaining: daysUntil(deadline) };
+  }
+
+  // Deepest appeal in the chain decides what comes next
+  const latest = live.filter(a => !live.some(child => child.parentAppealId === a.id))
+    .sort((a, b) => APPEAL_FORUMS.findIndex(f => f.forum === b.forum) - APPEAL_FORUMS.findIndex(f => f.forum === a.forum))[0];
+  if (!latest || !latest.disposalDate || !isAdverseDisposal(latest)) return null;
+
+  const nextForum = getNextForum(latest.forum);
+  if (!nextForum) return null;
+  const deadline = getAppealDeadline(nextForum, latest.disposalDate);
+  return { forum: nextForum, orderDate: latest.disposalDate, deadline, daysRemaining: daysUntil(deadline), parentAppeal: latest };
+};
+
+// Orders the appeals by forum, lowest first, then by filing (or order) date within a forum
+export const sortAppealChain = (appeals: AppealProceeding[]): AppealProceeding[] => {
+  const forumIndex = (a: AppealProceeding) => APPEAL_FORUMS.findIndex(f => f.forum === a.forum);
+  return [...appeals].sort((a, b) => forumIndex(a) - forumIndex(b) || (a.filingDate || a.orderDate).localeCompare(b.filingDate || b.orderDate));
+};
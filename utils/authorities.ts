@@ -0,0 +1,146 @@
+import { AppealOutcome, AppealProceeding, AuthorityCitation, AuthorityKind, LegalAuthority, Notice, NoticeDefect, NoticeStatus } from '../types';
+import { clauseScore } from './clauseLibrary';
+
+// Knowledge base: judgments, circulars and rulings, cited from a notice or one of its defects.
+// The outcome of a citation is read from the case itself (waivers, appeal outcomes), so the usage
+// report shows which authorities actually carried the argument.
+
+export const AUTHORITY_KINDS: AuthorityKind[] = ['Judgment', 'Circular', 'Notification', 'Advance Ruling', 'Instruction'];
+
+export type CitationOutcome = 'Accepted' | 'Partly Accepted' | 'Rejected' | 'Remanded' | 'Closed' | 'Pending';
+
+export const CITATION_OUTCOMES: CitationOutcome[] = ['Accepted', 'Partly Accepted', 'Rejected', 'Remanded', 'Closed', 'Pending'];
+
+const haystackOf = (a: LegalAuthority) =>
+  [a.citation, a.title, a.forum, a.kind, a.headnote, a.fullText, ...a.sections, ...a.defectTypes].join(' ').toLowerCase();
+
+const wordsOf = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Every word of the query must appear somewhere, full text included
+export const searchAuthorities = (authorities: LegalAuthority[], query: string) => {
+  const words = wordsOf(query);
+  if (words.length === 0) return authorities;
+  return authorities.filter(a => {
+    const haystack = haystackOf(a);
+    return words.every(w => haystack.includes(w));
+  });
+};
+
+// The passage around the first query word found in the full text, for search results
+export const matchSnippet = (authority: LegalAuthority, query: string, radius = 120): string | null => {
+  const text = (authority.fullText || '').replace(/\s+/g, ' ');
+  const lower = text.toLowerCase();
+  for (const word of wordsOf(query)) {
+    const at = lower.indexOf(word);
+    if (at < 0) continue;
+    const start = Math.max(0, at - radius);
+    const end = Math.min(text.length, at + word.length + radius);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+  }
+  return null;
+};
+
+// Tagged with the defect's type first, then its section; newer authorities first within each
+export const suggestAuthorities = (authorities: LegalAuthority[], defect: Pick<NoticeDefect, 'defectType' | 'section'>) =>
+  authorities
+    .map(authority => ({ authority, score: clauseScore(authority, defect) }))
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score || (b.authority.date || '').localeCompare(a.authority.date || ''))
+    .map(s => s.authority);
+
+export const formatAuthority = (a: Pick<LegalAuthority, 'citation' | 'title'>) =>
+  a.title && a.title !== a.citation ? `${a.title}, ${a.citation}` : a.citation;
+
+const fromAppealOutcome = (outcome: AppealOutcome): CitationOutcome | null =>
+  outcome === 'Allowed' ? 'Accepted' :
+  outcome === 'Partly Allowed' ? 'Partly Accepted' :
+  outcome === 'Dismissed' ? 'Rejected' :
+  outcome === 'Remanded' ? 'Remanded' : null;
+
+// One result for several defects: the same outcome throughout, otherwise partly accepted
+const combine = (outcomes: CitationOutcome[]): CitationOutcome | null => {
+  if (outcomes.length === 0) return null;
+  return outcomes.every(o => o === outcomes[0]) ? outcomes[0] : 'Partly Accepted';
+};
+
+// The highest forum's decision stands, so the most recently disposed appeal wins
+const latestDisposed = (appeals: AppealProceeding[]) =>
+  appeals.filter(a => a.status === 'Disposed').sort((a, b) => (b.disposalDate || '').localeCompare(a.disposalDate || ''));
+
+export interface CitationCase {
+  notice?: Notice;
+  defects: NoticeDefect[]; // Defects of the cited notice
+  appeals: AppealProceeding[]; // Appeals on the notice or deciding any of its defects
+}
+
+export const getCitationOutcome = (citation: AuthorityCitation, c: CitationCase): CitationOutcome => {
+  const isClosed = c.notice?.status === NoticeStatus.CLOSED;
+
+  if (citation.defectId) {
+    for (const appeal of latestDisposed(c.appeals)) {
+      const decided = appeal.outcomes.find(o => o.defectId === citation.defectId);
+      const outcome = decided && fromAppealOutcome(decided.outcome);
+      if (outcome) return outcome;
+    }
+    const defect = c.defects.find(d => d.id === citation.defectId);
+    if (defect?.status === 'Waived') return 'Accepted';
+    return isClosed ? 'Closed' : 'Pending';
+  }
+
+  for (const appeal of latestDisposed(c.appeals.filter(a => a.noticeId === citation.noticeId))) {
+    const outcome = combine(appeal.outcomes.map(o => fromAppealOutcome(o.outcome)).filter((o): o is CitationOutcome => !!o));
+    if (outcome) return outcome;
+  }
+  const waived = c.defects.filter(d => d.status === 'Waived').length;
+  if (waived > 0 && waived === c.defects.length) return 'Accepted';
+  if (waived > 0 && isClosed) return 'Partly Accepted';
+  return isClosed ? 'Closed' : 'Pending';
+};
+
+export interface AuthorityUsage {
+  authority: LegalAuthority;
+  citations: number;
+  cases: number;
+  outcomes: Record<CitationOutcome, number>;
+  lastCitedAt?: string;
+}
+
+// Most cited first; authorities never cited are left out
+export const summarizeAuthorityUsage = (
+  authorities: LegalAuthority[],
+  citations: AuthorityCitation[],
+  notices: Notice[],
+  defects: NoticeDefect[],
+  appeals: AppealProceeding[]
+): AuthorityUsage[] => {
+  const noticeById = new Map(notices.map(n => [n.id!, n]));
+  const caseOf = (noticeId: number): CitationCase => {
+    const noticeDefects = defects.filter(d => d.noticeId === noticeId);
+    const defectIds = new Set(noticeDefects.map(d => d.id));
+    return {
+      notice: noticeById.get(noticeId),
+      defects: noticeDefects,
+      appeals: appeals.filter(a => a.noticeId === noticeId || a.outcomes.some(o => defectIds.has(o.defectId)))
+    };
+  };
+  const cases = new Map<number, CitationCase>();
+
+  return authorities
+    .map(authority => {
+      const cited = citations.filter(c => c.authorityId === authority.id);
+      const outcomes = Object.fromEntries(CITATION_OUTCOMES.map(o => [o, 0])) as Record<CitationOutcome, number>;
+      cited.forEach(citation => {
+        if (!cases.has(citation.noticeId)) cases.set(citation.noticeId, caseOf(citation.noticeId));
+        outcomes[getCitationOutcome(citation, cases.get(citation.noticeId)!)]++;
+      });
+      return {
+        authority,
+        citations: cited.length,
+        cases: new Set(cited.map(c => c.noticeId)).size,
+        outcomes,
+        lastCitedAt: cited.reduce<string | undefined>((latest, c) => (!latest || c.citedAt > latest ? c.citedAt : latest), undefined)
+      };
+    })
+    .filter(u => u.citations > 0)
+    .sort((a, b) => b.citations - a.citations || b.cases - a.cases || a.authority.citation.localeCompare(b.authority.citation));
+};
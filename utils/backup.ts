@@ -0,0 +1,463 @@
+import { db } from '../db';
+import { ENCRYPTION_CONFIG_KEY, getDocumentFile, isEncryptionEnabled } from './encryption';
+import { randomBytes } from './security';
+import { backfillExcessItc } from './interest';
+import { API_SECRET_KEY } from './gstProvider';
+
+// Backup archive: "GSTNXBAK" | manifest length (uint32 BE) | manifest JSON | payload
+// The payload concatenates one JSON entry per table plus the raw bytes of every stored document,
+// optionally AES-GCM encrypted with a key derived from a backup passphrase. The manifest stays
+// readable so a restore can show what a file holds and check its checksums before decrypting.
+// Incremental backups only carry records whose content changed since the previous backup in the
+// chain, plus the ids deleted since then; restoring needs the full backup and every increment.
+
+export const BACKUP_STATE_KEY = 'backup_state';
+export const BACKUP_SCHEDULE_KEY = 'backup_schedule';
+export const BACKUP_STATUS_KEY = 'backup_schedule_status';
+export const BACKUP_PASSPHRASE_KEY = 'backup_passphrase';
+export const BACKUP_FILE_EXTENSION = '.gstbak';
+const MAGIC = 'GSTNXBAK';
+const FORMAT_VERSION = 1;
+const KDF_ITERATIONS = 310000;
+// Schema of the plain JSON exports written before the archive format existed
+const LEGACY_BASE_VERSION = 17;
+
+// Live sessions and this install's own bookkeeping never travel with a backup
+const EXCLUDED_TABLES = ['sessions'];
+const LOCAL_CONFIG_KEYS = [ENCRYPTION_CONFIG_KEY, BACKUP_STATE_KEY, BACKUP_SCHEDULE_KEY, BACKUP_STATUS_KEY, BACKUP_PASSPHRASE_KEY, API_SECRET_KEY];
+
+export type BackupType = 'full' | 'incremental';
+
+export interface BackupEntry {
+  path: string; // tables/<name>.json or files/<table>/<id> (files/<id> in archives before authorities had files)
+  offset: number;
+  length: number;
+  sha256: string; // Of the plain bytes
+}
+
+export interface BackupTableSummary {
+  count: number; // Records in the table when the backup was taken
+  included: number; // Records carried by this file (all of them for a full backup)
+  deleted: number; // Ids removed since the previous backup (incremental only)
+}
+
+export interface BackupManifest {
+  format: 'gst-nexus-backup';
+  formatVersion: number;
+  backupId: string;
+  type: BackupType;
+  parentBackupId?: string; // Previous backup in the chain (incremental only)
+  createdAt: string;
+  createdBy: string;
+  schemaVersion: number;
+  tables: Record<string, BackupTableSummary>;
+  entries: BackupEntry[];
+  payloadSha256: string; // Of the payload as stored (after encryption)
+  encryption?: { algorithm: 'AES-GCM'; kdf: 'PBKDF2-SHA256'; iterations: number; salt: string; iv: string };
+}
+
+export interface BackupState {
+  lastBackupId: string;
+  lastBackupAt: string;
+  lastType: BackupType;
+  incrementsSinceFull: number;
+  recordHashes: Record<string, Record<string, string>>; // table -> id -> content hash
+}
+
+export interface BackupFileInfo {
+  fileName: string;
+  manifest: BackupManifest | null; // null for a legacy JSON export
+  legacySchemaVersion?: number;
+}
+
+export interface TableDiff {
+  table: string;
+  current: number;
+  restored: number;
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+export interface RestorePlan {
+  files: BackupFileInfo[];
+  schemaVersion: number; // Oldest schema among the files
+  data: Record<string, any[]>;
+  preview: TableDiff[];
+  notes: string[];
+}
+
+type BackupData = Record<string, any[]>;
+
+// Keyed by the schema version that introduced the change; applied in order to older backups
+const MIGRATIONS: Record<number, { description: string; migrate: (data: BackupData) => void }> = {
+  18: {
+    description: 'Appeal proceedings did not exist yet; the chain starts empty',
+    migrate: data => { data.appeals = data.appeals || []; }
+  },
+  19: {
+    description: 'Stored sessions are dropped and plain-text passwords are hashed when the app next starts',
+    migrate: data => { delete data.sessions; }
+  },
+  25: {
+    description: 'Defects whose type names ITC or credit are flagged as excess ITC, so they keep the 24% Sec 50(3) interest rate',
+    migrate: data => { (data.defects || []).forEach(backfillExcessItc); }
+  }
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+const fromBase64 = (b64: string): Uint8Array => Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+
+const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const deriveBackupKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+};
+
+// The stored blob may be sealed at rest, or replaced by a file reference inside an archive
+const withoutFile = ({ fileData, $file, ...rest }: any) => rest;
+
+// Document content never changes after upload, so the metadata alone identifies a changed record
+const hashRecord = (record: any) => sha256Hex(encoder.encode(JSON.stringify(withoutFile(record))));
+
+export const getBackupState = async (): Promise<BackupState | null> => {
+  const row = await db.appConfig.get({ key: BACKUP_STATE_KEY });
+  return row?.value || null;
+};
+
+const saveBackupState = async (state: BackupState) => {
+  const row = await db.appConfig.get({ key: BACKUP_STATE_KEY });
+  if (row) await db.appConfig.update(row.id!, { value: state });
+  else await db.appConfig.add({ key: BACKUP_STATE_KEY, value: state });
+};
+
+const backupTables = () => db.tables.filter(t => !EXCLUDED_TABLES.includes(t.name));
+
+export interface CreatedBackup {
+  blob: Blob;
+  manifest: BackupManifest;
+  fileName: string;
+  // Makes this file the base for the next incremental backup; call once the file is safely written
+  markSaved: () => Promise<void>;
+}
+
+// Reads go through the decrypting middleware, so with at-rest encryption on the archive must be encrypted itself
+export const createBackup = async (options: { type: BackupType; passphrase?: string; createdBy: string }): Promise<CreatedBackup> => {
+  const state = await getBackupState();
+  const incremental = options.type === 'incremental';
+  if (incremental && !state) throw new Error('There is no previous backup to build on. Create a full backup first.');
+  if (isEncryptionEnabled() && !options.passphrase) throw new Error('At-rest encryption is on. Set a backup passphrase so the data is not written out in clear text.');
+
+  const parts: { path: string; bytes: Uint8Array }[] = [];
+  const tables: Record<string, BackupTableSummary> = {};
+  const recordHashes: BackupState['recordHashes'] = {};
+
+  for (const table of backupTables()) {
+    let rows = await table.toArray();
+    if (table.name === 'appConfig') rows = rows.filter(r => !LOCAL_CONFIG_KEYS.includes(r.key));
+    const previous = (incremental && state!.recordHashes[table.name]) || {};
+    const hashes: Record<string, string> = {};
+    const records: any[] = [];
+
+    for (const row of rows) {
+      const hash = await hashRecord(row);
+      hashes[row.id] = hash;
+      if (incremental && previous[row.id] === hash) continue;
+      const record = withoutFile(row);
+      const file = row.fileData ? await getDocumentFile(row) : undefined;
+      if (file) {
+        const path = `files/${table.name}/${row.id}`;
+        parts.push({ path, bytes: new Uint8Array(await file.arrayBuffer()) });
+        record.$file = { path, type: file.type };
+      }
+      records.push(record);
+    }
+
+    const deleted = incremental ? Object.keys(previous).filter(id => !(id in hashes)).map(Number) : [];
+    parts.push({ path: `tables/${table.name}.json`, bytes: encoder.encode(JSON.stringify({ records, deleted })) });
+    tables[table.name] = { count: rows.length, included: records.length, deleted: deleted.length };
+    recordHashes[table.name] = hashes;
+  }
+
+  const entries: BackupEntry[] = [];
+  let offset = 0;
+  for (const part of parts) {
+    entries.push({ path: part.path, offset, length: part.bytes.length, sha256: await sha256Hex(part.bytes) });
+    offset += part.bytes.length;
+  }
+  let payload = new Uint8Array(offset);
+  parts.forEach((part, i) => payload.set(part.bytes, entries[i].offset));
+
+  let encryption: BackupManifest['encryption'];
+  if (options.passphrase) {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = await deriveBackupKey(options.passphrase, salt, KDF_ITERATIONS);
+    payload = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, payload));
+    encryption = { algorithm: 'AES-GCM', kdf: 'PBKDF2-SHA256', iterations: KDF_ITERATIONS, salt: toBase64(salt), iv: toBase64(iv) };
+  }
+
+  const now = new Date();
+  const manifest: BackupManifest = {
+    format: 'gst-nexus-backup',
+    formatVersion: FORMAT_VERSION,
+    backupId: Array.from(randomBytes(8), b => b.toString(16).padStart(2, '0')).join(''),
+    type: options.type,
+    parentBackupId: incremental ? state!.lastBackupId : undefined,
+    createdAt: now.toISOString(),
+    createdBy: options.createdBy,
+    schemaVersion: db.verno,
+    tables,
+    entries,
+    payloadSha256: await sha256Hex(payload),
+    encryption
+  };
+
+  const manifestBytes = encoder.encode(JSON.stringify(manifest));
+  const header = new Uint8Array(MAGIC.length + 4);
+  header.set(encoder.encode(MAGIC));
+  new DataView(header.buffer).setUint32(MAGIC.length, manifestBytes.length);
+
+  const stamp = now.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return {
+    blob: new Blob([header, manifestBytes, payload], { type: 'application/octet-stream' }),
+    manifest,
+    fileName: `GSTNexus_${incremental ? 'Incremental' : 'Full'}_${stamp}${BACKUP_FILE_EXTENSION}`,
+    markSaved: () => saveBackupState({
+      lastBackupId: manifest.backupId,
+      lastBackupAt: manifest.createdAt,
+      lastType: options.type,
+      incrementsSinceFull: incremental ? state!.incrementsSinceFull + 1 : 0,
+      recordHashes
+    })
+  };
+};
+
+// True once the file is on disk. The save picker (Chromium, Electron) reports a cancel; a plain
+// download cannot, so there the user confirms the file was kept.
+export const saveBackupFile = async (blob: Blob, fileName: string): Promise<boolean> => {
+  const showSaveFilePicker = (window as any).showSaveFilePicker;
+  if (showSaveFilePicker) {
+    let handle: any;
+    try {
+      handle = await showSaveFilePicker({ suggestedName: fileName, types: [{ description: 'GST Nexus backup', accept: { 'application/octet-stream': [BACKUP_FILE_EXTENSION] } }] });
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return false;
+      throw e;
+    }
+    const writable = await handle.createWritable();
+    await writable.write(blob);
+    await writable.close();
+    return true;
+  }
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+  return confirm(`Was ${fileName} saved? The next incremental backup builds on it only if it was.`);
+};
+
+// --- Restore ---
+
+interface ParsedArchive {
+  info: BackupFileInfo;
+  payload?: Uint8Array;
+  legacyData?: BackupData;
+}
+
+const parseArchive = async (file: File): Promise<ParsedArchive> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (decoder.decode(bytes.subarray(0, MAGIC.length)) !== MAGIC) {
+    // Plain JSON export from older versions: one key per table
+    let legacyData: BackupData;
+    try { legacyData = JSON.parse(decoder.decode(bytes)); } catch { throw new Error(`${file.name} is not a GST Nexus backup.`); }
+    if (!legacyData || typeof legacyData !== 'object' || !Array.isArray(legacyData.notices)) throw new Error(`${file.name} is not a GST Nexus backup.`);
+    const legacySchemaVersion = 'sessions' in legacyData ? 19 : 'appeals' in legacyData ? 18 : LEGACY_BASE_VERSION;
+    return { info: { fileName: file.name, manifest: null, legacySchemaVersion }, legacyData };
+  }
+  const manifestLength = new DataView(bytes.buffer, bytes.byteOffset).getUint32(MAGIC.length);
+  const start = MAGIC.length + 4;
+  let manifest: BackupManifest;
+  try { manifest = JSON.parse(decoder.decode(bytes.subarray(start, start + manifestLength))); } catch { throw new Error(`${file.name}: the manifest is damaged.`); }
+  if (manifest.format !== 'gst-nexus-backup' || manifest.formatVersion > FORMAT_VERSION) throw new Error(`${file.name} was written by a newer version of GST Nexus.`);
+  return { info: { fileName: file.name, manifest }, payload: bytes.subarray(start + manifestLength) };
+};
+
+export const inspectBackupFiles = async (files: File[]): Promise<BackupFileInfo[]> => {
+  return Promise.all(files.map(async f => (await parseArchive(f)).info));
+};
+
+const readArchiveData = async (archive: ParsedArchive, passphrase?: string): Promise<{ data: BackupData; deleted: Record<string, number[]> }> => {
+  const { manifest } = archive.info;
+  if (!manifest) {
+    // JSON.stringify turned the old Blob payloads into empty objects
+    const data = archive.legacyData!;
+    (data.documents || []).forEach(d => { if (!(d.fileData instanceof Blob)) delete d.fileData; });
+    return { data, deleted: {} };
+  }
+
+  let payload = archive.payload!;
+  if ((await sha256Hex(payload)) !== manifest.payloadSha256) throw new Error(`${archive.info.fileName} is damaged (checksum mismatch).`);
+  if (manifest.encryption) {
+    if (!passphrase) throw new Error(`${archive.info.fileName} is encrypted. Enter the backup passphrase.`);
+    const key = await deriveBackupKey(passphrase, fromBase64(manifest.encryption.salt), manifest.encryption.iterations);
+    try {
+      payload = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(manifest.encryption.iv) }, key, payload));
+    } catch {
+      throw new Error(`The passphrase for ${archive.info.fileName} is incorrect.`);
+    }
+  }
+
+  // Older archives wrote files/<id> for every table; a table's files come just before its JSON entry
+  const entries = new Map<string, Uint8Array>();
+  let unscopedFiles: { id: string; bytes: Uint8Array }[] = [];
+  for (const entry of manifest.entries) {
+    const bytes = payload.subarray(entry.offset, entry.offset + entry.length);
+    if ((await sha256Hex(bytes)) !== entry.sha256) throw new Error(`${archive.info.fileName}: ${entry.path} failed its checksum.`);
+    const legacyFile = entry.path.match(/^files\/([^/]+)$/);
+    const tableEntry = entry.path.match(/^tables\/(.+)\.json$/);
+    if (legacyFile) {
+      unscopedFiles.push({ id: legacyFile[1], bytes });
+      continue;
+    }
+    if (tableEntry) {
+      unscopedFiles.forEach(f => entries.set(`files/${tableEntry[1]}/${f.id}`, f.bytes));
+      unscopedFiles = [];
+    }
+    entries.set(entry.path, bytes);
+  }
+
+  const data: BackupData = {};
+  const deleted: Record<string, number[]> = {};
+  for (const table of Object.keys(manifest.tables)) {
+    const entry = entries.get(`tables/${table}.json`);
+    if (!entry) throw new Error(`${archive.info.fileName} is missing the ${table} table.`);
+    const parsed = JSON.parse(decoder.decode(entry));
+    data[table] = parsed.records.map((record: any) => {
+      if (!record.$file) return record;
+      const { $file, ...rest } = record;
+      const bytes = entries.get($file.path.replace(/^files\/([^/]+)$/, `files/${table}/$1`));
+      return bytes ? { ...rest, fileData: new Blob([bytes.slice()], { type: $file.type }) } : rest;
+    });
+    deleted[table] = parsed.deleted || [];
+  }
+  return { data, deleted };
+};
+
+const migrate = (data: BackupData, fromVersion: number, notes: string[]) => {
+  for (let version = fromVersion + 1; version <= db.verno; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) continue;
+    step.migrate(data);
+    if (!notes.includes(step.description)) notes.push(step.description);
+  }
+};
+
+// Orders the files as full backup followed by its increments, following the parent links
+const orderChain = (archives: ParsedArchive[]): ParsedArchive[] => {
+  if (archives.some(a => !a.info.manifest)) {
+    if (archives.length > 1) throw new Error('A legacy JSON backup must be restored on its own.');
+    return archives;
+  }
+  const fulls = archives.filter(a => a.info.manifest!.type === 'full');
+  if (fulls.length !== 1) throw new Error(fulls.length === 0 ? 'Select the full backup together with its incremental backups.' : 'Select only one full backup.');
+  const chain = [fulls[0]];
+  const remaining = archives.filter(a => a !== fulls[0]);
+  while (remaining.length > 0) {
+    const lastId = chain[chain.length - 1].info.manifest!.backupId;
+    const idx = remaining.findIndex(a => a.info.manifest!.parentBackupId === lastId);
+    if (idx < 0) {
+      const orphan = remaining.sort((a, b) => a.info.manifest!.createdAt.localeCompare(b.info.manifest!.createdAt))[0];
+      throw new Error(`The backup chain is incomplete: ${orphan.info.fileName} does not follow ${chain[chain.length - 1].info.fileName}. Add the missing incremental backup.`);
+    }
+    chain.push(remaining.splice(idx, 1)[0]);
+  }
+  return chain;
+};
+
+const diffTable = async (table: string, current: any[], restored: any[]): Promise<TableDiff> => {
+  const currentHashes = new Map<number, string>();
+  for (const row of current) currentHashes.set(row.id, await hashRecord(row));
+  let added = 0, changed = 0;
+  const restoredIds = new Set<number>();
+  for (const row of restored) {
+    restoredIds.add(row.id);
+    const existing = currentHashes.get(row.id);
+    if (existing === undefined) added++;
+    else if (existing !== (await hashRecord(row))) changed++;
+  }
+  const removed = current.filter(row => !restoredIds.has(row.id)).length;
+  return { table, current: current.length, restored: restored.length, added, changed, removed };
+};
+
+// Validates, decrypts, migrates and merges the selected files without touching the database
+export const prepareRestore = async (files: File[], passphrase?: string): Promise<RestorePlan> => {
+  const archives = orderChain(await Promise.all(files.map(parseArchive)));
+  const notes: string[] = [];
+  let schemaVersion = db.verno;
+  const merged: BackupData = {};
+
+  for (const archive of archives) {
+    const { manifest, legacySchemaVersion } = archive.info;
+    const fileVersion = manifest ? manifest.schemaVersion : legacySchemaVersion!;
+    if (fileVersion > db.verno) throw new Error(`${archive.info.fileName} was made with a newer database schema (v${fileVersion}). Update GST Nexus before restoring it.`);
+    schemaVersion = Math.min(schemaVersion, fileVersion);
+
+    const { data, deleted } = await readArchiveData(archive, passphrase);
+    migrate(data, fileVersion, notes);
+
+    for (const table of Object.keys(data)) {
+      const byId = new Map<number, any>((merged[table] || []).map(r => [r.id, r]));
+      (deleted[table] || []).forEach(id => byId.delete(id));
+      data[table].forEach(r => byId.set(r.id, r));
+      merged[table] = Array.from(byId.values());
+    }
+  }
+
+  if (!archives[0].info.manifest) notes.push('Legacy JSON backups do not contain document files; documents are restored without their attachments.');
+  if (merged.appConfig) merged.appConfig = merged.appConfig.filter(r => !LOCAL_CONFIG_KEYS.includes(r.key));
+
+  const preview: TableDiff[] = [];
+  for (const table of backupTables()) {
+    merged[table.name] = merged[table.name] || [];
+    const current = (await table.toArray()).filter(r => table.name !== 'appConfig' || !LOCAL_CONFIG_KEYS.includes(r.key));
+    preview.push(await diffTable(table.name, current, merged[table.name]));
+  }
+  Object.keys(merged).filter(name => !preview.some(p => p.table === name)).forEach(name => {
+    notes.push(`The ${name} table is not part of this version and is skipped.`);
+    delete merged[name];
+  });
+
+  return { files: archives.map(a => a.info), schemaVersion, data: merged, preview, notes };
+};
+
+// Replaces every backed-up table; this install's encryption and backup schedule settings are kept.
+// The backup state is dropped with the old data, so the next backup has to be a full one.
+export const applyRestore = async (plan: RestorePlan) => {
+  const preserved = (await db.appConfig.where('key').anyOf(LOCAL_CONFIG_KEYS).toArray())
+    .filter(r => r.key !== BACKUP_STATE_KEY)
+    .map(({ id, ...rest }) => rest);
+
+  await db.transaction('rw', db.tables, async () => {
+    for (const table of db.tables) await table.clear();
+    for (const table of backupTables()) {
+      if (plan.data[table.name].length > 0) await table.bulkAdd(plan.data[table.name]);
+    }
+    if (preserved.length > 0) await db.appConfig.bulkAdd(preserved);
+  });
+};
@@ -0,0 +1,194 @@
+import { db } from '../db';
+import { BackupRunStatus, BackupSchedule } from '../types';
+import { BACKUP_PASSPHRASE_KEY, BACKUP_SCHEDULE_KEY, BACKUP_STATE_KEY, BACKUP_STATUS_KEY, createBackup } from './backup';
+import { isDatabaseUnlocked, isEncryptionEnabled } from './encryption';
+
+// Automatic full backups written to a folder by the Electron shell (public/electron.js).
+// The archive is built here because IndexedDB lives in the renderer; the main process writes it
+// and rotates old generations. Runs only while someone is signed in, since encrypted data needs the key.
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupSchedule = {
+  enabled: false,
+  folder: '',
+  frequency: 'daily',
+  time: '18:00',
+  weekday: 5,
+  onExit: true,
+  keepGenerations: 7,
+  alertAfterDays: 3
+};
+
+const CHECK_INTERVAL_MS = 10 * 60 * 1000;
+const RETRY_AFTER_FAILURE_MS = 60 * 60 * 1000;
+const AUTO_BACKUP_PREFIX = 'GSTNexus_Auto_';
+const STALE_BACKUP_LINK = '/admin';
+
+type BackupTrigger = 'Scheduled' | 'On exit' | 'Manual';
+
+// Present only inside the Electron shell (nodeIntegration is on, contextIsolation off)
+const ipcRenderer: any = (window as any).require?.('electron')?.ipcRenderer;
+
+export const isElectron = () => !!ipcRenderer;
+
+let activeUser: string | null = null;
+let currentRun: Promise<BackupRunStatus> | null = null;
+
+const getConfigValue = async <T>(key: string, defaults: T): Promise<T> => {
+  const row = await db.appConfig.get({ key });
+  return { ...defaults, ...(row?.value || {}) };
+};
+
+const setConfigValue = async (key: string, value: any) => {
+  const row = await db.appConfig.get({ key });
+  if (row) await db.appConfig.update(row.id!, { value });
+  else await db.appConfig.add({ key, value });
+};
+
+export const getBackupSchedule = () => getConfigValue<BackupSchedule>(BACKUP_SCHEDULE_KEY, DEFAULT_BACKUP_SCHEDULE);
+export const getBackupRunStatus = () => getConfigValue<BackupRunStatus>(BACKUP_STATUS_KEY, {});
+export const saveBackupSchedule = (schedule: BackupSchedule) => setConfigValue(BACKUP_SCHEDULE_KEY, schedule);
+
+// Kept in the 'secret' column, which is sealed with the at-rest key when encryption is on
+export const getAutoBackupPassphrase = async (): Promise<string | undefined> =>
+  (await db.appConfig.get({ key: BACKUP_PASSPHRASE_KEY }))?.secret || undefined;
+
+export const saveAutoBackupPassphrase = async (passphrase: string) => {
+  const row = await db.appConfig.get({ key: BACKUP_PASSPHRASE_KEY });
+  if (row) await db.appConfig.update(row.id!, { secret: passphrase });
+  else await db.appConfig.add({ key: BACKUP_PASSPHRASE_KEY, value: null, secret: passphrase });
+};
+
+export const getDefaultBackupFolder = async (): Promise<string> => (ipcRenderer ? ipcRenderer.invoke('backup:default-folder') : '');
+export const chooseBackupFolder = async (): Promise<string | null> => (ipcRenderer ? ipcRenderer.invoke('backup:choose-folder') : null);
+
+// Most recent scheduled slot at or before now
+const getLastSlot = (schedule: BackupSchedule, now: Date): Date => {
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  const slot = new Date(now);
+  slot.setHours(hours || 0, minutes || 0, 0, 0);
+  if (schedule.frequency === 'weekly') {
+    slot.setDate(slot.getDate() - ((slot.getDay() - schedule.weekday + 7) % 7));
+    if (slot > now) slot.setDate(slot.getDate() - 7);
+  } else if (slot > now) {
+    slot.setDate(slot.getDate() - 1);
+  }
+  return slot;
+};
+
+const isBackupDue = (schedule: BackupSchedule, status: BackupRunStatus, now: Date): boolean => {
+  if (!status.lastAttemptAt) return true;
+  const lastAttempt = new Date(status.lastAttemptAt);
+  if (status.lastError) return now.getTime() - lastAttempt.getTime() >= RETRY_AFTER_FAILURE_MS;
+  return lastAttempt < getLastSlot(schedule, now);
+};
+
+const writeBackup = async (trigger: BackupTrigger, createdBy: string): Promise<BackupRunStatus> => {
+  const schedule = await getBackupSchedule();
+  const status: BackupRunStatus = { ...(await getBackupRunStatus()), lastAttemptAt: new Date().toISOString() };
+  try {
+    if (!schedule.folder) throw new Error('No backup folder configured.');
+    const passphrase = await getAutoBackupPassphrase();
+    if (isEncryptionEnabled() && !passphrase) throw new Error('At-rest encryption is on. Set a passphrase for automatic backups first.');
+    // Automatic files are rotated away, so they stay outside the manual incremental chain (no markSaved)
+    const { blob, manifest, fileName } = await createBackup({ type: 'full', passphrase, createdBy });
+    // Rotation in the main process only touches files carrying this prefix
+    const autoName = fileName.replace(/^GSTNexus_Full_/, AUTO_BACKUP_PREFIX);
+    const result: { path: string; removed: string[] } = await ipcRenderer.invoke('backup:write', {
+      folder: schedule.folder,
+      fileName: autoName,
+      data: new Uint8Array(await blob.arrayBuffer()),
+      keep: schedule.keepGenerations
+    });
+    status.lastSuccessAt = status.lastAttemptAt;
+    status.lastFile = result.path;
+    status.lastError = undefined;
+    const records = Object.values(manifest.tables).reduce((sum, t) => sum + t.count, 0);
+    await db.auditLogs.add({
+      entityType: 'System', entityId: manifest.backupId, action: 'Backup', timestamp: status.lastAttemptAt!, user: createdBy,
+      details: `${trigger} backup written to ${result.path} (${records} records)${result.removed.length ? `; removed ${result.removed.length} old generation(s)` : ''}`
+    });
+  } catch (e) {
+    console.error(e);
+    status.lastError = e instanceof Error ? e.message : String(e);
+    await db.auditLogs.add({
+      entityType: 'System', entityId: 'backup', action: 'Backup', timestamp: status.lastAttemptAt!, user: createdBy,
+      details: `${trigger} backup to ${schedule.folder || '(no folder)'} failed: ${status.lastError}`
+    });
+  }
+  await setConfigValue(BACKUP_STATUS_KEY, status);
+  return status;
+};
+
+// A run already in progress is joined rather than started twice (e.g. the app closing mid-run)
+export const runScheduledBackup = (trigger: BackupTrigger, createdBy: string): Promise<BackupRunStatus> => {
+  if (!ipcRenderer) return Promise.reject(new Error('Scheduled backups are only available in the desktop app.'));
+  if (!currentRun) currentRun = writeBackup(trigger, createdBy).finally(() => { currentRun = null; });
+  return currentRun;
+};
+
+// Any backup counts, including one downloaded by hand from Admin Settings. Without any backup the
+// alert waits until the schedule is switched on, and counts from the first audit entry (the install)
+const checkBackupHealth = async (schedule: BackupSchedule, status: BackupRunStatus) => {
+  if (!schedule.alertAfterDays) return;
+  const manual = (await db.appConfig.get({ key: BACKUP_STATE_KEY }))?.value?.lastBackupAt;
+  const lastSuccess = [status.lastSuccessAt, manual].filter(Boolean).sort().pop();
+  if (!lastSuccess && !schedule.enabled) return;
+  const since = lastSuccess || (await db.auditLogs.orderBy('timestamp').first())?.timestamp;
+  if (!since) return;
+  const days = Math.floor((Date.now() - new Date(since).getTime()) / (1000 * 60 * 60 * 24));
+  if (days < schedule.alertAfterDays) return;
+
+  const title = 'Backup Overdue';
+  const existing = await db.notifications.where('link').equals(STALE_BACKUP_LINK).and(n => n.title === title && !n.isRead).first();
+  if (existing) return;
+  await db.notifications.add({
+    title,
+    message: lastSuccess
+      ? `No backup has succeeded for ${days} days${status.lastError ? ` (last error: ${status.lastError})` : ''}.`
+      : `No backup of this database has been taken in the ${days} days since it was set up.`,
+    type: 'critical',
+    link: STALE_BACKUP_LINK,
+    isRead: false,
+    createdAt: new Date().toISOString()
+  });
+};
+
+const tick = async () => {
+  if (!activeUser || !isDatabaseUnlocked()) return;
+  try {
+    const schedule = await getBackupSchedule();
+    const status = await getBackupRunStatus();
+    if (ipcRenderer && schedule.enabled && isBackupDue(schedule, status, new Date())) {
+      await runScheduledBackup('Scheduled', activeUser);
+    }
+    await checkBackupHealth(schedule, await getBackupRunStatus());
+  } catch (e) {
+    console.error('Backup scheduler:', e);
+  }
+};
+
+// Started by the layout for the signed-in user; returns the cleanup
+export const startBackupScheduler = (username: string) => {
+  activeUser = username;
+  tick();
+  const timer = window.setInterval(tick, CHECK_INTERVAL_MS);
+  return () => {
+    window.clearInterval(timer);
+    if (activeUser === username) activeUser = null;
+  };
+};
+
+// The main process holds the window open until this answers (or its own timeout passes)
+ipcRenderer?.on('app:before-exit', async () => {
+  try {
+    const schedule = await getBackupSchedule();
+    if (currentRun) await currentRun;
+    if (activeUser && schedule.enabled && schedule.onExit && isDatabaseUnlocked()) {
+      await runScheduledBackup('On exit', activeUser);
+    }
+  } catch (e) {
+    console.error(e);
+  } finally {
+    ipcRenderer.send('app:exit-ready');
+  }
+});
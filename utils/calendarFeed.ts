@@ -0,0 +1,116 @@
+import { liveQuery } from 'dexie';
+import { db } from '../db';
+import { CalendarFeedConfig } from '../types';
+import { buildComplianceSchedule } from './complianceCalendar';
+import { isDatabaseUnlocked } from './encryption';
+import { buildIcs, IcsScope, IcsSource } from './icsExport';
+import { DEFAULT_LIMITATION_CONFIG } from './limitation';
+
+// Subscription feeds for desktop calendar apps. The .ics files are built here from IndexedDB and
+// pushed to the Electron shell (public/electron.js), which serves them on 127.0.0.1. They are
+// rebuilt whenever notices, hearings, returns or taxpayers change, while someone is signed in.
+
+export const CALENDAR_FEED_KEY = 'calendar_feed';
+
+export const DEFAULT_CALENDAR_FEED: CalendarFeedConfig = {
+  enabled: false,
+  port: 17645,
+  token: '',
+  includeFilings: true
+};
+
+const FILINGS_LOOKBACK_DAYS = 365;
+const FILINGS_AHEAD_DAYS = 400;
+const PUBLISH_DELAY_MS = 2000;
+
+const ipcRenderer: any = (window as any).require?.('electron')?.ipcRenderer;
+
+export const getCalendarFeedConfig = async (): Promise<CalendarFeedConfig> => {
+  const row = await db.appConfig.get({ key: CALENDAR_FEED_KEY });
+  return { ...DEFAULT_CALENDAR_FEED, ...(row?.value || {}) };
+};
+
+export const saveCalendarFeedConfig = async (config: CalendarFeedConfig, username: string) => {
+  const row = await db.appConfig.get({ key: CALENDAR_FEED_KEY });
+  if (row) await db.appConfig.update(row.id!, { value: config });
+  else await db.appConfig.add({ key: CALENDAR_FEED_KEY, value: config });
+  await db.auditLogs.add({
+    entityType: 'System', entityId: CALENDAR_FEED_KEY, action: 'Update', timestamp: new Date().toISOString(), user: username,
+    details: config.enabled ? `Calendar feed enabled on 127.0.0.1:${config.port}${config.includeFilings ? ' with return filings' : ''}` : 'Calendar feed disabled'
+  });
+};
+
+export const newFeedToken = () => Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+
+// Feed keys double as URL paths: "firm", "user/<username>", "client/<gstin>"
+export const feedKey = (scope: IcsScope) =>
+  scope.type === 'firm' ? 'firm' : scope.type === 'user' ? `user/${scope.username}` : `client/${scope.gstin}`;
+
+export const feedUrl = (config: CalendarFeedConfig, scope: IcsScope) =>
+  `http://127.0.0.1:${config.port}/${config.token}/${feedKey(scope).split('/').map(encodeURIComponent).join('/')}.ics`;
+
+const shiftDays = (days: number) => new Date(Date.now() + days * 24 * 3600 * 1000).toISOString().split('T')[0];
+
+// Everything an export or the feed needs; filings keep only what is still to be filed
+export const loadIcsSource = async (includeFilings: boolean): Promise<IcsSource> => {
+  const [notices, hearings, taxpayers] = await Promise.all([db.notices.toArray(), db.hearings.toArray(), db.taxpayers.toArray()]);
+  let filings: IcsSource['filings'] = [];
+  if (includeFilings && taxpayers.some(t => t.filingProfile)) {
+    const returns = await db.returns.toArray();
+    const limitation = (await db.appConfig.get({ key: 'limitation_config' }))?.value || DEFAULT_LIMITATION_CONFIG;
+    filings = buildComplianceSchedule(taxpayers, returns, shiftDays(-FILINGS_LOOKBACK_DAYS), shiftDays(FILINGS_AHEAD_DAYS), limitation)
+      .filter(due => due.status === 'Pending' || due.status === 'Overdue');
+  }
+  return { notices, hearings, taxpayers, filings };
+};
+
+const buildFeeds = async (source: IcsSource): Promise<Record<string, string>> => {
+  const users = await db.users.toArray();
+  const now = new Date();
+  const feeds: Record<string, string> = { firm: buildIcs(source, { type: 'firm' }, 'GST Nexus - Firm', now) };
+  for (const u of users.filter(u => u.isActive)) {
+    feeds[feedKey({ type: 'user', username: u.username })] = buildIcs(source, { type: 'user', username: u.username }, `GST Nexus - ${u.fullName}`, now);
+  }
+  for (const t of source.taxpayers) {
+    feeds[feedKey({ type: 'client', gstin: t.gstin })] = buildIcs(source, { type: 'client', gstin: t.gstin }, `GST Nexus - ${t.tradeName}`, now);
+  }
+  return feeds;
+};
+
+// Rejects when the shell cannot listen (port taken), so the settings screen can say so
+export const publishCalendarFeed = async () => {
+  if (!ipcRenderer) throw new Error('The calendar feed is only available in the desktop app.');
+  const config = await getCalendarFeedConfig();
+  if (!config.enabled || !config.token) {
+    await ipcRenderer.invoke('calendar-feed:stop');
+    return;
+  }
+  const feeds = await buildFeeds(await loadIcsSource(config.includeFilings));
+  await ipcRenderer.invoke('calendar-feed:publish', { port: config.port, token: config.token, feeds });
+};
+
+// Started by the layout for the signed-in user; returns the cleanup. Signing out stops serving,
+// subscribed apps keep what they last fetched.
+export const startCalendarFeed = () => {
+  if (!ipcRenderer) return () => {};
+  let timer: number | undefined;
+  const changes = liveQuery(async () => {
+    // Touch every table the feeds read, so any change to them schedules a rebuild
+    await Promise.all([db.notices.toArray(), db.hearings.toArray(), db.taxpayers.toArray(), db.returns.toArray(), db.users.toArray(), db.appConfig.toArray()]);
+    return Date.now();
+  });
+  const subscription = changes.subscribe({
+    next: () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        if (isDatabaseUnlocked()) publishCalendarFeed().catch(e => console.error('Calendar feed:', e));
+      }, PUBLISH_DELAY_MS);
+    },
+    error: e => console.error('Calendar feed:', e)
+  });
+  return () => {
+    window.clearTimeout(timer);
+    subscription.unsubscribe();
+    ipcRenderer.invoke('calendar-feed:stop').catch(() => {});
+  };
+};
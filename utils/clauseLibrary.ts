@@ -0,0 +1,71 @@
+import { NoticeDefect, ReplyClause } from '../types';
+
+// Clause library: reusable reply paragraphs tagged with defect types and sections. A defect is
+// offered the clauses tagged with its type first, then those citing its section, most used first.
+// Inserting a clause copies its text into the defect's submission, so later edits to the library
+// do not change replies already drafted.
+
+// "Sec 16(2)(c)", "section 16 (2)(c)" and "16(2)(c)" are the same provision
+export const normalizeSection = (section: string) =>
+  section.toLowerCase().replace(/\bu\/s\b|\bsec(tion)?\b\.?/g, '').replace(/[\s.]/g, '');
+
+// A defect may cite several provisions: "16(2)(c) / 16(4)", "Sec 9(3) and 9(4)"
+const sectionsOf = (text?: string) =>
+  (text || '').replace(/\bu\/s\b/gi, ' ').split(/[,;/]|\band\b/i).map(normalizeSection).filter(Boolean);
+
+// Tagged "16(2)" also covers a defect under "16(2)(c)"
+const sectionMatches = (tag: string, defectSections: string[]) => {
+  const t = normalizeSection(tag);
+  return !!t && defectSections.some(s => s === t || s.startsWith(`${t}(`));
+};
+
+// Also scores knowledge base authorities, which carry the same tags
+export const clauseScore = (clause: Pick<ReplyClause, 'defectTypes' | 'sections'>, defect: Pick<NoticeDefect, 'defectType' | 'section'>) => {
+  const defectSections = sectionsOf(defect.section);
+  return (clause.defectTypes.includes(defect.defectType) ? 2 : 0) + (clause.sections.some(tag => sectionMatches(tag, defectSections)) ? 1 : 0);
+};
+
+export const suggestClauses = (clauses: ReplyClause[], defect: Pick<NoticeDefect, 'defectType' | 'section'>) =>
+  clauses
+    .map(clause => ({ clause, score: clauseScore(clause, defect) }))
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score || b.clause.usageCount - a.clause.usageCount || a.clause.title.localeCompare(b.clause.title))
+    .map(s => s.clause);
+
+// Every word of the query must appear in the title, text or tags
+export const searchClauses = (clauses: ReplyClause[], query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return clauses;
+  return clauses.filter(c => {
+    const haystack = [c.title, c.body, ...c.defectTypes, ...c.sections].join(' ').toLowerCase();
+    return words.every(w => haystack.includes(w));
+  });
+};
+
+// Paragraphs of a submission are separated by a blank line
+export const appendClause = (submission: string | undefined, clause: ReplyClause) =>
+  [submission?.trim(), clause.body.trim()].filter(Boolean).join('\n\n');
+
+export const DEFAULT_REPLY_CLAUSES: Omit<ReplyClause, 'updatedAt' | 'updatedBy'>[] = [
+  {
+    title: 'ITC not deniable only for mismatch with GSTR-2A (periods before 01.01.2022)',
+    body: 'The credit in question was availed on tax invoices in the possession of the noticee, for goods / services received and used in the course of business, and the consideration including tax has been paid to the suppliers. Section 16(2)(aa), which links credit to the details furnished by the supplier, came into force only on 01.01.2022. For {{notice.period}}, the difference between GSTR-3B and GSTR-2A is not by itself a ground to deny credit, and Circular No. 183/15/2022-GST dated 27.12.2022 lays down the verification to be followed for such differences.',
+    defectTypes: ['ITC Mismatch (GSTR-3B vs GSTR-2A/2B)', 'Supplier Registration Cancelled'],
+    sections: ['16(2)', '16(2)(aa)', '16(2)(c)'],
+    usageCount: 0
+  },
+  {
+    title: 'Interest only on ITC wrongly availed and utilised (Sec 50(3))',
+    body: 'Without prejudice to the above, under Section 50(3), as substituted with retrospective effect from 01.07.2017, interest is payable only where input tax credit has been wrongly availed and utilised. The electronic credit ledger of the noticee carried a balance at all times that was not less than the credit in question, so the credit was never utilised and no interest is payable.',
+    defectTypes: ['ITC Mismatch (GSTR-3B vs GSTR-2A/2B)', 'Ineligible ITC (Sec 17(5))', 'Transitional Credit Issue'],
+    sections: ['50(3)'],
+    usageCount: 0
+  },
+  {
+    title: 'Rule 86B not applicable: exceptions in the proviso',
+    body: 'Rule 86B applies only where the value of taxable supply in a month exceeds Rs. 50 lakh, and its proviso excludes, among others, a registered person who has discharged more than 1% of the total output tax liability in cash cumulatively up to the month in the financial year, and one whose proprietor, karta, managing director or any two partners / whole-time directors have deposited income tax of more than Rs. 1 lakh in each of the last two financial years. The noticee falls within the exception set out in the enclosed working and certificate, so the restriction does not apply.',
+    defectTypes: ['Rule 86B Violation (1% Cash Payment)'],
+    sections: ['Rule 86B'],
+    usageCount: 0
+  }
+];
@@ -0,0 +1,184 @@
+import { FilingProfile, FilingScheme, GSTReturnType, LimitationConfig, ReturnRecord, Taxpayer } from '../types';
+import { DEFAULT_LIMITATION_CONFIG, getAnnualReturnDueDate } from './limitation';
+
+// Recurring return due dates per taxpayer, from the filing profile on the taxpayer master.
+// Monthly filers: GSTR-1 on the 11th and GSTR-3B on the 20th of the next month. QRMP: GSTR-1 on the
+// 13th after the quarter (IFF on the 13th for the first two months, when opted) and GSTR-3B on the
+// 22nd or 24th depending on the state. Composition: CMP-08 on the 18th after the quarter and GSTR-4
+// on 30 April. GSTR-9 / 9C on 31 December, or the extended date in the limitation settings.
+// A due date is met by a filed ReturnRecord of the same type and period; quarterly returns are held
+// against the last month of the quarter, as the portal reports them.
+
+export type ComplianceForm = 'GSTR-1' | 'IFF' | 'GSTR-3B' | 'CMP-08' | 'GSTR-4' | 'GSTR-9' | 'GSTR-9C';
+
+// Lapsed: an optional IFF not furnished; those invoices go into the quarterly GSTR-1 instead
+export type ComplianceStatus = 'Filed' | 'Filed Late' | 'Overdue' | 'Pending' | 'Lapsed';
+
+export interface ComplianceDue {
+  key: string;
+  gstin: string;
+  taxpayerId?: number;
+  tradeName: string;
+  form: ComplianceForm;
+  returnType: GSTReturnType;
+  period: string; // As on the ReturnRecord: "April-2023", "June-2023" for Q1, "FY 2023-24"
+  label: string; // "Apr 2023", "Q1 2023-24", "FY 2023-24"
+  financialYear: string;
+  dueDate: string;
+  status: ComplianceStatus;
+  filingDate?: string;
+  daysLate?: number;
+  returnId?: number;
+}
+
+export const FILING_SCHEMES: { value: FilingScheme; label: string }[] = [
+  { value: 'Monthly', label: 'Monthly (GSTR-1 / GSTR-3B)' },
+  { value: 'QRMP', label: 'QRMP (quarterly returns, monthly payment)' },
+  { value: 'Composition', label: 'Composition (CMP-08 / GSTR-4)' }
+];
+
+export const DEFAULT_FILING_PROFILE: FilingProfile = {
+  scheme: 'Monthly',
+  effectiveFrom: '2017-07-01',
+  iff: false,
+  annualReturn: true,
+  reconciliationStatement: false
+};
+
+// QRMP GSTR-3B is due on the 22nd for these states / UTs and on the 24th for the rest
+export const QRMP_22ND_STATE_CODES = ['22', '23', '24', '25', '26', '27', '29', '30', '31', '32', '33', '34', '35', '36', '37'];
+
+export const quarterly3bDueDay = (gstin: string) => (QRMP_22ND_STATE_CODES.includes(gstin.substring(0, 2)) ? 22 : 24);
+
+export const COMPLIANCE_STATUS_STYLES: Record<ComplianceStatus, string> = {
+  'Filed': 'bg-green-50 text-green-700 border-green-200',
+  'Filed Late': 'bg-amber-50 text-amber-700 border-amber-200',
+  'Overdue': 'bg-red-50 text-red-700 border-red-200',
+  'Pending': 'bg-sky-50 text-sky-700 border-sky-200',
+  'Lapsed': 'bg-slate-50 text-slate-500 border-slate-200'
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DAY_MS = 1000 * 3600 * 24;
+const GST_START = '2017-07-01';
+
+interface Obligation {
+  form: ComplianceForm;
+  returnType: GSTReturnType;
+  period: string;
+  label: string;
+  financialYear: string;
+  dueDate: string;
+  periodStart: string;
+  periodEnd: string;
+  optional?: boolean;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const isoDate = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+const monthEnd = (year: number, month: number) => isoDate(year, month, new Date(year, month, 0).getDate());
+const fyStartYear = (year: number, month: number) => (month >= 4 ? year : year - 1);
+const fyLabel = (startYear: number) => `${startYear}-${pad((startYear + 1) % 100)}`;
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+// Everything falling due for the return month year-month (1-12)
+const obligationsFor = (profile: FilingProfile, gstin: string, year: number, month: number, limitation: LimitationConfig): Obligation[] => {
+  const [dueYear, dueMonth] = month === 12 ? [year + 1, 1] : [year, month + 1];
+  const fyStart = fyStartYear(year, month);
+  const financialYear = fyLabel(fyStart);
+  const quarterEnd = month % 3 === 0;
+  const quarter = Math.floor(((month + 8) % 12) / 3) + 1;
+  const monthly = { period: `${MONTH_NAMES[month - 1]}-${year}`, label: `${MONTH_NAMES[month - 1].slice(0, 3)} ${year}`, financialYear, periodStart: isoDate(year, month, 1), periodEnd: monthEnd(year, month) };
+  const quarterly = { ...monthly, label: `Q${quarter} ${financialYear}`, periodStart: isoDate(year, month - 2, 1) };
+  const list: Obligation[] = [];
+
+  if (profile.scheme === 'Monthly') {
+    list.push({ form: 'GSTR-1', returnType: 'GSTR-1', dueDate: isoDate(dueYear, dueMonth, 11), ...monthly });
+    list.push({ form: 'GSTR-3B', returnType: 'GSTR-3B', dueDate: isoDate(dueYear, dueMonth, 20), ...monthly });
+  } else if (profile.scheme === 'QRMP') {
+    if (quarterEnd) {
+      list.push({ form: 'GSTR-1', returnType: 'GSTR-1', dueDate: isoDate(dueYear, dueMonth, 13), ...quarterly });
+      list.push({ form: 'GSTR-3B', returnType: 'GSTR-3B', dueDate: isoDate(dueYear, dueMonth, quarterly3bDueDay(gstin)), ...quarterly });
+    } else if (profile.iff) {
+      list.push({ form: 'IFF', returnType: 'GSTR-1', dueDate: isoDate(dueYear, dueMonth, 13), optional: true, ...monthly });
+    }
+  } else if (quarterEnd) {
+    list.push({ form: 'CMP-08', returnType: 'CMP-08', dueDate: isoDate(dueYear, dueMonth, 18), ...quarterly });
+  }
+
+  if (month === 3 && profile.annualReturn) {
+    const annual = { period: `FY ${financialYear}`, label: `FY ${financialYear}`, financialYear, periodStart: isoDate(fyStart, 4, 1), periodEnd: monthEnd(year, 3) };
+    if (profile.scheme === 'Composition') {
+      list.push({ form: 'GSTR-4', returnType: 'GSTR-4', dueDate: isoDate(year, 4, 30), ...annual });
+    } else {
+      const dueDate = getAnnualReturnDueDate(annual.period, limitation) || isoDate(year, 12, 31);
+      list.push({ form: 'GSTR-9', returnType: 'GSTR-9', dueDate, ...annual });
+      if (profile.reconciliationStatement) list.push({ form: 'GSTR-9C', returnType: 'GSTR-9C', dueDate, ...annual });
+    }
+  }
+  return list;
+};
+
+const returnKey = (gstin: string, returnType: GSTReturnType, period: string) => `${gstin}|${returnType}|${period}`;
+
+// Due dates between from and to (ISO, inclusive) for every taxpayer with a filing profile
+export const buildComplianceSchedule = (
+  taxpayers: Taxpayer[],
+  returns: ReturnRecord[],
+  from: string,
+  to: string,
+  limitation: LimitationConfig = DEFAULT_LIMITATION_CONFIG,
+  today: string = new Date().toISOString().split('T')[0]
+): ComplianceDue[] => {
+  const filed = new Map<string, ReturnRecord>();
+  for (const r of returns) {
+    if (r.status === 'Filed') filed.set(returnKey(r.gstin, r.returnType, r.period), r);
+  }
+
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  const windowStart = isoDate(fromYear - 3, fromMonth, 1);
+  const dues: ComplianceDue[] = [];
+  for (const taxpayer of taxpayers) {
+    const profile = taxpayer.filingProfile;
+    if (!profile) continue;
+    // Return months from registration (annual returns with extended dates fall due up to ~2 years later)
+    const start = [profile.effectiveFrom, GST_START, windowStart].reduce((a, b) => (a > b ? a : b));
+    let [year, month] = start.split('-').map(Number);
+    month -= (month - 1) % 3; // Quarterly returns need the start of the quarter
+    while (year < toYear || (year === toYear && month <= toMonth)) {
+      for (const o of obligationsFor(profile, taxpayer.gstin, year, month, limitation)) {
+        if (o.dueDate < from || o.dueDate > to) continue;
+        if (o.periodEnd < profile.effectiveFrom || (profile.effectiveTo && o.periodStart > profile.effectiveTo)) continue;
+
+        const record = filed.get(returnKey(taxpayer.gstin, o.returnType, o.period));
+        const due: ComplianceDue = {
+          key: `${taxpayer.gstin}|${o.form}|${o.period}`,
+          gstin: taxpayer.gstin,
+          taxpayerId: taxpayer.id,
+          tradeName: taxpayer.tradeName,
+          form: o.form,
+          returnType: o.returnType,
+          period: o.period,
+          label: o.label,
+          financialYear: o.financialYear,
+          dueDate: o.dueDate,
+          status: 'Pending'
+        };
+        if (record) {
+          due.returnId = record.id;
+          due.filingDate = record.filingDate || undefined;
+          const late = record.filingDate ? daysBetween(o.dueDate, record.filingDate) : 0;
+          due.status = late > 0 ? 'Filed Late' : 'Filed';
+          if (late > 0) due.daysLate = late;
+        } else if (o.dueDate < today) {
+          due.status = o.optional ? 'Lapsed' : 'Overdue';
+          if (!o.optional) due.daysLate = daysBetween(o.dueDate, today);
+        }
+        dues.push(due);
+      }
+      [year, month] = month === 12 ? [year + 1, 1] : [year, month + 1];
+    }
+  }
+  return dues.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.tradeName.localeCompare(b.tradeName) || a.form.localeCompare(b.form));
+};
@@ -0,0 +1,420 @@
+import { db } from '../db';
+import { NoticeDefect, ReturnRecord, TaxHeadValues } from '../types';
+import { DEFECT_HEADS, DefectHeadKey, getInterestRate } from './interest';
+import { buildDefect, guessDefectType } from './noticeParser';
+import { WORKSHEET_MONTHS } from './reconciliationBuilder';
+import { formatCurrency, formatDate } from './formatting';
+
+// Department-style checks over the stored returns of one GSTIN and year: the comparisons
+// behind ASMT-10 scrutiny. Exposure is an estimate for review; interest is simple interest
+// up to the scan date. Only addFindingToNotice writes anything.
+
+export type DiscrepancyCheck = 'short-payment' | 'excess-itc' | 'rule-86b' | 'late-fee' | 'rcm-gap';
+
+// `context` feeds the same keyword matching the notice parser uses for the defect type
+export const DISCREPANCY_CHECKS: { key: DiscrepancyCheck; label: string; context: string; section: string; excessItc?: boolean }[] = [
+  { key: 'short-payment', label: 'Short payment (GSTR-1 vs GSTR-3B)', context: 'short payment gstr-1 vs 3b', section: 'Sec 73 / 74 r/w Sec 50(1)' },
+  { key: 'excess-itc', label: 'Excess ITC (GSTR-3B vs GSTR-2B)', context: 'excess itc 3b vs 2b', section: 'Sec 16(2)(aa) r/w Sec 73 / 74', excessItc: true },
+  { key: 'rule-86b', label: 'Rule 86B – 1% cash payment', context: 'rule 86b', section: 'Rule 86B' },
+  { key: 'late-fee', label: 'Late filing fee & interest', context: 'late fee', section: 'Sec 47 / Sec 50(1)' },
+  { key: 'rcm-gap', label: 'RCM liability gap', context: 'reverse charge rcm', section: 'Sec 9(3) / 9(4)' }
+];
+
+export const MATERIALITY = 100; // Findings below this many rupees are not reported
+
+const RULE_86B_THRESHOLD = 5000000; // Monthly taxable value above which Rule 86B applies
+const LATE_FEE = { perDay: 50, cap: 10000, nilPerDay: 20, nilCap: 500 }; // CGST + SGST together
+const DUE_DAY: Record<'GSTR-1' | 'GSTR-3B', number> = { 'GSTR-1': 11, 'GSTR-3B': 20 };
+
+// Tables carrying the figures compared (codes as written by utils/returnImport)
+const GSTR1_TAX_CODES = ['B2B', 'SEZ', 'DE', 'B2CL', 'B2CS', 'EXP', 'CDNR', 'CDNUR', 'AT', 'TXPD'];
+const GSTR3B_OUTWARD_CODES = ['3.1(a)', '3.1(b)'];
+const GSTR3B_ITC_CODES = ['4A-IMPG', '4A-ISD', '4A-OTH']; // Credit that should appear in GSTR-2B
+const GSTR3B_RCM_ITC_CODES = ['4A-IMPS', '4A-ISRC'];
+const GSTR2B_ITC_CODES = ['B2B', 'B2BA', 'CDNR', 'CDNRA', 'ISD', 'ISDA', 'IMPG', 'IMPGSEZ', 'ECO'];
+
+type HeadAmounts = Record<DefectHeadKey, number>;
+
+export interface DiscrepancyLine {
+  period: string;
+  sourceA?: number;
+  sourceB?: number;
+  detail?: string;
+  gap: number;
+}
+
+export interface DiscrepancyFinding {
+  check: DiscrepancyCheck;
+  title: string;
+  defectType: string;
+  section: string;
+  excessItc?: boolean; // Interest at the Sec 50(3) rate
+  description: string;
+  columns: [string, string]; // Headings for sourceA / sourceB of the lines
+  heads: Record<DefectHeadKey, TaxHeadValues>;
+  tax: number;
+  interest: number;
+  lateFee: number;
+  exposure: number;
+  lines: DiscrepancyLine[];
+  notes: string[];
+}
+
+export interface DiscrepancyScan {
+  gstin: string;
+  financialYear: string;
+  asOf: string;
+  findings: DiscrepancyFinding[];
+  skipped: { check: DiscrepancyCheck; reason: string }[];
+  byHead: HeadAmounts;
+  total: number;
+}
+
+interface ScanMonth {
+  month: string;
+  period: string; // "April-2023"
+  gstr1?: ReturnRecord;
+  gstr3b?: ReturnRecord;
+  gstr2b?: ReturnRecord;
+  dueDate: (day: number) => string;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const emptyHeads = (): HeadAmounts => ({ igst: 0, cgst: 0, sgst: 0, cess: 0 });
+const headTotal = (h: HeadAmounts) => DEFECT_HEADS.reduce((sum, { key }) => sum + h[key], 0);
+const mapHeads = (fn: (key: DefectHeadKey) => number): HeadAmounts => ({ igst: fn('igst'), cgst: fn('cgst'), sgst: fn('sgst'), cess: fn('cess') });
+
+const daysBetween = (from: string, to: string) => Math.round((new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+
+const simpleInterest = (amount: number, rate: number, from: string, to: string) => {
+  const days = daysBetween(from, to);
+  return amount > 0 && days > 0 ? (amount * rate * days) / 36500 : 0;
+};
+
+// Head-wise tax of the given tables, or undefined when the return was entered without table detail
+const sectionHeads = (record: ReturnRecord, codes: string[]): HeadAmounts | undefined => {
+  if (!record.sections?.length) return undefined;
+  const heads = emptyHeads();
+  record.sections.filter(s => codes.includes(s.code)).forEach(s => DEFECT_HEADS.forEach(({ key }) => { heads[key] += s[key]; }));
+  return heads;
+};
+
+const hasSection = (record: ReturnRecord, code: string) => !!record.sections?.some(s => s.code === code);
+
+// Latest stored return of each type for every month of the year
+const scanMonths = (returns: ReturnRecord[], gstin: string, financialYear: string): ScanMonth[] => {
+  const startYear = parseInt(financialYear.slice(0, 4)) || new Date().getFullYear();
+  const own = returns.filter(r => r.gstin === gstin && r.financialYear === financialYear).sort((a, b) => (a.id || 0) - (b.id || 0));
+  return WORKSHEET_MONTHS.map((month, index) => {
+    const year = index < 9 ? startYear : startYear + 1;
+    const calendarMonth = (index + 3) % 12;
+    const ofType = (type: string) => own.filter(r => r.returnType === type && r.period.toLowerCase().startsWith(month.toLowerCase())).pop();
+    return {
+      month,
+      period: `${month}-${year}`,
+      gstr1: ofType('GSTR-1'),
+      gstr3b: ofType('GSTR-3B'),
+      gstr2b: ofType('GSTR-2B'),
+      dueDate: (day: number) => new Date(Date.UTC(year, calendarMonth + 1, day)).toISOString().split('T')[0]
+    };
+  });
+};
+
+// Both sides head-wise when both returns carry table detail, otherwise both as a total under IGST
+const compareHeads = (a: { heads?: HeadAmounts; total: number }, b: { heads?: HeadAmounts; total: number }) => {
+  if (a.heads && b.heads) return { a: a.heads, b: b.heads, detailed: true };
+  return { a: { ...emptyHeads(), igst: a.heads ? headTotal(a.heads) : a.total }, b: { ...emptyHeads(), igst: b.heads ? headTotal(b.heads) : b.total }, detailed: false };
+};
+
+// Monthly gaps carried forward per head: a later surplus settles an earlier shortfall, and interest
+// runs on the open balance from each month's GSTR-3B due date to the next one (or the scan date)
+const accrue = (gaps: { due: string; heads: HeadAmounts }[], rate: number, asOf: string) => {
+  const tax = emptyHeads();
+  const interest = emptyHeads();
+  for (const { key } of DEFECT_HEADS) {
+    let balance = 0;
+    gaps.forEach((g, i) => {
+      balance = Math.max(0, balance + g.heads[key]);
+      const next = gaps[i + 1]?.due;
+      interest[key] += simpleInterest(balance, rate, g.due, next && next < asOf ? next : asOf);
+    });
+    tax[key] = balance;
+  }
+  return { tax, interest };
+};
+
+const missingNote = (months: ScanMonth[], label: string) =>
+  months.length ? [`No ${label} stored for ${months.map(m => m.month).join(', ')}; those months are not compared.`] : [];
+
+const APPROXIMATE_NOTE = 'Some months were entered without table detail, so the difference for them is shown as a total under IGST.';
+
+interface CheckResult {
+  tax?: HeadAmounts;
+  interest?: HeadAmounts;
+  lateFee?: HeadAmounts;
+  rate?: number;
+  columns: [string, string];
+  summary: string;
+  lines: DiscrepancyLine[];
+  notes: string[];
+}
+
+type CheckFn = (months: ScanMonth[], rate: number, asOf: string) => CheckResult | string;
+
+const shortPayment: CheckFn = (months, rate, asOf) => {
+  const compared = months.filter(m => m.gstr1 && m.gstr3b);
+  if (!compared.length) return 'Needs GSTR-1 and GSTR-3B for the same month.';
+  let approximate = false;
+  const gaps = compared.map(m => {
+    const { a, b, detailed } = compareHeads(
+      { heads: sectionHeads(m.gstr1!, GSTR1_TAX_CODES), total: m.gstr1!.taxLiability },
+      { heads: sectionHeads(m.gstr3b!, GSTR3B_OUTWARD_CODES), total: m.gstr3b!.taxLiability }
+    );
+    approximate = approximate || !detailed;
+    return { m, a, b, due: m.dueDate(DUE_DAY['GSTR-3B']), heads: mapHeads(k => a[k] - b[k]) };
+  });
+  const { tax, interest } = accrue(gaps, rate, asOf);
+  return {
+    tax, interest, rate,
+    columns: ['GSTR-1 tax', 'GSTR-3B tax'],
+    summary: 'Tax on outward supplies declared in GSTR-1 exceeds the tax paid through GSTR-3B tables 3.1(a) and 3.1(b).',
+    lines: gaps.map(g => ({ period: g.m.period, sourceA: round(headTotal(g.a)), sourceB: round(headTotal(g.b)), gap: round(headTotal(g.heads)) })),
+    notes: [
+      ...missingNote(months.filter(m => !!m.gstr1 !== !!m.gstr3b), 'GSTR-1 or GSTR-3B'),
+      'A surplus paid in a later GSTR-3B is set off against earlier shortfalls; amendments in later GSTR-1s are not considered.',
+      ...(approximate ? [APPROXIMATE_NOTE] : [])
+    ]
+  };
+};
+
+const excessItc: CheckFn = (months, rate, asOf) => {
+  const compared = months.filter(m => m.gstr3b && m.gstr2b);
+  if (!compared.length) return 'Needs GSTR-3B and GSTR-2B for the same month.';
+  let approximate = false;
+  const gaps = compared.map(m => {
+    const { a, b, detailed } = compareHeads(
+      { heads: sectionHeads(m.gstr3b!, GSTR3B_ITC_CODES), total: m.gstr3b!.itcAvailable },
+      { heads: sectionHeads(m.gstr2b!, GSTR2B_ITC_CODES), total: m.gstr2b!.itcAvailable }
+    );
+    approximate = approximate || !detailed;
+    return { m, a, b, due: m.dueDate(DUE_DAY['GSTR-3B']), heads: mapHeads(k => a[k] - b[k]) };
+  });
+  const { tax, interest } = accrue(gaps, rate, asOf);
+  return {
+    tax, interest, rate,
+    columns: ['GSTR-3B ITC', 'GSTR-2B ITC'],
+    summary: 'ITC claimed in GSTR-3B (imports, ISD and all other ITC) exceeds the credit available in GSTR-2B.',
+    lines: gaps.map(g => ({ period: g.m.period, sourceA: round(headTotal(g.a)), sourceB: round(headTotal(g.b)), gap: round(headTotal(g.heads)) })),
+    notes: [
+      ...missingNote(months.filter(m => m.gstr3b && !m.gstr2b), 'GSTR-2B'),
+      'Credit appearing in a later GSTR-2B is set off against earlier excess claims. Interest assumes the excess credit was utilised.',
+      ...(approximate ? [APPROXIMATE_NOTE] : [])
+    ]
+  };
+};
+
+// Cash must cover 1% of output tax once monthly taxable value crosses ₹50 lakh, unless
+// the cumulative cash payment for the year so far already exceeds 1% (second proviso)
+const rule86b: CheckFn = (months, rate, asOf) => {
+  const filed = months.filter(m => m.gstr3b);
+  if (!filed.length) return 'Needs GSTR-3B.';
+  const notes: string[] = [];
+  const tax = emptyHeads();
+  const interest = emptyHeads();
+  const lines: DiscrepancyLine[] = [];
+  let cumulativeCash = 0;
+  let cumulativeOutput = 0;
+  let approximate = false;
+  const nilCash: string[] = [];
+
+  for (const m of filed) {
+    const r = m.gstr3b!;
+    const outputHeads = sectionHeads(r, GSTR3B_OUTWARD_CODES);
+    const taxable = r.sections?.find(s => s.code === '3.1(a)')?.taxableValue ?? r.taxableValue;
+    // Reverse-charge tax is always paid in cash and does not count towards the 1%
+    const cashHeads = outputHeads
+      ? mapHeads(k => Math.max(0, sectionHeads(r, ['6.1-CASH'])![k] - sectionHeads(r, ['3.1(d)'])![k]))
+      : undefined;
+    const output = outputHeads ? headTotal(outputHeads) : r.taxLiability;
+    const cash = cashHeads ? headTotal(cashHeads) : r.cashPaid;
+    cumulativeCash += cash;
+    cumulativeOutput += output;
+    if (taxable <= RULE_86B_THRESHOLD || output <= 0) continue;
+    if (cumulativeCash >= cumulativeOutput * 0.01) continue;
+    if (r.sections?.length && !hasSection(r, '6.1-CASH')) nilCash.push(m.month);
+
+    const required = outputHeads ? mapHeads(k => outputHeads[k] * 0.01) : { ...emptyHeads(), igst: output * 0.01 };
+    const paid = cashHeads || { ...emptyHeads(), igst: cash };
+    const shortfall = mapHeads(k => Math.max(0, required[k] - paid[k]));
+    approximate = approximate || !outputHeads;
+    if (headTotal(shortfall) < 1) continue;
+    const due = m.dueDate(DUE_DAY['GSTR-3B']);
+    DEFECT_HEADS.forEach(({ key }) => {
+      tax[key] += shortfall[key];
+      interest[key] += simpleInterest(shortfall[key], rate, due, asOf);
+    });
+    lines.push({ period: m.period, sourceA: round(headTotal(required)), sourceB: round(headTotal(paid)), gap: round(headTotal(shortfall)), detail: `Taxable value ${formatCurrency(taxable)}` });
+  }
+
+  if (nilCash.length) notes.push(`Cash paid is recorded as nil for ${nilCash.join(', ')}; confirm table 6.1 was present in the imported return.`);
+  notes.push('Check the Rule 86B exceptions (income tax above ₹1 lakh, refunds above ₹1 lakh, government / PSU registrations) before accepting.');
+  if (approximate) notes.push(APPROXIMATE_NOTE);
+  return {
+    tax, interest, rate,
+    columns: ['1% of output tax', 'Cash paid'],
+    summary: 'Output tax was discharged through ITC beyond 99% in months with taxable supplies above ₹50 lakh.',
+    lines,
+    notes
+  };
+};
+
+// Fee at the reduced per-day rates (nil returns lower), plus interest on the cash paid late
+const lateFee: CheckFn = (months, rate) => {
+  const filings = months.flatMap(m => (['GSTR-1', 'GSTR-3B'] as const)
+    .map(type => ({ m, type, record: type === 'GSTR-1' ? m.gstr1 : m.gstr3b }))
+    .filter(f => f.record));
+  if (!filings.length) return 'Needs GSTR-1 or GSTR-3B.';
+  const undated = filings.filter(f => !f.record!.filingDate);
+  const fee = emptyHeads();
+  const interest = emptyHeads();
+  const lines: DiscrepancyLine[] = [];
+  let approximate = false;
+
+  for (const { m, type, record } of filings) {
+    if (!record!.filingDate) continue;
+    const due = m.dueDate(DUE_DAY[type]);
+    const filedOn = record!.filingDate.split('T')[0];
+    const days = daysBetween(due, filedOn);
+    if (days <= 0) continue;
+
+    const nil = !record!.taxableValue && !record!.taxLiability && !record!.itcAvailable && !record!.sections?.some(s => s.taxableValue || headTotal(s));
+    const charged = Math.min(days * (nil ? LATE_FEE.nilPerDay : LATE_FEE.perDay), nil ? LATE_FEE.nilCap : LATE_FEE.cap);
+    const paidFee = type === 'GSTR-3B' ? sectionHeads(record!, ['5.1-LF']) : undefined;
+    const feeDue = mapHeads(k => (k === 'cgst' || k === 'sgst' ? Math.max(0, charged / 2 - (paidFee?.[k] || 0)) : 0));
+
+    let interestDue = emptyHeads();
+    if (type === 'GSTR-3B') {
+      const cash = sectionHeads(record!, ['6.1-CASH']);
+      const paidInterest = sectionHeads(record!, ['5.1-INT']);
+      interestDue = cash
+        ? mapHeads(k => Math.max(0, (cash[k] * rate * days) / 36500 - (paidInterest?.[k] || 0)))
+        : { ...emptyHeads(), igst: (record!.cashPaid * rate * days) / 36500 };
+      approximate = approximate || !cash;
+    }
+    const gap = headTotal(feeDue) + headTotal(interestDue);
+    if (gap < 1) continue;
+    DEFECT_HEADS.forEach(({ key }) => {
+      fee[key] += feeDue[key];
+      interest[key] += interestDue[key];
+    });
+    lines.push({ period: m.period, detail: `${type} filed ${formatDate(filedOn)}, ${days} day(s) after ${formatDate(due)}${nil ? ' (nil return)' : ''}`, gap: round(gap) });
+  }
+
+  return {
+    lateFee: fee, interest, rate,
+    columns: ['', ''],
+    summary: 'Returns were filed after the due date; late fee and interest on the tax paid late are payable.',
+    lines,
+    notes: [
+      ...(undated.length ? [`${undated.length} return(s) have no filing date and were not checked.`] : []),
+      `Due dates assume monthly filing (GSTR-1 on the ${DUE_DAY['GSTR-1']}th, GSTR-3B on the ${DUE_DAY['GSTR-3B']}th); extensions and QRMP dates are not applied.`,
+      `Late fee at ₹${LATE_FEE.perDay}/day (₹${LATE_FEE.nilPerDay} for nil returns), capped at ${formatCurrency(LATE_FEE.cap)}; lower turnover-based caps may apply. Fee and interest shown in GSTR-3B table 5.1 are deducted.`,
+      ...(approximate ? ['Cash paid without head-wise detail is shown under IGST.'] : [])
+    ]
+  };
+};
+
+// Credit taken on reverse-charge supplies without the matching liability in table 3.1(d)
+const rcmGap: CheckFn = (months, rate, asOf) => {
+  const detailed = months.filter(m => m.gstr3b?.sections?.length);
+  if (!detailed.length) return 'Needs GSTR-3B imported with table detail.';
+  const gaps = detailed.map(m => {
+    const itc = sectionHeads(m.gstr3b!, GSTR3B_RCM_ITC_CODES)!;
+    const paid = sectionHeads(m.gstr3b!, ['3.1(d)'])!;
+    return { m, itc, paid, due: m.dueDate(DUE_DAY['GSTR-3B']), heads: mapHeads(k => itc[k] - paid[k]) };
+  });
+  const { tax, interest } = accrue(gaps, rate, asOf);
+  return {
+    tax, interest, rate,
+    columns: ['RCM ITC (4A(2), 4A(3))', 'RCM tax (3.1(d))'],
+    summary: 'ITC on reverse-charge supplies exceeds the reverse-charge liability paid in table 3.1(d).',
+    lines: gaps.filter(g => headTotal(g.itc) || headTotal(g.paid)).map(g => ({ period: g.m.period, sourceA: round(headTotal(g.itc)), sourceB: round(headTotal(g.paid)), gap: round(headTotal(g.heads)) })),
+    notes: [
+      ...missingNote(months.filter(m => m.gstr3b && !m.gstr3b.sections?.length), 'GSTR-3B table detail'),
+      'Reverse-charge liability on purchases missing from both tables cannot be detected from returns alone; compare with the books.'
+    ]
+  };
+};
+
+const CHECKS: Record<DiscrepancyCheck, CheckFn> = {
+  'short-payment': shortPayment,
+  'excess-itc': excessItc,
+  'rule-86b': rule86b,
+  'late-fee': lateFee,
+  'rcm-gap': rcmGap
+};
+
+export const scanReturns = (returns: ReturnRecord[], gstin: string, financialYear: string, defectTypes: string[], asOf = new Date().toISOString().split('T')[0]): DiscrepancyScan => {
+  const months = scanMonths(returns, gstin, financialYear);
+  const findings: DiscrepancyFinding[] = [];
+  const skipped: DiscrepancyScan['skipped'] = [];
+
+  for (const check of DISCREPANCY_CHECKS) {
+    const defectType = guessDefectType(check.context, defectTypes);
+    const result = CHECKS[check.key](months, getInterestRate(check.excessItc), asOf);
+    if (typeof result === 'string') {
+      skipped.push({ check: check.key, reason: result });
+      continue;
+    }
+    const heads = {} as Record<DefectHeadKey, TaxHeadValues>;
+    for (const { key } of DEFECT_HEADS) {
+      heads[key] = { tax: round(result.tax?.[key] || 0), interest: round(result.interest?.[key] || 0), penalty: 0, lateFee: round(result.lateFee?.[key] || 0), others: 0 };
+    }
+    const sum = (field: 'tax' | 'interest' | 'lateFee') => round(DEFECT_HEADS.reduce((s, { key }) => s + heads[key][field], 0));
+    const exposure = round(sum('tax') + sum('interest') + sum('lateFee'));
+    if (exposure < MATERIALITY) continue;
+
+    const flagged = result.lines.filter(l => l.gap >= 1).map(l => `${l.period} ${formatCurrency(l.gap)}`);
+    findings.push({
+      check: check.key,
+      title: check.label,
+      defectType,
+      section: check.section,
+      excessItc: check.excessItc,
+      description: `${result.summary} FY ${financialYear}, from returns on record: ${flagged.join(', ') || 'see working'}.`
+        + (sum('interest') ? ` Interest at ${result.rate}% computed to ${formatDate(asOf)}.` : ''),
+      columns: result.columns,
+      heads,
+      tax: sum('tax'),
+      interest: sum('interest'),
+      lateFee: sum('lateFee'),
+      exposure,
+      lines: result.lines,
+      notes: result.notes
+    });
+  }
+
+  const byHead = mapHeads(k => round(findings.reduce((s, f) => s + f.heads[k].tax + f.heads[k].interest + f.heads[k].lateFee, 0)));
+  return { gstin, financialYear, asOf, findings, skipped, byHead, total: round(headTotal(byHead)) };
+};
+
+export const findingToDefect = (finding: DiscrepancyFinding, defectType = finding.defectType): Partial<NoticeDefect> =>
+  ({ ...buildDefect(finding.heads, defectType, finding.description, finding.section), excessItc: finding.excessItc });
+
+// Adds the finding as a defect of an existing notice and brings the notice demand up to date
+export const addFindingToNotice = async (finding: DiscrepancyFinding, defectType: string, noticeId: number, username: string) => {
+  const defect = { ...findingToDefect(finding, defectType), noticeId } as NoticeDefect;
+  await db.transaction('rw', db.defects, db.notices, db.auditLogs, async () => {
+    await db.defects.add(defect);
+    const all = await db.defects.where('noticeId').equals(noticeId).toArray();
+    const demandAmount = all.filter(d => d.status !== 'Waived').reduce((acc, d) => acc + DEFECT_HEADS.reduce((s, { key }) => {
+      const h = d[key];
+      return s + (h?.tax || 0) + (h?.interest || 0) + (h?.penalty || 0) + (h?.lateFee || 0) + (h?.others || 0);
+    }, 0), 0);
+    await db.notices.update(noticeId, { demandAmount });
+    await db.auditLogs.add({
+      entityType: 'Notice', entityId: noticeId, action: 'Update', timestamp: new Date().toISOString(), user: username,
+      details: `Added draft defect "${defectType}" (${formatCurrency(finding.exposure)}) from the returns discrepancy scan`
+    });
+  });
+};
@@ -0,0 +1,307 @@
+import Dexie, { DBCore, DBCoreCursor, DBCoreMutateRequest, DBCoreTable } from 'dexie';
+import nacl from 'tweetnacl';
+import { EncryptionConfig, EncryptionKeyInfo } from '../types';
+import { randomBytes } from './security';
+
+// Optional at-rest encryption of sensitive fields.
+// The key is derived from a master passphrase (PBKDF2, WebCrypto) at login and only kept in memory.
+// Values are sealed synchronously (XSalsa20-Poly1305) in a DBCore middleware, since an IndexedDB
+// transaction auto-commits across an async WebCrypto call. Indexed columns stay in clear text so that
+// lookups keep working. Document blobs cannot be read synchronously, so they are sealed right after
+// the write commits (retried on failure and on every unlock) and must be read back through getDocumentFile().
+
+export const ENCRYPTION_CONFIG_KEY = 'encryption_config';
+const KEY_ITERATIONS = 310000;
+const FIELD_PREFIX = 'gstenc:';
+const VERIFIER_TEXT = 'gst-nexus-key-check';
+const SEALED_BLOB_TYPE = 'application/x-gstnexus-sealed';
+const SEAL_RETRY_MS = 60 * 1000;
+
+// Indexed columns (gstin, tradeName, noticeId, ...) are deliberately absent
+export const ENCRYPTED_FIELDS: Record<string, string[]> = {
+  taxpayers: ['legalName', 'mobile', 'email', 'registeredAddress', 'stateCode', 'stateCircle', 'centralRange'],
+  notices: ['description'],
+  hearings: ['minutes'],
+  documents: ['ocrText', 'ocrPages'],
+  replyDrafts: ['text'],
+  appConfig: ['secret']
+};
+
+const keys = new Map<number, Uint8Array>();
+let currentVersion = 0;
+let isEnabled = false;
+let database: Dexie | null = null;
+
+const CHUNK = 0x8000;
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK) binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  return btoa(binary);
+};
+const fromBase64 = (b64: string): Uint8Array => Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+
+export const isEncryptionEnabled = () => isEnabled;
+export const isDatabaseUnlocked = () => !isEnabled || keys.has(currentVersion);
+
+// Layout: [key version (1 byte)][nonce][box]
+const sealBytes = (plain: Uint8Array, version = currentVersion): Uint8Array => {
+  const key = keys.get(version);
+  if (!key) throw new Error('Encrypted data is locked. Sign in again with the master passphrase.');
+  const nonce = randomBytes(nacl.secretbox.nonceLength);
+  const box = nacl.secretbox(plain, nonce, key);
+  const out = new Uint8Array(1 + nonce.length + box.length);
+  out[0] = version;
+  out.set(nonce, 1);
+  out.set(box, 1 + nonce.length);
+  return out;
+};
+
+// Null when the key for this version is not loaded or the box fails authentication
+const openBytes = (sealed: Uint8Array, key = keys.get(sealed[0])): Uint8Array | null => {
+  if (!key) return null;
+  const nonceEnd = 1 + nacl.secretbox.nonceLength;
+  return nacl.secretbox.open(sealed.subarray(nonceEnd), sealed.subarray(1, nonceEnd), key);
+};
+
+const isSealedValue = (value: unknown): value is string => typeof value === 'string' && value.startsWith(FIELD_PREFIX);
+
+const sealValue = (value: unknown): string => FIELD_PREFIX + toBase64(sealBytes(new TextEncoder().encode(JSON.stringify(value))));
+
+const sealFields = (tableName: string, obj: any) => {
+  if (!obj || typeof obj !== 'object') return obj;
+  const fields = ENCRYPTED_FIELDS[tableName].filter(f => obj[f] !== undefined && !isSealedValue(obj[f]));
+  if (fields.length === 0) return obj;
+  const copy = { ...obj };
+  fields.forEach(f => { copy[f] = sealValue(obj[f]); });
+  return copy;
+};
+
+// Values that cannot be opened stay sealed, so a read-modify-write never drops them
+const openFields = (tableName: string, obj: any) => {
+  if (!obj || typeof obj !== 'object') return obj;
+  const fields = ENCRYPTED_FIELDS[tableName].filter(f => isSealedValue(obj[f]));
+  if (fields.length === 0) return obj;
+  const copy = { ...obj };
+  fields.forEach(f => {
+    const plain = openBytes(fromBase64(obj[f].slice(FIELD_PREFIX.length)));
+    if (plain) copy[f] = JSON.parse(new TextDecoder().decode(plain));
+  });
+  return copy;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, nacl.secretbox.keyLength * 8);
+  return new Uint8Array(bits);
+};
+
+const verifyKey = (info: EncryptionKeyInfo, key: Uint8Array): boolean => {
+  const plain = openBytes(fromBase64(info.verifier), key);
+  return !!plain && new TextDecoder().decode(plain) === VERIFIER_TEXT;
+};
+
+const getDb = (): Dexie => {
+  if (!database) throw new Error('Encryption is not installed on the database.');
+  return database;
+};
+
+export const getEncryptionConfig = async (): Promise<EncryptionConfig | null> => {
+  const row = await getDb().table('appConfig').get({ key: ENCRYPTION_CONFIG_KEY });
+  return row?.value || null;
+};
+
+const saveEncryptionConfig = async (config: EncryptionConfig) => {
+  const table = getDb().table('appConfig');
+  const row = await table.get({ key: ENCRYPTION_CONFIG_KEY });
+  if (row) await table.update(row.id, { value: config });
+  else await table.add({ key: ENCRYPTION_CONFIG_KEY, value: config });
+};
+
+// Derives the current key; older versions still listed (a re-key that did not finish) are opened
+// from their wrapped copy, or derived when they share the passphrase. False if the passphrase does
+// not open the current key.
+export const unlockDatabase = async (passphrase: string): Promise<boolean> => {
+  const config = await getEncryptionConfig();
+  if (!config?.enabled) return true;
+  const current = config.keys.find(k => k.version === config.currentVersion);
+  if (!current) return false;
+  const currentKey = await deriveKey(passphrase, fromBase64(current.salt), current.iterations);
+  if (!verifyKey(current, currentKey)) return false;
+  const derived = new Map<number, Uint8Array>([[current.version, currentKey]]);
+  for (const info of config.keys.filter(k => k.version !== current.version)) {
+    const unwrapped = info.wrappedKey ? openBytes(fromBase64(info.wrappedKey), currentKey) : null;
+    if (unwrapped) {
+      derived.set(info.version, unwrapped);
+      continue;
+    }
+    const key = await deriveKey(passphrase, fromBase64(info.salt), info.iterations);
+    if (verifyKey(info, key)) derived.set(info.version, key);
+  }
+  derived.forEach((key, version) => keys.set(version, key));
+  currentVersion = config.currentVersion;
+  isEnabled = true;
+  // Finish an interrupted re-key, then seal any file whose post-write sealing never ran
+  const resume = config.keys.length > 1 ? resealUnderCurrentKey().catch(console.error) : Promise.resolve();
+  resume.then(() => sealPendingDocuments()).catch(console.error);
+  return true;
+};
+
+export const lockDatabase = () => {
+  keys.forEach(key => key.fill(0));
+  keys.clear();
+};
+
+// --- Document files ---
+
+export const isSealedBlob = (blob?: Blob) => !!blob && blob.type === SEALED_BLOB_TYPE;
+
+const sealBlob = async (blob: Blob): Promise<Blob> => {
+  const header = new TextEncoder().encode(JSON.stringify({ type: blob.type }) + '\n');
+  const plain = new Uint8Array(header.length + blob.size);
+  plain.set(header);
+  plain.set(new Uint8Array(await blob.arrayBuffer()), header.length);
+  return new Blob([sealBytes(plain)], { type: SEALED_BLOB_TYPE });
+};
+
+const openBlob = async (blob: Blob): Promise<Blob> => {
+  const plain = openBytes(new Uint8Array(await blob.arrayBuffer()));
+  if (!plain) throw new Error('This file is encrypted. Sign in with the master passphrase to open it.');
+  const split = plain.indexOf(10);
+  const { type } = JSON.parse(new TextDecoder().decode(plain.subarray(0, split)));
+  return new Blob([plain.subarray(split + 1)], { type });
+};
+
+// Use instead of doc.fileData wherever the file content is needed
+export const getDocumentFile = async (doc: { fileData?: Blob }): Promise<Blob | undefined> => {
+  if (!doc.fileData) return undefined;
+  return isSealedBlob(doc.fileData) ? openBlob(doc.fileData) : doc.fileData;
+};
+
+const sealDocumentFile = async (id: number) => {
+  if (!isEnabled || !isDatabaseUnlocked()) return;
+  const table = getDb().table('documents');
+  const doc = await table.get(id);
+  if (!doc?.fileData || isSealedBlob(doc.fileData)) return;
+  await table.update(id, { fileData: await sealBlob(doc.fileData) });
+};
+
+// Picks up files whose post-commit sealing never ran (e.g. the app was closed right after an upload)
+export const sealPendingDocuments = async () => {
+  if (!isEnabled || !isDatabaseUnlocked()) return;
+  const ids = await getDb().table('documents').filter(d => !!d.fileData && !isSealedBlob(d.fileData)).primaryKeys();
+  for (const id of ids) await sealDocumentFile(id as number);
+};
+
+let retryTimer: number | undefined;
+
+// A failed seal is swept again shortly, and in any case on the next unlock
+const sealAfterWrite = (ids: number[]) => {
+  Dexie.ignoreTransaction(() => Promise.all(ids.map(id => sealDocumentFile(id)))).catch(e => {
+    console.error(e);
+    window.clearTimeout(retryTimer);
+    retryTimer = window.setTimeout(() => sealPendingDocuments().catch(console.error), SEAL_RETRY_MS);
+  });
+};
+
+// --- Middleware ---
+
+const wrapCursor = (tableName: string, cursor: DBCoreCursor): DBCoreCursor =>
+  Object.create(cursor, { value: { get: () => openFields(tableName, cursor.value) } });
+
+const encryptedTable = (tableName: string, down: DBCoreTable): DBCoreTable => ({
+  ...down,
+  mutate: async (req: DBCoreMutateRequest) => {
+    if (!isEnabled || (req.type !== 'add' && req.type !== 'put')) return down.mutate(req);
+    const res = await down.mutate({ ...req, values: req.values.map(v => sealFields(tableName, v)) });
+    if (tableName === 'documents') {
+      const plainFileIds = (res.results || []).filter((_id, i) => req.values[i]?.fileData instanceof Blob && !isSealedBlob(req.values[i].fileData));
+      // Deferred past the surrounding transaction, which cannot stay open across blob reads
+      if (plainFileIds.length > 0) setTimeout(() => sealAfterWrite(plainFileIds));
+    }
+    return res;
+  },
+  get: req => down.get(req).then(v => openFields(tableName, v)),
+  getMany: req => down.getMany(req).then(values => values.map(v => openFields(tableName, v))),
+  query: req => down.query(req).then(res => (req.values ? { ...res, result: res.result.map(v => openFields(tableName, v)) } : res)),
+  openCursor: req => down.openCursor(req).then(cursor => (cursor && req.values !== false ? wrapCursor(tableName, cursor) : cursor))
+});
+
+export const installEncryption = (db: Dexie) => {
+  database = db;
+  db.use({
+    stack: 'dbcore',
+    name: 'FieldEncryption',
+    create: (down: DBCore) => ({
+      ...down,
+      table: (name: string) => (ENCRYPTED_FIELDS[name] ? encryptedTable(name, down.table(name)) : down.table(name))
+    })
+  });
+  // Writes must know whether to seal before the first query resolves
+  db.on('ready', () => getEncryptionConfig().then(config => {
+    isEnabled = !!config?.enabled;
+    currentVersion = config?.currentVersion || 0;
+  }));
+};
+
+// --- Enable / re-key ---
+
+// Rewrites every sensitive record and file under a key derived from the new passphrase.
+// With encryption off this turns it on.
+export const rekeyDatabase = async (newPassphrase: string, onProgress: (message: string) => void = () => {}): Promise<void> => {
+  const config = await getEncryptionConfig();
+  if (config?.enabled && !isDatabaseUnlocked()) throw new Error('Unlock the database before changing the passphrase.');
+
+  const oldKeys = config?.enabled ? config.keys : [];
+  const version = ((config?.currentVersion || 0) % 255) + 1;
+  const salt = randomBytes(16);
+  keys.set(version, await deriveKey(newPassphrase, salt, KEY_ITERATIONS));
+  const info: EncryptionKeyInfo = {
+    version,
+    salt: toBase64(salt),
+    iterations: KEY_ITERATIONS,
+    verifier: toBase64(sealBytes(new TextEncoder().encode(VERIFIER_TEXT), version)),
+    createdAt: new Date().toISOString()
+  };
+
+  // Old keys stay listed, wrapped with the new key, until every record has moved: an interrupted
+  // run is finished on the next unlock with the new passphrase alone
+  const wrapped = oldKeys.map(k => {
+    const key = keys.get(k.version);
+    if (!key) throw new Error('Unlock the database before changing the passphrase.');
+    return { ...k, wrappedKey: toBase64(sealBytes(key, version)) };
+  });
+  await saveEncryptionConfig({ enabled: true, currentVersion: version, keys: [...wrapped, info] });
+  isEnabled = true;
+  currentVersion = version;
+  await resealUnderCurrentKey(onProgress);
+};
+
+// Rewrites every sensitive record and file still sealed with an older key, then drops the old keys
+const resealUnderCurrentKey = async (onProgress: (message: string) => void = () => {}) => {
+  const db = getDb();
+  const version = currentVersion;
+  for (const tableName of Object.keys(ENCRYPTED_FIELDS)) {
+    onProgress(`Encrypting ${tableName}...`);
+    // Reads open with whichever key sealed the row; bulkPut seals with the new one
+    const rows = await db.table(tableName).toArray();
+    const unreadable = rows.find(row => ENCRYPTED_FIELDS[tableName].some(f => isSealedValue(row[f])));
+    if (unreadable) throw new Error(`Could not decrypt ${tableName} #${unreadable.id}.`);
+    await db.table(tableName).bulkPut(rows);
+  }
+
+  const docs = db.table('documents');
+  const docIds = await docs.filter(d => !!d.fileData).primaryKeys();
+  for (let i = 0; i < docIds.length; i++) {
+    onProgress(`Encrypting files (${i + 1}/${docIds.length})...`);
+    const doc = await docs.get(docIds[i]);
+    if (!doc?.fileData) continue;
+    if (isSealedBlob(doc.fileData) && new Uint8Array(await doc.fileData.slice(0, 1).arrayBuffer())[0] === version) continue;
+    const plain = await getDocumentFile(doc);
+    await docs.update(docIds[i], { fileData: await sealBlob(plain!) });
+  }
+
+  const config = (await getEncryptionConfig())!;
+  const info = config.keys.find(k => k.version === version)!;
+  await saveEncryptionConfig({ enabled: true, currentVersion: version, keys: [info] });
+  config.keys.filter(k => k.version !== version).forEach(k => { keys.get(k.version)?.fill(0); keys.delete(k.version); });
+};
@@ -0,0 +1,317 @@
+import { db } from '../db';
+import { GSTReturnType, GstApiConfig, ReturnRecord } from '../types';
+import { portalDate, portalPeriod } from './returnImport';
+
+// GST portal data through a GST Suvidha Provider. Pages only see GstDataProvider; the HTTP adapter
+// below follows the GSP request shape (client credentials and session token in headers, status_cd /
+// error in the body). mock-server/gstMockServer.js answers the same endpoints for offline use.
+// Every request is throttled, retried on 429 / 5xx / network failure, and written to the audit log
+// without OTPs, secrets or tokens.
+
+export const API_CONFIG_KEY = 'api_config';
+// The client secret is kept sealed in its own row and stays on this install (not in backups)
+export const API_SECRET_KEY = 'api_client_secret';
+export const MOCK_BASE_URL = 'http://127.0.0.1:4010/v1';
+export const MOCK_OTP = '575757';
+
+export const DEFAULT_API_CONFIG: GstApiConfig = {
+  provider: 'gsp',
+  baseUrl: 'https://api.gst.gov.in/v1',
+  clientId: '',
+  clientSecret: '',
+  requestsPerMinute: 30,
+  maxRetries: 3,
+  timeoutSeconds: 30
+};
+
+const saveApiSecret = async (clientSecret: string) => {
+  const row = await db.appConfig.get({ key: API_SECRET_KEY });
+  if (row) await db.appConfig.update(row.id!, { secret: clientSecret });
+  else await db.appConfig.add({ key: API_SECRET_KEY, value: null, secret: clientSecret });
+};
+
+export const getApiConfig = async (): Promise<GstApiConfig> => {
+  const row = await db.appConfig.get({ key: API_CONFIG_KEY });
+  const { clientSecret: legacySecret, ...value } = row?.value || {};
+  // Migration: secrets saved in plain text with the rest of the config move to the sealed row
+  if (legacySecret !== undefined) {
+    await saveApiSecret(legacySecret);
+    await db.appConfig.update(row!.id!, { value });
+  }
+  const clientSecret = (await db.appConfig.get({ key: API_SECRET_KEY }))?.secret || '';
+  return { ...DEFAULT_API_CONFIG, ...value, clientSecret };
+};
+
+export const saveApiConfig = async ({ clientSecret, ...value }: GstApiConfig) => {
+  const row = await db.appConfig.get({ key: API_CONFIG_KEY });
+  if (row) await db.appConfig.update(row.id!, { value });
+  else await db.appConfig.add({ key: API_CONFIG_KEY, value });
+  await saveApiSecret(clientSecret);
+};
+
+export interface GstSession {
+  gstin: string;
+  username: string; // Portal username, not the app user
+  authToken: string;
+  expiresAt: string;
+}
+
+export interface PortalReturnStatus {
+  returnType: GSTReturnType;
+  period: string; // "April-2023", or "FY 2023-24" for annual returns
+  financialYear: string;
+  filingDate: string;
+  arn?: string;
+  status: ReturnRecord['status'];
+  mode?: string; // ONLINE / OFFLINE
+}
+
+export interface PortalCaseDocument {
+  id: string;
+  kind: 'Notice' | 'Order' | 'Reply';
+  form: string; // ASMT-10, DRC-01, DRC-07 ...
+  referenceNumber: string;
+  din?: string;
+  caseId?: string;
+  issueDate: string;
+  dueDate?: string;
+  period?: string;
+  section?: string;
+  description: string;
+  amount?: number;
+}
+
+export interface GstDataProvider {
+  readonly name: string;
+  requestOtp(gstin: string, username: string): Promise<void>;
+  authenticate(gstin: string, username: string, otp: string): Promise<GstSession>;
+  getReturnStatus(session: GstSession, financialYear: string): Promise<PortalReturnStatus[]>;
+  // Portal 2B JSON for MMYYYY, wrapped as a file so it goes through the normal import review
+  getGstr2b(session: GstSession, returnPeriod: string): Promise<File>;
+  getCaseDocuments(session: GstSession): Promise<PortalCaseDocument[]>;
+  downloadCaseDocument(session: GstSession, document: PortalCaseDocument): Promise<File>;
+}
+
+interface ApiRequest {
+  method: 'GET' | 'POST';
+  path: string;
+  action: string;
+  gstin: string;
+  query?: Record<string, string>;
+  body?: Record<string, any>;
+  session?: GstSession;
+}
+
+const REDACTED_FIELDS = ['otp', 'auth_token', 'app_key', 'password', 'client_secret'];
+const MAX_BACKOFF_MS = 30 * 1000;
+
+const RETURN_TYPES: Record<string, GSTReturnType> = {
+  GSTR1: 'GSTR-1', GSTR3B: 'GSTR-3B', GSTR9: 'GSTR-9', GSTR9C: 'GSTR-9C', GSTR4: 'GSTR-4', CMP08: 'CMP-08', GSTR2A: 'GSTR-2A', GSTR2B: 'GSTR-2B'
+};
+const ANNUAL_RETURNS: GSTReturnType[] = ['GSTR-9', 'GSTR-9C', 'GSTR-4'];
+
+// Next free request slot per base URL; GSP quotas apply to the client, not to one screen
+const nextSlot = new Map<string, number>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const throttle = async (key: string, requestsPerMinute: number) => {
+  const interval = requestsPerMinute > 0 ? 60000 / requestsPerMinute : 0;
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot.get(key) || 0);
+  nextSlot.set(key, slot + interval);
+  if (slot > now) await sleep(slot - now);
+};
+
+const redact = (body?: Record<string, any>) => body && Object.fromEntries(
+  Object.entries(body).map(([k, v]) => [k, REDACTED_FIELDS.includes(k.toLowerCase()) ? '***' : v])
+);
+
+const newTxn = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`.toUpperCase();
+
+const logRequest = (user: string, details: Record<string, any>) =>
+  db.auditLogs.add({
+    entityType: 'System', entityId: 'GST_API', action: 'ApiRequest', timestamp: new Date().toISOString(),
+    user, details: JSON.stringify(details)
+  }).catch(e => console.error('API log failed', e));
+
+const base64ToBytes = (content: string) => {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const createGspProvider = (config: GstApiConfig, user: string): GstDataProvider => {
+  const baseUrl = config.baseUrl.trim().replace(/\/+$/, '');
+  const name = config.provider === 'mock' ? 'Local mock server' : 'GSP';
+
+  const call = async (req: ApiRequest): Promise<any> => {
+    if (req.session && new Date(req.session.expiresAt).getTime() <= Date.now()) {
+      throw new Error('The portal session has expired. Request a new OTP.');
+    }
+    const url = `${baseUrl}${req.path}?${new URLSearchParams({ action: req.action, ...(req.query || {}) })}`;
+    const txn = newTxn();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'clientid': config.clientId,
+      'client-secret': config.clientSecret,
+      'gstin': req.gstin,
+      'state-cd': req.gstin.substring(0, 2),
+      'txn': txn
+    };
+    if (req.session) {
+      headers['username'] = req.session.username;
+      headers['auth-token'] = req.session.authToken;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      await throttle(baseUrl, config.requestsPerMinute);
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), config.timeoutSeconds * 1000);
+      const started = Date.now();
+      let status = 0;
+      let payload: any = null;
+      let error = '';
+      let retryAfter = 0;
+      try {
+        const res = await fetch(url, {
+          method: req.method, headers, signal: controller.signal,
+          body: req.body ? JSON.stringify(req.body) : undefined
+        });
+        status = res.status;
+        retryAfter = parseInt(res.headers.get('Retry-After') || '') || 0;
+        const text = await res.text();
+        try { payload = text ? JSON.parse(text) : null; } catch { payload = null; }
+        if (!res.ok || payload?.status_cd !== '1') {
+          error = payload?.error?.message || `HTTP ${res.status}${res.statusText ? ` ${res.statusText}` : ''}`;
+          if (payload?.error?.error_cd) error = `${payload.error.error_cd}: ${error}`;
+        }
+      } catch (e) {
+        error = controller.signal.aborted ? `No response within ${config.timeoutSeconds}s` : `Network error: ${e instanceof Error ? e.message : String(e)}`;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      // A GET can always be repeated; a POST only when the server says it did nothing
+      const retryable = !!error && (status === 429 || status >= 500 || (!status && req.method === 'GET'));
+      const willRetry = retryable && attempt <= config.maxRetries;
+      logRequest(user, {
+        provider: name, method: req.method, endpoint: req.path, action: req.action, gstin: req.gstin, txn,
+        request: redact(req.body), query: req.query, attempt, status, durationMs: Date.now() - started,
+        result: error ? (willRetry ? 'Retrying' : 'Failed') : 'OK', error: error || undefined
+      });
+
+      if (!error) return payload.data;
+      if (!willRetry) throw new Error(`${req.action} failed: ${error}`);
+      await sleep(Math.min(MAX_BACKOFF_MS, retryAfter ? retryAfter * 1000 : 1000 * 2 ** (attempt - 1)));
+    }
+  };
+
+  return {
+    name,
+
+    requestOtp: async (gstin, username) => {
+      await call({ method: 'POST', path: '/authenticate', action: 'OTPREQUEST', gstin, body: { action: 'OTPREQUEST', username } });
+    },
+
+    authenticate: async (gstin, username, otp) => {
+      const data = await call({ method: 'POST', path: '/authenticate', action: 'AUTHTOKEN', gstin, body: { action: 'AUTHTOKEN', username, otp } });
+      if (!data?.auth_token) throw new Error('AUTHTOKEN failed: no session token in the response.');
+      return {
+        gstin, username,
+        authToken: data.auth_token,
+        expiresAt: new Date(Date.now() + (Number(data.expiry) || 360) * 60000).toISOString()
+      };
+    },
+
+    getReturnStatus: async (session, financialYear) => {
+      const data = await call({ method: 'GET', path: '/returns', action: 'RETTRACK', gstin: session.gstin, query: { gstin: session.gstin, fy: financialYear }, session });
+      const statuses: PortalReturnStatus[] = [];
+      for (const item of data?.EFiledlist || []) {
+        const returnType = RETURN_TYPES[String(item.rtntype || '').replace(/[^A-Z0-9]/gi, '').toUpperCase()];
+        const month = portalPeriod(item.ret_prd);
+        if (!returnType || !month) continue;
+        statuses.push({
+          returnType,
+          period: ANNUAL_RETURNS.includes(returnType) ? `FY ${month.financialYear}` : month.period,
+          financialYear: month.financialYear,
+          filingDate: portalDate(item.dof),
+          arn: item.arn || undefined,
+          status: /^filed$/i.test(item.status) ? 'Filed' : /submit/i.test(item.status) ? 'Submitted' : 'Not Filed',
+          mode: item.mof || undefined
+        });
+      }
+      return statuses;
+    },
+
+    getGstr2b: async (session, returnPeriod) => {
+      const data = await call({ method: 'GET', path: '/returns/gstr2b', action: 'GET2B', gstin: session.gstin, query: { gstin: session.gstin, rtnprd: returnPeriod }, session });
+      if (!data?.data) throw new Error(`GET2B failed: no statement for ${returnPeriod}.`);
+      return new File([JSON.stringify(data)], `GSTR2B_${session.gstin}_${returnPeriod}.json`, { type: 'application/json' });
+    },
+
+    getCaseDocuments: async (session) => {
+      const data = await call({ method: 'GET', path: '/casefolder', action: 'LIST', gstin: session.gstin, query: { gstin: session.gstin }, session });
+      return (data?.documents || []).map((d: any): PortalCaseDocument => ({
+        id: String(d.id),
+        kind: d.doc_type === 'ORDER' ? 'Order' : d.doc_type === 'REPLY' ? 'Reply' : 'Notice',
+        form: d.form || '',
+        referenceNumber: d.ref_no || '',
+        din: d.din || undefined,
+        caseId: d.case_id || undefined,
+        issueDate: portalDate(d.issue_dt),
+        dueDate: portalDate(d.due_dt) || undefined,
+        period: d.period || undefined,
+        section: d.section || undefined,
+        description: d.description || '',
+        amount: d.amount != null ? Number(d.amount) : undefined
+      }));
+    },
+
+    downloadCaseDocument: async (session, document) => {
+      const data = await call({ method: 'GET', path: '/casefolder/document', action: 'DOWNLOAD', gstin: session.gstin, query: { gstin: session.gstin, id: document.id }, session });
+      if (!data?.content) throw new Error(`DOWNLOAD failed: ${document.referenceNumber} has no file.`);
+      const fileName = data.file_name || `${document.form}_${document.referenceNumber}.pdf`.replace(/[\\/:*?"<>|]/g, '_');
+      return new File([base64ToBytes(data.content)], fileName, { type: data.content_type || 'application/pdf' });
+    }
+  };
+};
+
+export const getGstProvider = async (user: string): Promise<GstDataProvider> => {
+  const config = await getApiConfig();
+  if (!config.baseUrl.trim()) throw new Error('No API base URL configured. Set it up in Admin Settings > API Integration.');
+  return createGspProvider(config, user);
+};
+
+// Portal filing status onto returns already on record; figures only ever come from imported JSON
+export const applyReturnStatus = async (statuses: PortalReturnStatus[], gstin: string, username: string) => {
+  const summary = { updated: 0, unchanged: 0, missing: [] as PortalReturnStatus[] };
+  await db.transaction('rw', db.returns, db.auditLogs, async () => {
+    const records = await db.returns.where('gstin').equals(gstin).toArray();
+    for (const status of statuses) {
+      const record = records.find(r => r.returnType === status.returnType && r.period === status.period);
+      if (!record) {
+        summary.missing.push(status);
+        continue;
+      }
+      const changes: Partial<ReturnRecord> = {};
+      if (status.filingDate && status.filingDate !== record.filingDate) changes.filingDate = status.filingDate;
+      if (status.arn && status.arn !== record.arn) changes.arn = status.arn;
+      if (status.status !== record.status) changes.status = status.status;
+      if (Object.keys(changes).length) {
+        await db.returns.update(record.id!, changes);
+        summary.updated++;
+      } else {
+        summary.unchanged++;
+      }
+    }
+    if (summary.updated) {
+      await db.auditLogs.add({
+        entityType: 'Return', entityId: 'BULK', action: 'Update', timestamp: new Date().toISOString(), user: username,
+        details: `Portal return status for ${gstin}: ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.missing.length} not on record`
+      });
+    }
+  });
+  return summary;
+};
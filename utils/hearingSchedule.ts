@@ -0,0 +1,153 @@
+import { db } from '../db';
+import { AdjournmentParty, Hearing, HearingStatus, Notice } from '../types';
+import { formatDate } from './formatting';
+
+// Adjournment chains, and clashes between hearings handled by the same person (the notice's assignedTo): two hearings
+// whose slots overlap, or hearings on the same day in different cities. Hearings are booked as
+// one-hour slots; a hearing without a time or a recognisable city is not flagged.
+
+export const HEARING_SLOT_MINUTES = 60;
+
+export type HearingConflictKind = 'Overlapping time' | 'Different cities';
+
+export interface HearingConflict {
+  assignedTo: string;
+  date: string;
+  kind: HearingConflictKind;
+  hearingIds: [number, number];
+  detail: string;
+}
+
+// Cities with GST commissionerates / benches most notices come from; matched as whole words
+const CITIES = [
+  'Mumbai', 'Navi Mumbai', 'Thane', 'Pune', 'Nagpur', 'Nashik', 'Aurangabad', 'Delhi', 'New Delhi', 'Gurugram', 'Gurgaon', 'Noida',
+  'Ghaziabad', 'Faridabad', 'Bengaluru', 'Bangalore', 'Mysuru', 'Chennai', 'Coimbatore', 'Madurai', 'Hyderabad', 'Secunderabad',
+  'Visakhapatnam', 'Vijayawada', 'Kolkata', 'Howrah', 'Ahmedabad', 'Surat', 'Vadodara', 'Rajkot', 'Jaipur', 'Jodhpur', 'Udaipur',
+  'Lucknow', 'Kanpur', 'Varanasi', 'Prayagraj', 'Allahabad', 'Agra', 'Meerut', 'Chandigarh', 'Ludhiana', 'Amritsar', 'Jalandhar',
+  'Bhopal', 'Indore', 'Jabalpur', 'Raipur', 'Patna', 'Ranchi', 'Jamshedpur', 'Bhubaneswar', 'Cuttack', 'Guwahati', 'Shillong',
+  'Dehradun', 'Shimla', 'Jammu', 'Srinagar', 'Kochi', 'Cochin', 'Thiruvananthapuram', 'Kozhikode', 'Goa', 'Panaji', 'Puducherry'
+];
+// Old names and satellite towns within a day's reach fold into the metro area
+const CITY_ALIASES: Record<string, string> = {
+  'bangalore': 'bengaluru', 'new delhi': 'delhi', 'gurugram': 'delhi', 'gurgaon': 'delhi', 'noida': 'delhi', 'ghaziabad': 'delhi',
+  'faridabad': 'delhi', 'navi mumbai': 'mumbai', 'thane': 'mumbai', 'howrah': 'kolkata', 'secunderabad': 'hyderabad',
+  'allahabad': 'prayagraj', 'cochin': 'kochi', 'panaji': 'goa'
+};
+const CITY_PATTERN = new RegExp(`\\b(${[...CITIES].sort((a, b) => b.length - a.length).join('|')})\\b`, 'i');
+const VIRTUAL_PATTERN = /\b(virtual|online|video|zoom|webex|teams|vc)\b/i;
+
+// "10:30", "2:15 PM" -> minutes after midnight
+export const parseHearingTime = (raw?: string): number | null => {
+  const match = String(raw || '').trim().match(/^(\d{1,2})[:.](\d{2})\s*(am|pm)?/i);
+  if (!match) return null;
+  let hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (match[3]) hours = (hours % 12) + (/pm/i.test(match[3]) ? 12 : 0);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+// Known city named in the venue; null for virtual hearings and venues naming no known city
+// (a PIN region can span several cities, so it is not treated as one)
+export const getVenueCity = (venue?: string): string | null => {
+  if (!venue || VIRTUAL_PATTERN.test(venue)) return null;
+  const city = venue.match(CITY_PATTERN)?.[1].toLowerCase();
+  return city ? CITY_ALIASES[city] || city : null;
+};
+
+const isActive = (h: Hearing) => h.status !== HearingStatus.CANCELLED && h.status !== HearingStatus.ADJOURNED;
+
+export const findHearingConflicts = (hearings: Hearing[], notices: Notice[]): HearingConflict[] => {
+  const noticesById = new Map(notices.map(n => [n.id, n]));
+  const groups = new Map<string, { hearing: Hearing; notice: Notice }[]>();
+  for (const hearing of hearings) {
+    const notice = noticesById.get(hearing.noticeId);
+    if (hearing.id == null || !hearing.date || !notice?.assignedTo || !isActive(hearing)) continue;
+    const key = `${notice.assignedTo}|${hearing.date}`;
+    groups.set(key, [...(groups.get(key) || []), { hearing, notice }]);
+  }
+
+  const conflicts: HearingConflict[] = [];
+  for (const list of groups.values()) {
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const [a, b] = [list[i], list[j]];
+        const describe = (x: typeof a) => `${x.hearing.time || 'no time'} ${x.notice.noticeType} (${x.notice.noticeNumber})${x.hearing.venue ? ` at ${x.hearing.venue}` : ''}`;
+        const base = { assignedTo: a.notice.assignedTo!, date: a.hearing.date, hearingIds: [a.hearing.id!, b.hearing.id!] as [number, number] };
+        const startA = parseHearingTime(a.hearing.time);
+        const startB = parseHearingTime(b.hearing.time);
+        if (startA != null && startB != null && Math.abs(startA - startB) < HEARING_SLOT_MINUTES) {
+          conflicts.push({ ...base, kind: 'Overlapping time', detail: `${describe(a)} overlaps ${describe(b)}` });
+          continue;
+        }
+        const cityA = getVenueCity(a.hearing.venue);
+        const cityB = getVenueCity(b.hearing.venue);
+        // Only flagged when both cities are actually known
+        if (cityA && cityB && cityA !== cityB) {
+          conflicts.push({ ...base, kind: 'Different cities', detail: `${describe(a)} and ${describe(b)} are in different cities` });
+        }
+      }
+    }
+  }
+  return conflicts.sort((x, y) => x.date.localeCompare(y.date) || x.assignedTo.localeCompare(y.assignedTo));
+};
+
+// Section 75(5): time / adjournment may be granted to a party no more than three times in a proceeding
+export const MAX_ADJOURNMENTS = 3;
+
+export const ADJOURNMENT_PARTIES: AdjournmentParty[] = ['Taxpayer', 'Department', 'Adjudicating Authority'];
+
+export interface AdjournmentInput {
+  reason: string;
+  soughtBy: AdjournmentParty;
+  requestedOn: string;
+  nextDate: string;
+  nextTime: string;
+  nextVenue: string;
+}
+
+// Hearings linked by adjournment, oldest first; a hearing never adjourned is a chain of one
+export const getHearingChains = (hearings: Hearing[]): Hearing[][] => {
+  const ids = new Set(hearings.map(h => h.id));
+  const successors = new Map<number, Hearing>();
+  hearings.forEach(h => { if (h.previousHearingId && ids.has(h.previousHearingId)) successors.set(h.previousHearingId, h); });
+  return hearings
+    .filter(h => !h.previousHearingId || !ids.has(h.previousHearingId))
+    .map(root => {
+      const chain = [root];
+      for (let next = successors.get(root.id!); next && !chain.includes(next); next = successors.get(next.id!)) chain.push(next);
+      return chain;
+    })
+    .sort((a, b) => a[0].date.localeCompare(b[0].date));
+};
+
+// Only adjournments the noticee sought count towards the limit
+export const countAdjournments = (hearings: Hearing[]) => {
+  const adjourned = hearings.filter(h => h.adjournment);
+  return { total: adjourned.length, byTaxpayer: adjourned.filter(h => h.adjournment!.soughtBy === 'Taxpayer').length };
+};
+
+// Marks the hearing adjourned and books the follow-on sitting; returns the new hearing id
+export const adjournHearing = async (hearing: Hearing, input: AdjournmentInput, username: string): Promise<number> => {
+  return db.transaction('rw', db.hearings, db.auditLogs, async () => {
+    const nextId = await db.hearings.add({
+      noticeId: hearing.noticeId,
+      date: input.nextDate,
+      time: input.nextTime,
+      venue: input.nextVenue,
+      type: hearing.type,
+      attendees: hearing.attendees,
+      status: HearingStatus.SCHEDULED,
+      minutes: '',
+      previousHearingId: hearing.id
+    });
+    await db.hearings.update(hearing.id!, {
+      status: HearingStatus.ADJOURNED,
+      adjournment: { reason: input.reason, soughtBy: input.soughtBy, requestedOn: input.requestedOn, nextHearingId: nextId, recordedBy: username }
+    });
+    await db.auditLogs.add({
+      entityType: 'Notice', entityId: hearing.noticeId, action: 'StatusChange', timestamp: new Date().toISOString(), user: username,
+      details: `Hearing of ${formatDate(hearing.date)} adjourned to ${formatDate(input.nextDate)} at the request of ${input.soughtBy}: ${input.reason}`
+    });
+    return nextId as number;
+  });
+};
@@ -0,0 +1,181 @@
+import { Hearing, HearingStatus, Notice, NoticeStatus, Taxpayer } from '../types';
+import { ComplianceDue } from './complianceCalendar';
+import { HEARING_SLOT_MINUTES, parseHearingTime } from './hearingSchedule';
+
+// RFC 5545 calendars of notice due dates, hearings and return filing deadlines, for download and
+// for the desktop subscription feed (utils/calendarFeed). UIDs come from record ids, so importing a
+// newer file or refreshing the feed moves an event instead of adding a second copy.
+
+export type IcsScope =
+  | { type: 'firm' }
+  | { type: 'user'; username: string }
+  | { type: 'client'; gstin: string };
+
+export interface IcsSource {
+  notices: Notice[];
+  hearings: Hearing[];
+  taxpayers: Taxpayer[];
+  filings: ComplianceDue[]; // Already limited to what should appear (pending / overdue)
+}
+
+const UID_DOMAIN = 'gstnexus.local';
+const TIMEZONE = 'Asia/Kolkata';
+const SEQUENCE_EPOCH = Date.UTC(2024, 0, 1);
+
+// IST has had no daylight saving since 1945, so one STANDARD block covers every date
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE', `TZID:${TIMEZONE}`,
+  'BEGIN:STANDARD', 'DTSTART:19700101T000000', 'TZOFFSETFROM:+0530', 'TZOFFSETTO:+0530', 'TZNAME:IST', 'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+const encoder = new TextEncoder();
+
+// Content lines longer than 75 octets continue on the next line after a single space
+const fold = (line: string): string => {
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  let limit = 75;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    if (size + n > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+      limit = 74;
+    }
+    current += ch;
+    size += n;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const escapeText = (value: string) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const dateValue = (iso: string) => iso.replace(/-/g, '').slice(0, 8);
+const nextDay = (iso: string) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1));
+  return `${next.getUTCFullYear()}${pad(next.getUTCMonth() + 1)}${pad(next.getUTCDate())}`;
+};
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const localDateTime = (iso: string, minutes: number) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  const at = new Date(Date.UTC(y, m - 1, d, 0, minutes));
+  return `${at.getUTCFullYear()}${pad(at.getUTCMonth() + 1)}${pad(at.getUTCDate())}T${pad(at.getUTCHours())}${pad(at.getUTCMinutes())}00`;
+};
+
+interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  date: string; // ISO date
+  startMinutes?: number | null; // Timed event when set, all-day otherwise
+  location?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  categories: string;
+}
+
+// An adjourned sitting does not take place; its follow-on hearing carries the new date
+const hearingStatus = (status: HearingStatus): IcsEvent['status'] =>
+  status === HearingStatus.CANCELLED || status === HearingStatus.ADJOURNED ? 'CANCELLED' : 'CONFIRMED';
+
+const inScope = (gstin: string, notice: Notice | undefined, scope: IcsScope) =>
+  scope.type === 'firm' || (scope.type === 'client' ? gstin === scope.gstin : notice?.assignedTo === scope.username);
+
+export const buildIcs = (source: IcsSource, scope: IcsScope, calendarName: string, now: Date = new Date()): string => {
+  const names = new Map(source.taxpayers.map(t => [t.gstin, t.tradeName]));
+  const partyOf = (gstin: string) => names.get(gstin) || gstin;
+  const noticesById = new Map(source.notices.map(n => [n.id, n]));
+  const events: IcsEvent[] = [];
+
+  for (const notice of source.notices) {
+    if (notice.status === NoticeStatus.CLOSED || !inScope(notice.gstin, notice, scope)) continue;
+    const about = [
+      `Notice: ${notice.noticeNumber}`,
+      `GSTIN: ${notice.gstin} (${partyOf(notice.gstin)})`,
+      notice.period && `Period: ${notice.period}`,
+      notice.demandAmount ? `Demand: Rs. ${notice.demandAmount.toLocaleString('en-IN')}` : '',
+      `Status: ${notice.status}`,
+      notice.assignedTo && `Assigned to: ${notice.assignedTo}`
+    ].filter(Boolean).join('\n');
+    if (notice.dueDate) {
+      events.push({
+        uid: `notice-${notice.id}-due@${UID_DOMAIN}`, date: notice.dueDate, categories: 'Notice Due Date',
+        summary: `Reply due: ${notice.noticeType} · ${partyOf(notice.gstin)}`, description: about
+      });
+    }
+    if (notice.extendedDueDate && notice.extendedDueDate !== notice.dueDate) {
+      events.push({
+        uid: `notice-${notice.id}-extended@${UID_DOMAIN}`, date: notice.extendedDueDate, categories: 'Notice Due Date',
+        summary: `Extended due: ${notice.noticeType} · ${partyOf(notice.gstin)}`, description: `${about}\nOriginal due date: ${notice.dueDate}`
+      });
+    }
+  }
+
+  for (const hearing of source.hearings) {
+    const notice = noticesById.get(hearing.noticeId);
+    if (!hearing.date || !notice || !inScope(notice.gstin, notice, scope)) continue;
+    events.push({
+      uid: `hearing-${hearing.id}@${UID_DOMAIN}`, date: hearing.date, startMinutes: parseHearingTime(hearing.time), categories: 'Hearing',
+      summary: `${hearing.type}: ${notice.noticeType} · ${partyOf(notice.gstin)}`,
+      location: hearing.venue || undefined,
+      status: hearingStatus(hearing.status),
+      description: [
+        `Notice: ${notice.noticeNumber}`, `GSTIN: ${notice.gstin}`, `Status: ${hearing.status}`,
+        hearing.time && `Time: ${hearing.time}`, hearing.attendees && `Attendees: ${hearing.attendees}`
+      ].filter(Boolean).join('\n')
+    });
+  }
+
+  // Return filings have no assignee, so a personal calendar carries only notices and hearings
+  if (scope.type !== 'user') {
+    for (const due of source.filings) {
+      if (!inScope(due.gstin, undefined, scope)) continue;
+      events.push({
+        uid: `filing-${due.gstin}-${due.form}-${due.period}`.replace(/[^A-Za-z0-9-]/g, '') + `@${UID_DOMAIN}`,
+        date: due.dueDate, categories: 'Return Filing',
+        summary: `${due.form} due · ${due.tradeName} (${due.label})`,
+        description: `GSTIN: ${due.gstin}\nPeriod: ${due.label}\nStatus: ${due.status}${due.daysLate ? ` (${due.daysLate} days)` : ''}`
+      });
+    }
+  }
+
+  // Each export supersedes the last, so clients that compare SEQUENCE take the newer copy
+  const stamp = utcStamp(now);
+  const sequence = Math.max(0, Math.floor((now.getTime() - SEQUENCE_EPOCH) / 60000));
+  const lines = [
+    'BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//GST Nexus//Compliance Calendar//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`, `X-WR-TIMEZONE:${TIMEZONE}`,
+    ...VTIMEZONE
+  ];
+  for (const event of events.sort((a, b) => a.date.localeCompare(b.date))) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`, `SEQUENCE:${sequence}`);
+    if (event.startMinutes != null) {
+      lines.push(`DTSTART;TZID=${TIMEZONE}:${localDateTime(event.date, event.startMinutes)}`);
+      lines.push(`DTEND;TZID=${TIMEZONE}:${localDateTime(event.date, event.startMinutes + HEARING_SLOT_MINUTES)}`);
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${dateValue(event.date)}`, `DTEND;VALUE=DATE:${nextDay(event.date)}`, 'TRANSP:TRANSPARENT');
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`, `DESCRIPTION:${escapeText(event.description)}`, `CATEGORIES:${escapeText(event.categories)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
+
+export const downloadIcs = (ics: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,148 @@
+import { NoticeDefect, PaymentLog, MajorTaxHead } from '../types';
+
+// Interest engine under Section 50 of the CGST Act.
+// Interest runs on the outstanding tax of each head and stops accruing on the
+// portion discharged, so every 'Tax' payment closes one period of the schedule.
+
+export const INTEREST_RATE_STANDARD = 18; // Sec 50(1)
+export const INTEREST_RATE_EXCESS_ITC = 24; // Sec 50(3)
+
+export type DefectHeadKey = 'igst' | 'cgst' | 'sgst' | 'cess';
+
+export const DEFECT_HEADS: { key: DefectHeadKey; label: MajorTaxHead }[] = [
+  { key: 'igst', label: 'IGST' },
+  { key: 'cgst', label: 'CGST' },
+  { key: 'sgst', label: 'SGST' },
+  { key: 'cess', label: 'Cess' }
+];
+
+export interface InterestScheduleRow {
+  head: MajorTaxHead;
+  fromDate: string;
+  toDate: string;
+  days: number;
+  principal: number; // Outstanding tax during the period
+  rate: number;
+  interest: number;
+  paymentAmount?: number; // Tax paid on toDate, closing this period
+  challanNumber?: string;
+}
+
+export interface InterestResult {
+  byHead: Record<DefectHeadKey, number>;
+  total: number;
+  rate: number;
+  schedule: InterestScheduleRow[];
+}
+
+export interface InterestOptions {
+  fromDate: string; // Date from which tax became due
+  toDate: string; // Date up to which interest is computed
+  rate?: number; // Overrides the rate derived from the defect's excess ITC flag
+  standardRate?: number;
+  excessItcRate?: number;
+}
+
+// Payment matrix stores heads upper-cased ('CESS'), imports may use 'Cess'
+export const matchesMajorHead = (payment: PaymentLog, head: MajorTaxHead): boolean => {
+  return (payment.majorHead || '').toUpperCase() === head.toUpperCase();
+};
+
+const DAY_MS = 1000 * 3600 * 24;
+
+const daysBetween = (from: string, to: string): number => {
+  return Math.ceil((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+};
+
+const round2 = (val: number): number => Math.round(val * 100) / 100;
+
+// Defects from before the flag took the Sec 50(3) rate when their type named ITC or credit; they keep it
+export const backfillExcessItc = (defect: Partial<NoticeDefect>) => {
+  if (defect.excessItc === undefined && /itc|credit/i.test(defect.defectType || '')) defect.excessItc = true;
+};
+
+// Excess ITC availed and utilised attracts the higher Sec 50(3) rate; the defect says so explicitly
+export const getInterestRate = (excessItc: boolean | undefined, standardRate = INTEREST_RATE_STANDARD, excessItcRate = INTEREST_RATE_EXCESS_ITC): number => {
+  return excessItc ? excessItcRate : standardRate;
+};
+
+// Payments linked to the defect; unlinked payments count only when the notice has a single defect
+// (defectCount includes a defect not yet saved)
+export const getDefectTaxPayments = (defect: Partial<NoticeDefect>, payments: PaymentLog[], defectCount: number): PaymentLog[] => {
+  return payments.filter(p => {
+    if (p.minorHead !== 'Tax') return false;
+    if (defect.id !== undefined && p.defectId === defect.id) return true;
+    return p.defectId === undefined && defectCount === 1;
+  });
+};
+
+export const calculateDefectInterest = (defect: Partial<NoticeDefect>, payments: PaymentLog[], options: InterestOptions): InterestResult => {
+  const rate = options.rate ?? getInterestRate(defect.excessItc, options.standardRate, options.excessItcRate);
+  const byHead: Record<DefectHeadKey, number> = { igst: 0, cgst: 0, sgst: 0, cess: 0 };
+  const schedule: InterestScheduleRow[] = [];
+
+  for (const { key, label } of DEFECT_HEADS) {
+    let balance = defect[key]?.tax || 0;
+    if (balance <= 0) continue;
+
+    const headPayments = payments
+      .filter(p => matchesMajorHead(p, label) && p.minorHead === 'Tax' && p.amount > 0)
+      .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate));
+
+    let periodStart = options.fromDate;
+    let headInterest = 0;
+
+    for (const payment of headPayments) {
+      if (balance <= 0) break;
+      if (payment.paymentDate > options.toDate) break;
+
+      const paid = Math.min(payment.amount, balance);
+
+      // Paid on or before the due date: reduces the opening balance, no interest accrues
+      if (payment.paymentDate <= periodStart) {
+        balance -= paid;
+        continue;
+      }
+
+      const days = daysBetween(periodStart, payment.paymentDate);
+      const interest = round2((balance * rate * days) / 36500);
+      schedule.push({
+        head: label, fromDate: periodStart, toDate: payment.paymentDate, days, principal: balance, rate, interest,
+        paymentAmount: paid, challanNumber: payment.challanNumber
+      });
+      headInterest += interest;
+      balance -= paid;
+      periodStart = payment.paymentDate;
+    }
+
+    if (balance > 0) {
+      const days = daysBetween(periodStart, options.toDate);
+      if (days > 0) {
+        const interest = round2((balance * rate * days) / 36500);
+        schedule.push({ head: label, fromDate: periodStart, toDate: options.toDate, days, principal: balance, rate, interest });
+        headInterest += interest;
+      }
+    }
+
+    byHead[key] = Math.round(headInterest);
+  }
+
+  return {
+    byHead,
+    total: byHead.igst + byHead.cgst + byHead.sgst + byHead.cess,
+    rate,
+    schedule
+  };
+};
+
+// Writes the computed interest back into the defect's head matrix
+export const applyInterestToDefect = <T extends Partial<NoticeDefect>>(defect: T, result: InterestResult): T => {
+  return {
+    ...defect,
+    igst: { ...defect.igst!, interest: result.byHead.igst },
+    cgst: { ...defect.cgst!, interest: result.byHead.cgst },
+    sgst: { ...defect.sgst!, interest: result.byHead.sgst },
+    cess: { ...defect.cess!, interest: result.byHead.cess },
+    interestDemand: result.total
+  };
+};
@@ -0,0 +1,270 @@
+import * as XLSX from 'xlsx';
+import { InvoiceMatchLine, InvoiceMatchResult, InvoiceMatchTolerance, ItcInvoice, ReconciliationRow } from '../types';
+import { parseExcelDate } from './formatting';
+import { detectReturnType, portalPeriod } from './returnImport';
+
+// Invoice-level matching of a purchase register against GSTR-2B B2B lines, rolled up into
+// the monthly rows of an 'ITC (GSTR-2B vs Books)' worksheet. Pairs are found on supplier GSTIN
+// and normalised invoice number; value and date differences beyond the tolerance are mismatches.
+
+export const DEFAULT_MATCH_TOLERANCE: InvoiceMatchTolerance = { amount: 10, dateDays: 3 };
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Register headings are compared lower-case with punctuation removed
+const REGISTER_COLUMNS: Record<string, string[]> = {
+  supplierGstin: ['suppliergstin', 'gstin', 'gstinofsupplier', 'partygstin', 'vendorgstin', 'gstinuin', 'ctin'],
+  supplierName: ['suppliername', 'partyname', 'vendorname', 'tradename', 'name', 'supplier', 'party'],
+  invoiceNumber: ['invoiceno', 'invoicenumber', 'supplierinvoiceno', 'invno', 'billno', 'billnumber', 'documentno', 'docno', 'refno'],
+  invoiceDate: ['invoicedate', 'supplierinvoicedate', 'invdate', 'billdate', 'documentdate', 'docdate', 'date'],
+  period: ['period', 'month', 'claimmonth', 'itcmonth'],
+  taxableValue: ['taxablevalue', 'taxable', 'taxableamount', 'assessablevalue'],
+  igst: ['igst', 'igstamount', 'integratedtax'],
+  cgst: ['cgst', 'cgstamount', 'centraltax'],
+  sgst: ['sgst', 'sgstutgst', 'sgstamount', 'utgst', 'statetax', 'stateuttax'],
+  cess: ['cess', 'cessamount']
+};
+
+const num = (value: any): number => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/,/g, ''));
+  return Number.isFinite(n) ? n : 0;
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export const invoiceTax = (i: ItcInvoice) => i.igst + i.cgst + i.sgst + i.cess;
+
+// "INV/0042/23-24" and "inv-42/2324" both become "INV422324"
+export const normaliseInvoiceNumber = (value: string) =>
+  value.toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/(^|[^0-9])0+(?=[0-9])/g, '$1');
+
+// Fallback key for registers that drop the supplier's prefix ("42/23-24" for "INV/42/23-24")
+const invoiceDigits = (value: string) => value.replace(/[^0-9]/g, '').replace(/^0+/, '');
+
+const monthOf = (iso: string) => MONTH_NAMES[parseInt(iso.slice(5, 7), 10) - 1];
+
+const financialYearOf = (iso: string) => {
+  const year = parseInt(iso.slice(0, 4), 10);
+  const start = parseInt(iso.slice(5, 7), 10) >= 4 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+export interface InvoiceReadResult {
+  invoices: ItcInvoice[];
+  warnings: string[];
+}
+
+export const downloadRegisterTemplate = () => {
+  const data = [{
+    'Supplier GSTIN': '27AAACR1234A1Z5', 'Supplier Name': 'Sample Supplier Pvt Ltd', 'Invoice No': 'INV/042/23-24', 'Invoice Date': '12-04-2023',
+    'Taxable Value': 100000, IGST: 0, CGST: 9000, SGST: 9000, Cess: 0, Period: ''
+  }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(data), 'Purchase_Register');
+  XLSX.writeFile(wb, 'GSTNexus_Purchase_Register_Template.xlsx');
+};
+
+// Excel or CSV; rows outside the financial year, or without GSTIN / invoice number / date, are left out
+export const readPurchaseRegister = async (file: File, financialYear: string): Promise<InvoiceReadResult> => {
+  // raw keeps CSV dates as text so dd/mm is not read as mm/dd
+  const wb = XLSX.read(await file.arrayBuffer(), { type: 'array', raw: true });
+  const data = XLSX.utils.sheet_to_json<any>(wb.Sheets[wb.SheetNames[0]], { defval: '' });
+  if (data.length === 0) throw new Error('The register has no rows.');
+
+  const headings = Object.keys(data[0]);
+  const columnFor = (field: string) => {
+    for (const alias of REGISTER_COLUMNS[field]) {
+      const found = headings.find(h => h.toLowerCase().replace(/[^a-z0-9]/g, '') === alias);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  const columns = {
+    supplierGstin: columnFor('supplierGstin'), supplierName: columnFor('supplierName'),
+    invoiceNumber: columnFor('invoiceNumber'), invoiceDate: columnFor('invoiceDate'), period: columnFor('period'),
+    taxableValue: columnFor('taxableValue'), igst: columnFor('igst'), cgst: columnFor('cgst'), sgst: columnFor('sgst'), cess: columnFor('cess')
+  };
+  const missing = (['supplierGstin', 'invoiceNumber', 'invoiceDate'] as const).filter(f => !columns[f]);
+  if (missing.length) {
+    throw new Error(`Could not find the ${missing.map(f => f === 'supplierGstin' ? 'Supplier GSTIN' : f === 'invoiceNumber' ? 'Invoice No' : 'Invoice Date').join(', ')} column(s).`);
+  }
+
+  const invoices: ItcInvoice[] = [];
+  let incomplete = 0;
+  let outsideYear = 0;
+  for (const row of data) {
+    const supplierGstin = String(row[columns.supplierGstin!] || '').trim().toUpperCase();
+    const invoiceNumber = String(row[columns.invoiceNumber!] || '').trim();
+    const rawDate = row[columns.invoiceDate!];
+    if (!supplierGstin || !invoiceNumber || rawDate === '' || rawDate === undefined) {
+      // Blank and total lines at the foot of exported registers
+      if (supplierGstin || invoiceNumber) incomplete++;
+      continue;
+    }
+    const invoiceDate = parseExcelDate(rawDate);
+    if (financialYearOf(invoiceDate) !== financialYear) {
+      outsideYear++;
+      continue;
+    }
+    const periodText = columns.period ? String(row[columns.period] || '') : '';
+    invoices.push({
+      supplierGstin,
+      supplierName: columns.supplierName ? String(row[columns.supplierName] || '').trim() || undefined : undefined,
+      invoiceNumber,
+      invoiceDate,
+      period: MONTH_NAMES.find(m => periodText.toLowerCase().startsWith(m.toLowerCase().slice(0, 3))) || monthOf(invoiceDate),
+      taxableValue: num(columns.taxableValue && row[columns.taxableValue]),
+      igst: num(columns.igst && row[columns.igst]),
+      cgst: num(columns.cgst && row[columns.cgst]),
+      sgst: num(columns.sgst && row[columns.sgst]),
+      cess: num(columns.cess && row[columns.cess])
+    });
+  }
+
+  const warnings: string[] = [];
+  if (incomplete) warnings.push(`${incomplete} row(s) without supplier GSTIN, invoice number or date were skipped.`);
+  if (outsideYear) warnings.push(`${outsideYear} invoice(s) dated outside FY ${financialYear} were skipped.`);
+  return { invoices, warnings };
+};
+
+// B2B invoices from GSTR-2B JSON downloads of the worksheet's GSTIN and year
+export const readGstr2bInvoices = async (files: File[], gstin: string, financialYear: string): Promise<InvoiceReadResult> => {
+  const invoices: ItcInvoice[] = [];
+  const warnings: string[] = [];
+  for (const file of files) {
+    let json: any;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`${file.name} is not valid JSON.`);
+    }
+    if (detectReturnType(json) !== 'GSTR-2B') throw new Error(`${file.name} is not a GSTR-2B JSON download.`);
+    const statement = json.data && typeof json.data === 'object' ? json.data : json;
+    if (String(statement.gstin || '').toUpperCase() !== gstin) {
+      throw new Error(`${file.name} belongs to GSTIN ${statement.gstin}, not ${gstin}.`);
+    }
+    const period = portalPeriod(statement.rtnprd);
+    if (!period || period.financialYear !== financialYear) {
+      warnings.push(`${file.name} (${period?.period || statement.rtnprd}) is outside FY ${financialYear} and was skipped.`);
+      continue;
+    }
+    const month = period.period.split('-')[0];
+    for (const party of statement.docdata?.b2b || []) {
+      for (const inv of party.inv || []) {
+        invoices.push({
+          supplierGstin: String(party.ctin || '').toUpperCase(),
+          supplierName: party.trdnm || undefined,
+          invoiceNumber: String(inv.inum || ''),
+          invoiceDate: parseExcelDate(inv.dt),
+          period: month,
+          taxableValue: num(inv.txval),
+          igst: num(inv.igst),
+          cgst: num(inv.cgst),
+          sgst: num(inv.sgst),
+          cess: num(inv.cess),
+          itcUnavailable: inv.itcavl === 'N' || undefined
+        });
+      }
+    }
+  }
+  return { invoices, warnings };
+};
+
+const daysApart = (a: string, b: string) => Math.round(Math.abs(Date.parse(a) - Date.parse(b)) / (24 * 60 * 60 * 1000));
+
+const compare = (books: ItcInvoice, portal: ItcInvoice, tolerance: InvoiceMatchTolerance, note?: string): InvoiceMatchLine => {
+  const taxDiff = round(invoiceTax(portal) - invoiceTax(books));
+  const issues: string[] = note ? [note] : [];
+  const taxableDiff = round(portal.taxableValue - books.taxableValue);
+  if (Math.abs(taxableDiff) > tolerance.amount) issues.push(`Taxable value differs by ${taxableDiff}`);
+  if (Math.abs(taxDiff) > tolerance.amount) issues.push(`Tax differs by ${taxDiff}`);
+  else if (Math.abs(portal.igst - books.igst) > tolerance.amount) issues.push('Tax charged under a different head (IGST vs CGST/SGST)');
+  const gap = daysApart(books.invoiceDate, portal.invoiceDate);
+  if (gap > tolerance.dateDays) issues.push(`Invoice dates ${gap} days apart`);
+  if (portal.itcUnavailable) issues.push('2B marks ITC as not available');
+
+  const mismatched = issues.length > (note ? 1 : 0);
+  return { status: mismatched ? 'Value Mismatch' : 'Matched', books, portal, taxDiff, note: issues.join('; ') || undefined };
+};
+
+export const matchInvoices = (books: ItcInvoice[], portal: ItcInvoice[], tolerance: InvoiceMatchTolerance): InvoiceMatchLine[] => {
+  const lines: InvoiceMatchLine[] = [];
+  const unused = new Set(portal.map((_, i) => i));
+  const byNumber = new Map<string, number[]>();
+  const byDigits = new Map<string, number[]>();
+  portal.forEach((p, i) => {
+    const key = `${p.supplierGstin}|${normaliseInvoiceNumber(p.invoiceNumber)}`;
+    byNumber.set(key, [...(byNumber.get(key) || []), i]);
+    const digits = `${p.supplierGstin}|${invoiceDigits(p.invoiceNumber)}`;
+    byDigits.set(digits, [...(byDigits.get(digits) || []), i]);
+  });
+
+  // Closest date first, then closest tax, among the portal lines not yet taken
+  const pick = (b: ItcInvoice, candidates: number[] = []) => candidates
+    .filter(i => unused.has(i))
+    .sort((x, y) => daysApart(b.invoiceDate, portal[x].invoiceDate) - daysApart(b.invoiceDate, portal[y].invoiceDate)
+      || Math.abs(invoiceTax(portal[x]) - invoiceTax(b)) - Math.abs(invoiceTax(portal[y]) - invoiceTax(b)))[0];
+
+  const seen = new Set<string>();
+  const unmatched: ItcInvoice[] = [];
+  for (const b of books) {
+    const key = `${b.supplierGstin}|${normaliseInvoiceNumber(b.invoiceNumber)}`;
+    const duplicate = seen.has(key);
+    seen.add(key);
+    const i = pick(b, byNumber.get(key));
+    if (i === undefined) {
+      if (duplicate) lines.push({ status: 'Only in Books', books: b, taxDiff: round(-invoiceTax(b)), note: 'Invoice repeated in the purchase register' });
+      else unmatched.push(b);
+      continue;
+    }
+    unused.delete(i);
+    lines.push(compare(b, portal[i], tolerance));
+  }
+
+  // Second pass on the digits alone; only a clean match on value and date is accepted
+  for (const b of unmatched) {
+    const digits = invoiceDigits(b.invoiceNumber);
+    const i = digits ? pick(b, byDigits.get(`${b.supplierGstin}|${digits}`)) : undefined;
+    const candidate = i !== undefined ? compare(b, portal[i], tolerance, `Paired on invoice digits (2B: ${portal[i].invoiceNumber})`) : undefined;
+    if (candidate && candidate.status === 'Matched') {
+      unused.delete(i!);
+      lines.push(candidate);
+    } else {
+      lines.push({ status: 'Only in Books', books: b, taxDiff: round(-invoiceTax(b)) });
+    }
+  }
+
+  for (const i of unused) {
+    const p = portal[i];
+    lines.push({ status: 'Only in 2B', portal: p, taxDiff: round(invoiceTax(p)), note: p.itcUnavailable ? '2B marks ITC as not available' : undefined });
+  }
+  return lines;
+};
+
+// Inputs of a saved match, so it can be re-run with other tolerances without the files
+export const matchSources = (result: InvoiceMatchResult) => ({
+  books: result.lines.filter(l => l.books).map(l => l.books!),
+  portal: result.lines.filter(l => l.portal).map(l => l.portal!)
+});
+
+const AUTO_REMARK = /^\d+ matched, \d+ mismatched, \d+ only in books, \d+ only in 2B$/;
+
+// 2B ITC (excluding unavailable credit) against books ITC per month; typed remarks are kept
+export const rollUpMatch = (rows: ReconciliationRow[], lines: InvoiceMatchLine[]): ReconciliationRow[] =>
+  rows.map(row => {
+    const portalTax = lines.filter(l => l.portal?.period === row.period && !l.portal.itcUnavailable).reduce((sum, l) => sum + invoiceTax(l.portal!), 0);
+    const booksTax = lines.filter(l => l.books?.period === row.period).reduce((sum, l) => sum + invoiceTax(l.books!), 0);
+    const inMonth = lines.filter(l => (l.books || l.portal)!.period === row.period);
+    if (inMonth.length === 0) {
+      return AUTO_REMARK.test(row.remarks) ? { ...row, sourceA: 0, sourceB: 0, diff: 0, remarks: '' } : row;
+    }
+    const count = (status: InvoiceMatchLine['status']) => inMonth.filter(l => l.status === status).length;
+    const summary = `${count('Matched')} matched, ${count('Value Mismatch')} mismatched, ${count('Only in Books')} only in books, ${count('Only in 2B')} only in 2B`;
+    return {
+      ...row,
+      sourceA: round(portalTax),
+      sourceB: round(booksTax),
+      diff: round(portalTax - booksTax),
+      remarks: !row.remarks || AUTO_REMARK.test(row.remarks) ? summary : row.remarks
+    };
+  });
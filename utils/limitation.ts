@@ -0,0 +1,138 @@
+import { Notice, LimitationConfig, LimitationRecord, LimitationTrack } from '../types';
+import { formatDate } from './formatting';
+
+// Limitation under Section 73(10) / 74(10): the order must be passed within 3 / 5 years
+// from the due date of the annual return for the FY, and the SCN at least 3 / 6 months
+// before that (Sec 73(2) / 74(2)).
+
+export const LIMITATION_SCN_TYPES = ['ASMT-10', 'DRC-01', 'DRC-01A', 'SCN'];
+export const LIMITATION_ORDER_TYPES = ['DRC-07', 'DRC-08', 'ASMT-13', 'ASMT-15', 'Order Passed'];
+
+const TRACK_RULES: Record<LimitationTrack, { orderYears: number; scnMonthsBefore: number }> = {
+  '73': { orderYears: 3, scnMonthsBefore: 3 },
+  '74': { orderYears: 5, scnMonthsBefore: 6 }
+};
+
+export const DEFAULT_LIMITATION_CONFIG: LimitationConfig = {
+  annualReturnDueDates: {
+    'FY 2017-18': '2020-02-07',
+    'FY 2018-19': '2020-12-31',
+    'FY 2019-20': '2021-03-31',
+    'FY 2020-21': '2022-02-28'
+  },
+  extensions: [
+    { period: 'FY 2017-18', track: '73', orderDate: '2023-12-31', reference: 'N/N 09/2023-CT' },
+    { period: 'FY 2018-19', track: '73', orderDate: '2024-04-30', reference: 'N/N 56/2023-CT' },
+    { period: 'FY 2019-20', track: '73', orderDate: '2024-08-31', reference: 'N/N 56/2023-CT' }
+  ],
+  exclusions: []
+};
+
+const DAY_MS = 1000 * 3600 * 24;
+
+const parseISO = (iso: string): Date => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+const toISO = (date: Date): string => date.toISOString().split('T')[0];
+
+// Clamps to month end so that 29-Feb / 31st do not roll into the next month
+const addMonths = (iso: string, months: number): string => {
+  const date = parseISO(iso);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return toISO(target);
+};
+
+const addDays = (iso: string, days: number): string => toISO(new Date(parseISO(iso).getTime() + days * DAY_MS));
+
+// 'FY 2022-23' / '2022-2023' -> 2022
+export const parseFinancialYear = (period?: string): number | null => {
+  if (!period) return null;
+  const match = period.match(/(\d{4})\s*-\s*(\d{2,4})/);
+  return match ? parseInt(match[1]) : null;
+};
+
+export const getAnnualReturnDueDate = (period: string, config: LimitationConfig): string | null => {
+  if (config.annualReturnDueDates[period]) return config.annualReturnDueDates[period];
+  const startYear = parseFinancialYear(period);
+  // Sec 44: 31st December following the end of the FY
+  return startYear ? `${startYear + 1}-12-31` : null;
+};
+
+export const getLimitationTrack = (notice: Partial<Notice>): LimitationTrack => {
+  if (notice.limitationTrack) return notice.limitationTrack;
+  return /\b74\b|74\(/.test(`${notice.section || ''} ${notice.caseType || ''}`) ? '74' : '73';
+};
+
+export const isLimitationApplicable = (notice: Partial<Notice>): boolean => {
+  if (!notice.noticeType || !parseFinancialYear(notice.period)) return false;
+  return LIMITATION_SCN_TYPES.includes(notice.noticeType) || LIMITATION_ORDER_TYPES.includes(notice.noticeType);
+};
+
+export const computeLimitation = (notice: Partial<Notice>, config: LimitationConfig = DEFAULT_LIMITATION_CONFIG): LimitationRecord | null => {
+  if (!isLimitationApplicable(notice)) return null;
+
+  const period = notice.period!;
+  const track = getLimitationTrack(notice);
+  const rule = TRACK_RULES[track];
+  const annualReturnDueDate = getAnnualReturnDueDate(period, config);
+  if (!annualReturnDueDate) return null;
+
+  const basis: string[] = [`${rule.orderYears} years from GSTR-9 due date ${formatDate(annualReturnDueDate)}`];
+  let orderDeadline = addMonths(annualReturnDueDate, rule.orderYears * 12);
+
+  // Excluded windows push the deadline out by the days falling inside the limitation period
+  const exclusions = (config.exclusions || [])
+    .filter(w => w.track === 'Both' || w.track === track)
+    .sort((a, b) => a.from.localeCompare(b.from));
+  for (const window of exclusions) {
+    if (window.from > orderDeadline || window.to < annualReturnDueDate) continue;
+    // Only the part of the window up to the deadline as it stands counts
+    const start = window.from > annualReturnDueDate ? window.from : annualReturnDueDate;
+    const end = window.to < orderDeadline ? window.to : orderDeadline;
+    const excludedDays = Math.round((parseISO(end).getTime() - parseISO(start).getTime()) / DAY_MS) + 1;
+    orderDeadline = addDays(orderDeadline, excludedDays);
+    basis.push(`${excludedDays} days excluded${window.reference ? ` (${window.reference})` : ''}`);
+  }
+
+  const extension = (config.extensions || []).find(e => e.period === period && e.track === track);
+  if (extension && extension.orderDate > orderDeadline) {
+    orderDeadline = extension.orderDate;
+    basis.push(`extended to ${formatDate(extension.orderDate)}${extension.reference ? ` vide ${extension.reference}` : ''}`);
+  }
+
+  const scnDeadline = addMonths(orderDeadline, -rule.scnMonthsBefore);
+  const checkedAgainst = LIMITATION_ORDER_TYPES.includes(notice.noticeType!) ? 'Order' : 'SCN';
+  const lastValidDate = checkedAgainst === 'Order' ? orderDeadline : scnDeadline;
+  const isTimeBarred = !!notice.dateOfIssue && notice.dateOfIssue > lastValidDate;
+
+  return {
+    track,
+    period,
+    annualReturnDueDate,
+    scnDeadline,
+    orderDeadline,
+    checkedAgainst,
+    status: isTimeBarred ? 'Time-Barred' : 'Within Time',
+    basis: basis.join('; '),
+    computedOn: new Date().toISOString()
+  };
+};
+
+// Paragraph that can be pasted into a reply when pleading limitation
+export const formatLimitationCitation = (notice: Partial<Notice>, record: LimitationRecord): string => {
+  const scnSection = record.track === '73' ? '73(2)' : '74(2)';
+  const orderSection = record.track === '73' ? '73(10)' : '74(10)';
+  const issued = notice.dateOfIssue ? formatDate(notice.dateOfIssue) : '-';
+  const conclusion = record.status === 'Time-Barred'
+    ? `The impugned ${notice.noticeType} dated ${issued} has been issued beyond this period and is therefore barred by limitation.`
+    : `The impugned ${notice.noticeType} dated ${issued} falls within this period.`;
+
+  return `For the ${record.period}, the due date for furnishing the annual return was ${formatDate(record.annualReturnDueDate)}. ` +
+    `Under Section ${orderSection} of the CGST Act, 2017 the order was required to be issued on or before ${formatDate(record.orderDeadline)} ` +
+    `(${record.basis}), and consequently the show cause notice under Section ${scnSection} was required to be issued on or before ${formatDate(record.scnDeadline)}. ` +
+    conclusion;
+};
@@ -0,0 +1,282 @@
+import { Notice, NoticeDefect, TaxHeadValues } from '../types';
+import { DEFECT_HEADS, DefectHeadKey } from './interest';
+import { extractDocumentPages, joinOcrPages } from './ocr';
+
+// Reads the text of a portal-generated ASMT-10 / DRC-01 / DRC-07 and recognises the
+// notice particulars and the demand table (tax / interest / penalty per head).
+// Everything returned is a suggestion for review; nothing is saved from here.
+
+export type ParsedNoticeField = 'gstin' | 'din' | 'noticeNumber' | 'arn' | 'noticeType' | 'section' | 'period' | 'dateOfIssue' | 'dueDate' | 'issuingAuthority';
+
+export interface ParsedNotice {
+  fields: Partial<Pick<Notice, ParsedNoticeField>>;
+  defects: Partial<NoticeDefect>[];
+  demandAmount: number;
+  warnings: string[];
+}
+
+export interface NoticeParseOptions {
+  noticeTypes?: string[]; // Configured notice types, to match the recognised form
+  defectTypes?: string[]; // Configured defect types, to classify draft defects
+}
+
+const FORM_TYPES = ['ASMT-10', 'ASMT-11', 'ASMT-12', 'ASMT-13', 'ASMT-14', 'ASMT-15', 'ADT-02', 'DRC-01A', 'DRC-01', 'DRC-02', 'DRC-07', 'DRC-08', 'DRC-09', 'APL-04', 'REG-17', 'REG-03', 'RFD-08'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DATE_PATTERN = '(\\d{1,2}[\\/\\-.]\\d{1,2}[\\/\\-.]\\d{4}|\\d{1,2}(?:st|nd|rd|th)?[\\s\\-]+[A-Za-z]{3,9}[,\\s\\-]+\\d{4}|\\d{4}-\\d{2}-\\d{2})';
+const AMOUNT_PATTERN = /-?\d[\d,]*(?:\.\d+)?/g;
+
+const HEAD_TOKENS: { key: DefectHeadKey; pattern: RegExp }[] = [
+  { key: 'igst', pattern: /^(?:\d+[.)]?\s+)?(?:IGST|Integrated Tax)\b/i },
+  { key: 'cgst', pattern: /^(?:\d+[.)]?\s+)?(?:CGST|Central Tax)\b/i },
+  { key: 'sgst', pattern: /^(?:\d+[.)]?\s+)?(?:SGST|UTGST|State Tax|UT Tax|SGST\/UTGST)\b/i },
+  { key: 'cess', pattern: /^(?:\d+[.)]?\s+)?(?:Cess|Compensation Cess)\b/i }
+];
+
+const emptyHead = (): TaxHeadValues => ({ tax: 0, interest: 0, penalty: 0, lateFee: 0, others: 0 });
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// dd/mm/yyyy, dd-mm-yyyy, dd.mm.yyyy, 12th March 2024, 12-Mar-2024, yyyy-mm-dd -> ISO
+export const parseNoticeDate = (raw: string): string | undefined => {
+  const value = raw.trim();
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) return value;
+  match = value.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4})$/);
+  if (match) {
+    const [, d, m, y] = match;
+    if (+m < 1 || +m > 12 || +d < 1 || +d > 31) return undefined;
+    return `${y}-${pad(+m)}-${pad(+d)}`;
+  }
+  match = value.match(/^(\d{1,2})(?:st|nd|rd|th)?[\s\-]+([A-Za-z]{3,9})[,\s\-]+(\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].slice(0, 3).toLowerCase());
+    if (month < 0) return undefined;
+    return `${match[3]}-${pad(month + 1)}-${pad(+match[1])}`;
+  }
+  return undefined;
+};
+
+const addDays = (iso: string, days: number): string => {
+  const date = new Date(iso);
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+const parseAmount = (raw: string): number => parseFloat(raw.replace(/,/g, '')) || 0;
+
+const firstMatch = (text: string, patterns: RegExp[]): string | undefined => {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match && match[1]) return match[1].trim();
+  }
+  return undefined;
+};
+
+const normaliseForm = (raw: string): string => raw.toUpperCase().replace(/\s+/g, '').replace(/^([A-Z]+)-?(\d)/, '$1-$2');
+
+const findNoticeType = (text: string, noticeTypes: string[]): string | undefined => {
+  const match = text.match(/FORM\s+(?:GST\s+)?([A-Z]{3,4}\s*-?\s*\d{2}A?)/i) || text.match(/\b((?:ASMT|DRC|ADT|APL|REG|RFD)\s*-\s*\d{2}A?)\b/i);
+  if (!match) return undefined;
+  const form = normaliseForm(match[1]);
+  if (!FORM_TYPES.includes(form)) return undefined;
+  return noticeTypes.find(t => normaliseForm(t) === form) || form;
+};
+
+const findPeriod = (text: string): string | undefined => {
+  const match = text.match(/(?:F\.?\s?Y\.?|Financial\s+Year|Tax\s+Period|Year)\s*[:\-]?\s*(?:from\s+)?(20\d{2})\s*[-–\/]\s*(\d{2,4})/i);
+  if (match) {
+    const start = parseInt(match[1]);
+    return `FY ${start}-${String(start + 1).slice(-2)}`;
+  }
+  // 'April 2022 to March 2023' style periods
+  const range = text.match(/(?:Apr(?:il)?)[,\s\-]*(20\d{2})\s*(?:to|-)\s*(?:Mar(?:ch)?)[,\s\-]*(20\d{2})/i);
+  if (range && parseInt(range[2]) === parseInt(range[1]) + 1) return `FY ${range[1]}-${range[2].slice(-2)}`;
+  return undefined;
+};
+
+const findSection = (text: string): string | undefined => {
+  const match = text.match(/(?:under|u\/s\.?|in terms of)\s+(?:sub-?section\s*\(\d+\)\s+of\s+)?section\s+(\d{2,3}(?:\s*\(\s*\w+\s*\))*)/i)
+    || text.match(/\bsection\s+(7[34](?:\s*\(\s*\w+\s*\))*)/i)
+    || text.match(/\bsection\s+(\d{2,3}(?:\s*\(\s*\w+\s*\))*)/i);
+  return match ? `Section ${match[1].replace(/\s+/g, '')}` : undefined;
+};
+
+const DESIGNATIONS = /(Superintendent|(?:Assistant|Deputy|Joint|Additional)\s+Commissioner|(?:Assistant\s+|Deputy\s+)?State\s+Tax\s+Officer|Commercial\s+Tax\s+Officer|Proper\s+Officer|Commissioner)/i;
+
+const findIssuingAuthority = (lines: string[]): string | undefined => {
+  // Signature block is at the end of the notice; search bottom-up
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const match = lines[i].match(DESIGNATIONS);
+    if (match && lines[i].length <= 120) {
+      return lines[i].replace(/^(?:Name|Designation)\s*[:\-]\s*/i, '').trim();
+    }
+  }
+  return undefined;
+};
+
+const findDueDate = (text: string, dateOfIssue?: string): string | undefined => {
+  const explicit = firstMatch(text, [
+    new RegExp(`(?:Due\\s+Date|Last\\s+Date)[^\\n]{0,40}?${DATE_PATTERN}`, 'i'),
+    new RegExp(`(?:reply|response|explanation|submit|furnish|pay(?:ment)?)[^.\\n]{0,80}?(?:by|on\\s+or\\s+before|before)\\s+${DATE_PATTERN}`, 'i')
+  ]);
+  const parsed = explicit ? parseNoticeDate(explicit) : undefined;
+  if (parsed) return parsed;
+
+  const within = text.match(/within\s+(?:a\s+period\s+of\s+)?(\d{1,3})\s*(?:\(\s*\w+\s*\)\s*)?days/i);
+  if (within && dateOfIssue) return addDays(dateOfIssue, parseInt(within[1]));
+  return undefined;
+};
+
+interface HeadLine { key: DefectHeadKey; values: TaxHeadValues }
+interface DemandBlock { heads: Partial<Record<DefectHeadKey, TaxHeadValues>>; context: string }
+
+// Maps a numeric row to tax / interest / penalty / fee / others, checking the trailing total if present
+const toHeadValues = (amounts: number[]): TaxHeadValues | null => {
+  if (amounts.length === 0) return null;
+  const values = emptyHead();
+  let parts = amounts;
+  if (amounts.length >= 3) {
+    const last = amounts[amounts.length - 1];
+    const rest = amounts.slice(0, -1);
+    if (Math.abs(rest.reduce((a, b) => a + b, 0) - last) < 1) parts = rest;
+  }
+  const [tax = 0, interest = 0, penalty = 0, lateFee = 0, others = 0] = parts;
+  Object.assign(values, { tax, interest, penalty, lateFee, others });
+  return values;
+};
+
+const readHeadLine = (line: string): HeadLine | null => {
+  const head = HEAD_TOKENS.find(h => h.pattern.test(line));
+  if (!head) return null;
+  // Drop the head label and any period columns (dates / months) before reading amounts
+  const rest = line.replace(head.pattern, '').replace(new RegExp(DATE_PATTERN, 'g'), ' ').replace(/\b(?:[A-Za-z]{3,9})[\s\-]+20\d{2}\b/g, ' ');
+  const amounts = (rest.match(AMOUNT_PATTERN) || []).map(parseAmount).filter(n => !isNaN(n));
+  const values = toHeadValues(amounts);
+  return values ? { key: head.key, values } : null;
+};
+
+const sumValues = (a: TaxHeadValues, b: TaxHeadValues): TaxHeadValues => ({
+  tax: a.tax + b.tax, interest: a.interest + b.interest, penalty: a.penalty + b.penalty, lateFee: a.lateFee + b.lateFee, others: a.others + b.others
+});
+
+const sameValues = (a: TaxHeadValues, b: TaxHeadValues) => (['tax', 'interest', 'penalty', 'lateFee', 'others'] as const).every(k => Math.abs(a[k] - b[k]) < 1);
+
+export const guessDefectType = (context: string, defectTypes: string[]): string => {
+  const lower = context.toLowerCase();
+  const rules: [RegExp, RegExp][] = [
+    [/2a|2b|itc mismatch|excess (?:itc|credit)/, /itc mismatch/i],
+    [/gstr-?1.*3b|3b.*gstr-?1|short payment|outward/, /short payment/i],
+    [/17\s*\(5\)|blocked credit|ineligible/, /ineligible itc/i],
+    [/reverse charge|rcm|9\s*\(3\)/, /rcm/i],
+    [/86b/, /86b/i],
+    [/place of supply/, /place of supply/i],
+    [/e-?way bill/, /e-way bill/i],
+    [/cancel+ed/, /registration cancelled/i],
+    [/tran-?1|transitional/, /transitional/i],
+    [/refund/, /refund/i]
+  ];
+  for (const [cue, target] of rules) {
+    if (cue.test(lower)) {
+      const found = defectTypes.find(t => target.test(t));
+      if (found) return found;
+    }
+  }
+  return defectTypes.find(t => /^others?$/i.test(t)) || defectTypes[0] || 'Others';
+};
+
+export const buildDefect = (heads: Partial<Record<DefectHeadKey, TaxHeadValues>>, defectType: string, description: string, section?: string): Partial<NoticeDefect> => {
+  const defect: Partial<NoticeDefect> = { defectType, description, section: section || '', status: 'Open' };
+  for (const { key } of DEFECT_HEADS) defect[key] = heads[key] || emptyHead();
+  defect.taxDemand = DEFECT_HEADS.reduce((acc, { key }) => acc + (defect[key]!.tax || 0), 0);
+  defect.interestDemand = DEFECT_HEADS.reduce((acc, { key }) => acc + (defect[key]!.interest || 0), 0);
+  defect.penaltyDemand = DEFECT_HEADS.reduce((acc, { key }) => acc + (defect[key]!.penalty || 0), 0);
+  return defect;
+};
+
+export const parseNoticeText = (text: string, options: NoticeParseOptions = {}): ParsedNotice => {
+  const lines = text.split(/\r?\n/).map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const flat = lines.join('\n');
+  const warnings: string[] = [];
+  const fields: ParsedNotice['fields'] = {};
+
+  fields.gstin = flat.match(/\b(\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z])\b/)?.[1];
+  fields.din = firstMatch(flat, [/\bDIN\s*(?:No\.?)?\s*[:\-]?\s*((?:CBIC-DIN-)?[0-9A-Z]{15,25})\b/i]);
+  fields.noticeNumber = firstMatch(flat, [
+    /(?:Reference|Ref\.?)\s*(?:No\.?|Number)\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-_.]{4,})/i,
+    /(?:SCN|Notice|Order)\s*(?:No\.?|Number)\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-_.]{4,})/i
+  ]) || fields.din;
+  fields.arn = firstMatch(flat, [/\b(?:Case\s*ID|ARN)\s*(?:No\.?)?\s*[:\-]?\s*([A-Z]{2}[0-9A-Z]{10,})\b/i]);
+  fields.noticeType = findNoticeType(flat, options.noticeTypes || []);
+  fields.section = findSection(flat);
+  fields.period = findPeriod(flat);
+
+  const issueRaw = firstMatch(flat, [
+    new RegExp(`Date\\s+of\\s+(?:issue|order|notice|communication)\\s*[:\\-]?\\s*${DATE_PATTERN}`, 'i'),
+    new RegExp(`\\bDated?\\s*[:\\-]?\\s*${DATE_PATTERN}`, 'i')
+  ]);
+  fields.dateOfIssue = issueRaw ? parseNoticeDate(issueRaw) : undefined;
+  fields.dueDate = findDueDate(flat, fields.dateOfIssue);
+  fields.issuingAuthority = findIssuingAuthority(lines);
+
+  // Demand table: consecutive head rows form one block; a repeated head starts the next block
+  const blocks: DemandBlock[] = [];
+  let current: DemandBlock | null = null;
+  for (let idx = 0; idx < lines.length; idx++) {
+    const line = lines[idx];
+    if (/^(?:grand\s+)?total\b/i.test(line)) { current = null; continue; }
+    const headLine = readHeadLine(line);
+    if (!headLine) continue;
+    if (!current || current.heads[headLine.key]) {
+      // Nearest narrative lines above the table, skipping its column header
+      const context = lines.slice(Math.max(0, idx - 6), idx).filter(l => !readHeadLine(l) && !/\binterest\b.*\bpenalty\b/i.test(l)).slice(-2).join(' ');
+      current = { heads: {}, context };
+      blocks.push(current);
+    }
+    current.heads[headLine.key] = headLine.values;
+  }
+
+  // A trailing summary block equal to the sum of the others is not a separate defect
+  if (blocks.length > 2) {
+    const last = blocks[blocks.length - 1];
+    const summed: Partial<Record<DefectHeadKey, TaxHeadValues>> = {};
+    blocks.slice(0, -1).forEach(b => DEFECT_HEADS.forEach(({ key }) => {
+      if (b.heads[key]) summed[key] = sumValues(summed[key] || emptyHead(), b.heads[key]!);
+    }));
+    if (DEFECT_HEADS.every(({ key }) => sameValues(last.heads[key] || emptyHead(), summed[key] || emptyHead()))) blocks.pop();
+  }
+
+  const defectTypes = options.defectTypes || [];
+  const defects = blocks
+    .map((block, idx) => buildDefect(
+      block.heads,
+      guessDefectType(block.context || flat, defectTypes),
+      blocks.length > 1 ? `Issue ${idx + 1}: ${block.context.slice(0, 200)}` : block.context.slice(0, 200),
+      fields.section
+    ))
+    .filter(d => (d.taxDemand || 0) + (d.interestDemand || 0) + (d.penaltyDemand || 0) > 0);
+
+  const demandAmount = defects.reduce((acc, d) => acc + DEFECT_HEADS.reduce((s, { key }) => {
+    const h = d[key]!;
+    return s + h.tax + h.interest + h.penalty + h.lateFee + h.others;
+  }, 0), 0);
+
+  if (!fields.noticeType) warnings.push('Form type (ASMT-10 / DRC-01 / DRC-07) not recognised.');
+  if (!fields.gstin) warnings.push('GSTIN not found in the document.');
+  if (!fields.dateOfIssue) warnings.push('Date of issue not found.');
+  if (!fields.dueDate) warnings.push('Reply / payment due date not found.');
+  if (defects.length === 0) warnings.push('No demand table recognised; add defects manually.');
+  if (text.replace(/\s/g, '').length < 200) warnings.push('Very little text was read. The PDF may be a low quality scan.');
+
+  (Object.keys(fields) as ParsedNoticeField[]).forEach(k => { if (!fields[k]) delete fields[k]; });
+  return { fields, defects, demandAmount, warnings };
+};
+
+// Text layer first; scanned pages fall back to the bundled OCR engine
+export const readNoticePdf = async (file: File, options: NoticeParseOptions = {}): Promise<{ pages: string[]; parsed: ParsedNotice }> => {
+  const pages = await extractDocumentPages({
+    noticeId: 0, fileName: file.name, fileType: file.type || 'application/pdf', category: 'Notice Scan',
+    uploadDate: new Date().toISOString(), size: file.size, fileData: file
+  });
+  return { pages, parsed: parseNoticeText(joinOcrPages(pages), options) };
+};
@@ -0,0 +1,215 @@
+import { db } from '../db';
+import { AppealProceeding, Notification, NotificationEntity, NotificationRule, NoticeStatus, User } from '../types';
+import { getPendingContest } from './appeals';
+import { buildComplianceSchedule } from './complianceCalendar';
+import { isDatabaseUnlocked } from './encryption';
+import { DEFAULT_LIMITATION_CONFIG } from './limitation';
+import { buildRuleMessage, CONTESTED_STATUSES, DEFAULT_NOTIFICATION_RULES, evaluateRules, keepMostUrgent, NOTIFICATION_RULES_KEY, ORDER_TYPES, RuleMatch, RuleRecord, toLocalIsoDate } from './notificationRules';
+
+// Runs the notification rules over the live data on a schedule while someone is signed in.
+// One alert is kept per rule, record, trigger date and recipient: an unread alert is refreshed in
+// place, a read one comes back only after the rule's repeat interval, and unread alerts whose
+// condition no longer holds (deadline met, case closed, rule switched off) are cleared. Read
+// alerts for conditions that have gone away are deleted once they are old enough.
+
+export const NOTIFICATION_STATUS_KEY = 'notification_run_status';
+
+const CHECK_INTERVAL_MS = 30 * 60 * 1000;
+const RETURN_LOOKBACK_DAYS = 365;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const READ_RETENTION_DAYS = 90;
+
+export interface NotificationRunStatus {
+  lastRunAt?: string;
+  raised?: number;
+  refreshed?: number;
+  cleared?: number;
+  lastError?: string;
+}
+
+export const getNotificationRules = async (): Promise<NotificationRule[]> =>
+  (await db.appConfig.get({ key: NOTIFICATION_RULES_KEY }))?.value || DEFAULT_NOTIFICATION_RULES;
+
+const getResolvedStatuses = async (): Promise<string[]> =>
+  (await db.appConfig.get({ key: 'overdue_excluded_statuses' }))?.value || [NoticeStatus.CLOSED, NoticeStatus.FILED, NoticeStatus.APPEAL, 'Order Passed'];
+
+const addDays = (iso: string, days: number) => toLocalIsoDate(new Date(Date.parse(iso) + days * DAY_MS));
+
+// Records of the given entities, in the shape the rules read
+const loadRuleRecords = async (entities: NotificationEntity[], rules: NotificationRule[], today: string): Promise<RuleRecord[]> => {
+  const records: RuleRecord[] = [];
+  const notices = entities.includes('Notice') || entities.includes('Hearing') ? await db.notices.toArray() : [];
+
+  if (entities.includes('Notice')) {
+    const appealsByNotice = new Map<number, AppealProceeding[]>();
+    for (const appeal of await db.appeals.toArray()) {
+      appealsByNotice.set(appeal.noticeId, [...(appealsByNotice.get(appeal.noticeId) || []), appeal]);
+    }
+    for (const n of notices) {
+      const appeals = appealsByNotice.get(n.id!) || [];
+      const contestable = (ORDER_TYPES.includes(n.noticeType) || !!n.orderDate) && n.status !== NoticeStatus.CLOSED && !(appeals.length === 0 && CONTESTED_STATUSES.includes(n.status));
+      const pending = contestable ? getPendingContest(n.orderDate || n.dateOfIssue, appeals) : null;
+      records.push({
+        entity: 'Notice', id: n.id!, label: `Notice ${n.noticeNumber}`, link: `/notices/${n.id}`, status: n.status, assignee: n.assignedTo,
+        dates: {
+          dueDate: n.dueDate, extendedDueDate: n.extendedDueDate, dateOfIssue: n.dateOfIssue, receivedDate: n.receivedDate,
+          lastCheckedDate: n.lastCheckedDate, replyFiledDate: n.replyFiledDate, orderDate: n.orderDate,
+          contestDeadline: pending ? toLocalIsoDate(pending.deadline) : undefined
+        }
+      });
+    }
+  }
+
+  if (entities.includes('Hearing')) {
+    const noticeById = new Map(notices.map(n => [n.id!, n]));
+    for (const h of await db.hearings.toArray()) {
+      const notice = noticeById.get(h.noticeId);
+      if (!notice) continue;
+      records.push({
+        entity: 'Hearing', id: h.id!, label: `${h.type} in ${notice.noticeNumber}${h.time ? ` at ${h.time}` : ''}`, link: `/notices/${notice.id}`,
+        status: h.status, assignee: notice.assignedTo, dates: { date: h.date }
+      });
+    }
+  }
+
+  if (entities.includes('Invoice')) {
+    for (const inv of await db.invoices.toArray()) {
+      records.push({
+        entity: 'Invoice', id: inv.id!, label: `Invoice ${inv.invoiceNumber} (${inv.taxpayerName})`, link: '/billing',
+        status: inv.status, assignee: inv.createdBy, dates: { dueDate: inv.dueDate, date: inv.date }
+      });
+    }
+  }
+
+  if (entities.includes('Return')) {
+    // Due dates are derived from the filing profiles, so only the window the rules can reach is built
+    const ahead = Math.max(0, ...rules.filter(r => r.entity === 'Return' && r.condition === 'within').map(r => r.offsetDays));
+    const limitation = (await db.appConfig.get({ key: 'limitation_config' }))?.value || DEFAULT_LIMITATION_CONFIG;
+    const dues = buildComplianceSchedule(await db.taxpayers.toArray(), await db.returns.toArray(), addDays(today, -RETURN_LOOKBACK_DAYS), addDays(today, ahead), limitation, today);
+    for (const due of dues) {
+      records.push({
+        entity: 'Return', id: due.key, label: `${due.form} ${due.label} of ${due.tradeName}`, link: due.taxpayerId ? `/taxpayers/${due.taxpayerId}` : '/returns',
+        status: due.status, dates: { dueDate: due.dueDate }
+      });
+    }
+  }
+  return records;
+};
+
+// Users to alert; an empty list means a system-wide alert
+const resolveRecipients = (rule: NotificationRule, record: RuleRecord, users: User[]): User[] =>
+  users.filter(u => u.isActive && (rule.roles.includes(u.role) || (rule.notifyAssignee && !!record.assignee && u.username === record.assignee)));
+
+export interface RulePreviewRow {
+  match: RuleMatch;
+  recipients: string[];
+}
+
+// What the rule would fire on right now, on its own (other rules on the same date are not weighed)
+export const previewRule = async (rule: NotificationRule): Promise<RulePreviewRow[]> => {
+  const today = toLocalIsoDate(new Date());
+  const records = await loadRuleRecords([rule.entity], [rule], today);
+  const users = await db.users.toArray();
+  const matches = evaluateRules([{ ...rule, enabled: true }], records, today, await getResolvedStatuses());
+  return matches
+    .sort((a, b) => a.days - b.days)
+    .map(match => {
+      const recipients = resolveRecipients(rule, match.record, users);
+      return { match, recipients: recipients.length ? recipients.map(u => u.fullName || u.username) : ['Everyone (system-wide)'] };
+    });
+};
+
+const generate = async (): Promise<NotificationRunStatus> => {
+  const today = toLocalIsoDate(new Date());
+  const rules = (await getNotificationRules()).filter(r => r.enabled);
+  const entities = Array.from(new Set(rules.map(r => r.entity)));
+  const records = await loadRuleRecords(entities, rules, today);
+  const matches = evaluateRules(rules, records, today, await getResolvedStatuses());
+  const users = await db.users.toArray();
+  // Rule alerts only, through the index; the latest per key and recipient is the one that counts
+  const existing = await db.notifications.where('dedupeKey').above('').toArray();
+  const latest = new Map<string, Notification>();
+  for (const n of existing) {
+    const key = `${n.dedupeKey}#${n.userId ?? ''}`;
+    const current = latest.get(key);
+    if (!current || n.createdAt > current.createdAt) latest.set(key, n);
+  }
+  const now = new Date();
+  const status: NotificationRunStatus = { lastRunAt: now.toISOString(), raised: 0, refreshed: 0, cleared: 0 };
+
+  const alerts = keepMostUrgent(
+    matches.flatMap(match => {
+      const recipients = resolveRecipients(match.rule, match.record, users);
+      return (recipients.length ? recipients.map(u => u.id) : [undefined]).map(userId => ({ match, userId }));
+    }),
+    alert => String(alert.userId ?? '')
+  );
+
+  const live = new Set<string>();
+  for (const { match, userId } of alerts) {
+    const key = `${match.dedupeKey}#${userId ?? ''}`;
+    live.add(key);
+    const message = buildRuleMessage(match);
+    const previous = latest.get(key);
+    if (previous && !previous.isRead) {
+      if (previous.message !== message || previous.type !== match.rule.severity || previous.title !== match.rule.name) {
+        await db.notifications.update(previous.id!, { message, type: match.rule.severity, title: match.rule.name });
+        status.refreshed!++;
+      }
+      continue;
+    }
+    if (previous && (match.rule.repeatDays <= 0 || now.getTime() - Date.parse(previous.createdAt) < match.rule.repeatDays * DAY_MS)) continue;
+    const notification: Notification = {
+      userId, title: match.rule.name, message, type: match.rule.severity, link: match.record.link, isRead: false,
+      createdAt: now.toISOString(), ruleId: match.rule.id, dedupeKey: match.dedupeKey
+    };
+    await db.notifications.add(notification);
+    status.raised!++;
+  }
+
+  // The condition no longer holds for these
+  const stale = existing.filter(n => !n.isRead && !live.has(`${n.dedupeKey}#${n.userId ?? ''}`));
+  if (stale.length) {
+    await db.notifications.bulkUpdate(stale.map(n => ({ key: n.id!, changes: { isRead: true } })));
+    status.cleared = stale.length;
+  }
+
+  // Alerts still live are kept whatever their age, so a rule that never repeats does not fire again
+  const cutoff = new Date(now.getTime() - READ_RETENTION_DAYS * DAY_MS).toISOString();
+  const expired = existing.filter(n => n.isRead && n.createdAt < cutoff && !live.has(`${n.dedupeKey}#${n.userId ?? ''}`));
+  if (expired.length) await db.notifications.bulkDelete(expired.map(n => n.id!));
+  return status;
+};
+
+let currentRun: Promise<NotificationRunStatus> | null = null;
+
+// A run already in progress is joined rather than started twice
+export const runNotificationRules = (): Promise<NotificationRunStatus> => {
+  if (!currentRun) {
+    currentRun = generate()
+      .catch(e => {
+        console.error('Notification rules:', e);
+        return { lastRunAt: new Date().toISOString(), lastError: e instanceof Error ? e.message : String(e) } as NotificationRunStatus;
+      })
+      .then(async status => {
+        const row = await db.appConfig.get({ key: NOTIFICATION_STATUS_KEY });
+        if (row) await db.appConfig.update(row.id!, { value: status });
+        else await db.appConfig.add({ key: NOTIFICATION_STATUS_KEY, value: status });
+        return status;
+      })
+      .finally(() => { currentRun = null; });
+  }
+  return currentRun;
+};
+
+const tick = () => {
+  if (!isDatabaseUnlocked()) return;
+  runNotificationRules().catch(e => console.error('Notification rules:', e));
+};
+
+// Started by the layout for the signed-in user; returns the cleanup
+export const startNotificationScheduler = () => {
+  tick();
+  const timer = window.setInterval(tick, CHECK_INTERVAL_MS);
+  return () => window.clearInterval(timer);
+};
@@ -0,0 +1,164 @@
+import { HearingStatus, InvoiceStatus, NotificationCondition, NotificationEntity, NotificationRule } from '../types';
+
+// Notification rules: a rule fires on a record of its entity when one of the record's dates meets
+// the condition (coming up within N days, or passed by more than N days). The generator
+// (utils/notificationEngine.ts) gathers the records and raises the alerts; everything here is pure
+// so the admin preview and the scheduled run evaluate rules the same way.
+
+export const NOTIFICATION_RULES_KEY = 'notification_rules';
+
+export const ORDER_TYPES = ['DRC-07', 'DRC-08', 'ASMT-13', 'ASMT-15', 'Appeal Order', 'Rectification Order', 'Order Passed'];
+// Without any appeal on record the status is the only signal that the order was contested
+export const CONTESTED_STATUSES = ['Appeal Filed', 'Rectification Filed', 'Closed', 'Paid'];
+
+export interface NotificationEntityDef {
+  entity: NotificationEntity;
+  label: string;
+  fields: { key: string; label: string }[];
+  statuses?: string[]; // Fixed statuses; notices use the configured workflow statuses
+}
+
+export const NOTIFICATION_ENTITIES: NotificationEntityDef[] = [
+  {
+    entity: 'Notice',
+    label: 'Notices',
+    fields: [
+      { key: 'dueDate', label: 'Reply due date' },
+      { key: 'extendedDueDate', label: 'Extended due date' },
+      { key: 'dateOfIssue', label: 'Date of issue' },
+      { key: 'receivedDate', label: 'Received date' },
+      { key: 'lastCheckedDate', label: 'Last reviewed' },
+      { key: 'replyFiledDate', label: 'Reply filed on' },
+      { key: 'orderDate', label: 'Order date' },
+      { key: 'contestDeadline', label: 'Appeal limitation (next forum)' }
+    ]
+  },
+  {
+    entity: 'Hearing',
+    label: 'Hearings',
+    fields: [{ key: 'date', label: 'Hearing date' }],
+    statuses: Object.values(HearingStatus)
+  },
+  {
+    entity: 'Invoice',
+    label: 'Invoices',
+    fields: [
+      { key: 'dueDate', label: 'Payment due date' },
+      { key: 'date', label: 'Invoice date' }
+    ],
+    statuses: Object.values(InvoiceStatus)
+  },
+  {
+    entity: 'Return',
+    label: 'Returns',
+    fields: [{ key: 'dueDate', label: 'Return due date' }],
+    statuses: ['Pending', 'Overdue', 'Filed', 'Filed Late', 'Lapsed']
+  }
+];
+
+export const NOTIFICATION_CONDITIONS: { value: NotificationCondition; label: string }[] = [
+  { value: 'within', label: 'falls within the next' },
+  { value: 'passed', label: 'passed more than' }
+];
+
+export const getEntityDef = (entity: NotificationEntity) => NOTIFICATION_ENTITIES.find(e => e.entity === entity)!;
+
+export const fieldLabelFor = (entity: NotificationEntity, field: string) =>
+  getEntityDef(entity).fields.find(f => f.key === field)?.label || field;
+
+export const describeRule = (rule: NotificationRule) =>
+  `${fieldLabelFor(rule.entity, rule.field)} ${rule.condition === 'within' ? `falls within the next ${rule.offsetDays} day(s)` : `passed more than ${rule.offsetDays} day(s) ago`}`;
+
+// The previous hard-coded checks, as rules
+export const DEFAULT_NOTIFICATION_RULES: NotificationRule[] = [
+  { id: 'notice-overdue', name: 'Notice Overdue', enabled: true, entity: 'Notice', field: 'dueDate', condition: 'passed', offsetDays: 0, statuses: [], openOnly: true, severity: 'critical', notifyAssignee: true, roles: [], repeatDays: 1 },
+  { id: 'notice-due-soon', name: 'Approaching Deadline', enabled: true, entity: 'Notice', field: 'dueDate', condition: 'within', offsetDays: 3, statuses: [], openOnly: true, severity: 'warning', notifyAssignee: true, roles: [], repeatDays: 1 },
+  { id: 'notice-review-sla', name: 'SLA Breach: Review Overdue', enabled: true, entity: 'Notice', field: 'lastCheckedDate', condition: 'passed', offsetDays: 7, statuses: [], openOnly: true, severity: 'warning', notifyAssignee: true, roles: [], repeatDays: 7 },
+  { id: 'contest-expired', name: 'Contest Expired', enabled: true, entity: 'Notice', field: 'contestDeadline', condition: 'passed', offsetDays: 0, statuses: [], openOnly: false, severity: 'critical', notifyAssignee: true, roles: [], repeatDays: 0 },
+  { id: 'contest-critical', name: 'Appeal Deadline Critical', enabled: true, entity: 'Notice', field: 'contestDeadline', condition: 'within', offsetDays: 15, statuses: [], openOnly: false, severity: 'critical', notifyAssignee: true, roles: [], repeatDays: 1 },
+  { id: 'contest-warning', name: 'Appeal Contest Warning', enabled: true, entity: 'Notice', field: 'contestDeadline', condition: 'within', offsetDays: 30, statuses: [], openOnly: false, severity: 'warning', notifyAssignee: true, roles: [], repeatDays: 7 }
+];
+
+// A record as the rules see it, whatever table it comes from
+export interface RuleRecord {
+  entity: NotificationEntity;
+  id: string | number;
+  label: string; // "Notice DRC-01/123", "Invoice INV-2024-001 (Acme Traders)"
+  link: string;
+  status: string;
+  dates: Record<string, string | undefined>; // YYYY-MM-DD
+  assignee?: string; // username
+}
+
+export interface RuleMatch {
+  rule: NotificationRule;
+  record: RuleRecord;
+  date: string;
+  days: number; // Until the date; negative once it has passed
+  dedupeKey: string;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const toLocalIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysFrom = (today: string, date: string) =>
+  Math.round((Date.parse(date.substring(0, 10)) - Date.parse(today)) / DAY_MS);
+
+export const matchesRule = (rule: NotificationRule, record: RuleRecord, today: string, resolvedStatuses: string[] = []): RuleMatch | null => {
+  if (rule.entity !== record.entity) return null;
+  if (rule.statuses.length > 0 && !rule.statuses.includes(record.status)) return null;
+  if (rule.openOnly && record.entity === 'Notice' && resolvedStatuses.includes(record.status)) return null;
+  const date = record.dates[rule.field];
+  if (!date || isNaN(Date.parse(date.substring(0, 10)))) return null;
+  const days = daysFrom(today, date);
+  const hit = rule.condition === 'within' ? days >= 0 && days <= rule.offsetDays : -days > rule.offsetDays;
+  if (!hit) return null;
+  // The date is part of the key, so a moved deadline alerts afresh
+  return { rule, record, date: date.substring(0, 10), days, dedupeKey: `${rule.id}|${record.entity}:${record.id}|${date.substring(0, 10)}` };
+};
+
+const SEVERITY_RANK = { info: 0, warning: 1, critical: 2 };
+
+// The tighter of two rules on the same date: a smaller 'within' window, a longer 'passed' one
+const specificity = (rule: NotificationRule) => (rule.condition === 'within' ? -rule.offsetDays : rule.offsetDays);
+
+export const evaluateRules = (rules: NotificationRule[], records: RuleRecord[], today: string, resolvedStatuses: string[] = []): RuleMatch[] => {
+  const matches: RuleMatch[] = [];
+  for (const record of records) {
+    for (const rule of rules) {
+      if (!rule.enabled) continue;
+      const match = matchesRule(rule, record, today, resolvedStatuses);
+      if (match) matches.push(match);
+    }
+  }
+  return matches;
+};
+
+// Where several rules fire on the same date of a record for the same recipient (e.g. 30 and 15 days
+// before an appeal deadline), only the most severe, then the tightest, is kept. Rules reaching
+// different recipients are all kept, so a rule for a role is not hidden by one for the assignee.
+export const keepMostUrgent = <T extends { match: RuleMatch }>(items: T[], recipientOf: (item: T) => string): T[] => {
+  const best = new Map<string, T>();
+  for (const item of items) {
+    const { rule, record } = item.match;
+    const slot = `${record.entity}:${record.id}|${rule.field}#${recipientOf(item)}`;
+    const current = best.get(slot)?.match.rule;
+    if (!current
+        || SEVERITY_RANK[rule.severity] > SEVERITY_RANK[current.severity]
+        || (SEVERITY_RANK[rule.severity] === SEVERITY_RANK[current.severity] && specificity(rule) > specificity(current))) {
+      best.set(slot, item);
+    }
+  }
+  return Array.from(best.values());
+};
+
+export const buildRuleMessage = (match: RuleMatch) => {
+  const what = `${match.record.label}: ${fieldLabelFor(match.rule.entity, match.rule.field).toLowerCase()} ${new Date(match.date).toLocaleDateString()}`;
+  if (match.days > 0) return `${what}, ${match.days} day(s) left.`;
+  if (match.days === 0) return `${what}, which is today.`;
+  return `${what}, ${-match.days} day(s) ago.`;
+};
+
+export const newRuleId = () => `rule-${Date.now().toString(36)}`;
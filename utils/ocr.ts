@@ -0,0 +1,215 @@
+import { createWorker, OEM, Worker as TesseractWorker } from 'tesseract.js';
+import * as pdfjsLib from 'pdfjs-dist';
+import { db } from '../db';
+import { DocumentMeta } from '../types';
+import { getDocumentFile } from './encryption';
+// Engine, WASM core and language model are bundled so that extraction never leaves the machine
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import engTrainedDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+const PDF_RENDER_SCALE = 2; // ~150 DPI for A4, enough for typed notices
+const MIN_TEXT_LAYER_CHARS = 40; // Below this a PDF page is treated as a scan
+
+export interface OcrQueueState {
+  pending: number[];
+  current: { docId: number; fileName: string; page: number; totalPages: number; progress: number } | null;
+  processed: number;
+  failed: number;
+}
+
+export const isOcrSupported = (doc: Pick<DocumentMeta, 'fileType' | 'fileName'>): boolean => {
+  return (doc.fileType || '').startsWith('image/') || doc.fileType === 'application/pdf' || /\.pdf$/i.test(doc.fileName);
+};
+
+// Module-level engine and queue, shared across pages so batch runs survive navigation
+let engine: Promise<TesseractWorker> | null = null;
+let progressHandler: ((progress: number) => void) | null = null;
+let state: OcrQueueState = { pending: [], current: null, processed: 0, failed: 0 };
+let isRunning = false;
+// Extractions in flight, from the queue or called directly (notice intake, knowledge base); the
+// engine is only terminated once none are left
+let engineUsers = 0;
+// The worker and progressHandler are shared, so recognition runs one image at a time
+let recognizing: Promise<unknown> = Promise.resolve();
+const listeners = new Set<() => void>();
+const waiters = new Map<number, (() => void)[]>();
+
+const setState = (next: Partial<OcrQueueState>) => {
+  state = { ...state, ...next };
+  listeners.forEach(l => l());
+};
+
+export const getOcrQueueState = (): OcrQueueState => state;
+
+export const subscribeOcrQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const absoluteUrl = (url: string) => new URL(url, window.location.href).href;
+
+const getEngine = (): Promise<TesseractWorker> => {
+  if (!engine) {
+    engine = (async () => {
+      const resp = await fetch(absoluteUrl(engTrainedDataUrl));
+      const data = new Uint8Array(await resp.arrayBuffer());
+      return createWorker([{ code: 'eng', data }], OEM.LSTM_ONLY, {
+        workerPath: absoluteUrl(tesseractWorkerUrl),
+        corePath: absoluteUrl(tesseractCoreUrl),
+        cacheMethod: 'none',
+        logger: m => { if (m.status === 'recognizing text' && progressHandler) progressHandler(m.progress); }
+      });
+    })();
+    engine.catch(() => { engine = null; });
+  }
+  return engine;
+};
+
+const releaseEngine = async () => {
+  if (!engine) return;
+  const current = engine;
+  engine = null;
+  try { await (await current).terminate(); } catch (e) { console.error(e); }
+};
+
+const recognize = (image: Blob | HTMLCanvasElement, onProgress: (progress: number) => void): Promise<string> => {
+  const run = recognizing.then(async () => {
+    const worker = await getEngine();
+    progressHandler = onProgress;
+    try {
+      const { data } = await worker.recognize(image);
+      return data.text.trim();
+    } finally {
+      progressHandler = null;
+    }
+  });
+  recognizing = run.catch(() => undefined);
+  return run;
+};
+
+const extractPdfPages = async (blob: Blob, onPage: (page: number, totalPages: number, progress: number) => void): Promise<string[]> => {
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      onPage(i, pdf.numPages, 0);
+      const page = await pdf.getPage(i);
+
+      // Portal-generated PDFs carry a text layer; only scanned pages need OCR
+      const content = await page.getTextContent();
+      const layerText = content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')).join('').trim();
+      if (layerText.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) {
+        pages.push(layerText);
+        page.cleanup();
+        continue;
+      }
+
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      page.cleanup();
+      pages.push(await recognize(canvas, progress => onPage(i, pdf.numPages, progress)));
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+// Also used for files that are not case documents, e.g. knowledge base attachments
+export const extractFilePages = async (file: Blob, fileName: string, fileType: string | undefined, onPage: (page: number, totalPages: number, progress: number) => void = () => {}): Promise<string[]> => {
+  engineUsers++;
+  try {
+    if (fileType === 'application/pdf' || /\.pdf$/i.test(fileName)) return await extractPdfPages(file, onPage);
+    onPage(1, 1, 0);
+    return [await recognize(file, progress => onPage(1, 1, progress))];
+  } finally {
+    engineUsers--;
+    // A running queue keeps the engine for its next document and releases it at the end
+    if (engineUsers === 0 && !isRunning) await releaseEngine();
+  }
+};
+
+export const extractDocumentPages = async (doc: DocumentMeta, onPage: (page: number, totalPages: number, progress: number) => void = () => {}): Promise<string[]> => {
+  const file = await getDocumentFile(doc);
+  if (!file) throw new Error('File data not available locally.');
+  return extractFilePages(file, doc.fileName, doc.fileType, onPage);
+};
+
+// Joined text keeps page boundaries visible for search results and the editor
+export const joinOcrPages = (pages: string[]): string => {
+  if (pages.length <= 1) return pages[0] || '';
+  return pages.map((text, idx) => `--- Page ${idx + 1} ---\n${text}`).join('\n\n');
+};
+
+const processDocument = async (docId: number) => {
+  const doc = await db.documents.get(docId);
+  if (!doc || !doc.fileData || !isOcrSupported(doc)) return;
+
+  await db.documents.update(docId, { ocrStatus: 'Processing', ocrError: undefined });
+  try {
+    const pages = await extractDocumentPages(doc, (page, totalPages, progress) => {
+      setState({ current: { docId, fileName: doc.fileName, page, totalPages, progress: (page - 1 + progress) / totalPages } });
+    });
+    await db.documents.update(docId, { ocrPages: pages, ocrText: joinOcrPages(pages), ocrStatus: 'Done', ocrDate: new Date().toISOString() });
+    setState({ processed: state.processed + 1 });
+  } catch (e) {
+    console.error(e);
+    await db.documents.update(docId, { ocrStatus: 'Failed', ocrError: e instanceof Error ? e.message : String(e) });
+    setState({ failed: state.failed + 1 });
+  }
+};
+
+const runQueue = async () => {
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    while (state.pending.length > 0) {
+      const [docId, ...rest] = state.pending;
+      setState({ pending: rest, current: { docId, fileName: '', page: 0, totalPages: 0, progress: 0 } });
+      await processDocument(docId);
+      (waiters.get(docId) || []).forEach(resolve => resolve());
+      waiters.delete(docId);
+    }
+  } finally {
+    setState({ current: null });
+    isRunning = false;
+    // Frees the WASM heap between batches, unless a direct extraction is still using it
+    if (engineUsers === 0) await releaseEngine();
+  }
+};
+
+// Resolves once every given document has been processed (or failed)
+export const enqueueOcr = (docIds: number[], priority = false): Promise<void> => {
+  const ids = docIds.filter(id => state.current?.docId !== id);
+  const rest = state.pending.filter(id => !ids.includes(id));
+  setState({ pending: priority ? [...ids, ...rest] : [...rest, ...ids] });
+
+  const done = Promise.all(docIds.map(id => new Promise<void>(resolve => {
+    waiters.set(id, [...(waiters.get(id) || []), resolve]);
+  }))).then(() => undefined);
+
+  if (ids.length > 0) {
+    db.documents.where('id').anyOf(ids).modify({ ocrStatus: 'Queued' }).catch(console.error);
+  }
+  runQueue();
+  return done;
+};
+
+// Picks up every stored scan that has never been read; failed documents are retried only on request
+export const queuePendingOcr = async (includeFailed = false): Promise<number> => {
+  const docs = await db.documents
+    .filter(d => !!d.fileData && !d.ocrText && isOcrSupported(d) && (includeFailed || d.ocrStatus !== 'Failed'))
+    .primaryKeys();
+  const ids = (docs as number[]).filter(id => !state.pending.includes(id) && state.current?.docId !== id);
+  if (ids.length > 0) enqueueOcr(ids);
+  return ids.length;
+};
@@ -0,0 +1,78 @@
+import { db } from '../db';
+import { NoticeDefect, PaymentLog, MajorTaxHead, TaxHeadValues } from '../types';
+import { DEFECT_HEADS, DefectHeadKey, matchesMajorHead } from './interest';
+
+// Mandatory pre-deposit for appeals.
+// First appeal (Sec 107(6)): admitted amount in full + 10% of the disputed tax.
+// Tribunal (Sec 112(8)): a further 10% of the tax remaining in dispute.
+// Caps are per Act, so IGST carries the combined CGST + SGST cap.
+
+export type AppealStage = 'First Appeal' | 'Tribunal';
+
+export const APPEAL_STATUSES = ['Appeal', 'Appeal Filed'];
+
+export const PRE_DEPOSIT_RULES: Record<AppealStage, { percent: number; caps: Record<MajorTaxHead, number> }> = {
+  'First Appeal': { percent: 10, caps: { IGST: 400000000, CGST: 200000000, SGST: 200000000, Cess: 200000000 } },
+  'Tribunal': { percent: 10, caps: { IGST: 400000000, CGST: 200000000, SGST: 200000000, Cess: 200000000 } }
+};
+
+export interface PreDepositHeadRow {
+  head: MajorTaxHead;
+  admittedDue: number; // Tax + interest + penalty + fee of admitted defects
+  admittedPaid: number;
+  disputedTax: number;
+  preDeposit: number; // Required deposit for the selected stage (cumulative)
+  depositPaid: number; // 'Deposit' minor head payments
+  shortfall: number;
+}
+
+export interface PreDepositResult {
+  stage: AppealStage;
+  rows: PreDepositHeadRow[];
+  totalRequired: number;
+  totalPaid: number;
+  totalShortfall: number;
+  isSatisfied: boolean;
+}
+
+const sumHead = (h?: TaxHeadValues) => (h?.tax || 0) + (h?.interest || 0) + (h?.penalty || 0) + (h?.lateFee || 0) + (h?.others || 0);
+
+const depositFor = (stage: AppealStage, head: MajorTaxHead, disputedTax: number): number => {
+  const rule = PRE_DEPOSIT_RULES[stage];
+  return Math.min(Math.round(disputedTax * rule.percent / 100), rule.caps[head]);
+};
+
+export const calculatePreDeposit = (defects: NoticeDefect[], payments: PaymentLog[], stage: AppealStage = 'First Appeal'): PreDepositResult => {
+  const activeDefects = defects.filter(d => d.status !== 'Waived');
+  const admittedIds = new Set(activeDefects.filter(d => d.appealStance === 'Admitted').map(d => d.id));
+
+  const rows: PreDepositHeadRow[] = DEFECT_HEADS.map(({ key, label }: { key: DefectHeadKey; label: MajorTaxHead }) => {
+    const admittedDue = activeDefects.filter(d => admittedIds.has(d.id)).reduce((acc, d) => acc + sumHead(d[key]), 0);
+    const disputedTax = activeDefects.filter(d => !admittedIds.has(d.id)).reduce((acc, d) => acc + (d[key]?.tax || 0), 0);
+
+    const headPayments = payments.filter(p => matchesMajorHead(p, label));
+    const admittedPaid = headPayments
+      .filter(p => p.minorHead !== 'Deposit' && p.defectId !== undefined && admittedIds.has(p.defectId))
+      .reduce((acc, p) => acc + p.amount, 0);
+    const depositPaid = headPayments.filter(p => p.minorHead === 'Deposit').reduce((acc, p) => acc + p.amount, 0);
+
+    // Tribunal deposit is in addition to what was deposited for the first appeal
+    let preDeposit = depositFor('First Appeal', label, disputedTax);
+    if (stage === 'Tribunal') preDeposit += depositFor('Tribunal', label, disputedTax);
+
+    const shortfall = Math.max(0, admittedDue - admittedPaid) + Math.max(0, preDeposit - depositPaid);
+    return { head: label, admittedDue, admittedPaid, disputedTax, preDeposit, depositPaid, shortfall };
+  });
+
+  const totalRequired = rows.reduce((acc, r) => acc + r.admittedDue + r.preDeposit, 0);
+  const totalPaid = rows.reduce((acc, r) => acc + Math.min(r.admittedPaid, r.admittedDue) + Math.min(r.depositPaid, r.preDeposit), 0);
+  const totalShortfall = rows.reduce((acc, r) => acc + r.shortfall, 0);
+
+  return { stage, rows, totalRequired, totalPaid, totalShortfall, isSatisfied: totalShortfall === 0 };
+};
+
+export const getNoticePreDeposit = async (noticeId: number, stage: AppealStage = 'First Appeal'): Promise<PreDepositResult> => {
+  const defects = await db.defects.where('noticeId').equals(noticeId).toArray();
+  const payments = await db.payments.where('noticeId').equals(noticeId).toArray();
+  return calculatePreDeposit(defects, payments, stage);
+};
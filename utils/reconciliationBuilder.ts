@@ -0,0 +1,227 @@
+import * as XLSX from 'xlsx';
+import { db } from '../db';
+import { BooksCategory, GSTReturnType, ReconciliationAutoBuild, ReconciliationRecord, ReconciliationRow, ReconciliationType, ReturnMetric, ReturnRecord } from '../types';
+
+// Builds reconciliation worksheets from the returns already stored for a GSTIN and year. The
+// return side is re-derived on refresh, so a worksheet follows re-imported returns; the books
+// side comes from a monthly trial balance and is left alone by a refresh.
+
+export const WORKSHEET_MONTHS = ['April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December', 'January', 'February', 'March'];
+
+export const RETURN_METRICS: Record<ReturnMetric, { returnType: GSTReturnType; field: 'taxableValue' | 'taxLiability' | 'itcAvailable' }> = {
+  'GSTR-1 Taxable Value': { returnType: 'GSTR-1', field: 'taxableValue' },
+  'GSTR-1 Tax Liability': { returnType: 'GSTR-1', field: 'taxLiability' },
+  'GSTR-3B Taxable Value': { returnType: 'GSTR-3B', field: 'taxableValue' },
+  'GSTR-3B Tax Liability': { returnType: 'GSTR-3B', field: 'taxLiability' },
+  'GSTR-3B ITC': { returnType: 'GSTR-3B', field: 'itcAvailable' },
+  'GSTR-2B ITC': { returnType: 'GSTR-2B', field: 'itcAvailable' }
+};
+
+export const AUTO_WORKSHEETS: { type: ReconciliationType; sourceA: ReturnMetric; sourceB: ReturnMetric | BooksCategory }[] = [
+  { type: 'Turnover (GSTR-1 vs Books)', sourceA: 'GSTR-1 Taxable Value', sourceB: 'Turnover' },
+  { type: 'Tax Liability (GSTR-3B vs Books)', sourceA: 'GSTR-3B Tax Liability', sourceB: 'Output Tax' },
+  { type: 'ITC (GSTR-2B vs Books)', sourceA: 'GSTR-2B ITC', sourceB: 'Input Tax Credit' },
+  { type: 'Liability (GSTR-1 vs GSTR-3B)', sourceA: 'GSTR-1 Tax Liability', sourceB: 'GSTR-3B Tax Liability' },
+  { type: 'ITC (GSTR-3B vs GSTR-2B)', sourceA: 'GSTR-3B ITC', sourceB: 'GSTR-2B ITC' }
+];
+
+export const BOOKS_CATEGORIES: BooksCategory[] = ['Turnover', 'Output Tax', 'Input Tax Credit'];
+
+export const isReturnMetric = (source: string): source is ReturnMetric => source in RETURN_METRICS;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Month name of an "April-2023" style period; the latest record wins when a month was imported twice
+export const monthlyReturnValues = (returns: ReturnRecord[], financialYear: string, metric: ReturnMetric): Record<string, number> => {
+  const { returnType, field } = RETURN_METRICS[metric];
+  const values: Record<string, number> = {};
+  returns
+    .filter(r => r.returnType === returnType && r.financialYear === financialYear)
+    .sort((a, b) => (a.id || 0) - (b.id || 0))
+    .forEach(r => {
+      const month = WORKSHEET_MONTHS.find(m => r.period.toLowerCase().startsWith(m.toLowerCase()));
+      if (month) values[month] = r[field] || 0;
+    });
+  return values;
+};
+
+// Trial balance ledgers with their monthly movement, net of debits (credit positive)
+export interface TrialBalanceLedger {
+  name: string;
+  category: BooksCategory | 'Ignore';
+  months: Record<string, number>;
+  signed: boolean; // False when the file gave plain amounts without Dr / Cr
+}
+
+const guessCategory = (name: string): BooksCategory | 'Ignore' => {
+  const n = name.toLowerCase();
+  if (/\b(input|itc)\b/.test(n) && /gst|cess|itc/.test(n)) return 'Input Tax Credit';
+  if (/\boutput\b/.test(n) && /gst|cess/.test(n)) return 'Output Tax';
+  if (/\b(sales?|turnover|revenue)\b/.test(n) && !/gst|cess|tax/.test(n)) return 'Turnover';
+  return 'Ignore';
+};
+
+// "1,23,456.00 Cr" / "(500)" / 500 -> signed amount; sign is undefined when the text carries none
+const parseAmount = (raw: any): { value: number; signed: boolean } => {
+  if (typeof raw === 'number') return { value: raw, signed: false };
+  const text = String(raw ?? '').trim();
+  const value = parseFloat(text.replace(/[(),\s]|dr|cr/gi, '')) || 0;
+  if (/cr$/i.test(text)) return { value, signed: true };
+  if (/dr$/i.test(text) || /^\(.*\)$/.test(text)) return { value: -value, signed: true };
+  return { value, signed: false };
+};
+
+// "April", "Apr-23", "Sept 2023"
+const monthOfHeading = (heading: string) => {
+  const match = heading.trim().toLowerCase().match(/^([a-z]{3,9})\.?(?:[\s\-']*\d{2,4})?$/);
+  return match ? WORKSHEET_MONTHS.find(m => m.toLowerCase().startsWith(match[1])) : undefined;
+};
+
+const normaliseHeading = (h: string) => h.toLowerCase().replace(/[^a-z]/g, '');
+
+// Accepts either month columns (Tally "monthly summary" style) or a Month column with Debit / Credit
+export const readTrialBalance = async (file: File): Promise<{ ledgers: TrialBalanceLedger[]; warnings: string[] }> => {
+  const wb = XLSX.read(await file.arrayBuffer(), { type: 'array', raw: true });
+  const data = XLSX.utils.sheet_to_json<any>(wb.Sheets[wb.SheetNames[0]], { defval: '' });
+  if (data.length === 0) throw new Error('The trial balance has no rows.');
+
+  const headings = Object.keys(data[0]);
+  const find = (...aliases: string[]) => headings.find(h => aliases.includes(normaliseHeading(h)));
+  const nameColumn = find('ledger', 'ledgername', 'particulars', 'account', 'accountname', 'name');
+  if (!nameColumn) throw new Error('Could not find the Ledger / Particulars column.');
+
+  const monthColumns = headings.map(h => ({ heading: h, month: monthOfHeading(h) })).filter(c => c.month);
+  const periodColumn = find('month', 'period');
+  const debitColumn = find('debit', 'dr', 'debitamount');
+  const creditColumn = find('credit', 'cr', 'creditamount');
+  const amountColumn = find('amount', 'netamount', 'closingbalance', 'balance');
+  if (monthColumns.length === 0 && !(periodColumn && (debitColumn || creditColumn || amountColumn))) {
+    throw new Error('The trial balance needs month columns (April ... March) or a Month column with Debit / Credit amounts.');
+  }
+
+  const ledgers = new Map<string, TrialBalanceLedger>();
+  const ledgerFor = (name: string) => {
+    if (!ledgers.has(name)) ledgers.set(name, { name, category: guessCategory(name), months: {}, signed: false });
+    return ledgers.get(name)!;
+  };
+  let unknownMonths = 0;
+
+  for (const row of data) {
+    const name = String(row[nameColumn] || '').trim();
+    if (!name || /^(grand\s*)?total$/i.test(name)) continue;
+    if (monthColumns.length) {
+      const ledger = ledgerFor(name);
+      for (const { heading, month } of monthColumns) {
+        const { value, signed } = parseAmount(row[heading]);
+        ledger.months[month!] = round((ledger.months[month!] || 0) + value);
+        ledger.signed = ledger.signed || signed;
+      }
+    } else {
+      const month = monthOfHeading(String(row[periodColumn!] || ''));
+      if (!month) { unknownMonths++; continue; }
+      const ledger = ledgerFor(name);
+      let value: number;
+      if (debitColumn || creditColumn) {
+        value = parseAmount(creditColumn ? row[creditColumn] : 0).value - parseAmount(debitColumn ? row[debitColumn] : 0).value;
+        ledger.signed = true;
+      } else {
+        const amount = parseAmount(row[amountColumn!]);
+        value = amount.value;
+        ledger.signed = ledger.signed || amount.signed;
+      }
+      ledger.months[month] = round((ledger.months[month] || 0) + value);
+    }
+  }
+
+  const warnings: string[] = [];
+  if (unknownMonths) warnings.push(`${unknownMonths} row(s) with an unrecognised month were skipped.`);
+  const result = Array.from(ledgers.values());
+  if (!result.some(l => l.category !== 'Ignore')) warnings.push('No sales, output tax or input tax ledgers were recognised; assign them below.');
+  return { ledgers: result, warnings };
+};
+
+// Credit-natured groups read as credit; ITC reads as debit unless the file gave plain amounts
+export const booksMonthlyValues = (ledgers: TrialBalanceLedger[], category: BooksCategory): Record<string, number> => {
+  const values: Record<string, number> = {};
+  for (const ledger of ledgers.filter(l => l.category === category)) {
+    for (const [month, amount] of Object.entries(ledger.months)) {
+      const natural = category === 'Input Tax Credit' && ledger.signed ? -amount : amount;
+      values[month] = round((values[month] || 0) + natural);
+    }
+  }
+  return values;
+};
+
+// Re-pulls the return-driven side(s); books values and remarks stay as they are
+export const refreshRows = (rows: ReconciliationRow[], autoBuild: ReconciliationAutoBuild, returns: ReturnRecord[], financialYear: string): ReconciliationRow[] => {
+  const a = monthlyReturnValues(returns, financialYear, autoBuild.sourceA);
+  const b = isReturnMetric(autoBuild.sourceB) ? monthlyReturnValues(returns, financialYear, autoBuild.sourceB) : undefined;
+  return rows.map(row => {
+    const sourceA = round(a[row.period] || 0);
+    const sourceB = b ? round(b[row.period] || 0) : row.sourceB;
+    return { ...row, sourceA, sourceB, diff: round(sourceA - sourceB) };
+  });
+};
+
+export const isWorksheetStale = (record: Pick<ReconciliationRecord, 'rows' | 'autoBuild' | 'financialYear'>, returns: ReturnRecord[]) => {
+  if (!record.autoBuild) return false;
+  const fresh = refreshRows(record.rows, record.autoBuild, returns, record.financialYear);
+  return fresh.some((row, i) => Math.abs(row.sourceA - record.rows[i].sourceA) > 0.5 || Math.abs(row.sourceB - record.rows[i].sourceB) > 0.5);
+};
+
+export interface BuildOptions {
+  gstin: string;
+  financialYear: string;
+  types: ReconciliationType[];
+  ledgers?: TrialBalanceLedger[];
+  booksFile?: string;
+  username: string;
+}
+
+// Creates the chosen worksheets, or refreshes earlier auto-built ones for the same GSTIN, year and type
+export const buildWorksheets = async ({ gstin, financialYear, types, ledgers, booksFile, username }: BuildOptions) => {
+  const returns = await db.returns.where('gstin').equals(gstin).toArray();
+  if (!returns.some(r => r.financialYear === financialYear)) throw new Error(`No returns are stored for ${gstin} in FY ${financialYear}.`);
+  const existing = await db.reconciliations.where('gstin').equals(gstin).toArray();
+  const now = new Date().toISOString();
+  const summary = { created: 0, updated: 0, skipped: [] as string[] };
+
+  await db.transaction('rw', db.reconciliations, db.auditLogs, async () => {
+    for (const plan of AUTO_WORKSHEETS.filter(p => types.includes(p.type))) {
+      const current = existing.find(r => r.type === plan.type && r.financialYear === financialYear && r.autoBuild);
+      if (current?.invoiceMatch) {
+        summary.skipped.push(`${plan.type} (rows come from its invoice match)`);
+        continue;
+      }
+      const books = !isReturnMetric(plan.sourceB) && ledgers ? booksMonthlyValues(ledgers, plan.sourceB) : undefined;
+      const baseRows = current?.rows || WORKSHEET_MONTHS.map(m => ({ period: m, sourceA: 0, sourceB: 0, diff: 0, remarks: '' }));
+      const autoBuild: ReconciliationAutoBuild = {
+        sourceA: plan.sourceA,
+        sourceB: plan.sourceB,
+        booksFile: books ? booksFile : current?.autoBuild?.booksFile,
+        builtAt: now
+      };
+      const rows = refreshRows(
+        books ? baseRows.map(r => ({ ...r, sourceB: round(books[r.period] || 0) })) : baseRows,
+        autoBuild, returns, financialYear
+      );
+
+      if (current) {
+        await db.reconciliations.update(current.id!, { rows, autoBuild, updatedAt: now, lastModifiedBy: username });
+        await db.auditLogs.add({
+          entityType: 'Reconciliation', entityId: current.id!, action: 'Update', timestamp: now, user: username,
+          details: `Rebuilt ${plan.type} for ${gstin} from stored returns${books ? ` and ${booksFile}` : ''}`
+        });
+        summary.updated++;
+      } else {
+        const id = await db.reconciliations.add({ gstin, type: plan.type, financialYear, rows, autoBuild, updatedAt: now, lastModifiedBy: username });
+        await db.auditLogs.add({
+          entityType: 'Reconciliation', entityId: id, action: 'Create', timestamp: now, user: username,
+          details: `Built ${plan.type} for ${gstin} from stored returns${books ? ` and ${booksFile}` : ''}`
+        });
+        summary.created++;
+      }
+    }
+  });
+  return summary;
+};
@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { Notice, ReplyTemplate, User } from '../types';
+import { buildDocx, DOCX_MIME } from './docx';
+import { buildReplyPdf, renderReply } from './replyTemplates';
+
+// Generating a reply: the template is filled from the case as it stands, saved as a .docx (for
+// editing) and a .pdf (for review) under the notice's documents, and recorded as the next version.
+// Earlier versions and their files are kept.
+
+export const createReplyDraft = async (notice: Notice, template: ReplyTemplate, user: User) => {
+  const [taxpayer, defects, reconciliations] = await Promise.all([
+    db.taxpayers.where('gstin').equals(notice.gstin).first(),
+    db.defects.where('noticeId').equals(notice.id!).toArray(),
+    db.reconciliations.where('noticeId').equals(notice.id!).toArray()
+  ]);
+  const now = new Date();
+  const rendered = renderReply(template.body, {
+    notice, taxpayer, defects, reconciliations,
+    user: { fullName: user.fullName, email: user.email },
+    today: now.toISOString().split('T')[0]
+  });
+  const docx = buildDocx(rendered.blocks, now);
+  const pdf = buildReplyPdf(rendered.blocks);
+
+  return db.transaction('rw', db.replyDrafts, db.documents, db.auditLogs, async () => {
+    const previous = await db.replyDrafts.where('noticeId').equals(notice.id!).toArray();
+    const version = previous.reduce((max, d) => Math.max(max, d.version), 0) + 1;
+    const baseName = `Reply_${notice.noticeNumber.replace(/[^A-Za-z0-9-]+/g, '_')}_v${version}`;
+    const uploadDate = now.toISOString();
+    const docxDocumentId = await db.documents.add({
+      noticeId: notice.id!, fileName: `${baseName}.docx`, fileType: DOCX_MIME, category: 'Reply Draft', uploadDate, size: docx.size, fileData: docx
+    }) as number;
+    const pdfDocumentId = await db.documents.add({
+      noticeId: notice.id!, fileName: `${baseName}.pdf`, fileType: 'application/pdf', category: 'Reply Draft', uploadDate, size: pdf.size, fileData: pdf,
+      // The text is known, so the OCR queue skips the file and document search still finds it
+      ocrText: rendered.text, ocrStatus: 'Done', ocrDate: uploadDate
+    }) as number;
+    const draftId = await db.replyDrafts.add({
+      noticeId: notice.id!, templateId: template.id, templateName: template.name, version, text: rendered.text,
+      missingFields: rendered.missing.length ? rendered.missing : undefined,
+      docxDocumentId, pdfDocumentId, createdAt: uploadDate, createdBy: user.username
+    }) as number;
+    await db.auditLogs.add({
+      entityType: 'Notice', entityId: notice.id!, action: 'Update', timestamp: uploadDate, user: user.username,
+      details: `Reply draft v${version} generated from template "${template.name}"${rendered.missing.length ? ` (${rendered.missing.length} fields left blank)` : ''}`
+    });
+    return { draftId, version, missing: rendered.missing };
+  });
+};
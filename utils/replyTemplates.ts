@@ -0,0 +1,360 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Notice, NoticeDefect, ReconciliationRecord, ReplyTemplate, Taxpayer } from '../types';
+import { DocBlock } from './docx';
+import { formatDate } from './formatting';
+
+// Reply templates. Each line of the body is a paragraph; "# " starts the title and "## " a heading.
+// {{notice.noticeNumber}} style fields are filled from the notice, taxpayer and signed-in user;
+// {{#defects}} ... {{/defects}} repeats once per open defect (defect.* fields inside) and
+// {{#reconciliations}} ... {{/reconciliations}} once per linked worksheet. {{defects.table}} or
+// {{reconciliations.table}} alone on a line becomes a table. A field with no value is left in the
+// draft as [field] and reported, so nothing goes out half-filled without the drafter knowing.
+
+type FieldKind = 'text' | 'date' | 'amount';
+
+export interface MergeField {
+  key: string;
+  label: string;
+  kind?: FieldKind;
+}
+
+export const REPLY_MERGE_FIELDS: { group: string; fields: MergeField[] }[] = [
+  { group: 'Notice', fields: [
+    { key: 'notice.noticeNumber', label: 'Reference number' },
+    { key: 'notice.din', label: 'DIN' },
+    { key: 'notice.arn', label: 'ARN / case ID' },
+    { key: 'notice.noticeType', label: 'Notice type' },
+    { key: 'notice.section', label: 'Section / form' },
+    { key: 'notice.period', label: 'Period' },
+    { key: 'notice.dateOfIssue', label: 'Date of issue', kind: 'date' },
+    { key: 'notice.receivedDate', label: 'Date received', kind: 'date' },
+    { key: 'notice.dueDate', label: 'Reply due date', kind: 'date' },
+    { key: 'notice.extendedDueDate', label: 'Extended due date', kind: 'date' },
+    { key: 'notice.issuingAuthority', label: 'Issuing authority' },
+    { key: 'notice.demandAmount', label: 'Demand amount', kind: 'amount' }
+  ]},
+  { group: 'Taxpayer', fields: [
+    { key: 'taxpayer.gstin', label: 'GSTIN' },
+    { key: 'taxpayer.legalName', label: 'Legal name' },
+    { key: 'taxpayer.tradeName', label: 'Trade name' },
+    { key: 'taxpayer.registeredAddress', label: 'Registered address' },
+    { key: 'taxpayer.email', label: 'Email' },
+    { key: 'taxpayer.mobile', label: 'Mobile' },
+    { key: 'taxpayer.stateCircle', label: 'State jurisdiction' },
+    { key: 'taxpayer.centralRange', label: 'Central jurisdiction' }
+  ]},
+  { group: 'Defects (totals of open defects)', fields: [
+    { key: 'defects.count', label: 'Number of defects' },
+    { key: 'defects.tax', label: 'Tax', kind: 'amount' },
+    { key: 'defects.interest', label: 'Interest', kind: 'amount' },
+    { key: 'defects.penalty', label: 'Penalty', kind: 'amount' },
+    { key: 'defects.total', label: 'Total', kind: 'amount' },
+    { key: 'defects.table', label: 'Table of defects (own line)' }
+  ]},
+  { group: 'Inside {{#defects}} ... {{/defects}}', fields: [
+    { key: 'defect.index', label: 'Serial number' },
+    { key: 'defect.defectType', label: 'Defect type' },
+    { key: 'defect.section', label: 'Section' },
+    { key: 'defect.description', label: 'Description' },
+    { key: 'defect.submission', label: 'Submission (clause library)' },
+    { key: 'defect.tax', label: 'Tax', kind: 'amount' },
+    { key: 'defect.interest', label: 'Interest', kind: 'amount' },
+    { key: 'defect.penalty', label: 'Penalty', kind: 'amount' },
+    { key: 'defect.total', label: 'Total', kind: 'amount' },
+    { key: 'defect.igst', label: 'IGST (tax)', kind: 'amount' },
+    { key: 'defect.cgst', label: 'CGST (tax)', kind: 'amount' },
+    { key: 'defect.sgst', label: 'SGST (tax)', kind: 'amount' },
+    { key: 'defect.cess', label: 'Cess (tax)', kind: 'amount' }
+  ]},
+  { group: 'Inside {{#reconciliations}} ... {{/reconciliations}}', fields: [
+    { key: 'reconciliation.index', label: 'Serial number' },
+    { key: 'reconciliation.type', label: 'Comparison' },
+    { key: 'reconciliation.financialYear', label: 'Financial year' },
+    { key: 'reconciliation.sourceA', label: 'First source total', kind: 'amount' },
+    { key: 'reconciliation.sourceB', label: 'Second source total', kind: 'amount' },
+    { key: 'reconciliation.difference', label: 'Difference', kind: 'amount' },
+    { key: 'reconciliation.remarks', label: 'Row remarks' }
+  ]},
+  { group: 'Other', fields: [
+    { key: 'reconciliations.table', label: 'Table of reconciliations (own line)' },
+    { key: 'user.fullName', label: 'Prepared by' },
+    { key: 'user.email', label: 'Preparer email' },
+    { key: 'today', label: "Today's date", kind: 'date' }
+  ]}
+];
+
+const FIELD_KINDS = new Map(REPLY_MERGE_FIELDS.flatMap(g => g.fields.map(f => [f.key, f.kind || 'text'] as const)));
+
+export interface ReplyContext {
+  notice: Notice;
+  taxpayer?: Taxpayer;
+  defects: NoticeDefect[];
+  reconciliations: ReconciliationRecord[];
+  user: { fullName: string; email?: string };
+  today: string; // ISO date
+}
+
+export interface RenderedReply {
+  blocks: DocBlock[];
+  text: string;
+  missing: string[];
+}
+
+type Values = Record<string, string | number | undefined>;
+
+const FIELD = /\{\{\s*([\w.]+)\s*\}\}/g;
+const REPEAT = /\{\{#(defects|reconciliations)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const TABLE_LINE = /^\{\{\s*(defects|reconciliations)\.table\s*\}\}$/;
+const SUBMISSION = /\{\{\s*defect\.submission\s*\}\}/g;
+
+// Rs. rather than the rupee sign: the PDF's standard fonts have no glyph for it
+const amount = (n: number) => `Rs. ${Math.round(n).toLocaleString('en-IN')}`;
+
+const format = (key: string, value: string | number) => {
+  const kind = FIELD_KINDS.get(key);
+  if (kind === 'amount') return amount(Number(value) || 0);
+  if (kind === 'date') return formatDate(String(value));
+  return String(value);
+};
+
+const defectTotal = (d: NoticeDefect) => (d.taxDemand || 0) + (d.interestDemand || 0) + (d.penaltyDemand || 0);
+
+const defectValues = (d: NoticeDefect, index: number): Values => ({
+  'defect.index': index + 1,
+  'defect.defectType': d.defectType,
+  'defect.section': d.section,
+  'defect.description': d.description,
+  'defect.submission': d.replySubmission?.trim(),
+  'defect.tax': d.taxDemand || 0,
+  'defect.interest': d.interestDemand || 0,
+  'defect.penalty': d.penaltyDemand || 0,
+  'defect.total': defectTotal(d),
+  'defect.igst': d.igst?.tax || 0,
+  'defect.cgst': d.cgst?.tax || 0,
+  'defect.sgst': d.sgst?.tax || 0,
+  'defect.cess': d.cess?.tax || 0
+});
+
+const reconciliationTotals = (r: ReconciliationRecord) => ({
+  sourceA: r.rows.reduce((sum, row) => sum + (row.sourceA || 0), 0),
+  sourceB: r.rows.reduce((sum, row) => sum + (row.sourceB || 0), 0),
+  difference: r.rows.reduce((sum, row) => sum + (row.diff || 0), 0)
+});
+
+const reconciliationValues = (r: ReconciliationRecord, index: number): Values => {
+  const totals = reconciliationTotals(r);
+  return {
+    'reconciliation.index': index + 1,
+    'reconciliation.type': r.type,
+    'reconciliation.financialYear': r.financialYear,
+    'reconciliation.sourceA': totals.sourceA,
+    'reconciliation.sourceB': totals.sourceB,
+    'reconciliation.difference': totals.difference,
+    'reconciliation.remarks': r.rows.filter(row => row.remarks?.trim()).map(row => `${row.period}: ${row.remarks.trim()}`).join('; ')
+  };
+};
+
+const contextValues = (ctx: ReplyContext, defects: NoticeDefect[]): Values => {
+  const { notice, taxpayer } = ctx;
+  return {
+    'notice.noticeNumber': notice.noticeNumber,
+    'notice.din': notice.din,
+    'notice.arn': notice.arn,
+    'notice.noticeType': notice.noticeType,
+    'notice.section': notice.section,
+    'notice.period': notice.period,
+    'notice.dateOfIssue': notice.dateOfIssue,
+    'notice.receivedDate': notice.receivedDate,
+    'notice.dueDate': notice.dueDate,
+    'notice.extendedDueDate': notice.extendedDueDate,
+    'notice.issuingAuthority': notice.issuingAuthority,
+    'notice.demandAmount': notice.demandAmount || 0,
+    'taxpayer.gstin': taxpayer?.gstin || notice.gstin,
+    'taxpayer.legalName': taxpayer?.legalName,
+    'taxpayer.tradeName': taxpayer?.tradeName,
+    'taxpayer.registeredAddress': taxpayer?.registeredAddress,
+    'taxpayer.email': taxpayer?.email,
+    'taxpayer.mobile': taxpayer?.mobile,
+    'taxpayer.stateCircle': taxpayer?.stateCircle,
+    'taxpayer.centralRange': taxpayer?.centralRange,
+    'defects.count': defects.length,
+    'defects.tax': defects.reduce((sum, d) => sum + (d.taxDemand || 0), 0),
+    'defects.interest': defects.reduce((sum, d) => sum + (d.interestDemand || 0), 0),
+    'defects.penalty': defects.reduce((sum, d) => sum + (d.penaltyDemand || 0), 0),
+    'defects.total': defects.reduce((sum, d) => sum + defectTotal(d), 0),
+    'user.fullName': ctx.user.fullName,
+    'user.email': ctx.user.email,
+    'today': ctx.today
+  };
+};
+
+const defectsTable = (defects: NoticeDefect[]): DocBlock => {
+  const sum = (pick: (d: NoticeDefect) => number) => amount(defects.reduce((s, d) => s + pick(d), 0));
+  return {
+    type: 'table',
+    head: ['No.', 'Defect', 'Section', 'Tax', 'Interest', 'Penalty', 'Total'],
+    rows: defects.map((d, i) => [String(i + 1), d.defectType, d.section || '-', amount(d.taxDemand || 0), amount(d.interestDemand || 0), amount(d.penaltyDemand || 0), amount(defectTotal(d))]),
+    foot: ['', 'Total', '', sum(d => d.taxDemand || 0), sum(d => d.interestDemand || 0), sum(d => d.penaltyDemand || 0), sum(defectTotal)]
+  };
+};
+
+const reconciliationsTable = (records: ReconciliationRecord[]): DocBlock => ({
+  type: 'table',
+  head: ['No.', 'Comparison', 'FY', 'First Source', 'Second Source', 'Difference'],
+  rows: records.map((r, i) => {
+    const totals = reconciliationTotals(r);
+    return [String(i + 1), r.type, r.financialYear, amount(totals.sourceA), amount(totals.sourceB), amount(totals.difference)];
+  })
+});
+
+export const renderReply = (body: string, ctx: ReplyContext): RenderedReply => {
+  // Waived defects are no longer part of the case and stay out of the reply
+  const defects = ctx.defects.filter(d => d.status !== 'Waived');
+  const missing = new Set<string>();
+  const fill = (text: string, values: Values, only?: string) =>
+    text.replace(FIELD, (match, key: string) => {
+      if (only && !key.startsWith(only)) return match;
+      const value = values[key];
+      if (value === undefined || value === null || value === '' || !FIELD_KINDS.has(key)) {
+        missing.add(key);
+        return `[${key}]`;
+      }
+      return format(key, value);
+    });
+
+  const expanded = body.replace(/\r\n/g, '\n').replace(REPEAT, (_, list: string, inner: string) =>
+    list === 'defects'
+      // The submission goes in first: library clauses may use fields of their own
+      ? defects.map((d, i) => fill(inner.replace(SUBMISSION, match => d.replySubmission?.trim() || match), defectValues(d, i), 'defect.')).join('\n')
+      : ctx.reconciliations.map((r, i) => fill(inner, reconciliationValues(r, i), 'reconciliation.')).join('\n')
+  );
+
+  const values = contextValues(ctx, defects);
+  const blocks: DocBlock[] = [];
+  for (const raw of expanded.split('\n')) {
+    const line = raw.trim();
+    if (!line) continue;
+    const table = line.match(TABLE_LINE);
+    if (table) {
+      // An empty table says nothing the surrounding text does not
+      if (table[1] === 'defects' && defects.length) blocks.push(defectsTable(defects));
+      if (table[1] === 'reconciliations' && ctx.reconciliations.length) blocks.push(reconciliationsTable(ctx.reconciliations));
+      continue;
+    }
+    const filled = fill(line, values);
+    if (filled.startsWith('## ')) blocks.push({ type: 'heading', text: filled.slice(3).trim() });
+    else if (filled.startsWith('# ')) blocks.push({ type: 'title', text: filled.slice(2).trim() });
+    else blocks.push({ type: 'paragraph', text: filled });
+  }
+
+  const text = blocks.map(b => (b.type === 'table' ? [b.head, ...b.rows, ...(b.foot ? [b.foot] : [])].map(r => r.join(' | ')).join('\n') : b.text)).join('\n\n');
+  return { blocks, text, missing: [...missing] };
+};
+
+// A4 portrait, same blocks as the .docx so both copies of a version read alike
+export const buildReplyPdf = (blocks: DocBlock[]): Blob => {
+  const doc = new jsPDF({ format: 'a4' });
+  const margin = 20;
+  const width = doc.internal.pageSize.getWidth() - margin * 2;
+  const bottom = doc.internal.pageSize.getHeight() - margin;
+  let y = margin;
+
+  const write = (text: string, size: number, style: 'normal' | 'bold', align: 'left' | 'center', before: number) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    const lineHeight = size * 0.45;
+    y += before;
+    for (const line of doc.splitTextToSize(text, width) as string[]) {
+      if (y + lineHeight > bottom) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, align === 'center' ? margin + width / 2 : margin, y + lineHeight * 0.8, { align });
+      y += lineHeight;
+    }
+    y += 2;
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'title') write(block.text.toUpperCase(), 13, 'bold', 'center', 0);
+    else if (block.type === 'heading') write(block.text, 11, 'bold', 'left', 3);
+    else if (block.type === 'paragraph') write(block.text, 10.5, 'normal', 'left', 0);
+    else {
+      autoTable(doc, {
+        startY: y + 1,
+        margin: { left: margin, right: margin },
+        head: [block.head],
+        body: block.rows,
+        foot: block.foot ? [block.foot] : undefined,
+        theme: 'grid',
+        styles: { fontSize: 9 },
+        headStyles: { fillColor: [241, 245, 249], textColor: 30 },
+        footStyles: { fillColor: [241, 245, 249], textColor: 30 },
+        didParseCell: data => {
+          if (/^-?(Rs\.\s*)?[\d,]+(\.\d+)?$/.test(String(data.cell.raw || '').trim())) data.cell.styles.halign = 'right';
+        }
+      });
+      y = (doc as any).lastAutoTable.finalY + 5;
+    }
+  }
+  return doc.output('blob');
+};
+
+// Templates offered for a notice: those made for its type first, then the general ones
+export const templatesForNotice = (templates: ReplyTemplate[], noticeType: string) =>
+  templates
+    .filter(t => t.isActive && (t.noticeTypes.length === 0 || t.noticeTypes.includes(noticeType)))
+    .sort((a, b) => Number(b.noticeTypes.includes(noticeType)) - Number(a.noticeTypes.includes(noticeType)) || a.name.localeCompare(b.name));
+
+const ASMT_10_REPLY = `# Reply in Form GST ASMT-11 to Notice in Form GST ASMT-10
+Date: {{today}}
+To,
+{{notice.issuingAuthority}}
+Sub: Reply to notice Ref. No. {{notice.noticeNumber}} dated {{notice.dateOfIssue}} for the period {{notice.period}}
+GSTIN: {{taxpayer.gstin}}
+Name: {{taxpayer.legalName}} (Trade name: {{taxpayer.tradeName}})
+Address: {{taxpayer.registeredAddress}}
+Respected Sir / Madam,
+1. We refer to the above notice issued under Section 61 of the CGST Act, 2017 read with Rule 99(1) of the CGST Rules, 2017, in which {{defects.count}} discrepancies have been communicated in the returns for {{notice.period}}, involving tax of {{defects.tax}}. Our explanation on each discrepancy is set out below.
+## Summary of discrepancies
+{{defects.table}}
+{{#defects}}
+## {{defect.index}}. {{defect.defectType}}
+Discrepancy communicated: {{defect.description}}
+Tax involved: {{defect.tax}} (IGST {{defect.igst}}, CGST {{defect.cgst}}, SGST {{defect.sgst}}, Cess {{defect.cess}}).
+{{defect.submission}}
+{{/defects}}
+## Reconciliations enclosed
+{{reconciliations.table}}
+2. In view of the above, we request that the explanation be accepted and that the proceedings be concluded under Rule 99(3) without further action. We shall be glad to furnish any further information or documents that may be required.
+For {{taxpayer.legalName}}
+Authorised Signatory`;
+
+const DRC_01_REPLY = `# Reply to Show Cause Notice in Form GST DRC-06
+Date: {{today}}
+To,
+{{notice.issuingAuthority}}
+Sub: Reply to Show Cause Notice No. {{notice.noticeNumber}} dated {{notice.dateOfIssue}} (DIN {{notice.din}}), summary in Form GST DRC-01, for the period {{notice.period}}
+GSTIN: {{taxpayer.gstin}}
+Name: {{taxpayer.legalName}} (Trade name: {{taxpayer.tradeName}})
+Address: {{taxpayer.registeredAddress}}
+Respected Sir / Madam,
+1. The noticee has received the above show cause notice proposing a demand of {{notice.demandAmount}} on {{defects.count}} grounds. The noticee denies each of the allegations and submits as follows, each ground being without prejudice to the others.
+## Demand proposed
+{{defects.table}}
+{{#defects}}
+## Ground {{defect.index}}: {{defect.defectType}}
+Allegation: {{defect.description}}
+Amount proposed: tax {{defect.tax}}, interest {{defect.interest}} and penalty {{defect.penalty}}.
+{{defect.submission}}
+{{/defects}}
+## Prayer
+In view of the above, the noticee prays that the proposed demand of tax of {{defects.tax}}, together with interest under Section 50 and penalty, be dropped, and that an opportunity of personal hearing be granted before any order is passed, as required by Section 75(4) of the CGST Act, 2017.
+For {{taxpayer.legalName}}
+Authorised Signatory`;
+
+export const DEFAULT_REPLY_TEMPLATES: Omit<ReplyTemplate, 'updatedAt' | 'updatedBy'>[] = [
+  { name: 'ASMT-10 Reply (ASMT-11)', noticeTypes: ['ASMT-10'], body: ASMT_10_REPLY, isActive: true },
+  { name: 'DRC-01 / SCN Reply (DRC-06)', noticeTypes: ['DRC-01', 'SCN'], body: DRC_01_REPLY, isActive: true }
+];
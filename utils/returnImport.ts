@@ -0,0 +1,533 @@
+import { db } from '../db';
+import { GSTReturnType, ReturnRecord, ReturnSection } from '../types';
+
+// Reads the JSON produced by the GST portal for GSTR-1 (offline tool / download), GSTR-3B
+// (offline utility / filed return JSON), GSTR-2B (download) and GSTR-9 (offline tool / filed
+// return JSON) into a ReturnRecord summary plus the table-wise sections it was built from.
+// Credit notes and reversals are negative.
+
+export interface ParsedReturn {
+  record: Omit<ReturnRecord, 'id'>;
+  warnings: string[];
+}
+
+export type ReturnImportAction = 'import' | 'replace' | 'skip';
+
+export interface ReturnImportRow {
+  fileName: string;
+  parsed?: ParsedReturn;
+  error?: string;
+  duplicateId?: number; // Existing record for the same GSTIN, return and period
+  batchDuplicateOf?: string; // Earlier file in the same selection with the same GSTIN, return and period
+  action: ReturnImportAction;
+  outcome?: 'Imported' | 'Replaced' | 'Skipped' | 'Failed';
+}
+
+type AmountKeys = { taxable: string; igst: string; cgst: string; sgst: string; cess: string };
+
+// Returns (GSTR-1 / 3B) and the 2B statement name the heads differently
+const RETURN_KEYS: AmountKeys = { taxable: 'txval', igst: 'iamt', cgst: 'camt', sgst: 'samt', cess: 'csamt' };
+const STATEMENT_KEYS: AmountKeys = { taxable: 'txval', igst: 'igst', cgst: 'cgst', sgst: 'sgst', cess: 'cess' };
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const num = (value: any): number => {
+  const n = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const list = (value: any): any[] => (Array.isArray(value) ? value : []);
+
+const newSection = (code: string, label: string, inTotals = true): ReturnSection => ({
+  code, label, documents: 0, taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0, inTotals
+});
+
+const addAmounts = (section: ReturnSection, source: any, sign = 1, keys: AmountKeys = RETURN_KEYS) => {
+  if (!source) return;
+  section.taxableValue += sign * num(source[keys.taxable]);
+  section.igst += sign * num(source[keys.igst]);
+  section.cgst += sign * num(source[keys.cgst]);
+  section.sgst += sign * num(source[keys.sgst]);
+  section.cess += sign * num(source[keys.cess]);
+};
+
+// Line items carry amounts either directly or under itm_det
+const addItems = (section: ReturnSection, items: any, sign = 1, keys: AmountKeys = RETURN_KEYS) => {
+  for (const item of list(items)) addAmounts(section, item?.itm_det || item, sign, keys);
+};
+
+export const sectionTax = (s: Pick<ReturnSection, 'igst' | 'cgst' | 'sgst' | 'cess'>) => s.igst + s.cgst + s.sgst + s.cess;
+
+const finish = (sections: ReturnSection[]): ReturnSection[] =>
+  sections
+    .filter(s => s.documents || s.taxableValue || sectionTax(s))
+    .map(s => ({
+      ...s,
+      taxableValue: round(s.taxableValue), igst: round(s.igst), cgst: round(s.cgst), sgst: round(s.sgst), cess: round(s.cess)
+    }));
+
+const sumOf = (sections: ReturnSection[], pick: (s: ReturnSection) => number, codes?: string[]) =>
+  round(sections.filter(s => (codes ? codes.includes(s.code) : s.inTotals)).reduce((sum, s) => sum + pick(s), 0));
+
+// MMYYYY (fp / ret_period / rtnprd) -> the "April-2023" period and "2023-24" year used across the app
+export const portalPeriod = (raw: any): { period: string; financialYear: string } | undefined => {
+  const match = String(raw ?? '').trim().match(/^(\d{2})(\d{4})$/);
+  if (!match) return undefined;
+  const month = +match[1];
+  const year = +match[2];
+  if (month < 1 || month > 12) return undefined;
+  const startYear = month >= 4 ? year : year - 1;
+  return {
+    period: `${MONTH_NAMES[month - 1]}-${year}`,
+    financialYear: `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`
+  };
+};
+
+// dd-mm-yyyy or dd/mm/yyyy -> ISO; anything else is left out
+export const portalDate = (raw: any): string => {
+  const match = String(raw ?? '').trim().match(/^(\d{2})[\-\/](\d{2})[\-\/](\d{4})$/);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : '';
+};
+
+const filingDateOf = (json: any): string => portalDate(json.fil_dt || json.filing_dt || json.filedt || json.dof);
+
+const GSTR1_TABLES = ['b2b', 'b2cl', 'b2cs', 'exp', 'cdnr', 'cdnur', 'at', 'txpd', 'nil', 'hsn'];
+
+export const detectReturnType = (json: any): GSTReturnType | undefined => {
+  if (!json || typeof json !== 'object') return undefined;
+  const statement = json.data && typeof json.data === 'object' ? json.data : json;
+  if (statement.rtnprd && (statement.docdata || statement.itcsumm)) return 'GSTR-2B';
+  if (json.sup_details || json.itc_elg) return 'GSTR-3B';
+  if (json.table4 && (json.table6 || json.table9)) return 'GSTR-9';
+  if (json.fp && GSTR1_TABLES.some(t => t in json)) return 'GSTR-1';
+  return undefined;
+};
+
+const parseGstr1 = (json: any, warnings: string[]) => {
+  const b2b = newSection('B2B', '4A B2B supplies');
+  const rcm = newSection('B2B-RCM', '4B B2B supplies attracting reverse charge', false);
+  const sez = newSection('SEZ', '6B Supplies to SEZ');
+  const deemed = newSection('DE', '6C Deemed exports');
+  const b2cl = newSection('B2CL', '5 B2C (Large) invoices');
+  const b2cs = newSection('B2CS', '7 B2C (Others)');
+  const exp = newSection('EXP', '6A Exports');
+  const cdnr = newSection('CDNR', '9B Credit / debit notes (registered)');
+  const cdnur = newSection('CDNUR', '9B Credit / debit notes (unregistered)');
+  const at = newSection('AT', '11A Advances received');
+  const txpd = newSection('TXPD', '11B Advances adjusted');
+  const nil = newSection('NIL', '8 Nil rated, exempted and non-GST supplies', false);
+  const hsn = newSection('HSN', '12 HSN-wise summary', false);
+
+  for (const party of list(json.b2b)) {
+    for (const inv of list(party.inv)) {
+      const target = inv.rchrg === 'Y' ? rcm
+        : inv.inv_typ === 'SEWP' || inv.inv_typ === 'SEWOP' ? sez
+        : inv.inv_typ === 'DE' ? deemed
+        : b2b;
+      target.documents!++;
+      addItems(target, inv.itms);
+    }
+  }
+  for (const group of list(json.b2cl)) {
+    for (const inv of list(group.inv)) {
+      b2cl.documents!++;
+      addItems(b2cl, inv.itms);
+    }
+  }
+  for (const row of list(json.b2cs)) {
+    b2cs.documents!++;
+    addAmounts(b2cs, row);
+  }
+  for (const group of list(json.exp)) {
+    for (const inv of list(group.inv)) {
+      exp.documents!++;
+      addItems(exp, inv.itms);
+    }
+  }
+  for (const party of list(json.cdnr)) {
+    for (const note of list(party.nt)) {
+      cdnr.documents!++;
+      addItems(cdnr, note.itms, note.ntty === 'C' ? -1 : 1);
+    }
+  }
+  for (const note of list(json.cdnur)) {
+    cdnur.documents!++;
+    addItems(cdnur, note.itms, note.ntty === 'C' ? -1 : 1);
+  }
+  const advanceKeys = { ...RETURN_KEYS, taxable: 'ad_amt' };
+  for (const row of list(json.at)) {
+    at.documents!++;
+    addItems(at, row.itms, 1, advanceKeys);
+  }
+  for (const row of list(json.txpd)) {
+    txpd.documents!++;
+    addItems(txpd, row.itms, -1, advanceKeys);
+  }
+  for (const row of list(json.nil?.inv)) {
+    nil.documents!++;
+    nil.taxableValue += num(row.nil_amt) + num(row.expt_amt) + num(row.ngsup_amt);
+  }
+  // hsn.data in older files, hsn_b2b / hsn_b2c since the B2B/B2C split
+  for (const row of [...list(json.hsn?.data), ...list(json.hsn?.hsn_b2b), ...list(json.hsn?.hsn_b2c)]) {
+    hsn.documents!++;
+    addAmounts(hsn, row);
+  }
+
+  const amended = ['b2ba', 'b2cla', 'b2csa', 'expa', 'cdnra', 'cdnura', 'ata', 'txpda'].filter(t => list(json[t]).length);
+  if (amended.length) {
+    warnings.push(`Amendment tables (${amended.map(t => t.toUpperCase()).join(', ')}) revise earlier periods and are not included in the totals.`);
+  }
+
+  const sections = finish([b2b, rcm, sez, deemed, b2cl, b2cs, exp, cdnr, cdnur, at, txpd, nil, hsn]);
+  // Advances carry tax but are not supplies; reverse-charge tax is the recipient's to pay
+  const taxableValue = sumOf(sections, s => s.taxableValue, ['B2B', 'B2B-RCM', 'SEZ', 'DE', 'B2CL', 'B2CS', 'EXP', 'CDNR', 'CDNUR']);
+  if (hsn.documents && Math.abs(hsn.taxableValue - taxableValue) > 1) {
+    warnings.push('HSN summary taxable value does not match the invoice tables.');
+  }
+
+  return {
+    sections,
+    taxableValue,
+    taxLiability: sumOf(sections, sectionTax, ['B2B', 'SEZ', 'DE', 'B2CL', 'B2CS', 'EXP', 'CDNR', 'CDNUR', 'AT', 'TXPD']),
+    itcAvailable: 0,
+    cashPaid: 0
+  };
+};
+
+const ITC_AVAILABLE_LABELS: Record<string, string> = {
+  IMPG: '4A(1) Import of goods',
+  IMPS: '4A(2) Import of services',
+  ISRC: '4A(3) Inward supplies liable to reverse charge',
+  ISD: '4A(4) Inward supplies from ISD',
+  OTH: '4A(5) All other ITC'
+};
+
+const parseGstr3b = (json: any, warnings: string[]) => {
+  const sup = json.sup_details || {};
+  const outward = newSection('3.1(a)', '3.1(a) Outward taxable supplies (other than zero, nil rated and exempted)');
+  const zero = newSection('3.1(b)', '3.1(b) Outward taxable supplies (zero rated)');
+  const nilExempt = newSection('3.1(c)', '3.1(c) Other outward supplies (nil rated, exempted)', false);
+  const reverse = newSection('3.1(d)', '3.1(d) Inward supplies (liable to reverse charge)');
+  const nonGst = newSection('3.1(e)', '3.1(e) Non-GST outward supplies', false);
+  addAmounts(outward, sup.osup_det);
+  addAmounts(zero, sup.osup_zero);
+  addAmounts(nilExempt, sup.osup_nil_exmp);
+  addAmounts(reverse, sup.isup_rev);
+  addAmounts(nonGst, sup.osup_nongst);
+
+  const eco = newSection('3.1.1', '3.1.1 Supplies notified under section 9(5)', false);
+  addAmounts(eco, json.eco_dtls?.eco_sup);
+  addAmounts(eco, json.eco_dtls?.eco_reg_sup);
+
+  const interState = newSection('3.2', '3.2 Inter-state supplies to unregistered, composition and UIN holders', false);
+  for (const key of ['unreg_details', 'comp_details', 'uin_details']) {
+    for (const row of list(json.inter_sup?.[key])) {
+      interState.documents!++;
+      addAmounts(interState, row);
+    }
+  }
+
+  const itc = json.itc_elg || {};
+  const available = list(itc.itc_avl).map(row => {
+    const s = newSection(`4A-${row.ty}`, ITC_AVAILABLE_LABELS[row.ty] || `4A ${row.ty}`, false);
+    addAmounts(s, row);
+    return s;
+  });
+  const reversed = list(itc.itc_rev).map(row => {
+    const s = newSection(`4B-${row.ty}`, row.ty === 'RUL' ? '4B(1) Reversed as per rules 38, 42 & 43 and section 17(5)' : '4B(2) Reversed – others', false);
+    addAmounts(s, row, -1);
+    return s;
+  });
+  // 4A / 4B are kept for detail; the summary uses 4C, derived when the file leaves it out
+  const net = newSection('4C', '4C Net ITC available (4A − 4B)');
+  if (itc.itc_net) addAmounts(net, itc.itc_net);
+  else [...available, ...reversed].forEach(s => addAmounts(net, { iamt: s.igst, camt: s.cgst, samt: s.sgst, csamt: s.cess }));
+  const ineligible = list(itc.itc_inelg).map(row => {
+    const s = newSection(`4D-${row.ty}`, row.ty === 'RUL' ? '4D(1) Ineligible ITC – as per rules / reclaimed' : '4D(2) Ineligible ITC – others', false);
+    addAmounts(s, row);
+    return s;
+  });
+
+  const exemptInward = newSection('5', '5 Exempt, nil rated and non-GST inward supplies', false);
+  for (const row of list(json.inward_sup?.isup_details)) {
+    exemptInward.taxableValue += num(row.inter) + num(row.intra);
+  }
+  const interest = newSection('5.1-INT', '5.1 Interest', false);
+  addAmounts(interest, json.intr_ltfee?.intr_details);
+  const lateFee = newSection('5.1-LF', '5.1 Late fee', false);
+  addAmounts(lateFee, json.intr_ltfee?.ltfee_details);
+
+  const paidCash = newSection('6.1-CASH', '6.1 Tax paid in cash');
+  const paidItc = newSection('6.1-ITC', '6.1 Tax paid through ITC', false);
+  for (const row of list(json.tx_pmt?.pdcash)) {
+    addAmounts(paidCash, { iamt: row.ipd, camt: row.cpd, samt: row.spd, csamt: row.cspd });
+  }
+  const pditc = json.tx_pmt?.pditc;
+  if (pditc) {
+    addAmounts(paidItc, {
+      iamt: num(pditc.i_pdi) + num(pditc.i_pdc) + num(pditc.i_pds),
+      camt: num(pditc.c_pdi) + num(pditc.c_pdc),
+      samt: num(pditc.s_pdi) + num(pditc.s_pds),
+      csamt: pditc.cs_pdcs
+    });
+  }
+  if (!json.tx_pmt) warnings.push('Payment details (table 6.1) are not in the file; cash paid is recorded as 0.');
+
+  const sections = finish([outward, zero, nilExempt, reverse, nonGst, eco, interState, ...available, ...reversed, net, ...ineligible, exemptInward, interest, lateFee, paidCash, paidItc]);
+  return {
+    sections,
+    taxableValue: sumOf(sections, s => s.taxableValue, ['3.1(a)', '3.1(b)']),
+    taxLiability: sumOf(sections, sectionTax, ['3.1(a)', '3.1(b)', '3.1(d)']),
+    itcAvailable: sumOf(sections, sectionTax, ['4C']),
+    cashPaid: sumOf(sections, sectionTax, ['6.1-CASH'])
+  };
+};
+
+const parseGstr2b = (statement: any, warnings: string[]) => {
+  const docs = statement.docdata || {};
+  const unavailable = newSection('ITC-NA', 'ITC not available', false);
+  const table = (code: string, label: string) => newSection(code, label);
+  const sections: Record<string, ReturnSection> = {
+    b2b: table('B2B', 'B2B invoices'),
+    b2ba: table('B2BA', 'B2B invoices (amendment)'),
+    cdnr: table('CDNR', 'Credit / debit notes'),
+    cdnra: table('CDNRA', 'Credit / debit notes (amendment)'),
+    isd: table('ISD', 'ISD credits'),
+    isda: table('ISDA', 'ISD credits (amendment)'),
+    impg: table('IMPG', 'Import of goods'),
+    impgsez: table('IMPGSEZ', 'Import of goods from SEZ'),
+    ecom: table('ECO', 'Documents reported by e-commerce operators')
+  };
+
+  // A document lands in its table when ITC is available, otherwise in ITC-NA
+  const addDocument = (key: string, doc: any, sign = 1) => {
+    const target = doc.itcavl === 'N' || doc.itcelg === 'N' ? unavailable : sections[key];
+    target.documents!++;
+    addAmounts(target, doc, sign, STATEMENT_KEYS);
+  };
+
+  for (const key of ['b2b', 'b2ba', 'ecom']) {
+    for (const party of list(docs[key])) list(party.inv).forEach(inv => addDocument(key, inv));
+  }
+  for (const key of ['cdnr', 'cdnra']) {
+    for (const party of list(docs[key])) list(party.nt).forEach(note => addDocument(key, note, note.typ === 'C' ? -1 : 1));
+  }
+  for (const key of ['isd', 'isda']) {
+    for (const party of list(docs[key])) list(party.doclist).forEach(doc => addDocument(key, doc, doc.doctyp === 'C' ? -1 : 1));
+  }
+  list(docs.impg).forEach(boe => addDocument('impg', boe));
+  for (const party of list(docs.impgsez)) list(party.boe).forEach(boe => addDocument('impgsez', boe));
+
+  const result = finish([...Object.values(sections), unavailable]);
+  let itcAvailable = sumOf(result, sectionTax);
+  // Summary-only downloads carry no document detail
+  if (!result.some(s => s.inTotals) && statement.itcsumm?.itcavl) {
+    const heads = Object.values<any>(statement.itcsumm.itcavl);
+    itcAvailable = round(heads.reduce((sum, h) => sum + num(h?.igst) + num(h?.cgst) + num(h?.sgst) + num(h?.cess), 0));
+    warnings.push('No document details in the file; ITC taken from the statement summary.');
+  }
+
+  return {
+    sections: result,
+    taxableValue: sumOf(result, s => s.taxableValue),
+    taxLiability: 0,
+    itcAvailable,
+    cashPaid: 0
+  };
+};
+
+// GSTR-9 table keys -> table codes; the codes are what utils/annualReturn compares
+const GSTR9_TABLES: { table: string; key: string; code: string; label: string; sign?: number; inTotals?: boolean }[] = [
+  { table: 'table4', key: 'b2c', code: '4A', label: '4A Supplies to unregistered persons (B2C)' },
+  { table: 'table4', key: 'b2b', code: '4B', label: '4B Supplies to registered persons (B2B)' },
+  { table: 'table4', key: 'exp', code: '4C', label: '4C Zero rated supply (export) on payment of tax' },
+  { table: 'table4', key: 'sez', code: '4D', label: '4D Supplies to SEZ on payment of tax' },
+  { table: 'table4', key: 'deemed', code: '4E', label: '4E Deemed exports' },
+  { table: 'table4', key: 'at', code: '4F', label: '4F Advances on which tax paid but invoice not issued' },
+  { table: 'table4', key: 'rchrg', code: '4G', label: '4G Inward supplies on which tax is payable on reverse charge', inTotals: false },
+  { table: 'table4', key: 'cr_nt', code: '4I', label: '4I Credit notes', sign: -1 },
+  { table: 'table4', key: 'dr_nt', code: '4J', label: '4J Debit notes' },
+  { table: 'table4', key: 'amd_pos', code: '4K', label: '4K Supplies declared through amendments (+)' },
+  { table: 'table4', key: 'amd_neg', code: '4L', label: '4L Supplies reduced through amendments (–)', sign: -1 },
+  { table: 'table5', key: 'zero_rtd', code: '5A', label: '5A Zero rated supply (export) without payment of tax' },
+  { table: 'table5', key: 'sez', code: '5B', label: '5B Supplies to SEZ without payment of tax' },
+  { table: 'table5', key: 'rchrg', code: '5C', label: '5C Supplies on which tax is paid by the recipient' },
+  { table: 'table5', key: 'exmt', code: '5D', label: '5D Exempted' },
+  { table: 'table5', key: 'nil', code: '5E', label: '5E Nil rated' },
+  { table: 'table5', key: 'non_gst', code: '5F', label: '5F Non-GST supply' },
+  { table: 'table5', key: 'cr_nt', code: '5H', label: '5H Credit notes', sign: -1 },
+  { table: 'table5', key: 'dr_nt', code: '5I', label: '5I Debit notes' },
+  { table: 'table5', key: 'amd_pos', code: '5J', label: '5J Supplies declared through amendments (+)' },
+  { table: 'table5', key: 'amd_neg', code: '5K', label: '5K Supplies reduced through amendments (–)', sign: -1 },
+  { table: 'table6', key: 'itc_3b', code: '6A', label: '6A Total ITC availed through GSTR-3B', inTotals: false },
+  { table: 'table6', key: 'supp_non_rchrg', code: '6B', label: '6B Inward supplies (other than imports and reverse charge)' },
+  { table: 'table6', key: 'supp_rchrg_unreg', code: '6C', label: '6C Reverse charge – unregistered persons' },
+  { table: 'table6', key: 'supp_rchrg_reg', code: '6D', label: '6D Reverse charge – registered persons' },
+  { table: 'table6', key: 'iog', code: '6E', label: '6E Import of goods' },
+  { table: 'table6', key: 'ios', code: '6F', label: '6F Import of services' },
+  { table: 'table6', key: 'isd', code: '6G', label: '6G Input Service Distributor' },
+  { table: 'table6', key: 'itc_clmd_reg', code: '6H', label: '6H ITC reclaimed' },
+  { table: 'table6', key: 'tran1', code: '6K', label: '6K TRAN-1 credit' },
+  { table: 'table6', key: 'tran2', code: '6L', label: '6L TRAN-2 credit' },
+  { table: 'table6', key: 'other', code: '6M', label: '6M Any other ITC availed' },
+  { table: 'table8', key: 'itc_2a', code: '8A', label: '8A ITC as per GSTR-2A / 2B', inTotals: false }
+];
+
+const GSTR9_REVERSALS = ['rule37', 'rule39', 'rule42', 'rule43', 'sec17', 'revsl_tran1', 'revsl_tran2', 'other'];
+const GSTR9_HEADS: Record<string, 'igst' | 'cgst' | 'sgst' | 'cess'> = { iamt: 'igst', camt: 'cgst', samt: 'sgst', csamt: 'cess' };
+
+// Tables hold one amounts object, or rows of them (ITC split by type, other reversals)
+const rowsOf = (value: any): any[] => (Array.isArray(value) ? value : value && typeof value === 'object' ? [value] : []);
+
+const parseGstr9 = (json: any, warnings: string[]) => {
+  const tables = GSTR9_TABLES.map(t => {
+    const s = newSection(t.code, t.label, t.inTotals ?? true);
+    rowsOf(json[t.table]?.[t.key]).forEach(row => addAmounts(s, row, t.sign || 1));
+    return s;
+  });
+  const reversed = newSection('7', '7 ITC reversed and ineligible', false);
+  for (const key of GSTR9_REVERSALS) rowsOf(json.table7?.[key]).forEach(row => addAmounts(reversed, row, -1));
+
+  const payable = newSection('9-PAY', '9 Tax payable', false);
+  const paidCash = newSection('9-CASH', '9 Tax paid in cash', false);
+  const paidItc = newSection('9-ITC', '9 Tax paid through ITC', false);
+  for (const [key, head] of Object.entries(GSTR9_HEADS)) {
+    const row = json.table9?.[key];
+    if (!row) continue;
+    payable[head] += num(row.txpyble);
+    paidCash[head] += num(row.txpaid_cash);
+    paidItc[head] += Object.keys(row).filter(k => k.startsWith('tax_paid_itc')).reduce((sum, k) => sum + num(row[k]), 0);
+  }
+  if (!json.table9) warnings.push('Table 9 (tax paid) is not in the file.');
+
+  const sections = finish([...tables, reversed, payable, paidCash, paidItc]);
+  const outward = sections.filter(s => /^[45]/.test(s.code) && s.code !== '4G');
+  const itc = sections.filter(s => /^6[B-M]$/.test(s.code));
+  return {
+    sections,
+    taxableValue: round(outward.reduce((sum, s) => sum + s.taxableValue, 0)),
+    taxLiability: sections.some(s => s.code === '9-PAY') ? sumOf(sections, sectionTax, ['9-PAY']) : round(outward.reduce((sum, s) => sum + sectionTax(s), 0)),
+    itcAvailable: round(itc.reduce((sum, s) => sum + sectionTax(s), 0) + sumOf(sections, sectionTax, ['7'])),
+    cashPaid: sumOf(sections, sectionTax, ['9-CASH'])
+  };
+};
+
+// GSTR-9 is filed once a year: "FY 2023-24", from fy or the March return period
+const annualPeriod = (json: any): { period: string; financialYear: string } | undefined => {
+  const fy = String(json.fy ?? '').trim().match(/^(\d{4})-(\d{2})$/);
+  const financialYear = fy ? fy[0] : portalPeriod(json.fp || json.ret_period)?.financialYear;
+  return financialYear ? { period: `FY ${financialYear}`, financialYear } : undefined;
+};
+
+export const parseReturnJson = (json: any, fileName: string): ParsedReturn => {
+  const returnType = detectReturnType(json);
+  if (!returnType) throw new Error('Not a recognised GSTR-1, GSTR-3B, GSTR-2B or GSTR-9 JSON file.');
+
+  const warnings: string[] = [];
+  const statement = returnType === 'GSTR-2B' ? (json.data && typeof json.data === 'object' ? json.data : json) : json;
+  const gstin = String(statement.gstin || '').trim().toUpperCase();
+  if (!gstin) throw new Error('GSTIN missing in file.');
+  const period = returnType === 'GSTR-9' ? annualPeriod(json) : portalPeriod(statement.fp || statement.ret_period || statement.rtnprd);
+  if (!period) throw new Error(`Unreadable return period "${statement.fy || statement.fp || statement.ret_period || statement.rtnprd || ''}".`);
+
+  const summary = returnType === 'GSTR-1' ? parseGstr1(json, warnings)
+    : returnType === 'GSTR-3B' ? parseGstr3b(json, warnings)
+    : returnType === 'GSTR-9' ? parseGstr9(json, warnings)
+    : parseGstr2b(statement, warnings);
+
+  // 2B is a generated statement; its generation date stands in for the filing date
+  const filingDate = returnType === 'GSTR-2B' ? portalDate(statement.gendt) : filingDateOf(json);
+  if (!filingDate && returnType !== 'GSTR-2B') warnings.push('No filing date in the file.');
+  if (!summary.sections.length) warnings.push('The file has no table data.');
+
+  return {
+    record: {
+      gstin,
+      returnType,
+      period: period.period,
+      financialYear: period.financialYear,
+      filingDate,
+      arn: json.arn || statement.arn || undefined,
+      taxableValue: summary.taxableValue,
+      taxLiability: summary.taxLiability,
+      itcAvailable: summary.itcAvailable,
+      cashPaid: summary.cashPaid,
+      status: 'Filed',
+      sourceFile: fileName,
+      sections: summary.sections,
+      importedAt: new Date().toISOString()
+    },
+    warnings
+  };
+};
+
+const returnKey = (r: Pick<ReturnRecord, 'gstin' | 'returnType' | 'period'>) => `${r.gstin}|${r.returnType}|${r.period}`;
+
+// Parses every file and flags periods already on record; nothing is written here
+export const readReturnFiles = async (files: File[]): Promise<ReturnImportRow[]> => {
+  const knownGstins = new Set((await db.taxpayers.toArray()).map(t => t.gstin));
+  const seen = new Map<string, string>();
+  const rows: ReturnImportRow[] = [];
+
+  for (const file of files) {
+    const row: ReturnImportRow = { fileName: file.name, action: 'import' };
+    try {
+      let json: any;
+      try {
+        json = JSON.parse(await file.text());
+      } catch {
+        throw new Error('File is not valid JSON.');
+      }
+      row.parsed = parseReturnJson(json, file.name);
+      const { record, warnings } = row.parsed;
+      if (!knownGstins.has(record.gstin)) warnings.push(`GSTIN ${record.gstin} is not in the taxpayer master.`);
+
+      const key = returnKey(record);
+      const existing = await db.returns.where('gstin').equals(record.gstin)
+        .and(r => r.returnType === record.returnType && r.period === record.period).first();
+      if (seen.has(key)) {
+        row.batchDuplicateOf = seen.get(key);
+        row.action = 'skip';
+      } else {
+        seen.set(key, file.name);
+        if (existing) {
+          row.duplicateId = existing.id;
+          row.action = 'skip';
+        }
+      }
+    } catch (e) {
+      row.error = e instanceof Error ? e.message : String(e);
+      row.action = 'skip';
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const applyReturnImport = async (rows: ReturnImportRow[], username: string): Promise<ReturnImportRow[]> => {
+  const results = rows.map(r => ({ ...r }));
+  await db.transaction('rw', db.returns, db.auditLogs, async () => {
+    for (const row of results) {
+      if (!row.parsed || row.error) {
+        row.outcome = row.error ? 'Failed' : 'Skipped';
+      } else if (row.action === 'replace' && row.duplicateId) {
+        await db.returns.put({ ...row.parsed.record, id: row.duplicateId });
+        row.outcome = 'Replaced';
+      } else if (row.action === 'import' && !row.duplicateId && !row.batchDuplicateOf) {
+        await db.returns.add(row.parsed.record);
+        row.outcome = 'Imported';
+      } else {
+        row.outcome = 'Skipped';
+      }
+    }
+
+    const count = (outcome: ReturnImportRow['outcome']) => results.filter(r => r.outcome === outcome).length;
+    await db.auditLogs.add({
+      entityType: 'Return', entityId: 'BULK', action: 'Create', timestamp: new Date().toISOString(), user: username,
+      details: `Portal JSON import: ${count('Imported')} imported, ${count('Replaced')} replaced, ${count('Skipped')} skipped, ${count('Failed')} failed (${results.map(r => r.fileName).join(', ')})`
+    });
+  });
+  return results;
+};
@@ -0,0 +1,66 @@
+import { SecurityPolicy } from '../types';
+
+// Password storage: PBKDF2-SHA256 via WebCrypto with a per-user random salt.
+// Stored format: pbkdf2$sha256$<iterations>$<salt b64>$<hash b64>
+// Rows created before hashing hold the plain password and are re-hashed on migration / next login.
+
+export const PASSWORD_HASH_ITERATIONS = 210000;
+export const PASSWORD_MIN_LENGTH = 8;
+const HASH_PREFIX = 'pbkdf2$sha256$';
+const KEY_BITS = 256;
+
+export const DEFAULT_SECURITY_POLICY: SecurityPolicy = {
+  maxFailedAttempts: 5,
+  lockoutMinutes: 15,
+  idleTimeoutMinutes: 30,
+  absoluteTimeoutHours: 12
+};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (b64: string): Uint8Array => Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+
+export const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, KEY_BITS);
+  return new Uint8Array(bits);
+};
+
+// Compares without short-circuiting on the first differing byte
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+export const isHashedPassword = (stored?: string): boolean => !!stored && stored.startsWith(HASH_PREFIX);
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await derive(password, salt, PASSWORD_HASH_ITERATIONS);
+  return `${HASH_PREFIX}${PASSWORD_HASH_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  if (!isHashedPassword(stored)) {
+    const enc = new TextEncoder();
+    return constantTimeEqual(enc.encode(password), enc.encode(stored));
+  }
+  const [, , iterations, salt, hash] = stored.split('$');
+  const derived = await derive(password, fromBase64(salt), parseInt(iterations));
+  return constantTimeEqual(derived, fromBase64(hash));
+};
+
+// Returns an error message, or null when the password is acceptable
+export const validateNewPassword = (password: string, username: string): string | null => {
+  if (password.length < PASSWORD_MIN_LENGTH) return `Password must be at least ${PASSWORD_MIN_LENGTH} characters.`;
+  if (password.toLowerCase() === username.toLowerCase()) return 'Password cannot be the same as the username.';
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) return 'Password must contain both letters and numbers.';
+  return null;
+};
+
+export const generateSessionToken = (): string => {
+  return Array.from(randomBytes(32), b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,84 @@
+import { CaseWorkflow, Notice, NoticeStatus, UserRole, WorkflowAction, WorkflowField, WorkflowTransition } from '../types';
+
+// Notice workflow: each case track (caseType) has the status changes it allows, who may make them,
+// what has to be recorded on the way and what happens automatically. Tracks without a workflow of
+// their own use the default one (caseType ''). Stored in appConfig under 'workflows'.
+
+export const WORKFLOW_CONFIG_KEY = 'workflows';
+
+export const WORKFLOW_FIELDS: { key: WorkflowField; label: string; kind: 'date' | 'time' | 'text' | 'textarea' }[] = [
+  { key: 'replyFiledDate', label: 'Reply filed on', kind: 'date' },
+  { key: 'replyAckArn', label: 'Acknowledgement ARN', kind: 'text' },
+  { key: 'orderNumber', label: 'Order reference number', kind: 'text' },
+  { key: 'orderDate', label: 'Order date', kind: 'date' },
+  { key: 'closureReason', label: 'Reason for closure', kind: 'textarea' },
+  { key: 'hearingDate', label: 'Hearing date', kind: 'date' },
+  { key: 'hearingTime', label: 'Hearing time', kind: 'time' },
+  { key: 'hearingVenue', label: 'Hearing venue', kind: 'text' }
+];
+
+export const WORKFLOW_ACTIONS: { key: WorkflowAction; label: string; description: string; needs: WorkflowField[] }[] = [
+  { key: 'createHearing', label: 'Create hearing', description: 'Schedules a personal hearing on the hearings tab', needs: ['hearingDate'] },
+  { key: 'startContestClock', label: 'Start contest clock', description: 'Tracks the appeal deadline from the order date; the notice keeps its own type and issue date', needs: ['orderDate'] }
+];
+
+// Hearing fields create the hearing; the others are kept on the notice
+export const NOTICE_WORKFLOW_FIELDS: WorkflowField[] = ['replyFiledDate', 'replyAckArn', 'orderNumber', 'orderDate', 'closureReason'];
+
+export type WorkflowValues = Partial<Record<WorkflowField, string>>;
+
+const SENIOR_ROLES = [UserRole.ADMIN, UserRole.SENIOR_ASSOCIATE];
+
+export const DEFAULT_WORKFLOWS: CaseWorkflow[] = [
+  {
+    caseType: '',
+    transitions: [
+      { from: [NoticeStatus.RECEIVED], to: NoticeStatus.ASSIGNED, requiredFields: [], roles: [], actions: [] },
+      { from: [NoticeStatus.RECEIVED, NoticeStatus.ASSIGNED], to: NoticeStatus.DRAFTING, requiredFields: [], roles: [], actions: [] },
+      { from: [NoticeStatus.RECEIVED, NoticeStatus.ASSIGNED, NoticeStatus.DRAFTING, NoticeStatus.HEARING], to: NoticeStatus.FILED, requiredFields: ['replyFiledDate', 'replyAckArn'], roles: [], actions: [] },
+      { from: [NoticeStatus.FILED], to: NoticeStatus.HEARING, requiredFields: ['hearingDate'], roles: [], actions: ['createHearing'] },
+      { from: [NoticeStatus.FILED, NoticeStatus.HEARING], to: 'Order Passed', requiredFields: ['orderNumber', 'orderDate'], roles: [], actions: ['startContestClock'] },
+      { from: ['Order Passed', 'Rectification Filed'], to: 'Appeal Filed', requiredFields: [], roles: [], actions: [] },
+      { from: ['Order Passed'], to: 'Rectification Filed', requiredFields: [], roles: [], actions: [] },
+      { from: [], to: NoticeStatus.CLOSED, requiredFields: ['closureReason'], roles: SENIOR_ROLES, actions: [] },
+      { from: [NoticeStatus.CLOSED], to: NoticeStatus.RECEIVED, requiredFields: [], roles: [UserRole.ADMIN], actions: [] }
+    ]
+  }
+];
+
+export const getWorkflow = (workflows: CaseWorkflow[], caseType?: string): CaseWorkflow =>
+  workflows.find(w => w.caseType && w.caseType === caseType) || workflows.find(w => !w.caseType) || DEFAULT_WORKFLOWS[0];
+
+// Fields the user has to fill, including those the side effects depend on
+export const getRequiredFields = (transition: WorkflowTransition): WorkflowField[] =>
+  Array.from(new Set([...transition.requiredFields, ...transition.actions.flatMap(a => WORKFLOW_ACTIONS.find(x => x.key === a)?.needs || [])]));
+
+const appliesFrom = (transition: WorkflowTransition, status: string) =>
+  transition.to !== status && (transition.from.length === 0 || transition.from.includes(status));
+
+const roleAllowed = (transition: WorkflowTransition, role?: string) =>
+  transition.roles.length === 0 || (!!role && transition.roles.includes(role));
+
+// Status changes this user can make on the notice, in workflow order
+export const getAvailableTransitions = (workflows: CaseWorkflow[], notice: Pick<Notice, 'status' | 'caseType'>, role?: string) =>
+  getWorkflow(workflows, notice.caseType).transitions.filter(t => appliesFrom(t, notice.status) && roleAllowed(t, role));
+
+export type TransitionCheck = { transition: WorkflowTransition; error?: undefined } | { transition?: undefined; error: string };
+
+export const checkTransition = (workflows: CaseWorkflow[], notice: Pick<Notice, 'status' | 'caseType'>, to: string, role?: string): TransitionCheck => {
+  const workflow = getWorkflow(workflows, notice.caseType);
+  const routes = workflow.transitions.filter(t => t.to === to && appliesFrom(t, notice.status));
+  if (routes.length === 0) return { error: `The ${workflow.caseType || 'default'} workflow does not allow moving from "${notice.status}" to "${to}".` };
+  const transition = routes.find(t => roleAllowed(t, role));
+  if (!transition) return { error: `Only ${Array.from(new Set(routes.flatMap(t => t.roles))).join(' / ')} can move a case to "${to}".` };
+  return { transition };
+};
+
+// What is already on the notice counts, so a reply ARN entered earlier need not be typed again
+export const prefillValues = (notice: Partial<Notice>): WorkflowValues =>
+  Object.fromEntries(NOTICE_WORKFLOW_FIELDS.filter(f => notice[f]).map(f => [f, String(notice[f])]));
+
+export const getMissingFields = (transition: WorkflowTransition, values: WorkflowValues): WorkflowField[] =>
+  getRequiredFields(transition).filter(f => !values[f]?.trim());
+
+export const fieldLabel = (field: WorkflowField) => WORKFLOW_FIELDS.find(f => f.key === field)?.label || field;
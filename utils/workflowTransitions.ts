@@ -0,0 +1,70 @@
+import { db } from '../db';
+import { CaseWorkflow, HearingStatus, Notice, User } from '../types';
+import { formatCurrency } from './formatting';
+import { APPEAL_STATUSES, getNoticePreDeposit } from './preDeposit';
+import { checkTransition, DEFAULT_WORKFLOWS, fieldLabel, getMissingFields, NOTICE_WORKFLOW_FIELDS, prefillValues, WORKFLOW_CONFIG_KEY, WorkflowValues } from './workflow';
+
+// Every status change goes through here, from the list, the detail page or as the result of
+// another record (a hearing or appeal being saved), so the workflow is enforced the same way.
+
+export const getWorkflows = async (): Promise<CaseWorkflow[]> =>
+  (await db.appConfig.get({ key: WORKFLOW_CONFIG_KEY }))?.value || DEFAULT_WORKFLOWS;
+
+export interface TransitionOptions {
+  // Set when the status follows from a record just saved (a hearing, an appeal): that record stands
+  // in for the fields and side effects, and a status the workflow does not allow is left unchanged
+  automatic?: boolean;
+  source?: string;
+}
+
+// Returns the notice changes made, or null when an automatic change is not allowed.
+// Throws with a message for the user when a requested change cannot be made.
+export const applyTransition = async (noticeId: number, to: string, values: WorkflowValues, user: Pick<User, 'username' | 'role'>, options: TransitionOptions = {}): Promise<Partial<Notice> | null> => {
+  const notice = await db.notices.get(noticeId);
+  if (!notice) throw new Error('Notice not found.');
+  const check = checkTransition(await getWorkflows(), notice, to, user.role);
+  if (!check.transition) {
+    if (options.automatic) return null;
+    throw new Error(check.error);
+  }
+  const transition = check.transition;
+  const merged = { ...prefillValues(notice), ...values };
+  const missing = options.automatic ? [] : getMissingFields(transition, merged);
+  if (missing.length) throw new Error(`Moving to "${to}" needs: ${missing.map(fieldLabel).join(', ')}.`);
+
+  // Appeal statuses can only be set once the mandatory pre-deposit has been made
+  if (APPEAL_STATUSES.includes(to)) {
+    const result = await getNoticePreDeposit(noticeId);
+    if (!result.isSatisfied) {
+      if (options.automatic) return null;
+      throw new Error(`Pre-deposit for ${result.stage} is short by ${formatCurrency(result.totalShortfall)}. Record the deposit in the Defects & Payments tab first.`);
+    }
+  }
+
+  const changes: Partial<Notice> = { status: to };
+  NOTICE_WORKFLOW_FIELDS.forEach(f => { if (values[f]?.trim()) changes[f] = values[f]!.trim(); });
+  const effects: string[] = [];
+  const actions = options.automatic ? [] : transition.actions;
+  // The contest tracker reads orderDate; the notice keeps its own type and issue date
+  if (actions.includes('startContestClock')) {
+    changes.orderDate = merged.orderDate;
+    effects.push(`contest clock started from ${merged.orderDate}`);
+  }
+
+  const timestamp = new Date().toISOString();
+  await db.transaction('rw', db.notices, db.hearings, db.auditLogs, async () => {
+    await db.notices.update(noticeId, changes);
+    if (actions.includes('createHearing')) {
+      await db.hearings.add({
+        noticeId, type: 'Personal Hearing', date: merged.hearingDate!, time: merged.hearingTime || '11:00', venue: merged.hearingVenue || '', status: HearingStatus.SCHEDULED
+      });
+      effects.push(`hearing scheduled for ${merged.hearingDate}`);
+    }
+    const recorded = NOTICE_WORKFLOW_FIELDS.filter(f => changes[f]).map(f => `${fieldLabel(f)}: ${changes[f]}`);
+    await db.auditLogs.add({
+      entityType: 'Notice', entityId: noticeId, action: 'StatusChange', timestamp, user: user.username,
+      details: `Status changed from '${notice.status}' to '${to}'${options.source ? ` (${options.source})` : ''}${[...recorded, ...effects].length ? `; ${[...recorded, ...effects].join('; ')}` : ''}`
+    });
+  });
+  return changes;
+};